@@ -11,6 +11,8 @@ import Register from "./pages/Register";
 import VerifyEmail from "./pages/VerifyEmail";
 import Events from "./pages/Events";
 import EventDetail from "./pages/EventDetail";
+import EventCheckIn from "./pages/EventCheckIn";
+import EventAnalytics from "./pages/EventAnalytics";
 import Admin from "./pages/Admin";
 import Settings from "./pages/Settings";
 import SelectRole from "./pages/SelectRole";
@@ -41,7 +43,9 @@ const App = () => (
             <Route path="/artists/:id" element={<ArtistDetail />} />
             <Route path="/events" element={<Events />} />
             <Route path="/events/:id" element={<EventDetail />} />
+            <Route path="/events/:id/check-in" element={<EventCheckIn />} />
             <Route path="/events/create" element={<CreateEvent />} />
+            <Route path="/events/analytics" element={<EventAnalytics />} />
             <Route path="/events/create/selectartist" element={<SelectArtistForEvent />} />
             <Route path="/events/create/createartist" element={<CreateArtistForEvent />} />
             <Route path="/admin" element={<Admin />} />
@@ -0,0 +1,340 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, FileSpreadsheet, Printer, Search, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { formatTicketCode } from '@/lib/tickets';
+import { downloadCsv, downloadXlsx, toFileName, type ExportCell } from '@/lib/export';
+
+interface AttendeeRosterProps {
+  eventId: string;
+  eventTitle?: string;
+  eventDate?: string;
+  priceTiers?: { id: string; name: string }[];
+}
+
+interface RosterEntry {
+  id: string;
+  attendee_name: string;
+  attendee_email: string;
+  amount: number | null;
+  status: string;
+  price_tier_id: string | null;
+  ticket_code: string | null;
+  checked_in_at: string | null;
+  created_at: string;
+}
+
+type SortKey = 'attendee_name' | 'price_tier_id' | 'amount' | 'status' | 'created_at';
+
+const STATUSES = ['confirmed', 'pending', 'cancelled', 'rejected'];
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  confirmed: 'default',
+  pending: 'secondary',
+  rejected: 'destructive',
+  cancelled: 'outline',
+};
+
+// Escape HTML special characters for the printable door list
+const escapeHtml = (str: string) =>
+  str.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] || c));
+
+export default function AttendeeRoster({ eventId, eventTitle, eventDate, priceTiers = [] }: AttendeeRosterProps) {
+  const [entries, setEntries] = useState<RosterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [tierFilter, setTierFilter] = useState('all');
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'attendee_name', ascending: true });
+  const [exporting, setExporting] = useState(false);
+
+  const fetchRoster = useCallback(async () => {
+    // Full attendee details come from bookings directly (RLS allows if user owns the event)
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('id, attendee_name, attendee_email, amount, status, price_tier_id, ticket_code, checked_in_at, created_at')
+      .eq('event_id', eventId);
+
+    if (error) {
+      console.error('Error fetching attendee roster:', error);
+    } else {
+      setEntries(data || []);
+    }
+    setLoading(false);
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchRoster();
+
+    const channel = supabase
+      .channel(`roster-${eventId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'bookings',
+          filter: `event_id=eq.${eventId}`
+        },
+        () => {
+          fetchRoster();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [eventId, fetchRoster]);
+
+  const getTierName = (tierId: string | null) => {
+    if (!tierId) return '';
+    return priceTiers.find(t => t.id === tierId)?.name || '';
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+  };
+
+  const compareEntries = (a: RosterEntry, b: RosterEntry) => {
+    switch (sort.key) {
+      case 'amount':
+        return (a.amount ?? 0) - (b.amount ?? 0);
+      case 'price_tier_id':
+        return getTierName(a.price_tier_id).localeCompare(getTierName(b.price_tier_id));
+      case 'created_at':
+        return a.created_at.localeCompare(b.created_at);
+      default:
+        return (a[sort.key] || '').localeCompare(b[sort.key] || '', undefined, { sensitivity: 'base' });
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const filteredEntries = entries
+    .filter(e => statusFilter === 'all' || e.status === statusFilter)
+    .filter(e => tierFilter === 'all' || e.price_tier_id === tierFilter)
+    .filter(e => !query || e.attendee_name.toLowerCase().includes(query) || e.attendee_email.toLowerCase().includes(query))
+    .sort((a, b) => (sort.ascending ? 1 : -1) * compareEntries(a, b));
+
+  const confirmedCount = entries.filter(e => e.status === 'confirmed').length;
+  const exportName = toFileName(`${eventTitle || 'event'}-attendees`);
+
+  const getExportRows = (): ExportCell[][] => [
+    ['Name', 'Email', 'Tier', 'Amount', 'Status', 'Booked At', 'Checked In At'],
+    ...filteredEntries.map(e => [
+      e.attendee_name,
+      e.attendee_email,
+      getTierName(e.price_tier_id),
+      e.amount ?? 0,
+      e.status,
+      format(new Date(e.created_at), 'yyyy-MM-dd HH:mm'),
+      e.checked_in_at ? format(new Date(e.checked_in_at), 'yyyy-MM-dd HH:mm') : '',
+    ]),
+  ];
+
+  const handleExportXlsx = async () => {
+    setExporting(true);
+    try {
+      await downloadXlsx(getExportRows(), exportName, 'Attendees');
+    } catch (error) {
+      console.error('Error exporting attendees:', error);
+      toast.error('Failed to export attendees');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Opens an alphabetical list of confirmed attendees to print before doors open
+  const handlePrintDoorList = () => {
+    const attendees = entries
+      .filter(e => e.status === 'confirmed')
+      .sort((a, b) => a.attendee_name.localeCompare(b.attendee_name, undefined, { sensitivity: 'base' }));
+
+    if (attendees.length === 0) {
+      toast.error('No confirmed attendees to print');
+      return;
+    }
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print the door list');
+      return;
+    }
+
+    const title = escapeHtml(eventTitle || 'Event');
+    const dateText = eventDate ? escapeHtml(format(new Date(`${eventDate}T00:00:00`), 'EEEE, MMMM d, yyyy')) : '';
+    const rows = attendees.map((e, index) => `
+      <tr>
+        <td class="check"></td>
+        <td>${index + 1}</td>
+        <td><strong>${escapeHtml(e.attendee_name)}</strong></td>
+        <td>${escapeHtml(getTierName(e.price_tier_id))}</td>
+        <td class="code">${e.ticket_code ? escapeHtml(formatTicketCode(e.ticket_code)) : ''}</td>
+      </tr>`).join('');
+
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>Door List - ${title}</title>
+  <style>
+    body { font-family: sans-serif; color: #111; margin: 24px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    p { margin: 0 0 16px; color: #555; font-size: 13px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { border-bottom: 1px solid #ccc; padding: 6px 8px; text-align: left; }
+    th { font-size: 11px; text-transform: uppercase; color: #555; }
+    tr { break-inside: avoid; }
+    td.check { width: 18px; }
+    td.check::before { content: ''; display: block; width: 14px; height: 14px; border: 1.5px solid #111; }
+    td.code { font-family: monospace; font-size: 11px; color: #555; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p>${dateText}${dateText ? ' &middot; ' : ''}${attendees.length} confirmed ${attendees.length === 1 ? 'attendee' : 'attendees'}</p>
+  <table>
+    <thead><tr><th></th><th>#</th><th>Name</th><th>Tier</th><th>Ticket Code</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const renderSortHead = (key: SortKey, label: string, className?: string) => (
+    <TableHead className={className}>
+      <button type="button" className="flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(key)}>
+        {label}
+        {sort.key !== key ? (
+          <ArrowUpDown className="h-3 w-3 opacity-50" />
+        ) : sort.ascending ? (
+          <ArrowUp className="h-3 w-3" />
+        ) : (
+          <ArrowDown className="h-3 w-3" />
+        )}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <Card className="bg-card/50">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+          <div className="space-y-1">
+            <CardTitle className="text-xl">Attendees</CardTitle>
+            <CardDescription>
+              {entries.length} {entries.length === 1 ? 'ticket' : 'tickets'} · {confirmedCount} confirmed
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => downloadCsv(getExportRows(), exportName)} disabled={filteredEntries.length === 0}>
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleExportXlsx} disabled={exporting || filteredEntries.length === 0}>
+              <FileSpreadsheet className="h-4 w-4" />
+              XLSX
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={handlePrintDoorList} disabled={confirmedCount === 0}>
+              <Printer className="h-4 w-4" />
+              Door List
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name or email"
+              className="pl-9"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {STATUSES.map(status => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {priceTiers.length > 0 && (
+            <Select value={tierFilter} onValueChange={setTierFilter}>
+              <SelectTrigger className="sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All tiers</SelectItem>
+                {priceTiers.map(tier => (
+                  <SelectItem key={tier.id} value={tier.id}>{tier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            {entries.length === 0 ? 'No tickets booked yet.' : 'No attendees match these filters.'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {renderSortHead('attendee_name', 'Name')}
+                {priceTiers.length > 0 && renderSortHead('price_tier_id', 'Tier', 'hidden md:table-cell')}
+                {renderSortHead('amount', 'Amount')}
+                {renderSortHead('status', 'Status')}
+                {renderSortHead('created_at', 'Booked', 'hidden sm:table-cell')}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredEntries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <p className="font-medium">{entry.attendee_name}</p>
+                    <p className="text-xs text-muted-foreground">{entry.attendee_email}</p>
+                  </TableCell>
+                  {priceTiers.length > 0 && (
+                    <TableCell className="hidden md:table-cell">{getTierName(entry.price_tier_id) || '—'}</TableCell>
+                  )}
+                  <TableCell>${Number(entry.amount ?? 0).toFixed(2)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col items-start gap-1">
+                      <Badge variant={statusVariants[entry.status] || 'secondary'} className="capitalize">{entry.status}</Badge>
+                      {entry.checked_in_at && (
+                        <span className="text-xs text-muted-foreground">Checked in</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="hidden sm:table-cell text-muted-foreground">
+                    {format(new Date(entry.created_at), 'MMM d, h:mm a')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,26 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { CheckCircle, XCircle, Eye, Calendar, Mail, User, DollarSign } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle, XCircle, Eye, Calendar, Mail, User, DollarSign, Ticket, RotateCcw } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
+import AttendeeRoster from '@/components/AttendeeRoster';
+
+const REFUND_METHODS = ['Original payment method', 'Card (Stripe)', 'PayPal', 'Venmo', 'Cash App', 'Zelle', 'Cash', 'Other'];
+
+interface RefundingOrder {
+  id: string;
+  total_amount: number | null;
+  payment_method: string | null;
+  buyer_name: string | null;
+  buyer_name_masked: string | null;
+}
 
 interface BookingManagementProps {
   eventId: string;
@@ -14,30 +28,61 @@ interface BookingManagementProps {
   eventDate?: string;
   eventTime?: string;
   eventLocation?: string;
+  priceTiers?: { id: string; name: string }[];
 }
 
-export default function BookingManagement({ eventId, eventTitle, eventDate, eventTime, eventLocation }: BookingManagementProps) {
-  const [bookings, setBookings] = useState<any[]>([]);
+export default function BookingManagement({ eventId, eventTitle, eventDate, eventTime, eventLocation, priceTiers = [] }: BookingManagementProps) {
+  const [orders, setOrders] = useState<any[]>([]);
   const [selectedProofUrl, setSelectedProofUrl] = useState<string | null>(null);
   const [proofLoading, setProofLoading] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [waitlistCount, setWaitlistCount] = useState(0);
+  const [refundingOrder, setRefundingOrder] = useState<RefundingOrder | null>(null);
+  const [refundMethod, setRefundMethod] = useState(REFUND_METHODS[0]);
+  const [refundNote, setRefundNote] = useState('');
+
+  const fetchOrders = useCallback(async () => {
+    // Use the masked view for organizers - sensitive data is redacted unless user is order owner/admin
+    const { data, error } = await supabase
+      .from('orders_organizer_view')
+      .select('*')
+      .eq('event_id', eventId)
+      .or('status.eq.pending,refund_status.eq.refund_requested')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching orders:', error);
+    } else {
+      setOrders(data || []);
+    }
+  }, [eventId]);
+
+  const fetchWaitlistCount = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_event_waitlist_count', { _event_id: eventId });
+    if (error) {
+      console.error('Error fetching waitlist count:', error);
+    } else {
+      setWaitlistCount(data || 0);
+    }
+  }, [eventId]);
 
   useEffect(() => {
-    fetchBookings();
+    fetchOrders();
+    fetchWaitlistCount();
 
     // Subscribe to real-time updates
     const channel = supabase
-      .channel('bookings')
+      .channel('orders')
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'bookings',
+          table: 'orders',
           filter: `event_id=eq.${eventId}`
         },
         () => {
-          fetchBookings();
+          fetchOrders();
         }
       )
       .subscribe();
@@ -45,40 +90,30 @@ export default function BookingManagement({ eventId, eventTitle, eventDate, even
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [eventId]);
-
-  const fetchBookings = async () => {
-    // Use the masked view for organizers - sensitive data is redacted unless user is booking owner/admin
-    const { data, error } = await supabase
-      .from('bookings_organizer_view')
-      .select('*')
-      .eq('event_id', eventId)
-      .eq('status', 'pending')
-      .order('created_at', { ascending: false });
+  }, [eventId, fetchOrders, fetchWaitlistCount]);
 
-    if (error) {
-      console.error('Error fetching bookings:', error);
-    } else {
-      setBookings(data || []);
-    }
+  const getTierName = (tierId: string | null) => {
+    if (!tierId) return null;
+    return priceTiers.find(t => t.id === tierId)?.name || null;
   };
 
-  const updateBookingStatus = async (bookingId: string, status: 'confirmed' | 'rejected') => {
+  // Confirms or rejects the whole order; its tickets follow via a database trigger
+  const updateOrderStatus = async (orderId: string, status: 'confirmed' | 'rejected') => {
     setLoading(true);
     try {
-      // Fetch full booking data from bookings table (RLS allows if user owns the event)
-      const { data: bookingData, error: fetchError } = await supabase
-        .from('bookings')
-        .select('attendee_email, attendee_name')
-        .eq('id', bookingId)
+      // Fetch full buyer data from orders table (RLS allows if user owns the event)
+      const { data: orderData, error: fetchError } = await supabase
+        .from('orders')
+        .select('buyer_email, buyer_name')
+        .eq('id', orderId)
         .single();
 
       if (fetchError) throw fetchError;
 
       const { error } = await supabase
-        .from('bookings')
+        .from('orders')
         .update({ status })
-        .eq('id', bookingId);
+        .eq('id', orderId);
 
       if (error) throw error;
 
@@ -86,25 +121,101 @@ export default function BookingManagement({ eventId, eventTitle, eventDate, even
       try {
         await supabase.functions.invoke('send-booking-email', {
           body: {
-            to: bookingData.attendee_email,
-            attendeeName: bookingData.attendee_name,
+            to: orderData.buyer_email,
+            attendeeName: orderData.buyer_name,
             eventTitle: eventTitle || 'Event',
             eventDate: eventDate ? new Date(eventDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }) : 'TBA',
             eventTime: eventTime || 'TBA',
             eventLocation: eventLocation || 'TBA',
-            status
+            status,
+            orderId
           }
         });
         console.log('Email notification sent');
       } catch (emailError) {
         console.error('Failed to send email notification:', emailError);
-        // Don't fail the booking update if email fails
+        // Don't fail the order update if email fails
+      }
+
+      // Rejected tickets free up seats for the next people on the waitlist
+      if (status === 'rejected') {
+        try {
+          await supabase.functions.invoke('promote-waitlist', { body: { eventId } });
+        } catch (waitlistError) {
+          console.error('Failed to promote waitlist:', waitlistError);
+        }
       }
 
-      toast.success(`Booking ${status}!`);
-      await fetchBookings();
+      toast.success(`Order ${status}!`);
+      await fetchOrders();
+      fetchWaitlistCount();
     } catch (error: any) {
-      toast.error(error.message || 'Failed to update booking');
+      toast.error(error.message || 'Failed to update order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openRefundDialog = (order: RefundingOrder) => {
+    setRefundMethod(order.payment_method === 'stripe' ? 'Card (Stripe)' : order.payment_method === 'paypal' ? 'PayPal' : REFUND_METHODS[0]);
+    setRefundNote('');
+    setRefundingOrder(order);
+  };
+
+  // Records a refund the organizer has issued for a cancelled order
+  const markRefunded = async () => {
+    const order = refundingOrder;
+    if (!order) return;
+
+    setLoading(true);
+    try {
+      const { data: orderData, error: fetchError } = await supabase
+        .from('orders')
+        .select('buyer_email, buyer_name')
+        .eq('id', order.id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const note = refundNote.trim() || null;
+      const { error } = await supabase
+        .from('orders')
+        .update({
+          refund_status: 'refunded',
+          refund_method: refundMethod,
+          refund_note: note,
+          refunded_at: new Date().toISOString(),
+        })
+        .eq('id', order.id)
+        .eq('refund_status', 'refund_requested');
+
+      if (error) throw error;
+
+      try {
+        await supabase.functions.invoke('send-booking-email', {
+          body: {
+            to: orderData.buyer_email,
+            attendeeName: orderData.buyer_name,
+            eventTitle: eventTitle || 'Event',
+            eventDate: eventDate ? new Date(eventDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }) : 'TBA',
+            eventTime: eventTime || 'TBA',
+            eventLocation: eventLocation || 'TBA',
+            status: 'refunded',
+            orderId: order.id,
+            refundAmount: Number(order.total_amount),
+            refundMethod,
+            refundNote: note ?? undefined
+          }
+        });
+      } catch (emailError) {
+        console.error('Failed to send refund email:', emailError);
+      }
+
+      toast.success('Refund recorded');
+      setRefundingOrder(null);
+      await fetchOrders();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record refund');
     } finally {
       setLoading(false);
     }
@@ -114,113 +225,221 @@ export default function BookingManagement({ eventId, eventTitle, eventDate, even
     const variants: Record<string, any> = {
       pending: 'secondary',
       confirmed: 'default',
-      rejected: 'destructive'
+      rejected: 'destructive',
+      cancelled: 'outline'
     };
     return <Badge variant={variants[status] || 'secondary'}>{status}</Badge>;
   };
 
-  if (bookings.length === 0) {
+  const pendingOrders = orders.filter(o => o.status === 'pending');
+  const refundRequests = orders.filter(o => o.refund_status === 'refund_requested');
+
+  const roster = (
+    <AttendeeRoster eventId={eventId} eventTitle={eventTitle} eventDate={eventDate} priceTiers={priceTiers} />
+  );
+
+  if (orders.length === 0) {
     return (
-      <Card className="bg-card/50">
-        <CardContent className="pt-6 text-center text-muted-foreground">
-          <p>No pending bookings for this event.</p>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        <Card className="bg-card/50">
+          <CardContent className="pt-6 text-center text-muted-foreground">
+            <p>No pending orders or refund requests for this event.</p>
+            {waitlistCount > 0 && (
+              <p className="text-sm mt-1">{waitlistCount} {waitlistCount === 1 ? 'person is' : 'people are'} on the waitlist.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {roster}
+      </div>
     );
   }
 
+  const renderOrderCard = (order: (typeof orders)[number]) => (
+    <Card key={order.id} className="bg-card/50">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div className="space-y-1">
+            <CardTitle className="text-base">{order.buyer_name || order.buyer_name_masked}</CardTitle>
+            <CardDescription className="flex items-center gap-2">
+              <Mail className="h-3 w-3" />
+              {order.buyer_email || order.buyer_email_masked}
+            </CardDescription>
+          </div>
+          {getStatusBadge(order.status)}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="flex items-center gap-2">
+            <Ticket className="h-4 w-4 text-muted-foreground" />
+            <span>{order.quantity} ticket{order.quantity !== 1 ? 's' : ''}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+            <span>${order.total_amount}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Calendar className="h-4 w-4 text-muted-foreground" />
+            <span>{formatDistanceToNow(new Date(order.created_at), { addSuffix: true })}</span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant="outline">{order.payment_method}</Badge>
+          {getTierName(order.price_tier_id) && (
+            <Badge variant="secondary">{getTierName(order.price_tier_id)}</Badge>
+          )}
+          {order.promo_code && (
+            <Badge variant="secondary" className="font-mono">
+              {order.promo_code} (-${Number(order.discount_amount || 0).toFixed(2)})
+            </Badge>
+          )}
+        </div>
+
+        {order.proof_of_payment_url && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={proofLoading}
+            onClick={async () => {
+              setProofLoading(true);
+              try {
+                // Get signed URL for secure access (expires in 1 hour)
+                const { data, error } = await supabase.storage
+                  .from('payment-proofs')
+                  .createSignedUrl(order.proof_of_payment_url, 3600);
+                
+                if (error) throw error;
+                setSelectedProofUrl(data.signedUrl);
+              } catch (err: any) {
+                toast.error('Failed to load proof of payment');
+                console.error('Error getting signed URL:', err);
+              } finally {
+                setProofLoading(false);
+              }
+            }}
+          >
+            <Eye className="h-4 w-4" />
+            {proofLoading ? 'Loading...' : 'View Proof of Payment'}
+          </Button>
+        )}
+
+        {order.status === 'pending' && (
+          <div className="flex gap-2 pt-2">
+            <Button
+              size="sm"
+              variant="default"
+              className="gap-2 flex-1"
+              onClick={() => updateOrderStatus(order.id, 'confirmed')}
+              disabled={loading}
+            >
+              <CheckCircle className="h-4 w-4" />
+              {order.quantity > 1 ? `Confirm All ${order.quantity}` : 'Confirm'}
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              className="gap-2 flex-1"
+              onClick={() => updateOrderStatus(order.id, 'rejected')}
+              disabled={loading}
+            >
+              <XCircle className="h-4 w-4" />
+              {order.quantity > 1 ? `Reject All ${order.quantity}` : 'Reject'}
+            </Button>
+          </div>
+        )}
+
+        {order.refund_status === 'refund_requested' && (
+          <div className="space-y-3 pt-2">
+            <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-1">
+              <p>
+                Cancelled {order.cancelled_at ? formatDistanceToNow(new Date(order.cancelled_at), { addSuffix: true }) : ''}
+                {' '}· refund of <span className="font-semibold">${Number(order.total_amount).toFixed(2)}</span> requested
+              </p>
+              {order.cancellation_reason && (
+                <p className="text-muted-foreground">"{order.cancellation_reason}"</p>
+              )}
+            </div>
+            <Button
+              size="sm"
+              className="gap-2 w-full"
+              onClick={() => openRefundDialog(order)}
+              disabled={loading}
+            >
+              <RotateCcw className="h-4 w-4" />
+              Mark Refunded
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
-        <h3 className="text-xl font-bold">Pending Bookings ({bookings.length})</h3>
+        <h3 className="text-xl font-bold">Pending Orders ({pendingOrders.length})</h3>
+        {waitlistCount > 0 && (
+          <Badge variant="secondary">{waitlistCount} on waitlist</Badge>
+        )}
       </div>
 
-      {bookings.map((booking) => (
-        <Card key={booking.id} className="bg-card/50">
-          <CardHeader>
-            <div className="flex items-start justify-between">
-              <div className="space-y-1">
-                <CardTitle className="text-base">{booking.attendee_name || booking.attendee_name_masked}</CardTitle>
-                <CardDescription className="flex items-center gap-2">
-                  <Mail className="h-3 w-3" />
-                  {booking.attendee_email || booking.attendee_email_masked}
-                </CardDescription>
-              </div>
-              {getStatusBadge(booking.status)}
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            <div className="grid grid-cols-2 gap-3 text-sm">
-              <div className="flex items-center gap-2">
-                <DollarSign className="h-4 w-4 text-muted-foreground" />
-                <span>${booking.amount}</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <Calendar className="h-4 w-4 text-muted-foreground" />
-                <span>{formatDistanceToNow(new Date(booking.created_at), { addSuffix: true })}</span>
-              </div>
-            </div>
+      {pendingOrders.map(renderOrderCard)}
 
-            <div className="flex items-center gap-2 text-sm">
-              <Badge variant="outline">{booking.payment_method}</Badge>
-            </div>
+      {refundRequests.length > 0 && (
+        <h3 className="text-xl font-bold pt-2">Refund Requests ({refundRequests.length})</h3>
+      )}
+      {refundRequests.map(renderOrderCard)}
 
-            {booking.proof_of_payment_url && (
-              <Button
-                variant="outline"
-                size="sm"
-                className="gap-2"
-                disabled={proofLoading}
-                onClick={async () => {
-                  setProofLoading(true);
-                  try {
-                    // Get signed URL for secure access (expires in 1 hour)
-                    const { data, error } = await supabase.storage
-                      .from('payment-proofs')
-                      .createSignedUrl(booking.proof_of_payment_url, 3600);
-                    
-                    if (error) throw error;
-                    setSelectedProofUrl(data.signedUrl);
-                  } catch (err: any) {
-                    toast.error('Failed to load proof of payment');
-                    console.error('Error getting signed URL:', err);
-                  } finally {
-                    setProofLoading(false);
-                  }
-                }}
-              >
-                <Eye className="h-4 w-4" />
-                {proofLoading ? 'Loading...' : 'View Proof of Payment'}
-              </Button>
-            )}
+      <div className="pt-2">{roster}</div>
 
-            {booking.status === 'pending' && (
-              <div className="flex gap-2 pt-2">
-                <Button
-                  size="sm"
-                  variant="default"
-                  className="gap-2 flex-1"
-                  onClick={() => updateBookingStatus(booking.id, 'confirmed')}
-                  disabled={loading}
-                >
-                  <CheckCircle className="h-4 w-4" />
-                  Confirm
-                </Button>
-                <Button
-                  size="sm"
-                  variant="destructive"
-                  className="gap-2 flex-1"
-                  onClick={() => updateBookingStatus(booking.id, 'rejected')}
-                  disabled={loading}
-                >
-                  <XCircle className="h-4 w-4" />
-                  Reject
-                </Button>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      ))}
+      {/* Record a refund */}
+      <Dialog open={!!refundingOrder} onOpenChange={(open) => !open && setRefundingOrder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark Refunded</DialogTitle>
+            <DialogDescription>
+              Record that you've refunded ${Number(refundingOrder?.total_amount || 0).toFixed(2)} to {refundingOrder?.buyer_name || refundingOrder?.buyer_name_masked}. They'll get an email with the details below.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Refund Method</Label>
+              <Select value={refundMethod} onValueChange={setRefundMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFUND_METHODS.map(method => (
+                    <SelectItem key={method} value={method}>{method}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-note">Note (Optional)</Label>
+              <Textarea
+                id="refund-note"
+                value={refundNote}
+                onChange={(e) => setRefundNote(e.target.value)}
+                placeholder="e.g. Refunded to your Venmo @handle"
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundingOrder(null)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button onClick={markRefunded} disabled={loading}>
+              {loading ? 'Saving...' : 'Mark Refunded'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
       {/* Proof of Payment Modal */}
       <Dialog open={!!selectedProofUrl} onOpenChange={() => setSelectedProofUrl(null)}>
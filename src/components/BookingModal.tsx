@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,11 +6,14 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Upload, AlertCircle, CheckCircle, Minus, Plus, XCircle } from 'lucide-react';
+import { Upload, AlertCircle, CheckCircle, Minus, Plus, XCircle, CreditCard, Clock, Users, TicketPercent, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
+import { PayPalScriptProvider, PayPalButtons } from '@paypal/react-paypal-js';
+import { formatEventDates, formatEventDay, getDaySales, getEventDays, getPassDays } from '@/lib/festival';
+import { getEventEnd, getEventStart, hasEventEnded } from '@/lib/eventTimes';
 
 interface PriceTier {
   id: string;
@@ -18,15 +21,44 @@ interface PriceTier {
   price: string;
   quantity: string;
   endDate?: string;
+  // Day passes for multi-day events
+  day?: string;
 }
 
+// PayPal Smart Buttons are only offered when the app has a PayPal client configured
+const PAYPAL_CLIENT_ID = import.meta.env.VITE_PAYPAL_CLIENT_ID as string | undefined;
+
+interface WaitlistEntry {
+  id: string;
+  status: string;
+  quantity: number;
+  waitlist_position: number;
+  offer_expires_at: string | null;
+}
+
+interface AppliedPromo {
+  code: string;
+  discount_type: string;
+  discount_value: number;
+}
+
+// Mirrors apply_promo_discount in the database, which sets the real price
+const applyPromoDiscount = (price: number, promo: AppliedPromo) => {
+  const discounted = promo.discount_type === 'percent'
+    ? Math.round(price * (100 - promo.discount_value)) / 100
+    : price - promo.discount_value;
+  return Math.max(0, discounted);
+};
+
 interface BookingModalProps {
   event: any;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  // Whether the modal was opened from a waitlist claim link
+  claimingOffer?: boolean;
 }
 
-export default function BookingModal({ event, open, onOpenChange }: BookingModalProps) {
+export default function BookingModal({ event, open, onOpenChange, claimingOffer }: BookingModalProps) {
   const { user, session } = useAuth();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
@@ -35,20 +67,69 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
   const [ticketCount, setTicketCount] = useState(1);
   const [selectedTier, setSelectedTier] = useState<string | null>(null);
   const [totalBookings, setTotalBookings] = useState(0);
+  const [tierSales, setTierSales] = useState<Record<string, number>>({});
+  // Our order id for the PayPal checkout in progress
+  const paypalOrderRef = useRef<string | null>(null);
+  const [waitlistEntry, setWaitlistEntry] = useState<WaitlistEntry | null>(null);
+  const [waitlistCount, setWaitlistCount] = useState(0);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
 
   // Parse payment info from JSON
   const paymentInfo = event.payment_link ? JSON.parse(event.payment_link) : {};
-  const hasPaymentInfo = paymentInfo.venmo || paymentInfo.cashapp || paymentInfo.zelle || paymentInfo.paypal;
+  const hasCardCheckout = !!event.use_stripe_checkout;
+  const hasPayPalCheckout = !!PAYPAL_CLIENT_ID && !!paymentInfo.paypal;
   
   // Parse price tiers
   const priceTiers: PriceTier[] = event.price_tiers && Array.isArray(event.price_tiers) 
     ? event.price_tiers 
     : [];
   
+  // Multi-day events have capacity per day: full passes use a seat every day, day passes only on theirs
+  const eventDays = getEventDays(event.date, event.end_date);
+  const isMultiDay = eventDays.length > 1;
+  const daySales = getDaySales(eventDays, priceTiers, tierSales, totalBookings);
+
   // Check if event has capacity limit
   const hasCapacity = event.ticket_capacity && event.ticket_capacity > 0;
-  const remainingTickets = hasCapacity ? event.ticket_capacity - totalBookings : null;
-  const isSoldOut = hasCapacity && remainingTickets !== null && remainingTickets <= 0;
+
+  // Seats left on the busiest day a pass covers (null = unlimited)
+  const getPassRemaining = (tier: PriceTier | null | undefined) => {
+    if (!hasCapacity) return null;
+    return event.ticket_capacity - Math.max(...getPassDays(tier, eventDays).map(day => daySales[day]));
+  };
+
+  const isSoldOut = hasCapacity && eventDays.every(day => daySales[day] >= event.ticket_capacity);
+
+  // Remaining tickets for a tier (null = unlimited)
+  const getTierRemaining = (tier: PriceTier) => {
+    const quantity = parseInt(tier.quantity, 10);
+    const passRemaining = isMultiDay ? getPassRemaining(tier) : null;
+    if (!quantity || quantity <= 0) return passRemaining === null ? null : Math.max(0, passRemaining);
+    const remaining = Math.max(0, quantity - (tierSales[tier.id] || 0));
+    return passRemaining === null ? remaining : Math.max(0, Math.min(remaining, passRemaining));
+  };
+
+  const isTierExpired = (tier: PriceTier) =>
+    (!!tier.endDate && new Date(tier.endDate) < new Date()) ||
+    // Day passes for days that are already over
+    (!!tier.day && eventDays.includes(tier.day) && new Date(`${tier.day}T23:59:59`) < new Date());
+  const isTierSoldOut = (tier: PriceTier) => getTierRemaining(tier) === 0;
+  const isTierAvailable = (tier: PriceTier) => !isTierExpired(tier) && !isTierSoldOut(tier);
+
+  const selectedTierData = selectedTier ? priceTiers.find(t => t.id === selectedTier) : null;
+  const selectedTierId = selectedTierData?.id ?? null;
+  const selectedTierAvailable = !!selectedTierData && isTierAvailable(selectedTierData);
+  const firstAvailableTierId = priceTiers.find(isTierAvailable)?.id ?? null;
+  const selectedPassDays = getPassDays(selectedTierData, eventDays);
+  const remainingTickets = getPassRemaining(selectedTierData);
+  const selectedTierRemaining = selectedTierData ? getTierRemaining(selectedTierData) : null;
+  const allTiersUnavailable = priceTiers.length > 0 && !priceTiers.some(isTierAvailable);
+
+  // Most tickets that can be bought in one booking (or waited for once sold out)
+  const maxTickets = isSoldOut ? 10 : Math.min(remainingTickets ?? 10, selectedTierRemaining ?? 10);
+  const heldOffer = waitlistEntry?.status === 'offered' ? waitlistEntry : null;
 
   // Get active price (from tier or base price)
   const getActivePrice = () => {
@@ -59,12 +140,57 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
     return event.price || 0;
   };
 
-  const activePrice = getActivePrice();
+  const basePrice = getActivePrice();
+  const activePrice = appliedPromo ? applyPromoDiscount(basePrice, appliedPromo) : basePrice;
+  // Free either outright or once a promo code is applied
   const isFreeEvent = activePrice === 0;
   const totalAmount = activePrice * ticketCount;
+  const discountTotal = (basePrice - activePrice) * ticketCount;
+  const useCardCheckout = hasCardCheckout && !isFreeEvent;
+  const usePayPalCheckout = hasPayPalCheckout && !isFreeEvent;
+  // Handles attendees pay by hand; PayPal moves to Smart Buttons when they're available
+  const hasPaymentInfo = paymentInfo.venmo || paymentInfo.cashapp || paymentInfo.zelle || (paymentInfo.paypal && !usePayPalCheckout);
+  // Manual payment + proof upload stays available alongside online checkout when the organizer listed handles
+  const showDirectPayment = !(useCardCheckout || usePayPalCheckout) || hasPaymentInfo;
   
-  // Check if event is in the past
-  const isPastEvent = new Date(`${event.date}T${event.time}`) < new Date();
+  // Check if event is in the past (multi-day events stay bookable until they end)
+  const isPastEvent = isMultiDay ? hasEventEnded(event) : getEventStart(event) < new Date();
+
+  // Ticket sales per tier (counts every attendee's bookings, not just ours)
+  const fetchTicketSales = useCallback(async () => {
+    const { data, error } = await supabase.rpc('get_event_ticket_sales', { _event_id: event.id });
+    if (error) {
+      console.error('Error fetching ticket sales:', error);
+      return;
+    }
+
+    const sales: Record<string, number> = {};
+    let total = 0;
+    (data || []).forEach((row) => {
+      if (row.price_tier_id) sales[row.price_tier_id] = row.sold;
+      total += row.sold;
+    });
+    setTierSales(sales);
+    setTotalBookings(total);
+  }, [event.id]);
+
+  // The user's place on the waitlist, if they're on it
+  const fetchWaitlist = useCallback(async () => {
+    const [{ data: entries, error }, { data: count }] = await Promise.all([
+      supabase.rpc('get_my_waitlist_entry', { _event_id: event.id }),
+      supabase.rpc('get_event_waitlist_count', { _event_id: event.id }),
+    ]);
+
+    if (error) {
+      console.error('Error fetching waitlist:', error);
+      return null;
+    }
+
+    const entry = entries?.[0] ?? null;
+    setWaitlistEntry(entry);
+    setWaitlistCount(count || 0);
+    return entry;
+  }, [event.id]);
 
   // Fetch user profile and total bookings
   useEffect(() => {
@@ -83,14 +209,11 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
       const fullName = data?.full_name || user.user_metadata?.full_name || user.user_metadata?.name || '';
       setUserProfile({ full_name: fullName, email });
 
-      // Fetch total bookings for this event (for capacity check)
-      if (hasCapacity) {
-        const { count } = await supabase
-          .from('bookings')
-          .select('*', { count: 'exact', head: true })
-          .eq('event_id', event.id)
-          .neq('status', 'cancelled');
-        setTotalBookings(count || 0);
+      const [, entry] = await Promise.all([fetchTicketSales(), fetchWaitlist()]);
+
+      // A claim link only holds seats while its offer is still open
+      if (claimingOffer && entry?.status !== 'offered') {
+        toast.error('This claim link has expired or is no longer valid');
       }
     };
 
@@ -98,14 +221,128 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
       fetchData();
       setTicketCount(1);
       setProofFile(null);
-      // Default to first tier if available
-      if (priceTiers.length > 0) {
-        setSelectedTier(priceTiers[0].id);
-      } else {
-        setSelectedTier(null);
-      }
+      setPromoInput('');
+      setAppliedPromo(null);
+    }
+  }, [user, open, claimingOffer, fetchTicketSales, fetchWaitlist]);
+
+  // Default to the first tier that can still be bought, and move off a tier once it sells out
+  useEffect(() => {
+    if (open && !selectedTierAvailable) {
+      setSelectedTier(firstAvailableTierId);
+    }
+  }, [open, selectedTierAvailable, firstAvailableTierId]);
+
+  // The server checks the code again when booking; this only previews the discount
+  const validatePromoCode = useCallback(async (code: string) => {
+    const { data, error } = await supabase.rpc('validate_promo_code', {
+      _event_id: event.id,
+      _code: code,
+      _price_tier_id: selectedTierId,
+    });
+    if (error) throw error;
+    return data?.[0] ?? null;
+  }, [event.id, selectedTierId]);
+
+  // Codes can be limited to certain tiers, so check again when the tier changes
+  useEffect(() => {
+    if (!appliedPromo) return;
+    validatePromoCode(appliedPromo.code)
+      .then((promo) => {
+        if (!promo) throw new Error('Invalid promo code');
+      })
+      .catch(() => {
+        setAppliedPromo(null);
+        toast.error(`Promo code ${appliedPromo.code} doesn't apply to this ticket type`);
+      });
+  }, [appliedPromo, validatePromoCode]);
+
+  // Keep the ticket count within what's left for the selected tier
+  useEffect(() => {
+    if (ticketCount > maxTickets) {
+      setTicketCount(Math.max(1, maxTickets));
+    }
+  }, [ticketCount, maxTickets]);
+
+  const handleJoinWaitlist = async () => {
+    if (!user || !session) {
+      toast.error('Please sign in to join the waitlist', {
+        action: {
+          label: 'Sign In',
+          onClick: () => navigate('/login')
+        }
+      });
+      onOpenChange(false);
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await supabase.rpc('join_event_waitlist', {
+      _event_id: event.id,
+      _quantity: ticketCount,
+    });
+    setLoading(false);
+
+    if (error) {
+      toast.error(error.message || 'Failed to join the waitlist');
+      return;
+    }
+
+    toast.success("You're on the waitlist! We'll email you if a seat opens up.");
+    fetchWaitlist();
+  };
+
+  const handleLeaveWaitlist = async () => {
+    const wasOffered = !!heldOffer;
+
+    setLoading(true);
+    const { error } = await supabase.rpc('leave_event_waitlist', { _event_id: event.id });
+    setLoading(false);
+
+    if (error) {
+      toast.error(error.message || 'Failed to leave the waitlist');
+      return;
+    }
+
+    toast.success('You left the waitlist');
+    // Pass any seats we were holding to the next person in line
+    if (wasOffered) {
+      promoteWaitlist();
+    }
+    fetchWaitlist();
+    fetchTicketSales();
+  };
+
+  const promoteWaitlist = async () => {
+    try {
+      await supabase.functions.invoke('promote-waitlist', { body: { eventId: event.id } });
+    } catch (error) {
+      console.error('Failed to promote waitlist:', error);
+    }
+  };
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim().toUpperCase();
+    if (!code) return;
+
+    if (!user || !session) {
+      toast.error('Please sign in to use a promo code');
+      return;
+    }
+
+    setApplyingPromo(true);
+    try {
+      const promo = await validatePromoCode(code);
+      if (!promo) throw new Error('Invalid promo code');
+      setAppliedPromo(promo);
+      setPromoInput('');
+      toast.success(`Promo code ${promo.code} applied`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid promo code');
+    } finally {
+      setApplyingPromo(false);
     }
-  }, [user, open, event.id, hasCapacity]);
+  };
 
   const handleProofUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -118,23 +355,34 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
     }
   };
 
-  const handleBooking = async () => {
+  // Checks shared by direct and card bookings; returns false (after notifying) if booking can't proceed
+  const validateBooking = () => {
     if (isPastEvent) {
       toast.error('This event has already passed');
       onOpenChange(false);
-      return;
+      return false;
     }
 
     if (isSoldOut) {
       toast.error('This event is sold out');
       onOpenChange(false);
-      return;
+      return false;
     }
 
     // Check if booking would exceed capacity
     if (hasCapacity && remainingTickets !== null && ticketCount > remainingTickets) {
       toast.error(`Only ${remainingTickets} tickets remaining`);
-      return;
+      return false;
+    }
+
+    if (priceTiers.length > 0 && (!selectedTierData || !isTierAvailable(selectedTierData))) {
+      toast.error('Please select an available ticket type');
+      return false;
+    }
+
+    if (selectedTierRemaining !== null && ticketCount > selectedTierRemaining) {
+      toast.error(`Only ${selectedTierRemaining} ${selectedTierData?.name} tickets remaining`);
+      return false;
     }
     
     if (!user || !session) {
@@ -145,13 +393,147 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
         }
       });
       onOpenChange(false);
-      return;
+      return false;
     }
 
     if (!userProfile?.full_name || !userProfile?.email) {
       toast.error('Please complete your profile with name and email in Account Settings');
-      return;
+      return false;
+    }
+
+    return true;
+  };
+
+  // Reserve the tickets and hand off to Stripe Checkout; the webhook confirms the order
+  const handleCardCheckout = async () => {
+    if (!validateBooking()) return;
+
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('create-checkout-session', {
+        body: {
+          eventId: event.id,
+          quantity: ticketCount,
+          priceTierId: selectedTierData?.id ?? null,
+          promoCode: appliedPromo?.code ?? null,
+        }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      if (!data?.url) throw new Error('Could not start card checkout');
+
+      window.location.href = data.url;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start checkout');
+      fetchTicketSales();
+      setLoading(false);
+    }
+  };
+
+  // Success toast with a Google Calendar link, then reset the modal
+  const showBookingSuccess = (successMessage: string) => {
+    // Day passes only go in the calendar for their own day
+    const passTiming = {
+      ...event,
+      date: selectedPassDays[0],
+      end_date: selectedPassDays.length > 1 ? selectedPassDays[selectedPassDays.length - 1] : null,
+    };
+    const eventDate = getEventStart(passTiming);
+    const endDate = getEventEnd(passTiming);
+    
+    const formatDateForGoogle = (date: Date) => {
+      return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+    };
+
+    const calendarUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${encodeURIComponent(event.title)}&dates=${formatDateForGoogle(eventDate)}/${formatDateForGoogle(endDate)}&details=${encodeURIComponent(`Booking for ${event.title} (${ticketCount} ticket${ticketCount > 1 ? 's' : ''})`)}&location=${encodeURIComponent(event.location_name || '')}`;
+
+    toast.success(
+      <div>
+        <p className="font-semibold mb-2">{successMessage}</p>
+        <a 
+          href={calendarUrl} 
+          target="_blank" 
+          rel="noopener noreferrer"
+          className="text-primary hover:underline text-sm font-medium inline-flex items-center gap-1"
+        >
+          Add to Google Calendar →
+        </a>
+      </div>,
+      { duration: 8000 }
+    );
+
+    onOpenChange(false);
+    setProofFile(null);
+    setTicketCount(1);
+  };
+
+  // Reserve the tickets and hand back the PayPal order id for the Smart Buttons popup
+  const createPayPalOrder = async () => {
+    const { data, error } = await supabase.functions.invoke('create-paypal-order', {
+      body: {
+        eventId: event.id,
+        quantity: ticketCount,
+        priceTierId: selectedTierData?.id ?? null,
+        promoCode: appliedPromo?.code ?? null,
+      }
+    });
+
+    if (error || data?.error || !data?.paypalOrderId) {
+      fetchTicketSales();
+      throw new Error(data?.error || error?.message || 'Could not start PayPal checkout');
+    }
+
+    paypalOrderRef.current = data.orderId;
+    return data.paypalOrderId as string;
+  };
+
+  // The server captures the payment and only confirms the order if it matches what was reserved
+  const handlePayPalApprove = async () => {
+    const orderId = paypalOrderRef.current;
+    if (!orderId) return;
+
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('capture-paypal-order', {
+        body: { orderId }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      paypalOrderRef.current = null;
+      const ticketText = ticketCount > 1 ? `${ticketCount} tickets` : '1 ticket';
+      showBookingSuccess(data?.status === 'confirmed'
+        ? `${ticketText} confirmed! 🎉`
+        : `${ticketText} reserved! Your PayPal payment is still processing.`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to complete PayPal payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Give the held tickets back when the buyer closes the PayPal popup or it fails
+  const releasePayPalOrder = async () => {
+    const orderId = paypalOrderRef.current;
+    paypalOrderRef.current = null;
+    if (!orderId) return;
+
+    const { data: released, error } = await supabase.rpc('release_pending_order', { _order_id: orderId });
+    if (error) {
+      console.error('Error releasing PayPal order:', error);
+    }
+    if (released) {
+      promoteWaitlist();
     }
+    fetchTicketSales();
+  };
+
+  const handleBooking = async () => {
+    if (!validateBooking()) return;
 
     // For paid events, require proof of payment
     if (!isFreeEvent && !proofFile) {
@@ -177,22 +559,14 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
         proofPath = fileName;
       }
 
-      // Create bookings for each ticket
-      const selectedTierData = selectedTier ? priceTiers.find(t => t.id === selectedTier) : null;
-      const bookingsToInsert = Array.from({ length: ticketCount }, () => ({
-        event_id: event.id,
-        user_id: user.id,
-        attendee_name: userProfile.full_name,
-        attendee_email: userProfile.email,
-        amount: activePrice,
-        payment_method: isFreeEvent ? 'free' : 'direct',
-        proof_of_payment_url: proofPath,
-        status: isFreeEvent ? 'confirmed' : 'pending'
-      }));
-
-      const { error: bookingError } = await supabase
-        .from('bookings')
-        .insert(bookingsToInsert);
+      // Price, capacity and the booking rows are all handled server-side in one transaction
+      const { data: orderId, error: bookingError } = await supabase.rpc('create_event_booking', {
+        _event_id: event.id,
+        _quantity: ticketCount,
+        _price_tier_id: selectedTierData?.id ?? null,
+        _proof_path: proofPath,
+        _promo_code: appliedPromo?.code ?? null,
+      });
 
       if (bookingError) throw bookingError;
 
@@ -204,15 +578,11 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
               to: userProfile.email,
               attendeeName: userProfile.full_name,
               eventTitle: event.title,
-              eventDate: new Date(event.date).toLocaleDateString('en-US', { 
-                weekday: 'long', 
-                year: 'numeric', 
-                month: 'long', 
-                day: 'numeric' 
-              }),
+              eventDate: formatEventDates(selectedPassDays[0], selectedPassDays[selectedPassDays.length - 1]),
               eventTime: event.time,
               eventLocation: event.location_name || '',
-              status: 'confirmed'
+              status: 'confirmed',
+              orderId
             }
           });
         } catch (emailError) {
@@ -221,41 +591,14 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
         }
       }
 
-      // Create Google Calendar link
-      const eventDate = new Date(`${event.date}T${event.time}`);
-      const endDate = new Date(eventDate.getTime() + 2 * 60 * 60 * 1000);
-      
-      const formatDateForGoogle = (date: Date) => {
-        return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-      };
-
-      const calendarUrl = `https://calendar.google.com/calendar/render?action=TEMPLATE&text=${encodeURIComponent(event.title)}&dates=${formatDateForGoogle(eventDate)}/${formatDateForGoogle(endDate)}&details=${encodeURIComponent(`Booking for ${event.title} (${ticketCount} ticket${ticketCount > 1 ? 's' : ''})`)}&location=${encodeURIComponent(event.location_name || '')}`;
-
       const ticketText = ticketCount > 1 ? `${ticketCount} tickets` : '1 ticket';
-      const successMessage = isFreeEvent 
+      showBookingSuccess(isFreeEvent 
         ? `${ticketText} confirmed! 🎉` 
-        : `${ticketText} submitted! Awaiting organizer confirmation.`;
-
-      toast.success(
-        <div>
-          <p className="font-semibold mb-2">{successMessage}</p>
-          <a 
-            href={calendarUrl} 
-            target="_blank" 
-            rel="noopener noreferrer"
-            className="text-primary hover:underline text-sm font-medium inline-flex items-center gap-1"
-          >
-            Add to Google Calendar →
-          </a>
-        </div>,
-        { duration: 8000 }
-      );
-
-      onOpenChange(false);
-      setProofFile(null);
-      setTicketCount(1);
+        : `${ticketText} submitted! Awaiting organizer confirmation.`);
     } catch (error: any) {
       toast.error(error.message || 'Failed to submit booking');
+      // Availability may have changed underneath us (e.g. a tier just sold out)
+      fetchTicketSales();
     } finally {
       setLoading(false);
     }
@@ -283,7 +626,21 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
             <Alert className="border-destructive/50 bg-destructive/10">
               <XCircle className="h-4 w-4 text-destructive" />
               <AlertDescription className="text-destructive">
-                This event has sold out. No more tickets are available.
+                {isPastEvent
+                  ? 'This event has sold out. No more tickets are available.'
+                  : "This event has sold out. Join the waitlist and we'll email you if a seat opens up."}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Seats held from the waitlist */}
+          {heldOffer?.offer_expires_at && (
+            <Alert className="border-green-500/50 bg-green-50 dark:bg-green-950/20">
+              <Clock className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-800 dark:text-green-200">
+                We're holding {heldOffer.quantity > 1 ? `${heldOffer.quantity} seats` : 'a seat'} for you until{' '}
+                {new Date(heldOffer.offer_expires_at).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}.
+                Complete your booking to claim {heldOffer.quantity > 1 ? 'them' : 'it'}.
               </AlertDescription>
             </Alert>
           )}
@@ -317,7 +674,10 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
               <RadioGroup value={selectedTier || ''} onValueChange={setSelectedTier}>
                 {priceTiers.map((tier) => {
                   const tierPrice = parseFloat(tier.price) || 0;
-                  const isExpired = tier.endDate && new Date(tier.endDate) < new Date();
+                  const isExpired = isTierExpired(tier);
+                  const tierSoldOut = isTierSoldOut(tier);
+                  const tierRemaining = getTierRemaining(tier);
+                  const isUnavailable = isExpired || tierSoldOut;
                   
                   return (
                     <div
@@ -326,13 +686,25 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
                         selectedTier === tier.id 
                           ? 'border-primary bg-primary/5' 
                           : 'border-border hover:border-primary/50'
-                      } ${isExpired ? 'opacity-50' : 'cursor-pointer'}`}
-                      onClick={() => !isExpired && setSelectedTier(tier.id)}
+                      } ${isUnavailable ? 'opacity-50' : 'cursor-pointer'}`}
+                      onClick={() => !isUnavailable && setSelectedTier(tier.id)}
                     >
                       <div className="flex items-center gap-3">
-                        <RadioGroupItem value={tier.id} disabled={isExpired} />
+                        <RadioGroupItem value={tier.id} disabled={isUnavailable} />
                         <div>
                           <p className="font-medium text-sm">{tier.name}</p>
+                          {isMultiDay && (
+                            <p className="text-xs text-muted-foreground">
+                              {tier.day && eventDays.includes(tier.day)
+                                ? `Day pass · ${formatEventDay(tier.day)}`
+                                : `Full pass · all ${eventDays.length} days`}
+                            </p>
+                          )}
+                          {tierSoldOut ? (
+                            <p className="text-xs text-destructive">Sold out</p>
+                          ) : tierRemaining !== null && tierRemaining <= 10 && !isExpired ? (
+                            <p className="text-xs text-amber-600">Only {tierRemaining} left</p>
+                          ) : null}
                           {tier.endDate && (
                             <p className="text-xs text-muted-foreground">
                               {isExpired ? 'Expired' : `Until ${new Date(tier.endDate).toLocaleDateString()}`}
@@ -351,7 +723,7 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
           )}
 
           {/* Ticket Quantity */}
-          {!isSoldOut && (
+          {(!isSoldOut || (!waitlistEntry && !isPastEvent)) && (
             <div className="p-4 bg-muted/50 rounded-lg">
               <div className="flex items-center justify-between">
                 <Label className="text-sm font-medium">Number of Tickets</Label>
@@ -370,8 +742,8 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
                     variant="outline"
                     size="icon"
                     className="h-8 w-8"
-                    onClick={() => setTicketCount(Math.min(remainingTickets ?? 10, ticketCount + 1))}
-                    disabled={ticketCount >= (remainingTickets ?? 10)}
+                    onClick={() => setTicketCount(Math.min(maxTickets, ticketCount + 1))}
+                    disabled={ticketCount >= maxTickets}
                   >
                     <Plus className="h-4 w-4" />
                   </Button>
@@ -380,9 +752,53 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
             </div>
           )}
 
+          {/* Promo Code */}
+          {!isSoldOut && !isPastEvent && basePrice > 0 && (
+            appliedPromo ? (
+              <div className="flex items-center justify-between gap-2 p-3 border border-green-500/50 bg-green-50 dark:bg-green-950/20 rounded-lg">
+                <span className="flex items-center gap-2 text-sm text-green-800 dark:text-green-200">
+                  <TicketPercent className="h-4 w-4" />
+                  <span className="font-mono font-semibold">{appliedPromo.code}</span>
+                  {appliedPromo.discount_type === 'percent'
+                    ? `${appliedPromo.discount_value}% off`
+                    : `$${Number(appliedPromo.discount_value).toFixed(2)} off`} each ticket
+                </span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setAppliedPromo(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleApplyPromo();
+                }}
+              >
+                <Input
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value)}
+                  placeholder="Promo code"
+                  className="font-mono uppercase"
+                  maxLength={30}
+                  autoComplete="off"
+                />
+                <Button type="submit" variant="outline" disabled={applyingPromo || !promoInput.trim()}>
+                  {applyingPromo ? 'Checking...' : 'Apply'}
+                </Button>
+              </form>
+            )
+          )}
+
           {/* Price Info */}
           {!isSoldOut && (
             <div className="p-4 bg-muted rounded-lg">
+              {discountTotal > 0 && (
+                <div className="flex justify-between items-center text-sm text-muted-foreground mb-2">
+                  <span>Discount ({appliedPromo?.code})</span>
+                  <span>-${discountTotal.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-sm font-medium">
                   {isFreeEvent ? 'Event Price' : `Total (${ticketCount} × $${activePrice.toFixed(2)})`}
@@ -401,6 +817,79 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
             </div>
           )}
 
+          {/* Cancellation policy */}
+          {!isSoldOut && !isPastEvent && (
+            <p className="text-xs text-muted-foreground">
+              {event.cancellation_deadline_hours
+                ? `You can cancel from My Bookings up to ${event.cancellation_deadline_hours} hour${event.cancellation_deadline_hours !== 1 ? 's' : ''} before the event.`
+                : 'You can cancel from My Bookings until the event starts.'}
+              {!isFreeEvent && ' Refunds are issued by the organizer.'}
+            </p>
+          )}
+
+          {/* Card checkout */}
+          {!isSoldOut && useCardCheckout && (
+            <div className="space-y-2">
+              <Button
+                onClick={handleCardCheckout}
+                disabled={loading || isPastEvent || allTiersUnavailable || !userProfile}
+                className="w-full gap-2"
+              >
+                <CreditCard className="h-4 w-4" />
+                {loading ? 'Processing...' : `Pay $${totalAmount.toFixed(2)} by Card`}
+              </Button>
+              <p className="text-xs text-muted-foreground text-center">
+                Secure checkout by Stripe. Your tickets are confirmed as soon as payment goes through.
+              </p>
+              {hasPaymentInfo && !usePayPalCheckout && (
+                <div className="flex items-center gap-3 pt-2">
+                  <div className="h-px flex-1 bg-border" />
+                  <span className="text-xs text-muted-foreground">or pay directly</span>
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* PayPal checkout */}
+          {!isSoldOut && usePayPalCheckout && (
+            <div className="space-y-2">
+              {useCardCheckout && (
+                <div className="flex items-center gap-3">
+                  <div className="h-px flex-1 bg-border" />
+                  <span className="text-xs text-muted-foreground">or pay with PayPal</span>
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+              )}
+              <PayPalScriptProvider options={{ clientId: PAYPAL_CLIENT_ID!, currency: 'USD', intent: 'capture' }}>
+                <PayPalButtons
+                  fundingSource="paypal"
+                  style={{ layout: 'vertical', label: 'pay', height: 40 }}
+                  disabled={loading || isPastEvent || allTiersUnavailable || !userProfile}
+                  forceReRender={[ticketCount, selectedTier, totalAmount]}
+                  onClick={(_data, actions) => (validateBooking() ? actions.resolve() : actions.reject())}
+                  createOrder={createPayPalOrder}
+                  onApprove={handlePayPalApprove}
+                  onCancel={releasePayPalOrder}
+                  onError={(err) => {
+                    toast.error(err instanceof Error ? err.message : 'PayPal checkout failed');
+                    releasePayPalOrder();
+                  }}
+                />
+              </PayPalScriptProvider>
+              <p className="text-xs text-muted-foreground text-center">
+                Your tickets are confirmed as soon as PayPal completes the payment.
+              </p>
+              {hasPaymentInfo && (
+                <div className="flex items-center gap-3 pt-2">
+                  <div className="h-px flex-1 bg-border" />
+                  <span className="text-xs text-muted-foreground">or pay directly</span>
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Payment info for paid events */}
           {!isSoldOut && !isFreeEvent && hasPaymentInfo && (
             <Alert>
@@ -426,7 +915,7 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
                       <span className="font-mono font-semibold">{paymentInfo.zelle}</span>
                     </div>
                   )}
-                  {paymentInfo.paypal && (
+                  {paymentInfo.paypal && !usePayPalCheckout && (
                     <div className="flex items-center gap-2">
                       <Badge variant="outline" className="w-20">PayPal</Badge>
                       <span className="font-mono font-semibold">{paymentInfo.paypal}</span>
@@ -439,7 +928,7 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
           )}
 
           {/* Proof of payment for paid events */}
-          {!isSoldOut && !isFreeEvent && (
+          {!isSoldOut && !isFreeEvent && showDirectPayment && (
             <div className="space-y-2">
               <Label htmlFor="proof">Proof of Payment *</Label>
               <div className="flex items-center gap-3">
@@ -473,21 +962,55 @@ export default function BookingModal({ event, open, onOpenChange }: BookingModal
             </div>
           )}
 
-          <Button 
-            onClick={handleBooking} 
-            disabled={loading || isPastEvent || isSoldOut || (!isFreeEvent && !proofFile) || !userProfile}
-            className="w-full"
-          >
-            {isSoldOut 
-              ? 'Sold Out'
-              : isPastEvent 
+          {/* Waitlist for sold-out events */}
+          {isSoldOut && (
+            isPastEvent ? (
+              <Button disabled className="w-full">Sold Out</Button>
+            ) : waitlistEntry ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-lg">
+                  <Users className="h-5 w-5 text-muted-foreground shrink-0" />
+                  <p className="text-sm">
+                    You're <span className="font-semibold">#{waitlistEntry.waitlist_position}</span> on the waitlist
+                    for {waitlistEntry.quantity} ticket{waitlistEntry.quantity > 1 ? 's' : ''}. We'll email you if a seat opens up.
+                  </p>
+                </div>
+                <Button variant="outline" onClick={handleLeaveWaitlist} disabled={loading} className="w-full">
+                  {loading ? 'Processing...' : 'Leave Waitlist'}
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Button onClick={handleJoinWaitlist} disabled={loading} className="w-full gap-2">
+                  <Users className="h-4 w-4" />
+                  {loading ? 'Processing...' : `Join Waitlist (${ticketCount} Ticket${ticketCount > 1 ? 's' : ''})`}
+                </Button>
+                {waitlistCount > 0 && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    {waitlistCount} {waitlistCount === 1 ? 'person is' : 'people are'} already waiting
+                  </p>
+                )}
+              </div>
+            )
+          )}
+
+          {!isSoldOut && showDirectPayment && (
+            <Button 
+              onClick={handleBooking} 
+              disabled={loading || isPastEvent || allTiersUnavailable || (!isFreeEvent && !proofFile) || !userProfile}
+              className="w-full"
+            >
+              {isPastEvent 
                 ? 'Event Has Passed' 
-                : loading 
-                  ? 'Processing...' 
-                  : isFreeEvent 
-                    ? `Confirm ${ticketCount} Ticket${ticketCount > 1 ? 's' : ''}` 
-                    : `Submit Booking (${ticketCount} Ticket${ticketCount > 1 ? 's' : ''})`}
-          </Button>
+                : allTiersUnavailable
+                  ? 'Tickets Unavailable'
+                  : loading 
+                    ? 'Processing...' 
+                    : isFreeEvent 
+                      ? `Confirm ${ticketCount} Ticket${ticketCount > 1 ? 's' : ''}` 
+                      : `Submit Booking (${ticketCount} Ticket${ticketCount > 1 ? 's' : ''})`}
+            </Button>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,133 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { CalendarCheck, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface Connection {
+  calendar_url: string;
+  username: string;
+  display_name: string | null;
+  last_synced_at: string | null;
+  last_error: string | null;
+}
+
+interface CalDavConnectionProps {
+  userId: string;
+}
+
+// Lets a teacher connect the calendar their lessons are written to. The
+// password never comes back to the browser, so it's only entered here.
+export default function CalDavConnection({ userId }: CalDavConnectionProps) {
+  const [connection, setConnection] = useState<Connection | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [calendarUrl, setCalendarUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const fetchConnection = useCallback(async () => {
+    const { data } = await supabase
+      .from('teacher_calendars')
+      .select('calendar_url, username, display_name, last_synced_at, last_error')
+      .eq('user_id', userId)
+      .maybeSingle();
+    setConnection(data);
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchConnection();
+  }, [fetchConnection]);
+
+  const updateConnection = async (body: Record<string, string>) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('caldav-connect', { body });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not update your calendar');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConnect = async () => {
+    if (!calendarUrl.trim() || !username.trim() || !password) {
+      toast.error('Enter the calendar URL, username and password');
+      return;
+    }
+    const connected = await updateConnection({ action: 'connect', calendarUrl: calendarUrl.trim(), username: username.trim(), password });
+    if (!connected) return;
+    setPassword('');
+    toast.success('Calendar connected');
+    fetchConnection();
+  };
+
+  const handleDisconnect = async () => {
+    if (!(await updateConnection({ action: 'disconnect' }))) return;
+    setCalendarUrl('');
+    setUsername('');
+    toast.success('Calendar disconnected');
+    fetchConnection();
+  };
+
+  if (loading) return null;
+
+  if (connection) {
+    return (
+      <div className="space-y-2 rounded-lg border border-border p-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <CalendarCheck className="h-4 w-4 text-primary shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{connection.display_name || 'Connected calendar'}</p>
+              <p className="text-xs text-muted-foreground truncate">{connection.username} · {connection.calendar_url}</p>
+            </div>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={handleDisconnect} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Disconnect'}
+          </Button>
+        </div>
+        {connection.last_error ? (
+          <p className="text-xs text-destructive">Last sync failed: {connection.last_error}</p>
+        ) : connection.last_synced_at ? (
+          <p className="text-xs text-muted-foreground">Last synced {format(new Date(connection.last_synced_at), 'MMM d, h:mm a')}</p>
+        ) : null}
+        <p className="text-xs text-muted-foreground">
+          Confirmed lessons are added to this calendar and removed when cancelled. Its events also block your bookable slots.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="caldavUrl">Sync lessons to your calendar (optional)</Label>
+      <Input
+        id="caldavUrl"
+        type="url"
+        value={calendarUrl}
+        onChange={e => setCalendarUrl(e.target.value)}
+        placeholder="CalDAV calendar URL"
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <Input value={username} onChange={e => setUsername(e.target.value)} placeholder="Username" autoComplete="off" />
+        <Input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="App password" autoComplete="new-password" />
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={handleConnect} disabled={saving}>
+        {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Connect Calendar
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Works with iCloud, Fastmail, Nextcloud and other CalDAV calendars. Use an app-specific password where your provider offers one.
+      </p>
+    </div>
+  );
+}
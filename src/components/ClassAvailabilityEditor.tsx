@@ -4,7 +4,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, Trash2, Clock } from 'lucide-react';
+import { Plus, Trash2, Clock, CalendarOff, CalendarPlus } from 'lucide-react';
+import { getZonedDateTime } from '@/lib/timeZones';
+import type { BookingRules } from '@/lib/bookingRules';
 
 const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
@@ -16,12 +18,64 @@ export interface AvailabilitySlot {
   slot_duration_minutes: number;
 }
 
+// Time off (whole days, or the hours given on each day) or an extra date
+export interface AvailabilityOverride {
+  id?: string;
+  kind: 'unavailable' | 'available';
+  start_date: string;
+  end_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  slot_duration_minutes: number | null;
+  note: string | null;
+}
+
+const NOTICE_OPTIONS = [
+  { value: 0, label: 'None' },
+  { value: 1, label: '1 hour' },
+  { value: 2, label: '2 hours' },
+  { value: 4, label: '4 hours' },
+  { value: 12, label: '12 hours' },
+  { value: 24, label: '24 hours' },
+  { value: 48, label: '2 days' },
+  { value: 72, label: '3 days' },
+  { value: 168, label: '1 week' },
+];
+
+const HORIZON_OPTIONS = [7, 14, 30, 60, 90, 180, 365];
+
+const BUFFER_OPTIONS = [0, 5, 10, 15, 30, 45, 60];
+
+const DURATION_OPTIONS = [
+  { value: 30, label: '30 min' },
+  { value: 45, label: '45 min' },
+  { value: 60, label: '1 hour' },
+  { value: 90, label: '1.5 hours' },
+  { value: 120, label: '2 hours' },
+];
+
 interface ClassAvailabilityEditorProps {
   slots: AvailabilitySlot[];
   onChange: (slots: AvailabilitySlot[]) => void;
+  rules: BookingRules;
+  onRulesChange: (rules: BookingRules) => void;
+  overrides: AvailabilityOverride[];
+  onOverridesChange: (overrides: AvailabilityOverride[]) => void;
+  // Zone the availability is in, for today's date
+  timeZone?: string | null;
 }
 
-export default function ClassAvailabilityEditor({ slots, onChange }: ClassAvailabilityEditorProps) {
+export default function ClassAvailabilityEditor({
+  slots,
+  onChange,
+  rules,
+  onRulesChange,
+  overrides,
+  onOverridesChange,
+  timeZone,
+}: ClassAvailabilityEditorProps) {
+  const today = getZonedDateTime(new Date(), timeZone).date;
+
   const addSlot = () => {
     onChange([...slots, { day_of_week: 1, start_time: '09:00', end_time: '17:00', slot_duration_minutes: 60 }]);
   };
@@ -36,6 +90,26 @@ export default function ClassAvailabilityEditor({ slots, onChange }: ClassAvaila
     onChange(updated);
   };
 
+  const addOverride = (kind: AvailabilityOverride['kind']) => {
+    onOverridesChange([...overrides, kind === 'unavailable'
+      ? { kind, start_date: today, end_date: today, start_time: null, end_time: null, slot_duration_minutes: null, note: null }
+      : { kind, start_date: today, end_date: today, start_time: '10:00', end_time: '14:00', slot_duration_minutes: 60, note: null },
+    ]);
+  };
+
+  const removeOverride = (index: number) => {
+    onOverridesChange(overrides.filter((_, i) => i !== index));
+  };
+
+  const updateOverride = (index: number, changes: Partial<AvailabilityOverride>) => {
+    const updated = [...overrides];
+    updated[index] = { ...updated[index], ...changes };
+    // Extra availability is for a single date
+    if (updated[index].kind === 'available') updated[index].end_date = updated[index].start_date;
+    else if (updated[index].end_date < updated[index].start_date) updated[index].end_date = updated[index].start_date;
+    onOverridesChange(updated);
+  };
+
   return (
     <Card>
       <CardHeader className="pb-3">
@@ -70,11 +144,7 @@ export default function ClassAvailabilityEditor({ slots, onChange }: ClassAvaila
               <Select value={String(slot.slot_duration_minutes)} onValueChange={v => updateSlot(i, 'slot_duration_minutes', parseInt(v))}>
                 <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="30">30 min</SelectItem>
-                  <SelectItem value="45">45 min</SelectItem>
-                  <SelectItem value="60">1 hour</SelectItem>
-                  <SelectItem value="90">1.5 hours</SelectItem>
-                  <SelectItem value="120">2 hours</SelectItem>
+                  {DURATION_OPTIONS.map(o => <SelectItem key={o.value} value={String(o.value)}>{o.label}</SelectItem>)}
                 </SelectContent>
               </Select>
             </div>
@@ -87,6 +157,130 @@ export default function ClassAvailabilityEditor({ slots, onChange }: ClassAvaila
         <Button type="button" variant="outline" size="sm" className="w-full gap-2" onClick={addSlot}>
           <Plus className="h-4 w-4" /> Add Time Slot
         </Button>
+
+        <div className="space-y-3 pt-3 border-t border-border">
+          <div>
+            <p className="text-sm font-medium">Booking Rules</p>
+            <p className="text-xs text-muted-foreground">Gaps and the daily limit count your lessons in all your classes</p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Minimum notice</Label>
+              <Select value={String(rules.min_notice_hours)} onValueChange={v => onRulesChange({ ...rules, min_notice_hours: parseInt(v) })}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {NOTICE_OPTIONS.map(o => <SelectItem key={o.value} value={String(o.value)}>{o.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Book up to</Label>
+              <Select value={String(rules.booking_horizon_days)} onValueChange={v => onRulesChange({ ...rules, booking_horizon_days: parseInt(v) })}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {HORIZON_OPTIONS.map(d => <SelectItem key={d} value={String(d)}>{d} days ahead</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Gap between lessons</Label>
+              <Select value={String(rules.buffer_minutes)} onValueChange={v => onRulesChange({ ...rules, buffer_minutes: parseInt(v) })}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {BUFFER_OPTIONS.map(m => <SelectItem key={m} value={String(m)}>{m === 0 ? 'None' : `${m} min`}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Lessons per day</Label>
+              <Input
+                type="number"
+                min="1"
+                max="48"
+                value={rules.daily_lesson_cap ?? ''}
+                onChange={e => onRulesChange({ ...rules, daily_lesson_cap: e.target.value ? parseInt(e.target.value) : null })}
+                placeholder="No limit"
+                className="h-9"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3 pt-3 border-t border-border">
+          <div>
+            <p className="text-sm font-medium">Date Changes</p>
+            <p className="text-xs text-muted-foreground">Take time off, or open an extra day outside your weekly hours</p>
+          </div>
+          {overrides.map((override, i) => (
+            <div key={i} className="flex flex-wrap items-end gap-2 p-3 rounded-lg border border-border/50 bg-muted/30">
+              {override.kind === 'unavailable' ? (
+                <>
+                  <div className="w-full flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+                    <CalendarOff className="h-3.5 w-3.5" /> Time off
+                  </div>
+                  <div className="space-y-1 min-w-[130px]">
+                    <Label className="text-xs">From</Label>
+                    <Input type="date" value={override.start_date} min={today} onChange={e => updateOverride(i, { start_date: e.target.value })} className="h-9" />
+                  </div>
+                  <div className="space-y-1 min-w-[130px]">
+                    <Label className="text-xs">To</Label>
+                    <Input type="date" value={override.end_date} min={override.start_date} onChange={e => updateOverride(i, { end_date: e.target.value })} className="h-9" />
+                  </div>
+                  <div className="space-y-1 min-w-[100px]">
+                    <Label className="text-xs">Start (optional)</Label>
+                    <Input type="time" value={override.start_time ?? ''} onChange={e => updateOverride(i, { start_time: e.target.value || null })} className="h-9" />
+                  </div>
+                  <div className="space-y-1 min-w-[100px]">
+                    <Label className="text-xs">End (optional)</Label>
+                    <Input type="time" value={override.end_time ?? ''} onChange={e => updateOverride(i, { end_time: e.target.value || null })} className="h-9" />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="w-full flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+                    <CalendarPlus className="h-3.5 w-3.5" /> Extra availability
+                  </div>
+                  <div className="space-y-1 min-w-[130px]">
+                    <Label className="text-xs">Date</Label>
+                    <Input type="date" value={override.start_date} min={today} onChange={e => updateOverride(i, { start_date: e.target.value })} className="h-9" />
+                  </div>
+                  <div className="space-y-1 min-w-[100px]">
+                    <Label className="text-xs">Start</Label>
+                    <Input type="time" value={override.start_time ?? ''} onChange={e => updateOverride(i, { start_time: e.target.value })} className="h-9" />
+                  </div>
+                  <div className="space-y-1 min-w-[100px]">
+                    <Label className="text-xs">End</Label>
+                    <Input type="time" value={override.end_time ?? ''} onChange={e => updateOverride(i, { end_time: e.target.value })} className="h-9" />
+                  </div>
+                  <div className="space-y-1 min-w-[90px]">
+                    <Label className="text-xs">Duration</Label>
+                    <Select value={String(override.slot_duration_minutes)} onValueChange={v => updateOverride(i, { slot_duration_minutes: parseInt(v) })}>
+                      <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {DURATION_OPTIONS.map(o => <SelectItem key={o.value} value={String(o.value)}>{o.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+              <div className="space-y-1 flex-1 min-w-[140px]">
+                <Label className="text-xs">Note</Label>
+                <Input value={override.note ?? ''} onChange={e => updateOverride(i, { note: e.target.value || null })} placeholder="e.g. Vacation" maxLength={200} className="h-9" />
+              </div>
+              <Button variant="ghost" size="icon" className="h-9 w-9 text-destructive" onClick={() => removeOverride(i)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-2">
+            <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => addOverride('unavailable')}>
+              <CalendarOff className="h-4 w-4" /> Add Time Off
+            </Button>
+            <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => addOverride('available')}>
+              <CalendarPlus className="h-4 w-4" /> Add Extra Date
+            </Button>
+          </div>
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,362 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CheckCircle, XCircle, CalendarClock, Ban, Mail, Repeat, Video } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { formatTimeRange } from '@/lib/eventTimes';
+import { addDaysToDate, getZonedDateTime, zonedTimeToDate } from '@/lib/timeZones';
+import { isLessonRoomOpen, joinLessonRoom } from '@/lib/lessonRooms';
+
+interface Lesson {
+  id: string;
+  student_name: string;
+  student_email: string;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  notes: string | null;
+  is_recurring: boolean;
+  series_id: string | null;
+  proposed_date: string | null;
+  proposed_start_time: string | null;
+  proposed_end_time: string | null;
+  proposal_note: string | null;
+}
+
+type LessonAction = 'confirm' | 'decline' | 'reschedule' | 'cancel';
+
+// The email each action sends the student
+const ACTION_EMAILS: Record<LessonAction, string> = {
+  confirm: 'lesson_confirmed',
+  decline: 'lesson_declined',
+  reschedule: 'lesson_reschedule_proposed',
+  cancel: 'lesson_cancelled',
+};
+
+const ACTION_MESSAGES: Record<LessonAction, string> = {
+  confirm: 'Lesson confirmed',
+  decline: 'Lesson declined',
+  reschedule: 'New time sent to the student',
+  cancel: 'Lesson cancelled',
+};
+
+interface ClassBookingManagementProps {
+  classId: string;
+  // Lesson times are stored in the class's zone
+  timeZone: string | null;
+  // Confirmed online lessons get a room to join
+  isOnline: boolean;
+}
+
+const formatLessonDate = (date: string) => format(new Date(`${date}T00:00:00`), 'EEE, MMM d');
+
+export default function ClassBookingManagement({ classId, timeZone, isOnline }: ClassBookingManagementProps) {
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialog, setDialog] = useState<{ lesson: Lesson; action: Exclude<LessonAction, 'confirm'> } | null>(null);
+  const [reason, setReason] = useState('');
+  const [newDate, setNewDate] = useState('');
+  const [newStartTime, setNewStartTime] = useState('');
+  const [newEndTime, setNewEndTime] = useState('');
+  const [wholeSeries, setWholeSeries] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const fetchLessons = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('class_bookings')
+      .select('id, student_name, student_email, booking_date, start_time, end_time, status, notes, is_recurring, series_id, proposed_date, proposed_start_time, proposed_end_time, proposal_note')
+      .eq('class_id', classId)
+      .in('status', ['pending', 'confirmed'])
+      .gte('booking_date', getZonedDateTime(new Date(), timeZone).date)
+      .order('booking_date')
+      .order('start_time');
+
+    if (error) {
+      console.error('Error fetching lessons:', error);
+    } else {
+      setLessons(data || []);
+    }
+  }, [classId, timeZone]);
+
+  useEffect(() => {
+    fetchLessons();
+  }, [fetchLessons]);
+
+  // Lesson rooms open shortly before each lesson
+  useEffect(() => {
+    if (!isOnline) return;
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [isOnline]);
+
+  const openDialog = (lesson: Lesson, action: Exclude<LessonAction, 'confirm'>) => {
+    setReason('');
+    setWholeSeries(false);
+    setNewDate(lesson.booking_date);
+    setNewStartTime(lesson.start_time.slice(0, 5));
+    setNewEndTime(lesson.end_time.slice(0, 5));
+    setDialog({ lesson, action });
+  };
+
+  // The server checks lessons and availability; the connected calendar is
+  // read by fetch-busy-times, so its busy times are checked here
+  const isBusyAt = async (date: string, startTime: string, endTime: string) => {
+    const { data, error } = await supabase.functions.invoke('fetch-busy-times', { body: { class_id: classId } });
+    if (error || !data?.busy_times) return false;
+    const startsAt = zonedTimeToDate(date, startTime, timeZone);
+    const endsAt = zonedTimeToDate(endTime <= startTime ? addDaysToDate(date, 1) : date, endTime, timeZone);
+    return (data.busy_times as { start: string; end: string }[])
+      .some((range) => new Date(range.start) < endsAt && new Date(range.end) > startsAt);
+  };
+
+  const runAction = async (lesson: Lesson, action: LessonAction) => {
+    if (action === 'reschedule' && (!newDate || !newStartTime || !newEndTime)) {
+      toast.error('Choose the new date and times');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (action === 'reschedule' && await isBusyAt(newDate, newStartTime, newEndTime)) {
+        toast.error('Your calendar shows you as busy at the new time');
+        return;
+      }
+
+      let changedIds = [lesson.id];
+      if (action === 'cancel') {
+        // Cancelling can take the rest of a series with it
+        const { data, error } = await supabase.rpc('cancel_class_lessons', {
+          _booking_id: lesson.id,
+          _whole_series: wholeSeries,
+          _reason: reason.trim() || undefined,
+        });
+        if (error) throw error;
+        changedIds = data || [];
+      } else {
+        const { error } = await supabase.rpc('manage_class_booking', {
+          _booking_id: lesson.id,
+          _action: action,
+          _reason: action === 'confirm' ? undefined : reason.trim() || undefined,
+          ...(action === 'reschedule' && {
+            _new_date: newDate,
+            _new_start_time: newStartTime,
+            _new_end_time: newEndTime,
+          }),
+        });
+        if (error) throw error;
+      }
+
+      try {
+        await supabase.functions.invoke('send-booking-email', {
+          body: { status: ACTION_EMAILS[action], classBookingId: lesson.id, wholeSeries: action === 'cancel' && wholeSeries },
+        });
+      } catch (emailError) {
+        console.error('Failed to send email notification:', emailError);
+      }
+
+      toast.success(changedIds.length > 1 ? `${changedIds.length} lessons cancelled` : ACTION_MESSAGES[action]);
+      setDialog(null);
+      await fetchLessons();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update lesson');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Confirms every pending lesson of a series, with one email
+  const confirmSeries = async (lesson: Lesson) => {
+    const seriesLessons = lessons.filter(l => l.series_id === lesson.series_id && l.status === 'pending');
+
+    setLoading(true);
+    const confirmedIds: string[] = [];
+    try {
+      for (const l of seriesLessons) {
+        const { error } = await supabase.rpc('manage_class_booking', { _booking_id: l.id, _action: 'confirm' });
+        if (error) throw error;
+        confirmedIds.push(l.id);
+      }
+      toast.success(`${confirmedIds.length} lessons confirmed`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to confirm the series');
+    }
+
+    if (confirmedIds.length > 0) {
+      try {
+        await supabase.functions.invoke('send-booking-email', {
+          body: { status: 'lesson_confirmed', classBookingId: confirmedIds[0], wholeSeries: true },
+        });
+      } catch (emailError) {
+        console.error('Failed to send email notification:', emailError);
+      }
+    }
+
+    setLoading(false);
+    await fetchLessons();
+  };
+
+  const joinRoom = async (lesson: Lesson) => {
+    try {
+      await joinLessonRoom(lesson.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open the lesson room');
+    }
+  };
+
+  const pendingLessons = lessons.filter(l => l.status === 'pending');
+  const confirmedLessons = lessons.filter(l => l.status === 'confirmed');
+
+  const renderLesson = (lesson: Lesson) => (
+    <div key={lesson.id} className="p-3 border border-border rounded-lg space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-foreground truncate">{lesson.student_name}</p>
+          <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+            <Mail className="h-3 w-3 shrink-0" />
+            {lesson.student_email}
+          </p>
+        </div>
+        {lesson.series_id && (
+          <Badge variant="outline" className="text-xs gap-1 shrink-0"><Repeat className="h-3 w-3" /> Series</Badge>
+        )}
+      </div>
+      <p className="text-sm text-foreground">
+        {formatLessonDate(lesson.booking_date)} · {formatTimeRange(lesson.start_time, lesson.end_time)}
+      </p>
+      {lesson.notes && <p className="text-xs text-muted-foreground whitespace-pre-wrap">"{lesson.notes}"</p>}
+      {lesson.proposed_date && (
+        <p className="text-xs text-primary">
+          Proposed {formatLessonDate(lesson.proposed_date)} · {formatTimeRange(lesson.proposed_start_time!, lesson.proposed_end_time)} — waiting for the student
+        </p>
+      )}
+      <div className="flex flex-wrap gap-2 pt-1">
+        {isOnline && lesson.status === 'confirmed' && isLessonRoomOpen(lesson.booking_date, lesson.start_time, lesson.end_time, timeZone, now) && (
+          <Button size="sm" className="gap-1 h-8" onClick={() => joinRoom(lesson)}>
+            <Video className="h-3.5 w-3.5" /> Join Lesson
+          </Button>
+        )}
+        {lesson.status === 'pending' && (
+          <>
+            <Button size="sm" className="gap-1 h-8" onClick={() => runAction(lesson, 'confirm')} disabled={loading}>
+              <CheckCircle className="h-3.5 w-3.5" /> Confirm
+            </Button>
+            <Button size="sm" variant="outline" className="gap-1 h-8" onClick={() => openDialog(lesson, 'decline')} disabled={loading}>
+              <XCircle className="h-3.5 w-3.5" /> Decline
+            </Button>
+            {lesson.series_id && pendingLessons.filter(l => l.series_id === lesson.series_id).length > 1 && (
+              <Button size="sm" variant="outline" className="gap-1 h-8" onClick={() => confirmSeries(lesson)} disabled={loading}>
+                <Repeat className="h-3.5 w-3.5" /> Confirm Series
+              </Button>
+            )}
+          </>
+        )}
+        <Button size="sm" variant="outline" className="gap-1 h-8" onClick={() => openDialog(lesson, 'reschedule')} disabled={loading}>
+          <CalendarClock className="h-3.5 w-3.5" /> New Time
+        </Button>
+        {lesson.status === 'confirmed' && (
+          <Button size="sm" variant="ghost" className="gap-1 h-8 text-destructive hover:text-destructive" onClick={() => openDialog(lesson, 'cancel')} disabled={loading}>
+            <Ban className="h-3.5 w-3.5" /> Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  const dialogCopy = {
+    decline: { title: 'Decline Lesson', description: 'The student will be emailed and can pick another time.', button: 'Decline Lesson' },
+    reschedule: { title: 'Propose a New Time', description: "The student will be asked to accept the new time. Until then the lesson stays where it is.", button: 'Send New Time' },
+    cancel: { title: 'Cancel Lesson', description: 'The student will be emailed that the lesson is off.', button: 'Cancel Lesson' },
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-5 space-y-4">
+        <h3 className="text-sm font-semibold text-foreground">Lesson Requests ({pendingLessons.length})</h3>
+        {pendingLessons.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No lessons waiting for you.</p>
+        ) : (
+          <div className="space-y-3">{pendingLessons.map(renderLesson)}</div>
+        )}
+
+        <h3 className="text-sm font-semibold text-foreground pt-2">Upcoming Lessons ({confirmedLessons.length})</h3>
+        {confirmedLessons.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No confirmed lessons yet.</p>
+        ) : (
+          <div className="space-y-3 max-h-[420px] overflow-y-auto pr-1">{confirmedLessons.map(renderLesson)}</div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          {dialog && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{dialogCopy[dialog.action].title}</DialogTitle>
+                <DialogDescription>
+                  {dialog.lesson.student_name}, {formatLessonDate(dialog.lesson.booking_date)} at {formatTimeRange(dialog.lesson.start_time)}.
+                  {' '}{dialogCopy[dialog.action].description}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                {dialog.action === 'reschedule' && (
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1.5">
+                      <Label htmlFor="lesson-date" className="text-xs">Date</Label>
+                      <Input id="lesson-date" type="date" value={newDate} onChange={e => setNewDate(e.target.value)} />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="lesson-start" className="text-xs">Start</Label>
+                      <Input id="lesson-start" type="time" value={newStartTime} onChange={e => setNewStartTime(e.target.value)} />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="lesson-end" className="text-xs">End</Label>
+                      <Input id="lesson-end" type="time" value={newEndTime} onChange={e => setNewEndTime(e.target.value)} />
+                    </div>
+                  </div>
+                )}
+                {dialog.action === 'cancel' && dialog.lesson.series_id && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox id="lesson-whole-series" checked={wholeSeries} onCheckedChange={(checked) => setWholeSeries(checked === true)} />
+                    <Label htmlFor="lesson-whole-series" className="font-normal">Cancel all upcoming lessons in this series</Label>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="lesson-reason">{dialog.action === 'reschedule' ? 'Note' : 'Reason'} (Optional)</Label>
+                  <Textarea
+                    id="lesson-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={dialog.action === 'reschedule' ? "e.g. I'm travelling that week" : 'Let the student know why'}
+                    maxLength={500}
+                    rows={3}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialog(null)} disabled={loading}>
+                  Back
+                </Button>
+                <Button
+                  variant={dialog.action === 'reschedule' ? 'default' : 'destructive'}
+                  onClick={() => runAction(dialog.lesson, dialog.action)}
+                  disabled={loading}
+                >
+                  {loading ? 'Saving...' : dialogCopy[dialog.action].button}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -3,6 +3,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { format, addDays, isSameDay, startOfMonth, endOfMonth, startOfWeek, endOfWeek, eachDayOfInterval, isToday, isBefore } from 'date-fns';
 import { ChevronLeft, ChevronRight, Loader2, Clock } from 'lucide-react';
+import { addDaysToDate, getViewerTimeZone, getZonedDateTime, zonedTimeToDate } from '@/lib/timeZones';
+import type { AvailabilityOverride } from '@/components/ClassAvailabilityEditor';
+import type { BookingRules } from '@/lib/bookingRules';
 
 interface AvailabilitySlot {
   id: string;
@@ -10,6 +13,7 @@ interface AvailabilitySlot {
   start_time: string;
   end_time: string;
   slot_duration_minutes: number;
+  time_zone?: string | null;
 }
 
 interface ICalSlot {
@@ -18,10 +22,16 @@ interface ICalSlot {
 }
 
 export interface TimeSlot {
-  availability_id: string;
+  // Null for slots from the iCal feed or an extra date
+  availability_id: string | null;
+  // Day the slot falls on for the viewer
   date: Date;
+  // Date and times as the teacher wrote them, in the class's time zone
+  booking_date: string;
   start_time: string;
   end_time: string;
+  start: Date;
+  end: Date;
   booked: boolean;
   busy: boolean;
 }
@@ -34,10 +44,35 @@ interface ClassCalendarViewProps {
   onSelectSlot: (slot: TimeSlot) => void;
   selectedSlot: TimeSlot | null;
   readOnly?: boolean;
+  // Zone the class's availability is in; the viewer's own when not set
+  timeZone?: string | null;
+  rules?: BookingRules;
+  overrides?: AvailabilityOverride[];
 }
 
+// Declined and cancelled lessons free their slot again
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
 const WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
 
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Time off covering the slot: the whole day, or hours overlapping it
+const isTimeOff = (slot: TimeSlot, override: AvailabilityOverride) => {
+  if (override.kind !== 'unavailable' || slot.booking_date < override.start_date || slot.booking_date > override.end_date) {
+    return false;
+  }
+  if (!override.start_time || !override.end_time) return true;
+  const end = slot.end_time <= slot.start_time ? 24 * 60 : toMinutes(slot.end_time);
+  return toMinutes(slot.start_time) < toMinutes(override.end_time) && end > toMinutes(override.start_time);
+};
+
 export default function ClassCalendarView({
   classId,
   availability,
@@ -46,16 +81,24 @@ export default function ClassCalendarView({
   onSelectSlot,
   selectedSlot,
   readOnly = false,
+  timeZone,
+  rules,
+  overrides = [],
 }: ClassCalendarViewProps) {
   const [currentMonth, setCurrentMonth] = useState(() => new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [icalSlots, setIcalSlots] = useState<ICalSlot[]>([]);
+  // Events on the teacher's connected calendar
+  const [busyTimes, setBusyTimes] = useState<ICalSlot[]>([]);
+  // The teacher's lessons in all their classes, without who booked them
+  const [lessonTimes, setLessonTimes] = useState<ICalSlot[]>([]);
   const [loadingIcal, setLoadingIcal] = useState(false);
   const [icalError, setIcalError] = useState<string | null>(null);
 
   const today = new Date();
   today.setHours(0, 0, 0, 0);
-  const maxDate = addDays(today, 29); // 30 days window
+  const horizonDays = rules?.booking_horizon_days ?? 30;
+  const maxDate = addDays(today, horizonDays - 1);
 
   useEffect(() => {
     if (!hasIcal) return;
@@ -69,6 +112,12 @@ export default function ClassCalendarView({
         if (!error && data?.slots) {
           setIcalSlots(data.slots);
         }
+        if (!error && data?.busy_times) {
+          setBusyTimes(data.busy_times);
+        }
+        if (!error && data?.lesson_times) {
+          setLessonTimes(data.lesson_times);
+        }
         if (data?.error) {
           setIcalError(data.error);
         }
@@ -81,52 +130,59 @@ export default function ClassCalendarView({
     fetchSlots();
   }, [classId, hasIcal]);
 
-  // Generate time slots from EITHER class_availability records OR iCal events
+  // Generate time slots from EITHER class_availability records OR iCal events,
+  // plus any extra dates, then apply the class's booking rules. The server
+  // checks the same rules in book-class-lessons.
   const allSlots = useMemo(() => {
     const slots: TimeSlot[] = [];
     const now = new Date();
+    const earliestStart = new Date(now.getTime() + (rules?.min_notice_hours ?? 0) * 60 * 60 * 1000);
+    const lastBookableDate = addDaysToDate(getZonedDateTime(now, timeZone).date, horizonDays - 1);
+
+    const toViewerDay = (instant: Date) => new Date(instant.getFullYear(), instant.getMonth(), instant.getDate());
+
+    const isBookedByMe = (dateStr: string, startStr: string) => existingBookings.some(
+      b => b.booking_date === dateStr && b.start_time === startStr + ':00' && ACTIVE_BOOKING_STATUSES.includes(b.status)
+    );
+
+    // Back-to-back slots filling a window on one date
+    const addWindowSlots = (
+      availabilityId: string | null,
+      dateStr: string,
+      window: { start_time: string; end_time: string; slot_duration_minutes: number },
+      zone: string | null | undefined,
+    ) => {
+      const endMinutes = toMinutes(window.end_time);
+      for (let m = toMinutes(window.start_time); m + window.slot_duration_minutes <= endMinutes; m += window.slot_duration_minutes) {
+        const startStr = formatMinutes(m);
+        const endStr = formatMinutes(m + window.slot_duration_minutes);
+        const slotStart = zonedTimeToDate(dateStr, startStr, zone);
+
+        slots.push({
+          availability_id: availabilityId,
+          date: toViewerDay(slotStart),
+          booking_date: dateStr,
+          start_time: startStr,
+          end_time: endStr,
+          start: slotStart,
+          end: zonedTimeToDate(dateStr, endStr, zone),
+          booked: isBookedByMe(dateStr, startStr),
+          busy: false,
+        });
+      }
+    };
 
     // If we have class_availability records, use those (original behavior)
     if (availability.length > 0) {
-      for (let dayOffset = 0; dayOffset < 30; dayOffset++) {
-        const date = addDays(today, dayOffset);
-        const dayOfWeek = date.getDay();
-
-        const daySlots = availability.filter(a => a.day_of_week === dayOfWeek);
-        for (const avail of daySlots) {
-          const [startH, startM] = avail.start_time.split(':').map(Number);
-          const [endH, endM] = avail.end_time.split(':').map(Number);
-          const startMinutes = startH * 60 + startM;
-          const endMinutes = endH * 60 + endM;
-
-          for (let m = startMinutes; m + avail.slot_duration_minutes <= endMinutes; m += avail.slot_duration_minutes) {
-            const slotStartH = Math.floor(m / 60);
-            const slotStartM = m % 60;
-            const slotEndTotal = m + avail.slot_duration_minutes;
-            const slotEndH = Math.floor(slotEndTotal / 60);
-            const slotEndMin = slotEndTotal % 60;
-
-            const startStr = `${String(slotStartH).padStart(2, '0')}:${String(slotStartM).padStart(2, '0')}`;
-            const endStr = `${String(slotEndH).padStart(2, '0')}:${String(slotEndMin).padStart(2, '0')}`;
-
-            const dateStr = format(date, 'yyyy-MM-dd');
-            const isBooked = existingBookings.some(
-              b => b.booking_date === dateStr && b.start_time === startStr + ':00' && b.status !== 'cancelled'
-            );
-
-            const slotStart = new Date(date);
-            slotStart.setHours(slotStartH, slotStartM, 0);
-            if (slotStart <= now) continue;
-
-            slots.push({
-              availability_id: avail.id,
-              date,
-              start_time: startStr,
-              end_time: endStr,
-              booked: isBooked,
-              busy: false,
-            });
-          }
+      for (const avail of availability) {
+        // Weekdays and times are the teacher's, so walk the booking window in their zone
+        const zone = avail.time_zone || timeZone;
+        const zoneToday = getZonedDateTime(now, zone).date;
+
+        for (let dayOffset = 0; dayOffset < horizonDays; dayOffset++) {
+          const dateStr = addDaysToDate(zoneToday, dayOffset);
+          if (new Date(`${dateStr}T00:00:00Z`).getUTCDay() !== avail.day_of_week) continue;
+          addWindowSlots(avail.id, dateStr, avail, zone);
         }
       }
     }
@@ -136,30 +192,59 @@ export default function ClassCalendarView({
         const slotStart = new Date(ical.start);
         const slotEnd = new Date(ical.end);
 
-        if (slotStart <= now) continue;
-        if (slotStart > maxDate) continue;
-
-        const startStr = `${String(slotStart.getHours()).padStart(2, '0')}:${String(slotStart.getMinutes()).padStart(2, '0')}`;
-        const endStr = `${String(slotEnd.getHours()).padStart(2, '0')}:${String(slotEnd.getMinutes()).padStart(2, '0')}`;
-
-        const dateStr = format(slotStart, 'yyyy-MM-dd');
-        const isBooked = existingBookings.some(
-          b => b.booking_date === dateStr && b.start_time === startStr + ':00' && b.status !== 'cancelled'
-        );
+        // Bookings are kept in the class's zone, like availability
+        const { date: dateStr, time: startStr } = getZonedDateTime(slotStart, timeZone);
+        const endStr = getZonedDateTime(slotEnd, timeZone).time;
 
         slots.push({
-          availability_id: 'ical', // placeholder for iCal-sourced slots
-          date: new Date(slotStart.getFullYear(), slotStart.getMonth(), slotStart.getDate()),
+          availability_id: null,
+          date: toViewerDay(slotStart),
+          booking_date: dateStr,
           start_time: startStr,
           end_time: endStr,
-          booked: isBooked,
+          start: slotStart,
+          end: slotEnd,
+          booked: isBookedByMe(dateStr, startStr),
           busy: false,
         });
       }
     }
 
-    return slots;
-  }, [availability, existingBookings, icalSlots]);
+    for (const override of overrides) {
+      if (override.kind !== 'available' || !override.start_time || !override.end_time || !override.slot_duration_minutes) continue;
+      addWindowSlots(null, override.start_date, {
+        start_time: override.start_time,
+        end_time: override.end_time,
+        slot_duration_minutes: override.slot_duration_minutes,
+      }, timeZone);
+    }
+
+    const lessonsByDate = new Map<string, number>();
+    for (const lesson of lessonTimes) {
+      const day = getZonedDateTime(new Date(lesson.start), timeZone).date;
+      lessonsByDate.set(day, (lessonsByDate.get(day) ?? 0) + 1);
+    }
+    const bufferMs = (rules?.buffer_minutes ?? 0) * 60000;
+    const dailyCap = rules?.daily_lesson_cap ?? null;
+
+    const bookable = slots.filter(slot =>
+      slot.start >= earliestStart
+      && slot.start > now
+      && slot.booking_date <= lastBookableDate
+      && !overrides.some(o => isTimeOff(slot, o))
+    );
+
+    for (const slot of bookable) {
+      slot.booked = slot.booked || lessonTimes.some(l => new Date(l.start) < slot.end && new Date(l.end) > slot.start);
+      slot.busy = busyTimes.some(b => new Date(b.start) < slot.end && new Date(b.end) > slot.start)
+        || lessonTimes.some(l => new Date(l.start).getTime() < slot.end.getTime() + bufferMs
+          && new Date(l.end).getTime() > slot.start.getTime() - bufferMs)
+        || (dailyCap !== null && (lessonsByDate.get(slot.booking_date) ?? 0) >= dailyCap);
+    }
+
+    bookable.sort((a, b) => a.start.getTime() - b.start.getTime());
+    return bookable;
+  }, [availability, existingBookings, icalSlots, busyTimes, lessonTimes, timeZone, rules, overrides, horizonDays]);
 
   // Dates that have available slots
   const availableDates = useMemo(() => {
@@ -216,13 +301,6 @@ export default function ClassCalendarView({
     setSelectedDate(date);
   };
 
-  const formatTime12h = (time24: string) => {
-    const [h, m] = time24.split(':').map(Number);
-    const ampm = h >= 12 ? 'pm' : 'am';
-    const h12 = h === 0 ? 12 : h > 12 ? h - 12 : h;
-    return `${h12}:${String(m).padStart(2, '0')}${ampm}`;
-  };
-
   return (
     <div className="flex flex-col">
       {/* Header */}
@@ -322,9 +400,7 @@ export default function ClassCalendarView({
                 <div className="flex flex-col gap-2 max-h-[280px] overflow-y-auto pr-1">
                   {slotsForDate.map((slot, i) => {
                     const isUnavailable = slot.booked || slot.busy;
-                    const isSelected = selectedSlot &&
-                      isSameDay(selectedSlot.date, slot.date) &&
-                      selectedSlot.start_time === slot.start_time;
+                    const isSelected = selectedSlot && selectedSlot.start.getTime() === slot.start.getTime();
 
                     if (isUnavailable) return null;
 
@@ -342,7 +418,7 @@ export default function ClassCalendarView({
                           ${readOnly ? 'cursor-default opacity-70' : 'cursor-pointer'}
                         `}
                       >
-                        {formatTime12h(slot.start_time)}
+                        {format(slot.start, 'h:mmaaa')}
                       </button>
                     );
                   })}
@@ -362,7 +438,8 @@ export default function ClassCalendarView({
 
       {/* Timezone hint */}
       <p className="text-[11px] text-muted-foreground mt-4">
-        {Intl.DateTimeFormat().resolvedOptions().timeZone}
+        Times shown in {getViewerTimeZone()}
+        {timeZone && timeZone !== getViewerTimeZone() && ` · Teacher is in ${timeZone}`}
       </p>
     </div>
   );
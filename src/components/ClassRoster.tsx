@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Loader2, Mail, UserMinus } from 'lucide-react';
+import { ClassTerm, getTermSessionDates } from '@/lib/classTerms';
+import { getZonedDateTime } from '@/lib/timeZones';
+
+interface Enrollment {
+  id: string;
+  student_name: string;
+  student_email: string;
+  status: string;
+  created_at: string;
+}
+
+type AttendanceStatus = 'present' | 'absent' | 'excused';
+
+const ATTENDANCE_OPTIONS: { value: AttendanceStatus; label: string }[] = [
+  { value: 'present', label: 'Present' },
+  { value: 'absent', label: 'Absent' },
+  { value: 'excused', label: 'Excused' },
+];
+
+interface ClassRosterProps {
+  term: ClassTerm;
+  scheduleDay: number | null;
+  timeZone: string | null;
+  onChange: () => void;
+}
+
+export default function ClassRoster({ term, scheduleDay, timeZone, onChange }: ClassRosterProps) {
+  const { user } = useAuth();
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [attendance, setAttendance] = useState<Record<string, Record<string, AttendanceStatus>>>({});
+  const [loading, setLoading] = useState(true);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const sessions = getTermSessionDates(term, scheduleDay);
+  const today = getZonedDateTime(new Date(), timeZone).date;
+  // Default to the latest session that has happened, or the first one
+  const [sessionDate, setSessionDate] = useState(() => [...sessions].reverse().find(d => d <= today) ?? sessions[0] ?? '');
+
+  const fetchRoster = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('class_enrollments')
+        .select('id, student_name, student_email, status, created_at, class_attendance(session_date, status)')
+        .eq('term_id', term.id)
+        .in('status', ['enrolled', 'waitlisted'])
+        .order('created_at');
+      if (error) throw error;
+
+      setEnrollments(data || []);
+      setAttendance(Object.fromEntries((data || []).map(e => [
+        e.id,
+        Object.fromEntries(e.class_attendance.map(a => [a.session_date, a.status as AttendanceStatus])),
+      ])));
+    } catch (err) {
+      console.error('Failed to load roster:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [term.id]);
+
+  useEffect(() => {
+    fetchRoster();
+  }, [fetchRoster]);
+
+  const markAttendance = async (enrollment: Enrollment, status: AttendanceStatus) => {
+    const previous = attendance[enrollment.id]?.[sessionDate];
+    setAttendance(prev => ({ ...prev, [enrollment.id]: { ...prev[enrollment.id], [sessionDate]: status } }));
+
+    const { error } = await supabase.from('class_attendance').upsert(
+      { enrollment_id: enrollment.id, session_date: sessionDate, status, marked_by: user?.id },
+      { onConflict: 'enrollment_id,session_date' },
+    );
+    if (error) {
+      toast.error('Failed to save attendance');
+      setAttendance(prev => {
+        const marks = { ...prev[enrollment.id] };
+        if (previous) marks[sessionDate] = previous;
+        else delete marks[sessionDate];
+        return { ...prev, [enrollment.id]: marks };
+      });
+    }
+  };
+
+  const removeStudent = async (enrollment: Enrollment) => {
+    setRemovingId(enrollment.id);
+    try {
+      const { data: promotedIds, error } = await supabase.rpc('leave_class_term', { _enrollment_id: enrollment.id });
+      if (error) throw error;
+
+      try {
+        await supabase.functions.invoke('send-booking-email', {
+          body: { status: 'class_enrollment_cancelled', enrollmentId: enrollment.id },
+        });
+      } catch (emailError) {
+        console.error('Failed to send email notification:', emailError);
+      }
+
+      toast.success(promotedIds?.length ? `${enrollment.student_name} removed; the next student on the waitlist got the seat` : `${enrollment.student_name} removed`);
+      await fetchRoster();
+      onChange();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove student');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const enrolled = enrollments.filter(e => e.status === 'enrolled');
+  const waitlisted = enrollments.filter(e => e.status === 'waitlisted');
+  const pastSessions = sessions.filter(d => d <= today);
+
+  return (
+    <div className="space-y-4">
+      {enrolled.length > 0 && sessions.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-xs font-medium text-muted-foreground">Attendance for</p>
+          <Select value={sessionDate} onValueChange={setSessionDate}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sessions.map((date, index) => (
+                <SelectItem key={date} value={date}>
+                  Session {index + 1} · {format(new Date(`${date}T00:00:00`), 'EEE, MMM d')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {enrolled.length > 0 && sessions.length === 0 && (
+        <p className="text-xs text-muted-foreground">Set a weekly schedule for this class to take attendance.</p>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-muted-foreground">Enrolled ({enrolled.length})</p>
+        {enrolled.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No students yet.</p>
+        ) : enrolled.map(enrollment => {
+          const marks = attendance[enrollment.id] || {};
+          const attended = pastSessions.filter(d => marks[d] === 'present').length;
+          return (
+            <div key={enrollment.id} className="p-3 border border-border rounded-lg space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{enrollment.student_name}</p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                    <Mail className="h-3 w-3 shrink-0" />
+                    {enrollment.student_email}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {pastSessions.length > 0 && (
+                    <Badge variant="outline" className="text-xs">{attended}/{pastSessions.length} attended</Badge>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeStudent(enrollment)}
+                    disabled={!!removingId}
+                    title="Remove from term"
+                  >
+                    {removingId === enrollment.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <UserMinus className="h-3.5 w-3.5" />}
+                  </Button>
+                </div>
+              </div>
+              {sessionDate && (
+                <div className="flex gap-1">
+                  {ATTENDANCE_OPTIONS.map(option => (
+                    <Button
+                      key={option.value}
+                      size="sm"
+                      variant={marks[sessionDate] === option.value ? (option.value === 'absent' ? 'destructive' : 'default') : 'outline'}
+                      className="h-7 text-xs flex-1"
+                      onClick={() => markAttendance(enrollment, option.value)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {waitlisted.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Waitlist ({waitlisted.length})</p>
+          {waitlisted.map((enrollment, index) => (
+            <div key={enrollment.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">{index + 1}. {enrollment.student_name}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive shrink-0"
+                onClick={() => removeStudent(enrollment)}
+                disabled={!!removingId}
+                title="Remove from waitlist"
+              >
+                <UserMinus className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
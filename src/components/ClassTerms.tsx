@@ -0,0 +1,403 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { CalendarRange, Plus, Loader2, Users, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+import { getZonedDateTime } from '@/lib/timeZones';
+import ClassRoster from '@/components/ClassRoster';
+import { ClassTerm, getTermSessionDates } from '@/lib/classTerms';
+
+interface TermSeats {
+  enrolled: number;
+  waitlisted: number;
+}
+
+interface MyEnrollment {
+  id: string;
+  term_id: string;
+  status: string;
+}
+
+interface ClassTermsProps {
+  classId: string;
+  maxCapacity: number | null;
+  scheduleDay: number | null;
+  timeZone: string | null;
+  canManage: boolean;
+}
+
+const formatTermDate = (date: string) => format(new Date(`${date}T00:00:00`), 'MMM d, yyyy');
+
+export default function ClassTerms({ classId, maxCapacity, scheduleDay, timeZone, canManage }: ClassTermsProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [terms, setTerms] = useState<ClassTerm[]>([]);
+  const [seats, setSeats] = useState<Record<string, TermSeats>>({});
+  const [myEnrollments, setMyEnrollments] = useState<MyEnrollment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyTermId, setBusyTermId] = useState<string | null>(null);
+  const [openRosterId, setOpenRosterId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [termName, setTermName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [capacity, setCapacity] = useState('');
+  const [enrollingTerm, setEnrollingTerm] = useState<ClassTerm | null>(null);
+  const [studentName, setStudentName] = useState('');
+  const [studentEmail, setStudentEmail] = useState('');
+
+  const today = getZonedDateTime(new Date(), timeZone).date;
+
+  const fetchTerms = useCallback(async () => {
+    try {
+      const [{ data: termData, error }, { data: seatData }] = await Promise.all([
+        supabase
+          .from('class_terms')
+          .select('id, name, start_date, end_date, capacity')
+          .eq('class_id', classId)
+          .gte('end_date', today)
+          .order('start_date'),
+        supabase.rpc('class_term_seats', { _class_id: classId }),
+      ]);
+      if (error) throw error;
+      setTerms(termData || []);
+      setSeats(Object.fromEntries((seatData || []).map(s => [s.term_id, { enrolled: s.enrolled, waitlisted: s.waitlisted }])));
+
+      if (user) {
+        const { data: mine } = await supabase
+          .from('class_enrollments')
+          .select('id, term_id, status')
+          .eq('class_id', classId)
+          .eq('user_id', user.id)
+          .neq('status', 'cancelled');
+        setMyEnrollments(mine || []);
+      }
+    } catch (err) {
+      console.error('Failed to load terms:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [classId, today, user]);
+
+  useEffect(() => {
+    fetchTerms();
+  }, [fetchTerms]);
+
+  const handleAddTerm = async () => {
+    const seatCount = capacity ? parseInt(capacity) : null;
+    if (!termName.trim() || !startDate || !endDate) {
+      toast.error('Enter a name and the term dates');
+      return;
+    }
+    if (endDate < startDate) {
+      toast.error('The term has to end after it starts');
+      return;
+    }
+    if (seatCount !== null && (!seatCount || seatCount < 1)) {
+      toast.error('Capacity must be at least 1');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('class_terms').insert({
+        class_id: classId,
+        name: termName.trim(),
+        start_date: startDate,
+        end_date: endDate,
+        capacity: seatCount,
+      });
+      if (error) throw error;
+      setTermName('');
+      setStartDate('');
+      setEndDate('');
+      setCapacity('');
+      setAdding(false);
+      toast.success('Term added');
+      fetchTerms();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add term');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTerm = async (term: ClassTerm) => {
+    const { error } = await supabase.from('class_terms').delete().eq('id', term.id);
+    if (error) {
+      toast.error('Failed to delete term');
+      return;
+    }
+    setTerms(prev => prev.filter(t => t.id !== term.id));
+    toast.success('Term deleted');
+  };
+
+  const openEnroll = async (term: ClassTerm) => {
+    if (!user) {
+      toast.error('Please sign in to enroll');
+      navigate('/login');
+      return;
+    }
+    setStudentEmail(user.email || '');
+    if (!studentName) {
+      const { data: profile } = await supabase.from('profiles').select('full_name').eq('user_id', user.id).maybeSingle();
+      if (profile?.full_name) setStudentName(profile.full_name);
+    }
+    setEnrollingTerm(term);
+  };
+
+  const handleEnroll = async () => {
+    if (!enrollingTerm) return;
+    if (!studentName.trim() || !studentEmail.trim()) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    setBusyTermId(enrollingTerm.id);
+    try {
+      const { data, error } = await supabase.rpc('enroll_in_class_term', {
+        _term_id: enrollingTerm.id,
+        _student_name: studentName.trim(),
+        _student_email: studentEmail.trim(),
+      });
+      if (error) throw error;
+      const result = data?.[0];
+      if (!result) throw new Error('Enrollment failed');
+
+      const waitlisted = result.enrollment_status === 'waitlisted';
+      try {
+        await supabase.functions.invoke('send-booking-email', {
+          body: { status: waitlisted ? 'class_waitlisted' : 'class_enrolled', enrollmentId: result.enrollment_id },
+        });
+      } catch (emailError) {
+        console.error('Failed to send email notification:', emailError);
+      }
+
+      toast.success(waitlisted ? "This term is full, so you're on the waitlist" : "You're enrolled!");
+      setEnrollingTerm(null);
+      await fetchTerms();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to enroll');
+    } finally {
+      setBusyTermId(null);
+    }
+  };
+
+  const handleLeave = async (term: ClassTerm, enrollment: MyEnrollment) => {
+    setBusyTermId(term.id);
+    try {
+      const { error } = await supabase.rpc('leave_class_term', { _enrollment_id: enrollment.id });
+      if (error) throw error;
+      toast.success(enrollment.status === 'waitlisted' ? 'You left the waitlist' : 'You left this term');
+      await fetchTerms();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to leave the term');
+    } finally {
+      setBusyTermId(null);
+    }
+  };
+
+  const handleFillSeats = async (term: ClassTerm) => {
+    setBusyTermId(term.id);
+    try {
+      const { data: promotedIds, error } = await supabase.rpc('promote_class_waitlist', { _term_id: term.id });
+      if (error) throw error;
+      toast.success(promotedIds?.length ? `${promotedIds.length} moved up from the waitlist` : 'No open seats to fill');
+      await fetchTerms();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to fill seats');
+    } finally {
+      setBusyTermId(null);
+    }
+  };
+
+  if (loading || (!canManage && terms.length === 0)) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+            <CalendarRange className="h-4 w-4" /> Terms
+          </h3>
+          {canManage && !adding && (
+            <Button size="sm" variant="outline" className="gap-1 h-7" onClick={() => setAdding(true)}>
+              <Plus className="h-3 w-3" /> Add Term
+            </Button>
+          )}
+        </div>
+
+        {canManage && adding && (
+          <div className="space-y-3 p-3 border border-border rounded-lg">
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Name</Label>
+              <Input value={termName} onChange={e => setTermName(e.target.value)} placeholder="e.g. Spring 2027" maxLength={100} className="h-9" />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1.5">
+                <Label className="text-xs font-medium">Starts</Label>
+                <Input type="date" value={startDate} min={today} onChange={e => setStartDate(e.target.value)} className="h-9" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs font-medium">Ends</Label>
+                <Input type="date" value={endDate} min={startDate || today} onChange={e => setEndDate(e.target.value)} className="h-9" />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Seats</Label>
+              <Input
+                type="number"
+                min="1"
+                value={capacity}
+                onChange={e => setCapacity(e.target.value)}
+                placeholder={maxCapacity ? `${maxCapacity} (class maximum)` : 'Unlimited'}
+                className="h-9"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleAddTerm} disabled={saving}>
+                {saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Save Term
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setAdding(false)} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {terms.length === 0 ? (
+          canManage && !adding && (
+            <p className="text-xs text-muted-foreground">
+              Add a term so students can enroll. When it fills up, new students join a waitlist.
+            </p>
+          )
+        ) : (
+          <div className="space-y-3">
+            {terms.map(term => {
+              const termSeats = seats[term.id] ?? { enrolled: 0, waitlisted: 0 };
+              const termCapacity = term.capacity ?? maxCapacity;
+              const seatsLeft = termCapacity === null ? null : Math.max(termCapacity - termSeats.enrolled, 0);
+              const isFull = seatsLeft === 0 || termSeats.waitlisted > 0;
+              const sessionCount = getTermSessionDates(term, scheduleDay).length;
+              const mine = myEnrollments.find(e => e.term_id === term.id);
+              const isBusy = busyTermId === term.id;
+
+              return (
+                <div key={term.id} className="p-3 border border-border rounded-lg space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{term.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatTermDate(term.start_date)} – {formatTermDate(term.end_date)}
+                        {sessionCount > 0 && ` · ${sessionCount} ${sessionCount === 1 ? 'session' : 'sessions'}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1 mt-0.5">
+                        <Users className="h-3 w-3" />
+                        {seatsLeft === null
+                          ? `${termSeats.enrolled} enrolled`
+                          : seatsLeft > 0
+                            ? `${seatsLeft} of ${termCapacity} seats left`
+                            : 'Full'}
+                        {termSeats.waitlisted > 0 && ` · ${termSeats.waitlisted} on waitlist`}
+                      </p>
+                    </div>
+                    {mine && (
+                      <Badge variant={mine.status === 'enrolled' ? 'default' : 'secondary'} className="shrink-0">
+                        {mine.status === 'enrolled' ? 'Enrolled' : 'Waitlisted'}
+                      </Badge>
+                    )}
+                  </div>
+
+                  {!canManage && (
+                    mine ? (
+                      <Button size="sm" variant="outline" className="w-full h-8" onClick={() => handleLeave(term, mine)} disabled={isBusy}>
+                        {isBusy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : mine.status === 'enrolled' ? 'Leave Term' : 'Leave Waitlist'}
+                      </Button>
+                    ) : (
+                      <Button size="sm" className="w-full h-8" onClick={() => openEnroll(term)} disabled={isBusy}>
+                        {isFull ? 'Join Waitlist' : 'Enroll'}
+                      </Button>
+                    )
+                  )}
+
+                  {canManage && (
+                    <>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1 h-8"
+                          onClick={() => setOpenRosterId(openRosterId === term.id ? null : term.id)}
+                        >
+                          {openRosterId === term.id ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                          Roster
+                        </Button>
+                        {termSeats.waitlisted > 0 && (seatsLeft === null || seatsLeft > 0) && (
+                          <Button size="sm" variant="outline" className="h-8" onClick={() => handleFillSeats(term)} disabled={isBusy}>
+                            Fill Open Seats
+                          </Button>
+                        )}
+                        {termSeats.enrolled === 0 && termSeats.waitlisted === 0 && (
+                          <Button size="sm" variant="ghost" className="gap-1 h-8 text-destructive hover:text-destructive" onClick={() => handleDeleteTerm(term)}>
+                            <Trash2 className="h-3.5 w-3.5" /> Delete
+                          </Button>
+                        )}
+                      </div>
+                      {openRosterId === term.id && (
+                        <ClassRoster term={term} scheduleDay={scheduleDay} timeZone={timeZone} onChange={fetchTerms} />
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!enrollingTerm} onOpenChange={(open) => !open && setEnrollingTerm(null)}>
+        <DialogContent>
+          {enrollingTerm && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Enroll in {enrollingTerm.name}</DialogTitle>
+                <DialogDescription>
+                  {formatTermDate(enrollingTerm.start_date)} – {formatTermDate(enrollingTerm.end_date)}.
+                  {' '}If the term is full you'll join the waitlist and get the next open seat.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="enroll-name" className="text-xs font-medium">Name *</Label>
+                  <Input id="enroll-name" value={studentName} onChange={e => setStudentName(e.target.value)} placeholder="Your name" maxLength={100} />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="enroll-email" className="text-xs font-medium">Email *</Label>
+                  <Input id="enroll-email" type="email" value={studentEmail} onChange={e => setStudentEmail(e.target.value)} placeholder="you@email.com" />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setEnrollingTerm(null)} disabled={!!busyTermId}>
+                  Back
+                </Button>
+                <Button onClick={handleEnroll} disabled={!!busyTermId}>
+                  {busyTermId ? 'Enrolling...' : 'Enroll'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
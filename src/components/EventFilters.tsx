@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Label } from '@/components/ui/label';
+import { hasEventEnded } from '@/lib/eventTimes';
 
 export type DateFilter = 'all' | 'upcoming' | 'past' | 'this-week' | 'this-month';
 export type SortOption = 'date-asc' | 'date-desc' | 'price-asc' | 'price-desc' | 'name-asc';
@@ -220,28 +221,30 @@ export function filterAndSortEvents(
   sortBy: SortOption
 ): any[] {
   const now = new Date();
-  now.setHours(0, 0, 0, 0);
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
   
   let filtered = [...events];
 
   if (dateFilter !== 'all') {
     filtered = filtered.filter(event => {
-      const eventDate = new Date(event.date);
-      eventDate.setHours(0, 0, 0, 0);
+      const eventDate = new Date(`${event.date}T00:00:00`);
+      // Events stay upcoming until they end, so ones in progress still show
+      const hasEnded = hasEventEnded(event, now);
       
       switch (dateFilter) {
         case 'upcoming':
-          return eventDate >= now;
+          return !hasEnded;
         case 'past':
-          return eventDate < now;
+          return hasEnded;
         case 'this-week': {
-          const weekEnd = new Date(now);
+          const weekEnd = new Date(today);
           weekEnd.setDate(weekEnd.getDate() + 7);
-          return eventDate >= now && eventDate <= weekEnd;
+          return !hasEnded && eventDate <= weekEnd;
         }
         case 'this-month': {
-          const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-          return eventDate >= now && eventDate <= monthEnd;
+          const monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+          return !hasEnded && eventDate <= monthEnd;
         }
         default:
           return true;
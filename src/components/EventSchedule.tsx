@@ -1,40 +1,88 @@
-import { useState, useEffect } from "react";
-import { Clock, Plus, Trash2, Edit2, Save, X } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import { Clock, Plus, Trash2, Edit2, Save, X, MapPin, Music, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { formatEventDay } from "@/lib/festival";
+
+interface ScheduleArtist {
+  id: string;
+  name: string;
+}
 
 interface ScheduleItem {
   id: string;
+  day: string | null;
   time: string;
+  stage: string | null;
   title: string;
   description: string | null;
+  raag: string | null;
+  taal: string | null;
+  accompanists: string | null;
+  event_schedule_artists: { artist_id: string; artists: ScheduleArtist | null }[];
 }
 
 interface EventScheduleProps {
   eventId: string;
   canEdit: boolean;
+  /** Days of a multi-day event; the schedule is shown one day at a time */
+  days?: string[];
+  /** The event's line-up, which slots can link their performers from */
+  artists?: ScheduleArtist[];
 }
 
-export default function EventSchedule({ eventId, canEdit }: EventScheduleProps) {
+export default function EventSchedule({ eventId, canEdit, days = [], artists = [] }: EventScheduleProps) {
   const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
-  const [formData, setFormData] = useState({ time: "", title: "", description: "" });
+  const isMultiDay = days.length > 1;
+  const [selectedDay, setSelectedDay] = useState(days[0] ?? "");
+  const activeDay = days.includes(selectedDay) ? selectedDay : days[0] ?? "";
+  // Shows one artist's slots across every day
+  const [artistFilter, setArtistFilter] = useState<string | null>(null);
+  const emptyForm = {
+    day: activeDay,
+    time: "",
+    stage: "",
+    title: "",
+    description: "",
+    raag: "",
+    taal: "",
+    accompanists: "",
+    artistIds: [] as string[],
+  };
+  const [formData, setFormData] = useState(emptyForm);
 
-  useEffect(() => {
-    fetchSchedule();
-  }, [eventId]);
+  // Items without a day (or on a day the event no longer has) belong to the first day
+  const getItemDay = (item: ScheduleItem) => (item.day && days.includes(item.day) ? item.day : days[0] ?? "");
+  const getItemArtists = (item: ScheduleItem) =>
+    item.event_schedule_artists.map((link) => link.artists).filter((artist): artist is ScheduleArtist => !!artist);
 
-  const fetchSchedule = async () => {
+  // Everyone performing in the program, for browsing by artist
+  const programArtists = Array.from(
+    new Map(schedule.flatMap(getItemArtists).map((artist) => [artist.id, artist])).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
+
+  const visibleSchedule = artistFilter
+    ? schedule.filter((item) => item.event_schedule_artists.some((link) => link.artist_id === artistFilter))
+    : isMultiDay
+      ? schedule.filter((item) => getItemDay(item) === activeDay)
+      : schedule;
+
+  const fetchSchedule = useCallback(async () => {
     const { data, error } = await supabase
       .from("event_schedule")
-      .select("*")
+      .select("*, event_schedule_artists(artist_id, artists(id, name))")
       .eq("event_id", eventId)
+      .order("day", { ascending: true, nullsFirst: true })
       .order("time", { ascending: true });
 
     if (error) {
@@ -43,6 +91,33 @@ export default function EventSchedule({ eventId, canEdit }: EventScheduleProps)
       setSchedule(data || []);
     }
     setLoading(false);
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [fetchSchedule]);
+
+  const getItemFields = () => ({
+    day: isMultiDay ? formData.day : null,
+    time: formData.time,
+    stage: formData.stage.trim() || null,
+    title: formData.title.trim(),
+    description: formData.description.trim() || null,
+    raag: formData.raag.trim() || null,
+    taal: formData.taal.trim() || null,
+    accompanists: formData.accompanists.trim() || null,
+  });
+
+  // Replaces the performers linked to a slot
+  const saveItemArtists = async (itemId: string) => {
+    const { error: deleteError } = await supabase.from("event_schedule_artists").delete().eq("schedule_item_id", itemId);
+    if (deleteError) return deleteError;
+
+    if (formData.artistIds.length === 0) return null;
+    const { error } = await supabase
+      .from("event_schedule_artists")
+      .insert(formData.artistIds.map((artistId) => ({ schedule_item_id: itemId, artist_id: artistId })));
+    return error;
   };
 
   const handleAdd = async () => {
@@ -51,19 +126,26 @@ export default function EventSchedule({ eventId, canEdit }: EventScheduleProps)
       return;
     }
 
-    const { error } = await supabase.from("event_schedule").insert({
-      event_id: eventId,
-      time: formData.time,
-      title: formData.title.trim(),
-      description: formData.description.trim() || null,
-    });
+    const { data, error } = await supabase
+      .from("event_schedule")
+      .insert({ event_id: eventId, ...getItemFields() })
+      .select("id")
+      .single();
+
+    const artistsError = data ? await saveItemArtists(data.id) : null;
 
     if (error) {
       toast.error("Failed to add schedule item");
       console.error(error);
     } else {
-      toast.success("Schedule item added");
-      setFormData({ time: "", title: "", description: "" });
+      if (artistsError) {
+        toast.error("Schedule item added, but its artists couldn't be saved");
+        console.error(artistsError);
+      } else {
+        toast.success("Schedule item added");
+      }
+      if (isMultiDay) setSelectedDay(formData.day);
+      setFormData(emptyForm);
       setShowAddForm(false);
       fetchSchedule();
     }
@@ -77,20 +159,18 @@ export default function EventSchedule({ eventId, canEdit }: EventScheduleProps)
 
     const { error } = await supabase
       .from("event_schedule")
-      .update({
-        time: formData.time,
-        title: formData.title.trim(),
-        description: formData.description.trim() || null,
-      })
+      .update(getItemFields())
       .eq("id", id);
 
-    if (error) {
+    const artistsError = error ? null : await saveItemArtists(id);
+
+    if (error || artistsError) {
       toast.error("Failed to update schedule item");
-      console.error(error);
+      console.error(error || artistsError);
     } else {
       toast.success("Schedule updated");
       setEditingId(null);
-      setFormData({ time: "", title: "", description: "" });
+      setFormData(emptyForm);
       fetchSchedule();
     }
   };
@@ -110,16 +190,31 @@ export default function EventSchedule({ eventId, canEdit }: EventScheduleProps)
   const startEdit = (item: ScheduleItem) => {
     setEditingId(item.id);
     setFormData({
+      day: getItemDay(item),
       time: item.time,
+      stage: item.stage || "",
       title: item.title,
       description: item.description || "",
+      raag: item.raag || "",
+      taal: item.taal || "",
+      accompanists: item.accompanists || "",
+      artistIds: item.event_schedule_artists.map((link) => link.artist_id),
     });
     setShowAddForm(false);
   };
 
   const cancelEdit = () => {
     setEditingId(null);
-    setFormData({ time: "", title: "", description: "" });
+    setFormData(emptyForm);
+  };
+
+  const toggleArtist = (artistId: string) => {
+    setFormData({
+      ...formData,
+      artistIds: formData.artistIds.includes(artistId)
+        ? formData.artistIds.filter((id) => id !== artistId)
+        : [...formData.artistIds, artistId],
+    });
   };
 
   const formatTime = (time: string) => {
@@ -130,6 +225,101 @@ export default function EventSchedule({ eventId, canEdit }: EventScheduleProps)
     return `${displayHour}:${minutes} ${ampm}`;
   };
 
+  const renderForm = (onSave: () => void, onCancel: () => void) => (
+    <div className="bg-muted/50 p-4 rounded-lg space-y-3 border border-border/50">
+      <div className="grid grid-cols-3 gap-3">
+        <Input
+          type="time"
+          value={formData.time}
+          onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+          placeholder="Time"
+        />
+        <Input
+          value={formData.title}
+          onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+          placeholder="Title (e.g., Evening Recital)"
+          className="col-span-2"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {isMultiDay && (
+          <Select value={formData.day} onValueChange={(day) => setFormData({ ...formData, day })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {days.map((day, index) => (
+                <SelectItem key={day} value={day}>
+                  Day {index + 1} · {formatEventDay(day)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          value={formData.stage}
+          onChange={(e) => setFormData({ ...formData, stage: e.target.value })}
+          placeholder="Stage (optional)"
+          className={isMultiDay ? "col-span-2" : "col-span-3"}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <Input
+          value={formData.raag}
+          onChange={(e) => setFormData({ ...formData, raag: e.target.value })}
+          placeholder="Raag (e.g., Yaman)"
+        />
+        <Input
+          value={formData.taal}
+          onChange={(e) => setFormData({ ...formData, taal: e.target.value })}
+          placeholder="Taal (e.g., Teentaal)"
+        />
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Performing</p>
+        {artists.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {artists.map((artist) => (
+              <Button
+                key={artist.id}
+                type="button"
+                size="sm"
+                variant={formData.artistIds.includes(artist.id) ? "default" : "outline"}
+                className="h-7 px-2 text-xs"
+                onClick={() => toggleArtist(artist.id)}
+              >
+                {artist.name}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Add artists to the event to link them to this slot</p>
+        )}
+      </div>
+      <Input
+        value={formData.accompanists}
+        onChange={(e) => setFormData({ ...formData, accompanists: e.target.value })}
+        placeholder="Accompanists (e.g., Tabla: Name, Harmonium: Name)"
+      />
+      <Textarea
+        value={formData.description}
+        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+        placeholder="Description (optional)"
+        rows={2}
+      />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={onSave}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          <X className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
   if (loading) {
     return <p className="text-muted-foreground text-sm">Loading schedule...</p>;
   }
@@ -149,7 +339,7 @@ export default function EventSchedule({ eventId, canEdit }: EventScheduleProps)
               onClick={() => {
                 setShowAddForm(true);
                 setEditingId(null);
-                setFormData({ time: "", title: "", description: "" });
+                setFormData(emptyForm);
               }}
               className="gap-1"
             >
@@ -160,110 +350,112 @@ export default function EventSchedule({ eventId, canEdit }: EventScheduleProps)
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
-        {showAddForm && canEdit && (
-          <div className="bg-muted/50 p-4 rounded-lg space-y-3 border border-border/50">
-            <div className="grid grid-cols-3 gap-3">
-              <Input
-                type="time"
-                value={formData.time}
-                onChange={(e) => setFormData({ ...formData, time: e.target.value })}
-                placeholder="Time"
-              />
-              <Input
-                value={formData.title}
-                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                placeholder="Title (e.g., Raga Yaman)"
-                className="col-span-2"
-              />
-            </div>
-            <Textarea
-              value={formData.description}
-              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-              placeholder="Description (optional)"
-              rows={2}
-            />
-            <div className="flex gap-2">
-              <Button size="sm" onClick={handleAdd}>
-                <Save className="h-4 w-4 mr-1" />
-                Save
-              </Button>
-              <Button size="sm" variant="ghost" onClick={() => setShowAddForm(false)}>
-                <X className="h-4 w-4 mr-1" />
-                Cancel
+        {programArtists.length > 1 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <Users className="h-4 w-4 text-muted-foreground mr-1" />
+            <Button
+              size="sm"
+              variant={artistFilter ? "ghost" : "secondary"}
+              className="h-7 px-2 text-xs"
+              onClick={() => setArtistFilter(null)}
+            >
+              {isMultiDay ? "By day" : "All"}
+            </Button>
+            {programArtists.map((artist) => (
+              <Button
+                key={artist.id}
+                size="sm"
+                variant={artistFilter === artist.id ? "secondary" : "ghost"}
+                className="h-7 px-2 text-xs"
+                onClick={() => setArtistFilter(artistFilter === artist.id ? null : artist.id)}
+              >
+                {artist.name}
               </Button>
-            </div>
+            ))}
           </div>
         )}
 
-        {schedule.length === 0 && !showAddForm ? (
+        {isMultiDay && !artistFilter && (
+          <Tabs value={activeDay} onValueChange={setSelectedDay}>
+            <TabsList className="h-auto flex-wrap justify-start">
+              {days.map((day, index) => (
+                <TabsTrigger key={day} value={day} className="flex-col gap-0.5 px-3 py-1.5">
+                  <span className="text-xs font-semibold">Day {index + 1}</span>
+                  <span className="text-xs font-normal">{formatEventDay(day)}</span>
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        )}
+
+        {showAddForm && canEdit && renderForm(handleAdd, () => setShowAddForm(false))}
+
+        {visibleSchedule.length === 0 && !showAddForm ? (
           <div className="text-center py-6">
             <Clock className="h-10 w-10 mx-auto text-muted-foreground/50 mb-2" />
-            <p className="text-muted-foreground text-sm">Schedule will be posted closer to the event</p>
+            <p className="text-muted-foreground text-sm">
+              {schedule.length > 0 ? "Nothing scheduled for this day yet" : "Schedule will be posted closer to the event"}
+            </p>
           </div>
         ) : (
           <div className="space-y-2">
-            {schedule.map((item) => (
-              <div key={item.id}>
-                {editingId === item.id ? (
-                  <div className="bg-muted/50 p-4 rounded-lg space-y-3 border border-border/50">
-                    <div className="grid grid-cols-3 gap-3">
-                      <Input
-                        type="time"
-                        value={formData.time}
-                        onChange={(e) => setFormData({ ...formData, time: e.target.value })}
-                      />
-                      <Input
-                        value={formData.title}
-                        onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                        placeholder="Title"
-                        className="col-span-2"
-                      />
-                    </div>
-                    <Textarea
-                      value={formData.description}
-                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                      placeholder="Description (optional)"
-                      rows={2}
-                    />
-                    <div className="flex gap-2">
-                      <Button size="sm" onClick={() => handleUpdate(item.id)}>
-                        <Save className="h-4 w-4 mr-1" />
-                        Save
-                      </Button>
-                      <Button size="sm" variant="ghost" onClick={cancelEdit}>
-                        <X className="h-4 w-4 mr-1" />
-                        Cancel
-                      </Button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="flex items-start gap-4 p-3 rounded-lg hover:bg-muted/30 transition-colors group">
-                    <div className="text-primary font-medium whitespace-nowrap min-w-[80px]">
-                      {formatTime(item.time)}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="font-medium">{item.title}</p>
-                      {item.description && <p className="text-sm text-muted-foreground mt-0.5">{item.description}</p>}
-                    </div>
-                    {canEdit && (
-                      <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => startEdit(item)}>
-                          <Edit2 className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="h-8 w-8 text-destructive hover:text-destructive"
-                          onClick={() => handleDelete(item.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+            {visibleSchedule.map((item) => {
+              const itemArtists = getItemArtists(item);
+
+              return (
+                <div key={item.id}>
+                  {editingId === item.id ? (
+                    renderForm(() => handleUpdate(item.id), cancelEdit)
+                  ) : (
+                    <div className="flex items-start gap-4 p-3 rounded-lg hover:bg-muted/30 transition-colors group">
+                      <div className="text-primary font-medium whitespace-nowrap min-w-[80px]">
+                        {isMultiDay && artistFilter && (
+                          <p className="text-xs text-muted-foreground font-normal">{formatEventDay(getItemDay(item))}</p>
+                        )}
+                        {formatTime(item.time)}
                       </div>
-                    )}
-                  </div>
-                )}
-              </div>
-            ))}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium">{item.title}</p>
+                        {itemArtists.length > 0 && (
+                          <p className="text-sm">{itemArtists.map((artist) => artist.name).join(", ")}</p>
+                        )}
+                        {(item.raag || item.taal) && (
+                          <p className="text-sm text-muted-foreground flex items-center gap-1 mt-0.5">
+                            <Music className="h-3 w-3" />
+                            {[item.raag && `Raag ${item.raag}`, item.taal].filter(Boolean).join(" · ")}
+                          </p>
+                        )}
+                        {item.accompanists && (
+                          <p className="text-sm text-muted-foreground mt-0.5">with {item.accompanists}</p>
+                        )}
+                        {item.stage && (
+                          <Badge variant="outline" className="mt-1 gap-1 font-normal">
+                            <MapPin className="h-3 w-3" />
+                            {item.stage}
+                          </Badge>
+                        )}
+                        {item.description && <p className="text-sm text-muted-foreground mt-0.5">{item.description}</p>}
+                      </div>
+                      {canEdit && (
+                        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => startEdit(item)}>
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            onClick={() => handleDelete(item.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         )}
       </CardContent>
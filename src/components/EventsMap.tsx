@@ -1,17 +1,23 @@
 import React, { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { formatEventDay } from '@/lib/festival';
+import { formatEventTimeRange } from '@/lib/eventTimes';
 
 type Event = {
   id: string;
   title: string;
   date: string;
   time: string;
+  end_date?: string | null;
+  end_time?: string | null;
+  time_zone?: string | null;
   location_name: string | null;
   location_lat: number | null;
   location_lng: number | null;
   price: number | null;
   distance?: number;
+  recurrence?: string | null;
 };
 
 type EventsMapProps = {
@@ -160,13 +166,25 @@ export default function EventsMap({ events, userLocation, radius, onEventClick }
           <div style="display: flex; flex-direction: column; gap: 6px;">
             <p style="font-size: 13px; color: #666; margin: 0; display: flex; align-items: center; gap: 6px;">
               <span>📅</span>
-              ${new Date(event.date).toLocaleDateString('en-US', { 
-                weekday: 'short',
-                month: 'short', 
-                day: 'numeric', 
-                year: 'numeric' 
-              })}
+              ${event.end_date && event.end_date !== event.date
+                ? `${formatEventDay(event.date)} – ${formatEventDay(event.end_date)}`
+                : new Date(`${event.date}T00:00:00`).toLocaleDateString('en-US', { 
+                  weekday: 'short',
+                  month: 'short', 
+                  day: 'numeric', 
+                  year: 'numeric' 
+                })}
             </p>
+            <p style="font-size: 13px; color: #666; margin: 0; display: flex; align-items: center; gap: 6px;">
+              <span>🕒</span>
+              ${formatEventTimeRange(event)}
+            </p>
+            ${event.recurrence ? `
+              <p style="font-size: 13px; color: #666; margin: 0; display: flex; align-items: center; gap: 6px;">
+                <span>🔁</span>
+                ${event.recurrence}
+              </p>
+            ` : ''}
             ${event.location_name ? `
               <p style="font-size: 13px; color: #666; margin: 0; display: flex; align-items: center; gap: 6px;">
                 <span>📍</span>
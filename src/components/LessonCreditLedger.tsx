@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { BookOpen, Loader2 } from 'lucide-react';
+
+interface LedgerEntry {
+  id: string;
+  user_id: string;
+  change: number;
+  reason: string;
+  created_at: string;
+  lesson_credit_purchases: { package_name: string } | null;
+  class_bookings: { booking_date: string; classes: { title: string } | null } | null;
+}
+
+interface StudentBalance {
+  userId: string;
+  credits: number;
+  nextExpiry: string | null;
+}
+
+interface LessonCreditLedgerProps {
+  teacherId: string;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  purchase: 'Bought',
+  booking: 'Lesson booked',
+  refund: 'Credit returned',
+};
+
+export default function LessonCreditLedger({ teacherId }: LessonCreditLedgerProps) {
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [balances, setBalances] = useState<StudentBalance[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      const [{ data: ledger, error: ledgerError }, { data: lots, error: lotsError }] = await Promise.all([
+        supabase
+          .from('lesson_credit_ledger')
+          .select('id, user_id, change, reason, created_at, lesson_credit_purchases(package_name), class_bookings(booking_date, classes(title))')
+          .eq('teacher_id', teacherId)
+          .order('created_at', { ascending: false })
+          .limit(100),
+        supabase
+          .from('lesson_credit_purchases')
+          .select('user_id, credits_remaining, expires_at')
+          .eq('teacher_id', teacherId)
+          .eq('status', 'paid')
+          .gt('credits_remaining', 0)
+          .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`),
+      ]);
+      if (ledgerError) throw ledgerError;
+      if (lotsError) throw lotsError;
+
+      const byStudent = new Map<string, StudentBalance>();
+      for (const lot of lots || []) {
+        const balance = byStudent.get(lot.user_id) ?? { userId: lot.user_id, credits: 0, nextExpiry: null };
+        balance.credits += lot.credits_remaining;
+        if (lot.expires_at && (!balance.nextExpiry || lot.expires_at < balance.nextExpiry)) {
+          balance.nextExpiry = lot.expires_at;
+        }
+        byStudent.set(lot.user_id, balance);
+      }
+
+      const studentIds = [...new Set([...(ledger || []).map(e => e.user_id), ...byStudent.keys()])];
+      if (studentIds.length > 0) {
+        const { data: profiles } = await supabase.from('profiles').select('user_id, full_name').in('user_id', studentIds);
+        setNames(Object.fromEntries((profiles || []).map(p => [p.user_id, p.full_name || 'Student'])));
+      }
+
+      setEntries((ledger || []) as LedgerEntry[]);
+      setBalances([...byStudent.values()].sort((a, b) => b.credits - a.credits));
+    } catch (err) {
+      console.error('Failed to load credit ledger:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [teacherId]);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  if (!loading && entries.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-5 space-y-4">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <BookOpen className="h-4 w-4" /> Lesson Credits
+        </h3>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-muted-foreground">Balances</p>
+              {balances.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No student has credits left.</p>
+              ) : balances.map(b => (
+                <div key={b.userId} className="flex items-center justify-between text-sm">
+                  <span className="truncate">{names[b.userId] || 'Student'}</span>
+                  <span className="text-muted-foreground shrink-0">
+                    {b.credits} left
+                    {b.nextExpiry && <span className="text-xs"> · expires {format(new Date(b.nextExpiry), 'MMM d')}</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-muted-foreground">History</p>
+              <div className="space-y-2 max-h-[300px] overflow-y-auto pr-1">
+                {entries.map(entry => (
+                  <div key={entry.id} className="flex items-start justify-between gap-2 text-sm border-b border-border/50 pb-2 last:border-0">
+                    <div className="min-w-0">
+                      <p className="truncate">{names[entry.user_id] || 'Student'}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {REASON_LABELS[entry.reason] || entry.reason}
+                        {entry.reason === 'purchase' && entry.lesson_credit_purchases && ` · ${entry.lesson_credit_purchases.package_name}`}
+                        {entry.class_bookings && ` · ${format(new Date(`${entry.class_bookings.booking_date}T00:00:00`), 'MMM d')}`}
+                        {entry.class_bookings?.classes && ` · ${entry.class_bookings.classes.title}`}
+                      </p>
+                      <p className="text-[11px] text-muted-foreground">{format(new Date(entry.created_at), 'MMM d, yyyy · h:mm a')}</p>
+                    </div>
+                    <Badge variant={entry.change > 0 ? 'secondary' : 'outline'} className="shrink-0">
+                      {entry.change > 0 ? `+${entry.change}` : entry.change}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Package, Plus, Loader2, Archive, RotateCcw } from 'lucide-react';
+import { describePackage, fetchCreditBalances, type CreditBalance } from '@/lib/lessonCredits';
+
+interface LessonPackage {
+  id: string;
+  name: string;
+  lesson_count: number;
+  price: number;
+  valid_days: number | null;
+  is_active: boolean;
+}
+
+interface LessonPackagesProps {
+  classId: string;
+  teacherId: string;
+  isOwner: boolean;
+}
+
+export default function LessonPackages({ classId, teacherId, isOwner }: LessonPackagesProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [packages, setPackages] = useState<LessonPackage[]>([]);
+  const [balance, setBalance] = useState<CreditBalance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [buyingId, setBuyingId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [lessonCount, setLessonCount] = useState('10');
+  const [price, setPrice] = useState('');
+  const [validDays, setValidDays] = useState('');
+
+  const fetchPackages = useCallback(async () => {
+    try {
+      let query = supabase
+        .from('lesson_packages')
+        .select('id, name, lesson_count, price, valid_days, is_active')
+        .eq('class_id', classId)
+        .order('lesson_count');
+      if (!isOwner) query = query.eq('is_active', true);
+      const { data, error } = await query;
+      if (error) throw error;
+      setPackages(data || []);
+    } catch (err) {
+      console.error('Failed to load lesson packages:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [classId, isOwner]);
+
+  useEffect(() => {
+    fetchPackages();
+  }, [fetchPackages]);
+
+  useEffect(() => {
+    if (!user || isOwner) return;
+    fetchCreditBalances(user.id, teacherId)
+      .then(balances => setBalance(balances[0] ?? null))
+      .catch(err => console.error('Failed to load lesson credits:', err));
+  }, [user, teacherId, isOwner]);
+
+  const handleAdd = async () => {
+    const count = parseInt(lessonCount);
+    const amount = parseFloat(price);
+    const days = validDays ? parseInt(validDays) : null;
+    if (!name.trim() || !count || count < 1 || count > 100 || !amount || amount <= 0) {
+      toast.error('Enter a name, 1 to 100 lessons and a price');
+      return;
+    }
+    if (days !== null && (days < 1 || days > 730)) {
+      toast.error('Credits can be valid for 1 to 730 days');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('lesson_packages').insert({
+        class_id: classId,
+        name: name.trim(),
+        lesson_count: count,
+        price: amount,
+        valid_days: days,
+      });
+      if (error) throw error;
+      setName('');
+      setPrice('');
+      setValidDays('');
+      setAdding(false);
+      toast.success('Package added');
+      fetchPackages();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add package');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Packages are archived rather than deleted so past purchases keep their link
+  const setActive = async (pkg: LessonPackage, isActive: boolean) => {
+    const { error } = await supabase.from('lesson_packages').update({ is_active: isActive }).eq('id', pkg.id);
+    if (error) {
+      toast.error('Failed to update package');
+      return;
+    }
+    setPackages(prev => prev.map(p => p.id === pkg.id ? { ...p, is_active: isActive } : p));
+  };
+
+  const handleBuy = async (pkg: LessonPackage) => {
+    if (!user) {
+      toast.error('Please sign in to buy lessons');
+      navigate('/login');
+      return;
+    }
+
+    setBuyingId(pkg.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('create-package-checkout', {
+        body: { packageId: pkg.id },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      if (!data?.url) throw new Error('Could not start card checkout');
+
+      window.location.href = data.url;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start checkout');
+      setBuyingId(null);
+    }
+  };
+
+  if (loading || (!isOwner && packages.length === 0 && !balance)) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+            <Package className="h-4 w-4" /> Lesson Packages
+          </h3>
+          {isOwner && !adding && (
+            <Button size="sm" variant="outline" className="gap-1 h-7" onClick={() => setAdding(true)}>
+              <Plus className="h-3 w-3" /> Add
+            </Button>
+          )}
+        </div>
+
+        {balance && (
+          <div className="p-3 bg-primary/5 rounded-lg text-sm">
+            <p className="font-medium text-foreground">
+              You have {balance.credits} lesson {balance.credits === 1 ? 'credit' : 'credits'} with this teacher
+            </p>
+            {balance.nextExpiry && (
+              <p className="text-xs text-muted-foreground">
+                Next credit expires {format(new Date(balance.nextExpiry), 'MMM d, yyyy')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {isOwner && adding && (
+          <div className="space-y-3 p-3 border border-border rounded-lg">
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Name</Label>
+              <Input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. 10 Lesson Pack" maxLength={100} className="h-9" />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1.5">
+                <Label className="text-xs font-medium">Lessons</Label>
+                <Input type="number" min="1" max="100" value={lessonCount} onChange={e => setLessonCount(e.target.value)} className="h-9" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs font-medium">Price ($)</Label>
+                <Input type="number" min="0" step="0.01" value={price} onChange={e => setPrice(e.target.value)} placeholder="0.00" className="h-9" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs font-medium">Valid (days)</Label>
+                <Input type="number" min="1" max="730" value={validDays} onChange={e => setValidDays(e.target.value)} placeholder="Forever" className="h-9" />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleAdd} disabled={saving}>
+                {saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Save Package
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setAdding(false)} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {packages.length === 0 ? (
+          isOwner && !adding && (
+            <p className="text-xs text-muted-foreground">
+              Sell lessons in bundles. Students pay once and each lesson they book uses a credit.
+            </p>
+          )
+        ) : (
+          <div className="space-y-2">
+            {packages.map(pkg => (
+              <div key={pkg.id} className={`flex items-center justify-between gap-2 p-3 border border-border rounded-lg ${pkg.is_active ? '' : 'opacity-60'}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate flex items-center gap-2">
+                    {pkg.name}
+                    {!pkg.is_active && <Badge variant="outline" className="text-[10px]">Archived</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describePackage(pkg.lesson_count, Number(pkg.price), pkg.valid_days)}</p>
+                </div>
+                {isOwner ? (
+                  <Button size="sm" variant="ghost" className="gap-1 h-8 shrink-0" onClick={() => setActive(pkg, !pkg.is_active)}>
+                    {pkg.is_active ? <><Archive className="h-3.5 w-3.5" /> Archive</> : <><RotateCcw className="h-3.5 w-3.5" /> Restore</>}
+                  </Button>
+                ) : (
+                  <Button size="sm" className="h-8 shrink-0" onClick={() => handleBuy(pkg)} disabled={!!buyingId}>
+                    {buyingId === pkg.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Buy'}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Loader2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import type { TimeSlot } from '@/components/ClassCalendarView';
+import { invokeBookLessons, lessonPlanRequest, LessonOccurrence, LessonPlan, LessonRepeat } from '@/lib/lessonPlans';
+
+const MAX_SESSIONS = 26;
+
+interface LessonPlanPickerProps {
+  classId: string;
+  slot: TimeSlot;
+  plan: LessonPlan;
+  onChange: (plan: LessonPlan) => void;
+  // Whether every date of the plan can be booked
+  onCheckedChange: (bookable: boolean) => void;
+}
+
+export default function LessonPlanPicker({ classId, slot, plan, onChange, onCheckedChange }: LessonPlanPickerProps) {
+  const [occurrences, setOccurrences] = useState<LessonOccurrence[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  const repeating = plan.repeat !== 'none';
+  const planComplete = !repeating || (plan.ends === 'sessions' ? plan.sessions >= 2 && plan.sessions <= MAX_SESSIONS : plan.until > slot.booking_date);
+
+  // Every date is checked against the teacher's availability, bookings and calendar
+  useEffect(() => {
+    if (!repeating) {
+      setOccurrences([]);
+      setCheckError(null);
+      onCheckedChange(true);
+      return;
+    }
+    onCheckedChange(false);
+    if (!planComplete) {
+      setOccurrences([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setChecking(true);
+      setCheckError(null);
+      try {
+        const result = await invokeBookLessons<{ occurrences: LessonOccurrence[] }>({
+          ...lessonPlanRequest(classId, slot, plan),
+          preview: true,
+        });
+        if (cancelled) return;
+        setOccurrences(result.occurrences);
+        onCheckedChange(result.occurrences.every(o => !o.conflict));
+      } catch (err) {
+        if (cancelled) return;
+        setOccurrences([]);
+        setCheckError(err instanceof Error ? err.message : 'Could not check these dates');
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [classId, slot, plan, repeating, planComplete, onCheckedChange]);
+
+  const conflicts = occurrences.filter(o => o.conflict).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label className="text-xs font-medium">Repeat</Label>
+        <Select value={plan.repeat} onValueChange={(repeat) => onChange({ ...plan, repeat: repeat as LessonRepeat })}>
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Just this lesson</SelectItem>
+            <SelectItem value="weekly">Every week</SelectItem>
+            <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {repeating && (
+        <>
+          <RadioGroup
+            value={plan.ends}
+            onValueChange={(ends) => onChange({ ...plan, ends: ends as LessonPlan['ends'] })}
+            className="space-y-2"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="sessions" id="plan-sessions" />
+              <Label htmlFor="plan-sessions" className="text-sm font-normal">After</Label>
+              <Input
+                type="number"
+                min={2}
+                max={MAX_SESSIONS}
+                value={plan.sessions}
+                onChange={e => onChange({ ...plan, ends: 'sessions', sessions: Number(e.target.value) })}
+                className="h-8 w-16"
+              />
+              <span className="text-sm text-muted-foreground">sessions</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="until" id="plan-until" />
+              <Label htmlFor="plan-until" className="text-sm font-normal">On</Label>
+              <Input
+                type="date"
+                min={slot.booking_date}
+                value={plan.until}
+                onChange={e => onChange({ ...plan, ends: 'until', until: e.target.value })}
+                className="h-8 w-40"
+              />
+            </div>
+          </RadioGroup>
+
+          <div className="rounded-lg border border-border p-2.5 space-y-1 max-h-48 overflow-y-auto">
+            {checking ? (
+              <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                <Loader2 className="h-3 w-3 animate-spin" /> Checking dates…
+              </p>
+            ) : checkError ? (
+              <p className="text-xs text-destructive">{checkError}</p>
+            ) : !planComplete ? (
+              <p className="text-xs text-muted-foreground">
+                {plan.ends === 'sessions' ? `Choose 2 to ${MAX_SESSIONS} sessions` : 'Choose when the lessons end'}
+              </p>
+            ) : (
+              <>
+                {occurrences.map(o => (
+                  <div key={o.date} className="flex items-center justify-between gap-2 text-xs">
+                    <span className={o.conflict ? 'text-muted-foreground line-through' : 'text-foreground'}>
+                      {format(new Date(`${o.date}T00:00:00`), 'EEE, MMM d')}
+                    </span>
+                    {o.conflict ? (
+                      <span className="flex items-center gap-1 text-destructive"><X className="h-3 w-3" />{o.conflict}</span>
+                    ) : (
+                      <Check className="h-3 w-3 text-primary" />
+                    )}
+                  </div>
+                ))}
+                {conflicts > 0 && (
+                  <p className="text-xs text-destructive pt-1">
+                    {conflicts === 1 ? 'One date is' : `${conflicts} dates are`} taken. Pick a shorter plan or another time.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,33 +1,108 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Calendar, MapPin, Ticket, Loader2, ExternalLink, Info, Clock } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Calendar, MapPin, Ticket, Loader2, ExternalLink, Info, Clock, ChevronDown, ChevronUp, Pencil, Check, X, QrCode, Ban, Package } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
 import { supabase } from '@/integrations/supabase/client';
-import { formatDistanceToNow } from 'date-fns';
+import { formatTicketCode } from '@/lib/tickets';
+import { toast } from 'sonner';
+import { format, formatDistanceToNow } from 'date-fns';
 import ShareEvent from './ShareEvent';
+import SubscribeCalendar from './SubscribeCalendar';
+import { getEventStart, hasEventEnded, type EventTiming } from '@/lib/eventTimes';
+import { fetchCreditBalances, type CreditBalance } from '@/lib/lessonCredits';
 
 interface MyBookingsProps {
   userId: string;
 }
 
+interface OrderTicket {
+  id: string;
+  attendee_name: string;
+  status: string;
+  created_at: string;
+  ticket_code: string | null;
+  checked_in_at: string | null;
+}
+
+interface CancellableOrder {
+  id: string;
+  event_id: string;
+  status: string;
+  payment_method: string;
+  quantity: number;
+  total_amount: number;
+  buyer_email: string;
+  buyer_name: string;
+  bookings?: OrderTicket[];
+  events: {
+    title: string;
+    date: string;
+    time: string;
+    time_zone: string | null;
+    location_name: string | null;
+    cancellation_deadline_hours: number | null;
+  } | null;
+}
+
 export default function MyBookings({ userId }: MyBookingsProps) {
   const navigate = useNavigate();
-  const [bookings, setBookings] = useState<any[]>([]);
+  const [orders, setOrders] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [editingTicketId, setEditingTicketId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [savingTicket, setSavingTicket] = useState(false);
+  const [qrTicket, setQrTicket] = useState<{ ticket: OrderTicket; eventTitle: string; label: string } | null>(null);
+  const [cancellingOrder, setCancellingOrder] = useState<CancellableOrder | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+  const [credits, setCredits] = useState<(CreditBalance & { teacherName: string })[]>([]);
 
-  useEffect(() => {
-    fetchBookings();
+  // Prepaid lesson credits, one balance per teacher
+  const fetchCredits = useCallback(async () => {
+    try {
+      const balances = await fetchCreditBalances(userId);
+      if (balances.length === 0) {
+        setCredits([]);
+        return;
+      }
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', balances.map(b => b.teacherId));
+      setCredits(balances.map(b => ({
+        ...b,
+        teacherName: profiles?.find(p => p.user_id === b.teacherId)?.full_name || 'Your teacher',
+      })));
+    } catch (err) {
+      console.error('Error fetching lesson credits:', err);
+    }
   }, [userId]);
 
-  const fetchBookings = async () => {
+  const fetchOrders = useCallback(async () => {
     const { data, error } = await supabase
-      .from('bookings')
+      .from('orders')
       .select(`
         *,
-        events(id, title, date, time, location_name, price, image_url, confirmation_type)
+        events(id, title, date, time, end_date, end_time, time_zone, location_name, price, image_url, confirmation_type, cancellation_deadline_hours),
+        bookings(id, attendee_name, status, created_at, ticket_code, checked_in_at)
       `)
       .eq('user_id', userId)
       .order('created_at', { ascending: false });
@@ -35,17 +110,124 @@ export default function MyBookings({ userId }: MyBookingsProps) {
     if (error) {
       console.error('Error fetching bookings:', error);
     } else {
-      setBookings(data || []);
+      setOrders(data || []);
     }
     setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchOrders();
+    fetchCredits();
+  }, [fetchOrders, fetchCredits]);
+
+  const startEditingTicket = (ticket: OrderTicket) => {
+    setEditingTicketId(ticket.id);
+    setEditingName(ticket.attendee_name || '');
   };
 
-  const isUpcoming = (dateStr: string) => {
-    const eventDate = new Date(dateStr);
-    eventDate.setHours(0, 0, 0, 0);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return eventDate >= today;
+  const saveTicketName = async (ticketId: string) => {
+    const name = editingName.trim();
+    if (!name) {
+      toast.error('Attendee name is required');
+      return;
+    }
+    if (name.length > 100) {
+      toast.error('Attendee name must be 100 characters or less');
+      return;
+    }
+
+    setSavingTicket(true);
+    const { error } = await supabase.rpc('rename_ticket', {
+      _booking_id: ticketId,
+      _attendee_name: name,
+    });
+    setSavingTicket(false);
+
+    if (error) {
+      toast.error(error.message || 'Failed to update attendee name');
+      return;
+    }
+
+    setOrders(prev => prev.map(order => ({
+      ...order,
+      bookings: (order.bookings || []).map((t: OrderTicket) => t.id === ticketId ? { ...t, attendee_name: name } : t),
+    })));
+    setEditingTicketId(null);
+    toast.success('Attendee name updated');
+  };
+
+  // Last moment the attendee can cancel; the server enforces the same rule
+  const getCancellationDeadline = (event: EventTiming & { cancellation_deadline_hours: number | null }) => {
+    const startsAt = getEventStart(event);
+    return new Date(startsAt.getTime() - (event.cancellation_deadline_hours || 0) * 60 * 60 * 1000);
+  };
+
+  const canCancelOrder = (order: CancellableOrder) => {
+    if (!order.events || !['pending', 'confirmed'].includes(order.status)) return false;
+    // Card and PayPal checkouts still awaiting payment are released instead
+    if (order.status === 'pending' && ['stripe', 'paypal'].includes(order.payment_method)) return false;
+    if ((order.bookings || []).some((t) => t.checked_in_at)) return false;
+    return getCancellationDeadline(order.events) > new Date();
+  };
+
+  const handleCancelOrder = async () => {
+    const order = cancellingOrder;
+    if (!order?.events) return;
+
+    setCancelling(true);
+    try {
+      const { data: newStatus, error } = await supabase.rpc('cancel_event_order', {
+        _order_id: order.id,
+        _reason: cancelReason.trim() || null,
+      });
+
+      if (error) throw error;
+
+      try {
+        await supabase.functions.invoke('send-booking-email', {
+          body: {
+            to: order.buyer_email,
+            attendeeName: order.buyer_name,
+            eventTitle: order.events.title,
+            eventDate: new Date(order.events.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }),
+            eventTime: order.events.time,
+            eventLocation: order.events.location_name || 'TBA',
+            status: newStatus,
+            orderId: order.id,
+            refundAmount: Number(order.total_amount)
+          }
+        });
+      } catch (emailError) {
+        console.error('Failed to send cancellation email:', emailError);
+      }
+
+      // The freed seats go to the next people on the waitlist
+      try {
+        await supabase.functions.invoke('promote-waitlist', { body: { eventId: order.event_id } });
+      } catch (waitlistError) {
+        console.error('Failed to promote waitlist:', waitlistError);
+      }
+
+      toast.success(newStatus === 'refund_requested'
+        ? 'Booking cancelled. The organizer has been asked to refund you.'
+        : 'Booking cancelled');
+      setCancellingOrder(null);
+      fetchOrders();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel booking');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  // Bookings move to past events once the event is over
+  const isUpcoming = (event: EventTiming) => !hasEventEnded(event);
+
+  // The personal feed is keyed by a private token, created the first time it's asked for
+  const loadBookingsFeed = async () => {
+    const { data, error } = await supabase.rpc('get_calendar_feed_token');
+    if (error) throw error;
+    return { type: 'bookings', token: data };
   };
 
   const getStatusBadge = (status: string, confirmationType?: string) => {
@@ -53,6 +235,7 @@ export default function MyBookings({ userId }: MyBookingsProps) {
       pending: { variant: 'secondary', label: 'Pending' },
       confirmed: { variant: 'default', label: 'Confirmed' },
       rejected: { variant: 'destructive', label: 'Rejected' },
+      cancelled: { variant: 'outline', label: 'Cancelled' },
     };
     const { variant, label } = config[status] || config.pending;
     
@@ -67,7 +250,7 @@ export default function MyBookings({ userId }: MyBookingsProps) {
               </div>
             </TooltipTrigger>
             <TooltipContent className="max-w-[200px]">
-              <p className="text-xs">The organizer reviews and approves each booking individually.</p>
+              <p className="text-xs">The organizer reviews and approves each order individually.</p>
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
@@ -85,9 +268,9 @@ export default function MyBookings({ userId }: MyBookingsProps) {
     });
   };
 
-  // Separate bookings into upcoming and past
-  const upcomingBookings = bookings.filter(b => b.events?.date && isUpcoming(b.events.date));
-  const pastBookings = bookings.filter(b => b.events?.date && !isUpcoming(b.events.date));
+  // Separate orders into upcoming and past
+  const upcomingOrders = orders.filter(o => o.events?.date && isUpcoming(o.events));
+  const pastOrders = orders.filter(o => o.events?.date && !isUpcoming(o.events));
 
   if (loading) {
     return (
@@ -97,90 +280,227 @@ export default function MyBookings({ userId }: MyBookingsProps) {
     );
   }
 
-  const renderBookingCard = (booking: any, isPast: boolean) => (
-    <div
-      key={booking.id}
-      className={`flex flex-col sm:flex-row gap-4 p-4 border rounded-lg transition-colors ${isPast ? 'opacity-70 bg-muted/30' : 'hover:bg-muted/30'}`}
-    >
-      {/* Event Image */}
-      {booking.events?.image_url && (
-        <div className="w-full sm:w-24 h-24 shrink-0 rounded-lg overflow-hidden bg-muted">
-          <img
-            src={booking.events.image_url}
-            alt={booking.events.title}
-            className="w-full h-full object-cover"
+  const renderTicketRow = (ticket: OrderTicket, index: number, isPast: boolean, eventTitle: string) => (
+    <div key={ticket.id} className="flex items-center justify-between gap-2 py-1.5 text-sm">
+      <span className="text-muted-foreground shrink-0 w-16">Ticket {index + 1}</span>
+      {editingTicketId === ticket.id ? (
+        <div className="flex items-center gap-1 flex-1">
+          <Input
+            value={editingName}
+            onChange={(e) => setEditingName(e.target.value)}
+            maxLength={100}
+            className="h-8"
+            autoFocus
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveTicketName(ticket.id);
+              if (e.key === 'Escape') setEditingTicketId(null);
+            }}
           />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            disabled={savingTicket}
+            onClick={() => saveTicketName(ticket.id)}
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => setEditingTicketId(null)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-1 flex-1 min-w-0 justify-end">
+          <span className="truncate font-medium">{ticket.attendee_name}</span>
+          {ticket.checked_in_at && (
+            <Badge variant="outline" className="text-xs shrink-0">Checked in</Badge>
+          )}
+          {ticket.status === 'confirmed' && ticket.ticket_code && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              onClick={() => setQrTicket({ ticket, eventTitle, label: `Ticket ${index + 1}` })}
+            >
+              <QrCode className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {!isPast && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              onClick={() => startEditingTicket(ticket)}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+          )}
         </div>
       )}
+    </div>
+  );
 
-      {/* Event Details */}
-      <div className="flex-1 min-w-0">
-        <div className="flex items-start justify-between gap-2">
-          <div>
-            <div className="flex items-center gap-2">
-              <h4 className="font-semibold truncate">{booking.events?.title || 'Event'}</h4>
-              {isPast && (
-                <Badge variant="outline" className="text-xs shrink-0">Past</Badge>
-              )}
-            </div>
-            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
-              <span className="flex items-center gap-1">
-                <Calendar className="h-3 w-3" />
-                {booking.events?.date ? formatEventDate(booking.events.date) : 'TBA'}
-              </span>
-              {booking.events?.location_name && (
+  const renderOrderCard = (order: any, isPast: boolean) => {
+    const tickets: OrderTicket[] = [...(order.bookings || [])].sort(
+      (a: OrderTicket, b: OrderTicket) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id.localeCompare(b.id)
+    );
+    const isExpanded = expandedOrderId === order.id;
+
+    return (
+      <div
+        key={order.id}
+        className={`flex flex-col sm:flex-row gap-4 p-4 border rounded-lg transition-colors ${isPast ? 'opacity-70 bg-muted/30' : 'hover:bg-muted/30'}`}
+      >
+        {/* Event Image */}
+        {order.events?.image_url && (
+          <div className="w-full sm:w-24 h-24 shrink-0 rounded-lg overflow-hidden bg-muted">
+            <img
+              src={order.events.image_url}
+              alt={order.events.title}
+              className="w-full h-full object-cover"
+            />
+          </div>
+        )}
+
+        {/* Event Details */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="flex items-center gap-2">
+                <h4 className="font-semibold truncate">{order.events?.title || 'Event'}</h4>
+                {isPast && (
+                  <Badge variant="outline" className="text-xs shrink-0">Past</Badge>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
                 <span className="flex items-center gap-1">
-                  <MapPin className="h-3 w-3" />
-                  {booking.events.location_name}
+                  <Calendar className="h-3 w-3" />
+                  {order.events?.date ? formatEventDate(order.events.date) : 'TBA'}
                 </span>
+                {order.events?.location_name && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {order.events.location_name}
+                  </span>
+                )}
+                <span className="flex items-center gap-1">
+                  <Ticket className="h-3 w-3" />
+                  {order.quantity} {order.quantity === 1 ? 'ticket' : 'tickets'}
+                </span>
+              </div>
+            </div>
+            <div className="flex flex-col items-end gap-1">
+              {getStatusBadge(order.status, order.events?.confirmation_type)}
+              {order.refund_status && (
+                <Badge variant={order.refund_status === 'refunded' ? 'outline' : 'secondary'} className="text-xs">
+                  {order.refund_status === 'refunded' ? 'Refunded' : 'Refund requested'}
+                </Badge>
               )}
             </div>
           </div>
-          {getStatusBadge(booking.status, booking.events?.confirmation_type)}
-        </div>
 
-        <div className="flex items-center justify-between mt-3">
-          <span className="text-sm text-muted-foreground">
-            Booked {formatDistanceToNow(new Date(booking.created_at), { addSuffix: true })}
-          </span>
-          <div className="flex items-center gap-2">
-            {booking.events && (
-              <ShareEvent
-                title={booking.events.title}
-                url={`${window.location.origin}/events/${booking.events.id}`}
-                date={booking.events.date ? formatEventDate(booking.events.date) : undefined}
+          <div className="flex items-center justify-between mt-3">
+            <span className="text-sm text-muted-foreground">
+              Booked {formatDistanceToNow(new Date(order.created_at), { addSuffix: true })}
+            </span>
+            <div className="flex items-center gap-2">
+              {tickets.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => setExpandedOrderId(isExpanded ? null : order.id)}
+                >
+                  {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  Tickets
+                </Button>
+              )}
+              {order.events && (
+                <ShareEvent
+                  title={order.events.title}
+                  url={`${window.location.origin}/events/${order.events.id}`}
+                  date={order.events.date ? formatEventDate(order.events.date) : undefined}
+                  variant="ghost"
+                  size="sm"
+                />
+              )}
+              <Button
                 variant="ghost"
                 size="sm"
-              />
-            )}
-            <Button
-              variant="ghost"
-              size="sm"
-              className="gap-1"
-              onClick={() => navigate(`/events/${booking.events?.id}`)}
-            >
-              <ExternalLink className="h-4 w-4" />
-              View Event
-            </Button>
+                className="gap-1"
+                onClick={() => navigate(`/events/${order.events?.id}`)}
+              >
+                <ExternalLink className="h-4 w-4" />
+                View Event
+              </Button>
+              {!isPast && canCancelOrder(order) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1 text-destructive hover:text-destructive"
+                  onClick={() => {
+                    setCancelReason('');
+                    setCancellingOrder(order);
+                  }}
+                >
+                  <Ban className="h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
+            </div>
           </div>
+
+          {/* Per-ticket attendee names */}
+          {isExpanded && (
+            <div className="mt-3 pt-3 border-t divide-y">
+              {tickets.map((ticket, index) => renderTicketRow(ticket, index, isPast, order.events?.title || 'Event'))}
+            </div>
+          )}
         </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           <span>My Bookings</span>
-          <Badge variant="outline" className="font-normal">
-            {bookings.length} {bookings.length === 1 ? 'booking' : 'bookings'}
-          </Badge>
+          <div className="flex items-center gap-2">
+            <SubscribeCalendar feed={loadBookingsFeed} name="My RaagConnect bookings" label="Sync to Calendar" variant="ghost" />
+            <Badge variant="outline" className="font-normal">
+              {orders.length} {orders.length === 1 ? 'booking' : 'bookings'}
+            </Badge>
+          </div>
         </CardTitle>
         <CardDescription>Your event tickets and booking history</CardDescription>
       </CardHeader>
       <CardContent>
-        {bookings.length === 0 ? (
+        {credits.length > 0 && (
+          <div className="mb-6 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium text-primary">
+              <Package className="h-4 w-4" />
+              Lesson Credits
+            </div>
+            {credits.map(c => (
+              <div key={c.teacherId} className="flex items-center justify-between gap-2 p-3 border rounded-lg text-sm">
+                <span className="truncate">{c.teacherName}</span>
+                <div className="text-right shrink-0">
+                  <p className="font-medium">{c.credits} {c.credits === 1 ? 'lesson' : 'lessons'} left</p>
+                  {c.nextExpiry && (
+                    <p className="text-xs text-muted-foreground">Next expires {format(new Date(c.nextExpiry), 'MMM d, yyyy')}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {orders.length === 0 ? (
           <div className="text-center py-8">
             <Ticket className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <p className="text-muted-foreground">You haven't booked any events yet.</p>
@@ -191,33 +511,96 @@ export default function MyBookings({ userId }: MyBookingsProps) {
         ) : (
           <div className="space-y-6">
             {/* Upcoming Bookings */}
-            {upcomingBookings.length > 0 && (
+            {upcomingOrders.length > 0 && (
               <div className="space-y-3">
                 <div className="flex items-center gap-2 text-sm font-medium text-primary">
                   <Clock className="h-4 w-4" />
-                  Upcoming Events ({upcomingBookings.length})
+                  Upcoming Events ({upcomingOrders.length})
                 </div>
                 <div className="space-y-3">
-                  {upcomingBookings.map((booking) => renderBookingCard(booking, false))}
+                  {upcomingOrders.map((order) => renderOrderCard(order, false))}
                 </div>
               </div>
             )}
 
             {/* Past Bookings */}
-            {pastBookings.length > 0 && (
+            {pastOrders.length > 0 && (
               <div className="space-y-3">
                 <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
                   <Calendar className="h-4 w-4" />
-                  Past Events ({pastBookings.length})
+                  Past Events ({pastOrders.length})
                 </div>
                 <div className="space-y-3">
-                  {pastBookings.map((booking) => renderBookingCard(booking, true))}
+                  {pastOrders.map((order) => renderOrderCard(order, true))}
                 </div>
               </div>
             )}
           </div>
         )}
       </CardContent>
+
+      {/* Cancel booking */}
+      <AlertDialog open={!!cancellingOrder} onOpenChange={(open) => !open && setCancellingOrder(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Booking</AlertDialogTitle>
+            <AlertDialogDescription>
+              Cancel your {cancellingOrder?.quantity === 1 ? 'ticket' : `${cancellingOrder?.quantity} tickets`} for "{cancellingOrder?.events?.title}"?
+              {' '}Your {cancellingOrder?.quantity === 1 ? 'ticket' : 'tickets'} will be released and can't be used at the door.
+              {Number(cancellingOrder?.total_amount) > 0 && (
+                <> The organizer will be asked to refund ${Number(cancellingOrder?.total_amount).toFixed(2)}.</>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            placeholder="Reason for cancelling (optional)"
+            maxLength={500}
+            rows={3}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={cancelling}>Keep Booking</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={cancelling}
+              onClick={(e) => {
+                e.preventDefault();
+                handleCancelOrder();
+              }}
+            >
+              {cancelling ? 'Cancelling...' : 'Cancel Booking'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* E-ticket QR code */}
+      <Dialog open={!!qrTicket} onOpenChange={(open) => !open && setQrTicket(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{qrTicket?.eventTitle}</DialogTitle>
+            <DialogDescription>
+              {qrTicket?.label} · {qrTicket?.ticket.attendee_name}
+            </DialogDescription>
+          </DialogHeader>
+          {qrTicket?.ticket.ticket_code && (
+            <div className="flex flex-col items-center gap-4 py-2">
+              <div className="p-4 bg-white rounded-lg">
+                <QRCodeSVG value={qrTicket.ticket.ticket_code} size={220} />
+              </div>
+              <p className="font-mono font-semibold tracking-wider">
+                {formatTicketCode(qrTicket.ticket.ticket_code)}
+              </p>
+              <p className="text-xs text-muted-foreground text-center">
+                {qrTicket.ticket.checked_in_at
+                  ? `Checked in ${formatDistanceToNow(new Date(qrTicket.ticket.checked_in_at), { addSuffix: true })}`
+                  : 'Show this code at the door to check in'}
+              </p>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
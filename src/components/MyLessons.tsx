@@ -0,0 +1,318 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { GraduationCap, Calendar, Check, X, ExternalLink, Loader2, Ban, Repeat, Video } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { formatTimeRange } from '@/lib/eventTimes';
+import { formatTimeZoneName, formatViewerTimeRange, zonedTimeToDate } from '@/lib/timeZones';
+import { ROOM_OPENS_MINUTES, isLessonRoomOpen, joinLessonRoom } from '@/lib/lessonRooms';
+
+interface MyLessonsProps {
+  userId: string;
+}
+
+interface Lesson {
+  id: string;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  series_id: string | null;
+  proposed_date: string | null;
+  proposed_start_time: string | null;
+  proposed_end_time: string | null;
+  proposal_note: string | null;
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
+  classes: {
+    id: string;
+    title: string;
+    time_zone: string | null;
+    class_type: string;
+  } | null;
+}
+
+const STATUS_BADGES: Record<string, { variant: 'default' | 'secondary' | 'destructive' | 'outline'; label: string }> = {
+  pending: { variant: 'secondary', label: 'Awaiting teacher' },
+  confirmed: { variant: 'default', label: 'Confirmed' },
+  declined: { variant: 'destructive', label: 'Declined' },
+  cancelled: { variant: 'outline', label: 'Cancelled' },
+};
+
+export default function MyLessons({ userId }: MyLessonsProps) {
+  const navigate = useNavigate();
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<Lesson | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelSeries, setCancelSeries] = useState(false);
+  // Ticks each minute so online lesson rooms show up when they open
+  const [now, setNow] = useState(() => new Date());
+
+  const fetchLessons = useCallback(async () => {
+    try {
+      // A day of slack so lessons later today in other zones still show
+      const since = format(new Date(Date.now() - 24 * 60 * 60 * 1000), 'yyyy-MM-dd');
+      const { data, error } = await supabase
+        .from('class_bookings')
+        .select('id, booking_date, start_time, end_time, status, series_id, proposed_date, proposed_start_time, proposed_end_time, proposal_note, cancelled_by, cancellation_reason, classes(id, title, time_zone, class_type)')
+        .eq('user_id', userId)
+        .gte('booking_date', since)
+        .order('booking_date')
+        .order('start_time');
+      if (error) throw error;
+      setLessons(data || []);
+    } catch (err) {
+      console.error('Error fetching lessons:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchLessons();
+  }, [fetchLessons]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const respondToReschedule = async (lesson: Lesson, accept: boolean) => {
+    setRespondingId(lesson.id);
+    try {
+      const { error } = await supabase.rpc('respond_to_class_reschedule', {
+        _booking_id: lesson.id,
+        _accept: accept,
+      });
+      if (error) throw error;
+
+      try {
+        await supabase.functions.invoke('send-booking-email', {
+          body: { status: accept ? 'lesson_rescheduled' : 'lesson_reschedule_declined', classBookingId: lesson.id },
+        });
+      } catch (emailError) {
+        console.error('Failed to send email notification:', emailError);
+      }
+
+      toast.success(accept ? 'New time accepted' : 'Lesson cancelled');
+      await fetchLessons();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to answer the new time');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const openCancel = (lesson: Lesson) => {
+    setCancelReason('');
+    setCancelSeries(false);
+    setCancelling(lesson);
+  };
+
+  const cancelLessons = async () => {
+    if (!cancelling) return;
+    setRespondingId(cancelling.id);
+    try {
+      const { data: cancelledIds, error } = await supabase.rpc('cancel_class_lessons', {
+        _booking_id: cancelling.id,
+        _whole_series: cancelSeries,
+        _reason: cancelReason.trim() || undefined,
+      });
+      if (error) throw error;
+
+      try {
+        await supabase.functions.invoke('send-booking-email', {
+          body: { status: 'lesson_cancelled_by_student', classBookingId: cancelling.id, wholeSeries: cancelSeries },
+        });
+      } catch (emailError) {
+        console.error('Failed to send email notification:', emailError);
+      }
+
+      toast.success(cancelledIds && cancelledIds.length > 1 ? `${cancelledIds.length} lessons cancelled` : 'Lesson cancelled');
+      setCancelling(null);
+      await fetchLessons();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel the lesson');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  // "Sat, Oct 4 · 5:00 PM – 6:00 PM IST" on the teacher's clock, plus the viewer's if it differs
+  const describeTime = (lesson: Lesson, date: string, start: string, end: string) => {
+    const timeZone = lesson.classes?.time_zone;
+    const startsAt = zonedTimeToDate(date, start, timeZone);
+    const teacherTime = `${format(new Date(`${date}T00:00:00`), 'EEE, MMM d')} · ${formatTimeRange(start, end)}${timeZone ? ` ${formatTimeZoneName(startsAt, timeZone)}` : ''}`;
+    const viewerTime = formatViewerTimeRange(startsAt, zonedTimeToDate(date, end, timeZone), timeZone);
+    return { teacherTime, viewerTime };
+  };
+
+  if (loading || lessons.length === 0) return null;
+
+  const isUpcoming = (lesson: Lesson) =>
+    zonedTimeToDate(lesson.booking_date, lesson.start_time, lesson.classes?.time_zone) > now;
+
+  const isOnline = (lesson: Lesson) => lesson.status === 'confirmed' && lesson.classes?.class_type === 'online';
+
+  const joinRoom = async (lesson: Lesson) => {
+    try {
+      await joinLessonRoom(lesson.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open the lesson room');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>My Lessons</span>
+          <Badge variant="outline" className="font-normal">
+            {lessons.length} {lessons.length === 1 ? 'lesson' : 'lessons'}
+          </Badge>
+        </CardTitle>
+        <CardDescription>Upcoming lessons you've booked with teachers</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {lessons.map(lesson => {
+          const { teacherTime, viewerTime } = describeTime(lesson, lesson.booking_date, lesson.start_time, lesson.end_time);
+          const proposed = lesson.proposed_date
+            ? describeTime(lesson, lesson.proposed_date, lesson.proposed_start_time!, lesson.proposed_end_time!)
+            : null;
+          const badge = STATUS_BADGES[lesson.status] || STATUS_BADGES.pending;
+          const isResponding = respondingId === lesson.id;
+
+          return (
+            <div key={lesson.id} className={`p-4 border rounded-lg space-y-2 ${['declined', 'cancelled'].includes(lesson.status) ? 'opacity-70 bg-muted/30' : ''}`}>
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <h4 className="font-semibold truncate flex items-center gap-2">
+                    <GraduationCap className="h-4 w-4 text-muted-foreground shrink-0" />
+                    {lesson.classes?.title || 'Lesson'}
+                  </h4>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                    <Calendar className="h-3 w-3" />
+                    {teacherTime}
+                  </p>
+                  {viewerTime && <p className="text-xs text-muted-foreground">Your time: {viewerTime}</p>}
+                </div>
+                <div className="flex flex-col items-end gap-1 shrink-0">
+                  <Badge variant={badge.variant}>{badge.label}</Badge>
+                  {lesson.series_id && (
+                    <Badge variant="outline" className="text-xs gap-1"><Repeat className="h-3 w-3" /> Series</Badge>
+                  )}
+                </div>
+              </div>
+
+              {lesson.cancellation_reason && ['declined', 'cancelled'].includes(lesson.status) && (
+                <p className="text-sm text-muted-foreground">"{lesson.cancellation_reason}"</p>
+              )}
+
+              {proposed && (
+                <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-2">
+                  <p>
+                    Your teacher proposed a new time: <span className="font-medium">{proposed.teacherTime}</span>
+                  </p>
+                  {proposed.viewerTime && <p className="text-xs text-muted-foreground">Your time: {proposed.viewerTime}</p>}
+                  {lesson.proposal_note && <p className="text-muted-foreground">"{lesson.proposal_note}"</p>}
+                  <div className="flex gap-2">
+                    <Button size="sm" className="gap-1" onClick={() => respondToReschedule(lesson, true)} disabled={isResponding}>
+                      {isResponding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                      Accept
+                    </Button>
+                    <Button size="sm" variant="outline" className="gap-1" onClick={() => respondToReschedule(lesson, false)} disabled={isResponding}>
+                      <X className="h-4 w-4" />
+                      Can't Make It
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">If the new time doesn't work, the lesson is cancelled.</p>
+                </div>
+              )}
+
+              {isOnline(lesson) && isUpcoming(lesson) && !isLessonRoomOpen(lesson.booking_date, lesson.start_time, lesson.end_time, lesson.classes!.time_zone, now) && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Video className="h-3 w-3" />
+                  Online lesson · the room opens {ROOM_OPENS_MINUTES} minutes before it starts
+                </p>
+              )}
+
+              <div className="flex justify-end gap-1">
+                {isOnline(lesson) && isLessonRoomOpen(lesson.booking_date, lesson.start_time, lesson.end_time, lesson.classes!.time_zone, now) && (
+                  <Button size="sm" className="gap-1" onClick={() => joinRoom(lesson)}>
+                    <Video className="h-4 w-4" />
+                    Join Lesson
+                  </Button>
+                )}
+                {['pending', 'confirmed'].includes(lesson.status) && isUpcoming(lesson) && (
+                  <Button variant="ghost" size="sm" className="gap-1 text-destructive hover:text-destructive" onClick={() => openCancel(lesson)} disabled={isResponding}>
+                    <Ban className="h-4 w-4" />
+                    Cancel
+                  </Button>
+                )}
+                {lesson.classes && (
+                  <Button variant="ghost" size="sm" className="gap-1" onClick={() => navigate(`/classes/${lesson.classes!.id}`)}>
+                    <ExternalLink className="h-4 w-4" />
+                    View Class
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={!!cancelling} onOpenChange={(open) => !open && setCancelling(null)}>
+        <DialogContent>
+          {cancelling && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Cancel Lesson</DialogTitle>
+                <DialogDescription>
+                  {describeTime(cancelling, cancelling.booking_date, cancelling.start_time, cancelling.end_time).teacherTime}.
+                  {' '}Your teacher will be emailed that the lesson is off.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                {cancelling.series_id && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox id="cancel-whole-series" checked={cancelSeries} onCheckedChange={(checked) => setCancelSeries(checked === true)} />
+                    <Label htmlFor="cancel-whole-series" className="font-normal">Cancel all upcoming lessons in this series</Label>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="cancel-reason">Reason (Optional)</Label>
+                  <Textarea
+                    id="cancel-reason"
+                    value={cancelReason}
+                    onChange={(e) => setCancelReason(e.target.value)}
+                    placeholder="Let your teacher know why"
+                    maxLength={500}
+                    rows={3}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCancelling(null)} disabled={!!respondingId}>
+                  Back
+                </Button>
+                <Button variant="destructive" onClick={cancelLessons} disabled={!!respondingId}>
+                  {respondingId ? 'Cancelling...' : cancelSeries ? 'Cancel Series' : 'Cancel Lesson'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useUserRoles } from "@/hooks/useUserRoles";
 import { Button } from "@/components/ui/button";
 import { useNavigate, NavLink } from "react-router-dom";
-import { Calendar, LogOut, Shield, Settings, Menu, X, GraduationCap, Wrench, Home, BookOpen } from "lucide-react";
+import { Calendar, LogOut, Shield, Settings, Menu, X, GraduationCap, Wrench, Home, BookOpen, BarChart3 } from "lucide-react";
 import logo from "@/assets/MusicConnectsLogo.png";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -18,7 +18,7 @@ import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 
 export default function Nav() {
   const { user, session, signOut } = useAuth();
-  const { isAdmin } = useUserRoles(user?.id);
+  const { isAdmin, canCreateEvents } = useUserRoles(user?.id);
   const navigate = useNavigate();
   const [fullName, setFullName] = useState("");
   const [avatarUrl, setAvatarUrl] = useState("");
@@ -190,6 +190,16 @@ export default function Nav() {
                         <Settings className="h-5 w-5" />
                         Settings
                       </NavLink>
+                      {canCreateEvents && (
+                        <NavLink 
+                          to="/events/analytics" 
+                          className={mobileNavLinkClass}
+                          onClick={() => setMobileMenuOpen(false)}
+                        >
+                          <BarChart3 className="h-5 w-5" />
+                          Event Analytics
+                        </NavLink>
+                      )}
                       <button
                         onClick={() => {
                           handleSignOut();
@@ -240,6 +250,12 @@ export default function Nav() {
                     <Settings className="h-4 w-4 mr-2" />
                     Settings
                   </DropdownMenuItem>
+                  {canCreateEvents && (
+                    <DropdownMenuItem onClick={() => navigate("/events/analytics")}>
+                      <BarChart3 className="h-4 w-4 mr-2" />
+                      Event Analytics
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleSignOut}>
                     <LogOut className="h-4 w-4 mr-2" />
@@ -3,7 +3,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Plus, X, Tag } from 'lucide-react';
+import { formatEventDay } from '@/lib/festival';
 
 export interface PriceTier {
   id: string;
@@ -12,11 +14,15 @@ export interface PriceTier {
   quantity: string;
   startDate?: string;
   endDate?: string;
+  /** Day pass for this day (YYYY-MM-DD); unset means a full pass */
+  day?: string;
 }
 
 interface PriceTiersEditorProps {
   tiers: PriceTier[];
   onChange: (tiers: PriceTier[]) => void;
+  /** Days of the event; passes can be sold per day when there's more than one */
+  days?: string[];
 }
 
 const defaultTierTemplates = [
@@ -25,8 +31,9 @@ const defaultTierTemplates = [
   { name: 'Late/At-Door', priceMultiplier: 1.2 },
 ];
 
-export default function PriceTiersEditor({ tiers, onChange }: PriceTiersEditorProps) {
+export default function PriceTiersEditor({ tiers, onChange, days = [] }: PriceTiersEditorProps) {
   const [expanded, setExpanded] = useState(tiers.length > 0);
+  const isMultiDay = days.length > 1;
 
   const addTier = () => {
     const newTier: PriceTier = {
@@ -49,6 +56,25 @@ export default function PriceTiersEditor({ tiers, onChange }: PriceTiersEditorPr
     onChange(tiers.map(t => t.id === id ? { ...t, [field]: value } : t));
   };
 
+  // One pass per day plus a full pass, all at the same price to start with
+  const addDayPasses = () => {
+    const newTiers: PriceTier[] = days.map((day, index) => ({
+      id: crypto.randomUUID(),
+      name: `Day ${index + 1} Pass`,
+      price: '',
+      quantity: '',
+      startDate: '',
+      endDate: '',
+      day
+    }));
+    onChange([
+      ...tiers,
+      ...newTiers,
+      { id: crypto.randomUUID(), name: 'Full Festival Pass', price: '', quantity: '', startDate: '', endDate: '' }
+    ]);
+    setExpanded(true);
+  };
+
   const addQuickTiers = (basePrice: string) => {
     const price = parseFloat(basePrice) || 0;
     const newTiers: PriceTier[] = defaultTierTemplates.map(template => ({
@@ -162,6 +188,28 @@ export default function PriceTiersEditor({ tiers, onChange }: PriceTiersEditorPr
                   onChange={(e) => updateTier(tier.id, 'endDate', e.target.value)}
                 />
               </div>
+
+              {isMultiDay && (
+                <div className="space-y-1 sm:col-span-2">
+                  <Label className="text-xs">Pass</Label>
+                  <Select
+                    value={tier.day && days.includes(tier.day) ? tier.day : 'full'}
+                    onValueChange={(value) => updateTier(tier.id, 'day', value === 'full' ? '' : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="full">Full pass (every day)</SelectItem>
+                      {days.map((day, index) => (
+                        <SelectItem key={day} value={day}>
+                          Day {index + 1} pass ({formatEventDay(day)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
           </Card>
         ))}
@@ -179,9 +227,22 @@ export default function PriceTiersEditor({ tiers, onChange }: PriceTiersEditorPr
         </Button>
       )}
 
+      {isMultiDay && !tiers.some(t => t.day && days.includes(t.day)) && (
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={addDayPasses}
+          className="w-full"
+        >
+          Quick Add: Day Passes + Full Festival Pass
+        </Button>
+      )}
+
       {tiers.length > 0 && (
         <p className="text-xs text-muted-foreground">
           Tiers will be shown to attendees in order. Leave quantity empty for unlimited.
+          {isMultiDay && ' Day passes only count towards the capacity of their own day.'}
         </p>
       )}
     </div>
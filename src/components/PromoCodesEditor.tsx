@@ -0,0 +1,203 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X, TicketPercent } from 'lucide-react';
+import { PriceTier } from '@/components/PriceTiersEditor';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  discountType: 'percent' | 'fixed';
+  discountValue: string;
+  maxRedemptions: string;
+  validUntil: string;
+  // Empty means the code works on every tier
+  tierIds: string[];
+  isActive: boolean;
+  // Orders that have used the code so far (saved codes only)
+  redemptions?: number;
+}
+
+interface PromoCodesEditorProps {
+  promoCodes: PromoCode[];
+  onChange: (promoCodes: PromoCode[]) => void;
+  tiers: PriceTier[];
+}
+
+export default function PromoCodesEditor({ promoCodes, onChange, tiers }: PromoCodesEditorProps) {
+  const namedTiers = tiers.filter(t => t.name.trim());
+
+  const addPromoCode = () => {
+    const newPromoCode: PromoCode = {
+      id: crypto.randomUUID(),
+      code: '',
+      discountType: 'percent',
+      discountValue: '',
+      maxRedemptions: '',
+      validUntil: '',
+      tierIds: [],
+      isActive: true
+    };
+    onChange([...promoCodes, newPromoCode]);
+  };
+
+  const removePromoCode = (id: string) => {
+    onChange(promoCodes.filter(p => p.id !== id));
+  };
+
+  const updatePromoCode = <K extends keyof PromoCode>(id: string, field: K, value: PromoCode[K]) => {
+    onChange(promoCodes.map(p => p.id === id ? { ...p, [field]: value } : p));
+  };
+
+  const toggleTier = (promoCode: PromoCode, tierId: string, checked: boolean) => {
+    updatePromoCode(
+      promoCode.id,
+      'tierIds',
+      checked ? [...promoCode.tierIds, tierId] : promoCode.tierIds.filter(id => id !== tierId)
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Promo Codes</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addPromoCode}
+          className="gap-2"
+        >
+          {promoCodes.length === 0 ? <TicketPercent className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          Add Promo Code
+        </Button>
+      </div>
+
+      {promoCodes.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Optional: Offer discounts like student pricing or comp tickets for members
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {promoCodes.map((promoCode) => (
+          <Card key={promoCode.id} className="p-4 relative space-y-3">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="absolute top-2 right-2 h-6 w-6"
+              onClick={() => removePromoCode(promoCode.id)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pr-8">
+              <div className="space-y-1">
+                <Label className="text-xs">Code</Label>
+                <Input
+                  placeholder="e.g. STUDENT50"
+                  value={promoCode.code}
+                  maxLength={30}
+                  className="font-mono uppercase"
+                  onChange={(e) => updatePromoCode(promoCode.id, 'code', e.target.value.toUpperCase().replace(/\s/g, ''))}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Discount</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={promoCode.discountType}
+                    onValueChange={(value) => updatePromoCode(promoCode.id, 'discountType', value as PromoCode['discountType'])}
+                  >
+                    <SelectTrigger className="w-24 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">%</SelectItem>
+                      <SelectItem value="fixed">$</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={promoCode.discountType === 'percent' ? '100' : undefined}
+                    step={promoCode.discountType === 'percent' ? '1' : '0.01'}
+                    placeholder={promoCode.discountType === 'percent' ? '50' : '10.00'}
+                    value={promoCode.discountValue}
+                    onChange={(e) => updatePromoCode(promoCode.id, 'discountValue', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Max Uses</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Unlimited"
+                  value={promoCode.maxRedemptions}
+                  onChange={(e) => updatePromoCode(promoCode.id, 'maxRedemptions', e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Valid Until (Optional)</Label>
+                <Input
+                  type="date"
+                  value={promoCode.validUntil}
+                  onChange={(e) => updatePromoCode(promoCode.id, 'validUntil', e.target.value)}
+                />
+              </div>
+            </div>
+
+            {namedTiers.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-xs">Applies To</Label>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {namedTiers.map(tier => (
+                    <label key={tier.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={promoCode.tierIds.includes(tier.id)}
+                        onCheckedChange={(checked) => toggleTier(promoCode, tier.id, checked === true)}
+                      />
+                      {tier.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Leave all unchecked to apply to every tier</p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Switch
+                  checked={promoCode.isActive}
+                  onCheckedChange={(checked) => updatePromoCode(promoCode.id, 'isActive', checked)}
+                />
+                Active
+              </label>
+              {promoCode.redemptions !== undefined && (
+                <Badge variant="secondary">
+                  Used {promoCode.redemptions}{promoCode.maxRedemptions ? ` / ${promoCode.maxRedemptions}` : ''}
+                </Badge>
+              )}
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      {promoCodes.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Discounts apply to each ticket. Each booking that uses a code counts as one use.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { CameraOff } from 'lucide-react';
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+  // Ignore repeat reads of the same code for this long (ms)
+  cooldown?: number;
+}
+
+export default function QrScanner({ onScan, cooldown = 3000 }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const lastScanRef = useRef<{ value: string; at: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest callback without restarting the camera
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const tick = () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+
+      if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const result = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+          if (result?.data) {
+            const now = Date.now();
+            const last = lastScanRef.current;
+            if (!last || last.value !== result.data || now - last.at > cooldown) {
+              lastScanRef.current = { value: result.data, at: now };
+              onScanRef.current(result.data);
+            }
+          }
+        }
+      }
+
+      frame = requestAnimationFrame(tick);
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('Camera is not supported in this browser');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        frame = requestAnimationFrame(tick);
+      } catch (err) {
+        console.error('Error starting camera:', err);
+        setError('Could not access the camera. Check your browser permissions.');
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [cooldown]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 p-8 rounded-lg bg-muted text-center">
+        <CameraOff className="h-8 w-8 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-lg bg-black aspect-square sm:aspect-video">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <div className="w-56 h-56 border-2 border-white/80 rounded-lg" />
+      </div>
+    </div>
+  );
+}
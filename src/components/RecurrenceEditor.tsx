@@ -0,0 +1,195 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat } from 'lucide-react';
+import {
+  MAX_OCCURRENCES,
+  WEEKDAY_NAMES,
+  describeRecurrence,
+  getOccurrenceDates,
+  getWeekday,
+  toRecurrenceRule,
+  type Recurrence,
+  type RecurrenceFrequency,
+} from '@/lib/recurrence';
+
+interface RecurrenceEditorProps {
+  recurrence: Recurrence;
+  onChange: (recurrence: Recurrence) => void;
+  startDate: string;
+}
+
+export default function RecurrenceEditor({ recurrence, onChange, startDate }: RecurrenceEditorProps) {
+  const update = <K extends keyof Recurrence>(field: K, value: Recurrence[K]) => {
+    onChange({ ...recurrence, [field]: value });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const current = recurrence.weekdays.length > 0 ? recurrence.weekdays : [getWeekday(startDate)];
+    const next = current.includes(weekday) ? current.filter(d => d !== weekday) : [...current, weekday];
+    // Always keep at least one day selected
+    if (next.length > 0) update('weekdays', next.sort());
+  };
+
+  const toggleException = (date: string) => {
+    update(
+      'exceptionDates',
+      recurrence.exceptionDates.includes(date)
+        ? recurrence.exceptionDates.filter(d => d !== date)
+        : [...recurrence.exceptionDates, date].sort()
+    );
+  };
+
+  const rule = toRecurrenceRule(recurrence, startDate);
+  // Show skipped dates too, so they can be brought back
+  const allDates = rule ? getOccurrenceDates({ ...rule, exception_dates: [] }) : [];
+  const occurrenceCount = allDates.filter(d => !recurrence.exceptionDates.includes(d)).length;
+  const selectedWeekdays = recurrence.weekdays.length > 0 ? recurrence.weekdays : startDate ? [getWeekday(startDate)] : [];
+  const unit = recurrence.frequency === 'weekly' ? 'week' : 'month';
+
+  const previewRule = (frequency: RecurrenceFrequency) =>
+    describeRecurrence({ frequency, repeat_interval: 1, weekdays: null, month_week: null, starts_on: startDate });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="flex items-center gap-2">
+          <Repeat className="h-4 w-4" />
+          Repeats
+        </Label>
+        <Select
+          value={recurrence.frequency}
+          onValueChange={(value) => update('frequency', value as Recurrence['frequency'])}
+          disabled={!startDate}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            {startDate && (
+              <>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly_day">{previewRule('monthly_day')}</SelectItem>
+                <SelectItem value="monthly_weekday">{previewRule('monthly_weekday')}</SelectItem>
+              </>
+            )}
+          </SelectContent>
+        </Select>
+        {!startDate && (
+          <p className="text-xs text-muted-foreground">Pick a date first to set up a recurring series</p>
+        )}
+      </div>
+
+      {rule && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="repeat-interval">Every</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="repeat-interval"
+                  type="number"
+                  min="1"
+                  max="12"
+                  className="w-20"
+                  value={recurrence.interval}
+                  onChange={(e) => update('interval', e.target.value)}
+                />
+                <span className="text-sm text-muted-foreground">{unit}{rule.repeat_interval === 1 ? '' : 's'}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ends</Label>
+              <div className="flex gap-2">
+                <Select value={recurrence.endType} onValueChange={(value) => update('endType', value as Recurrence['endType'])}>
+                  <SelectTrigger className="w-28 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">After</SelectItem>
+                    <SelectItem value="date">On date</SelectItem>
+                  </SelectContent>
+                </Select>
+                {recurrence.endType === 'count' ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="1"
+                      max={MAX_OCCURRENCES}
+                      className="w-20"
+                      value={recurrence.occurrenceCount}
+                      onChange={(e) => update('occurrenceCount', e.target.value)}
+                    />
+                    <span className="text-sm text-muted-foreground">times</span>
+                  </div>
+                ) : (
+                  <Input
+                    type="date"
+                    min={startDate}
+                    value={recurrence.endsOn}
+                    onChange={(e) => update('endsOn', e.target.value)}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          {recurrence.frequency === 'weekly' && (
+            <div className="space-y-2">
+              <Label>On</Label>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_NAMES.map((name, weekday) => (
+                  <Button
+                    key={name}
+                    type="button"
+                    size="sm"
+                    variant={selectedWeekdays.includes(weekday) ? 'default' : 'outline'}
+                    className="w-12"
+                    onClick={() => toggleWeekday(weekday)}
+                  >
+                    {name.slice(0, 3)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Dates</Label>
+              <Badge variant="secondary">{occurrenceCount} {occurrenceCount === 1 ? 'event' : 'events'}</Badge>
+            </div>
+            {allDates.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {allDates.map(date => {
+                  const skipped = recurrence.exceptionDates.includes(date);
+                  return (
+                    <Button
+                      key={date}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className={`h-7 px-2 text-xs ${skipped ? 'line-through text-muted-foreground opacity-60' : ''}`}
+                      onClick={() => toggleException(date)}
+                    >
+                      {new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                    </Button>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">No dates match this schedule</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Click a date to skip it. Each date becomes its own event with separate tickets, up to {MAX_OCCURRENCES} at a time.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { CalendarSync } from 'lucide-react';
+
+type FeedParams = Record<string, string | number>;
+
+const FEED_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+function getFeedUrl(params: FeedParams): string {
+  const query = new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]));
+  return `${FEED_URL}?${query.toString()}`;
+}
+
+// Calendar apps subscribe to webcal:// links and keep polling them for changes
+const toWebcal = (url: string) => url.replace(/^https?:\/\//, 'webcal://');
+
+interface SubscribeCalendarProps {
+  // Query for the calendar-feed function, or a loader for feeds that need a token first
+  feed: FeedParams | (() => Promise<FeedParams>);
+  name: string;
+  label?: string;
+  variant?: 'default' | 'outline' | 'ghost' | 'secondary';
+  size?: 'default' | 'sm' | 'lg' | 'icon';
+  className?: string;
+}
+
+export default function SubscribeCalendar({ feed, name, label = 'Subscribe', variant = 'outline', size = 'sm', className }: SubscribeCalendarProps) {
+  const [feedUrl, setFeedUrl] = useState<string | null>(() => (typeof feed === 'function' ? null : getFeedUrl(feed)));
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || feedUrl || typeof feed !== 'function') return;
+    try {
+      setFeedUrl(getFeedUrl(await feed()));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not load your calendar link');
+    }
+  };
+
+  const currentUrl = typeof feed === 'function' ? feedUrl : getFeedUrl(feed);
+
+  const copyLink = async () => {
+    if (!currentUrl) return;
+    await navigator.clipboard.writeText(currentUrl);
+    toast.success('Calendar link copied');
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} size={size} className={className}>
+          <CalendarSync className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem
+          disabled={!currentUrl}
+          onClick={() => window.open(`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(toWebcal(currentUrl!))}`, '_blank')}
+        >
+          Google Calendar
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={!currentUrl}
+          onClick={() => window.open(`https://outlook.live.com/calendar/0/addfromweb?url=${encodeURIComponent(currentUrl!)}&name=${encodeURIComponent(name)}`, '_blank')}
+        >
+          Outlook
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!currentUrl} onClick={() => { window.location.href = toWebcal(currentUrl!); }}>
+          Apple Calendar
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem disabled={!currentUrl} onClick={copyLink}>
+          Copy calendar link
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
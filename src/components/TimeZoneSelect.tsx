@@ -0,0 +1,25 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatTimeZoneName, getTimeZoneOptions } from '@/lib/timeZones';
+
+interface TimeZoneSelectProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+  id?: string;
+}
+
+export default function TimeZoneSelect({ value, onChange, id }: TimeZoneSelectProps) {
+  const now = new Date();
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}><SelectValue placeholder="Select time zone" /></SelectTrigger>
+      <SelectContent>
+        {getTimeZoneOptions(value).map(zone => (
+          <SelectItem key={zone} value={zone}>
+            {zone.replace(/_/g, ' ')} ({formatTimeZoneName(now, zone)})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -94,12 +94,17 @@ export type Database = {
           amount: number
           attendee_email: string
           attendee_name: string
+          checked_in_at: string | null
+          checked_in_by: string | null
           created_at: string
           event_id: string
           id: string
+          order_id: string
           payment_method: string
+          price_tier_id: string | null
           proof_of_payment_url: string | null
           status: string
+          ticket_code: string | null
           updated_at: string
           user_id: string
         }
@@ -107,12 +112,17 @@ export type Database = {
           amount: number
           attendee_email: string
           attendee_name: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           created_at?: string
           event_id: string
           id?: string
+          order_id: string
           payment_method?: string
+          price_tier_id?: string | null
           proof_of_payment_url?: string | null
           status?: string
+          ticket_code?: string | null
           updated_at?: string
           user_id: string
         }
@@ -120,12 +130,17 @@ export type Database = {
           amount?: number
           attendee_email?: string
           attendee_name?: string
+          checked_in_at?: string | null
+          checked_in_by?: string | null
           created_at?: string
           event_id?: string
           id?: string
+          order_id?: string
           payment_method?: string
+          price_tier_id?: string | null
           proof_of_payment_url?: string | null
           status?: string
+          ticket_code?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -137,8 +152,33 @@ export type Database = {
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bookings_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       class_announcements: {
         Row: {
           class_id: string
@@ -174,6 +214,44 @@ export type Database = {
           },
         ]
       }
+      class_attendance: {
+        Row: {
+          created_at: string
+          enrollment_id: string
+          id: string
+          marked_by: string | null
+          session_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enrollment_id: string
+          id?: string
+          marked_by?: string | null
+          session_date: string
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enrollment_id?: string
+          id?: string
+          marked_by?: string | null
+          session_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_attendance_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "class_enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       class_availability: {
         Row: {
           class_id: string
@@ -183,6 +261,7 @@ export type Database = {
           id: string
           slot_duration_minutes: number
           start_time: string
+          time_zone: string | null
           updated_at: string
           user_id: string
         }
@@ -194,6 +273,7 @@ export type Database = {
           id?: string
           slot_duration_minutes?: number
           start_time: string
+          time_zone?: string | null
           updated_at?: string
           user_id: string
         }
@@ -205,6 +285,7 @@ export type Database = {
           id?: string
           slot_duration_minutes?: number
           start_time?: string
+          time_zone?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -218,16 +299,114 @@ export type Database = {
           },
         ]
       }
+      class_availability_overrides: {
+        Row: {
+          class_id: string
+          created_at: string
+          end_date: string
+          end_time: string | null
+          id: string
+          kind: string
+          note: string | null
+          slot_duration_minutes: number | null
+          start_date: string
+          start_time: string | null
+          updated_at: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          end_date: string
+          end_time?: string | null
+          id?: string
+          kind: string
+          note?: string | null
+          slot_duration_minutes?: number | null
+          start_date: string
+          start_time?: string | null
+          updated_at?: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          end_date?: string
+          end_time?: string | null
+          id?: string
+          kind?: string
+          note?: string | null
+          slot_duration_minutes?: number | null
+          start_date?: string
+          start_time?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_availability_overrides_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_booking_series: {
+        Row: {
+          class_id: string
+          created_at: string
+          end_date: string | null
+          id: string
+          interval_weeks: number
+          session_count: number | null
+          user_id: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          interval_weeks: number
+          session_count?: number | null
+          user_id: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          interval_weeks?: number
+          session_count?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_booking_series_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       class_bookings: {
         Row: {
           availability_id: string | null
           booking_date: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
           class_id: string
           created_at: string
+          credit_purchase_id: string | null
           end_time: string
           id: string
           is_recurring: boolean
           notes: string | null
+          proposal_note: string | null
+          proposed_date: string | null
+          proposed_end_time: string | null
+          proposed_start_time: string | null
+          reminder_sent_at: string | null
+          series_id: string | null
           start_time: string
           status: string
           student_email: string
@@ -238,12 +417,22 @@ export type Database = {
         Insert: {
           availability_id?: string | null
           booking_date: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           class_id: string
           created_at?: string
+          credit_purchase_id?: string | null
           end_time: string
           id?: string
           is_recurring?: boolean
           notes?: string | null
+          proposal_note?: string | null
+          proposed_date?: string | null
+          proposed_end_time?: string | null
+          proposed_start_time?: string | null
+          reminder_sent_at?: string | null
+          series_id?: string | null
           start_time: string
           status?: string
           student_email: string
@@ -254,12 +443,22 @@ export type Database = {
         Update: {
           availability_id?: string | null
           booking_date?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
           class_id?: string
           created_at?: string
+          credit_purchase_id?: string | null
           end_time?: string
           id?: string
           is_recurring?: boolean
           notes?: string | null
+          proposal_note?: string | null
+          proposed_date?: string | null
+          proposed_end_time?: string | null
+          proposed_start_time?: string | null
+          reminder_sent_at?: string | null
+          series_id?: string | null
           start_time?: string
           status?: string
           student_email?: string
@@ -282,14 +481,158 @@ export type Database = {
             referencedRelation: "classes"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "class_bookings_credit_purchase_id_fkey"
+            columns: ["credit_purchase_id"]
+            isOneToOne: false
+            referencedRelation: "lesson_credit_purchases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_bookings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "class_booking_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_enrollments: {
+        Row: {
+          cancelled_at: string | null
+          cancelled_by: string | null
+          class_id: string
+          created_at: string
+          id: string
+          promoted_at: string | null
+          status: string
+          student_email: string
+          student_name: string
+          term_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          class_id: string
+          created_at?: string
+          id?: string
+          promoted_at?: string | null
+          status: string
+          student_email: string
+          student_name: string
+          term_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          class_id?: string
+          created_at?: string
+          id?: string
+          promoted_at?: string | null
+          status?: string
+          student_email?: string
+          student_name?: string
+          term_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_enrollments_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_enrollments_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "class_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_lesson_rooms: {
+        Row: {
+          booking_id: string
+          created_at: string
+          room: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string
+          room: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string
+          room?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_lesson_rooms_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "class_bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_terms: {
+        Row: {
+          capacity: number | null
+          class_id: string
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          capacity?: number | null
+          class_id: string
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          capacity?: number | null
+          class_id?: string
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_terms_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       classes: {
         Row: {
+          booking_horizon_days: number
+          buffer_minutes: number
           class_mode: string
           class_type: string
           contact_info: string | null
           created_at: string
+          daily_lesson_cap: number | null
           description: string | null
           genre: string
           group_schedule_day: number | null
@@ -302,19 +645,24 @@ export type Database = {
           location_lng: number | null
           location_name: string | null
           max_capacity: number | null
+          min_notice_hours: number
           price: number | null
           recurring_schedule: string | null
           schedule_details: string | null
           skill_level: string
+          time_zone: string | null
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          booking_horizon_days?: number
+          buffer_minutes?: number
           class_mode?: string
           class_type?: string
           contact_info?: string | null
           created_at?: string
+          daily_lesson_cap?: number | null
           description?: string | null
           genre: string
           group_schedule_day?: number | null
@@ -327,19 +675,24 @@ export type Database = {
           location_lng?: number | null
           location_name?: string | null
           max_capacity?: number | null
+          min_notice_hours?: number
           price?: number | null
           recurring_schedule?: string | null
           schedule_details?: string | null
           skill_level?: string
+          time_zone?: string | null
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          booking_horizon_days?: number
+          buffer_minutes?: number
           class_mode?: string
           class_type?: string
           contact_info?: string | null
           created_at?: string
+          daily_lesson_cap?: number | null
           description?: string | null
           genre?: string
           group_schedule_day?: number | null
@@ -352,10 +705,12 @@ export type Database = {
           location_lng?: number | null
           location_name?: string | null
           max_capacity?: number | null
+          min_notice_hours?: number
           price?: number | null
           recurring_schedule?: string | null
           schedule_details?: string | null
           skill_level?: string
+          time_zone?: string | null
           title?: string
           updated_at?: string
           user_id?: string
@@ -443,30 +798,127 @@ export type Database = {
           },
         ]
       }
+      event_page_views: {
+        Row: {
+          created_at: string
+          event_id: string
+          id: string
+          viewed_on: string
+          visitor_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          id?: string
+          viewed_on?: string
+          visitor_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          id?: string
+          viewed_on?: string
+          visitor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_page_views_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_promo_codes: {
+        Row: {
+          code: string
+          created_at: string
+          discount_type: string
+          discount_value: number
+          event_id: string
+          id: string
+          is_active: boolean
+          max_redemptions: number | null
+          price_tier_ids: string[] | null
+          updated_at: string
+          valid_until: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          discount_type: string
+          discount_value: number
+          event_id: string
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          price_tier_ids?: string[] | null
+          updated_at?: string
+          valid_until?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          discount_type?: string
+          discount_value?: number
+          event_id?: string
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          price_tier_ids?: string[] | null
+          updated_at?: string
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_promo_codes_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_schedule: {
         Row: {
+          accompanists: string | null
           created_at: string
+          day: string | null
           description: string | null
           event_id: string
           id: string
+          raag: string | null
+          stage: string | null
+          taal: string | null
           time: string
           title: string
           updated_at: string
         }
         Insert: {
+          accompanists?: string | null
           created_at?: string
+          day?: string | null
           description?: string | null
           event_id: string
           id?: string
+          raag?: string | null
+          stage?: string | null
+          taal?: string | null
           time: string
           title: string
           updated_at?: string
         }
         Update: {
+          accompanists?: string | null
           created_at?: string
+          day?: string | null
           description?: string | null
           event_id?: string
           id?: string
+          raag?: string | null
+          stage?: string | null
+          taal?: string | null
           time?: string
           title?: string
           updated_at?: string
@@ -481,26 +933,163 @@ export type Database = {
           },
         ]
       }
-      events: {
+      event_schedule_artists: {
         Row: {
-          artist_id: string | null
-          confirmation_type: string | null
+          artist_id: string
           created_at: string
-          date: string
-          flyer_url: string | null
           id: string
-          image_url: string | null
-          location_lat: number | null
-          location_lng: number | null
-          location_name: string | null
-          notes: string | null
-          payment_link: string | null
+          schedule_item_id: string
+        }
+        Insert: {
+          artist_id: string
+          created_at?: string
+          id?: string
+          schedule_item_id: string
+        }
+        Update: {
+          artist_id?: string
+          created_at?: string
+          id?: string
+          schedule_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_schedule_artists_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_schedule_artists_schedule_item_id_fkey"
+            columns: ["schedule_item_id"]
+            isOneToOne: false
+            referencedRelation: "event_schedule"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_series: {
+        Row: {
+          created_at: string
+          ends_on: string | null
+          exception_dates: string[]
+          frequency: string
+          id: string
+          month_week: number | null
+          occurrence_count: number | null
+          repeat_interval: number
+          starts_on: string
+          updated_at: string
+          user_id: string
+          weekdays: number[] | null
+        }
+        Insert: {
+          created_at?: string
+          ends_on?: string | null
+          exception_dates?: string[]
+          frequency: string
+          id?: string
+          month_week?: number | null
+          occurrence_count?: number | null
+          repeat_interval?: number
+          starts_on: string
+          updated_at?: string
+          user_id: string
+          weekdays?: number[] | null
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string | null
+          exception_dates?: string[]
+          frequency?: string
+          id?: string
+          month_week?: number | null
+          occurrence_count?: number | null
+          repeat_interval?: number
+          starts_on?: string
+          updated_at?: string
+          user_id?: string
+          weekdays?: number[] | null
+        }
+        Relationships: []
+      }
+      event_waitlist: {
+        Row: {
+          created_at: string
+          email: string
+          event_id: string
+          id: string
+          name: string
+          offer_expires_at: string | null
+          offered_at: string | null
+          quantity: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          event_id: string
+          id?: string
+          name: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          quantity?: number
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          event_id?: string
+          id?: string
+          name?: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          quantity?: number
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_waitlist_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          artist_id: string | null
+          cancellation_deadline_hours: number | null
+          confirmation_type: string | null
+          created_at: string
+          date: string
+          end_date: string | null
+          end_time: string | null
+          flyer_url: string | null
+          id: string
+          image_url: string | null
+          location_lat: number | null
+          location_lng: number | null
+          location_name: string | null
+          notes: string | null
+          payment_link: string | null
           price: number | null
           price_tiers: Json | null
+          series_date: string | null
+          series_id: string | null
           stripe_price_id: string | null
           stripe_product_id: string | null
           ticket_capacity: number | null
           time: string
+          time_zone: string | null
           title: string
           updated_at: string
           use_stripe_checkout: boolean | null
@@ -508,9 +1097,12 @@ export type Database = {
         }
         Insert: {
           artist_id?: string | null
+          cancellation_deadline_hours?: number | null
           confirmation_type?: string | null
           created_at?: string
           date: string
+          end_date?: string | null
+          end_time?: string | null
           flyer_url?: string | null
           id?: string
           image_url?: string | null
@@ -521,10 +1113,13 @@ export type Database = {
           payment_link?: string | null
           price?: number | null
           price_tiers?: Json | null
+          series_date?: string | null
+          series_id?: string | null
           stripe_price_id?: string | null
           stripe_product_id?: string | null
           ticket_capacity?: number | null
           time: string
+          time_zone?: string | null
           title: string
           updated_at?: string
           use_stripe_checkout?: boolean | null
@@ -532,9 +1127,12 @@ export type Database = {
         }
         Update: {
           artist_id?: string | null
+          cancellation_deadline_hours?: number | null
           confirmation_type?: string | null
           created_at?: string
           date?: string
+          end_date?: string | null
+          end_time?: string | null
           flyer_url?: string | null
           id?: string
           image_url?: string | null
@@ -545,10 +1143,13 @@ export type Database = {
           payment_link?: string | null
           price?: number | null
           price_tiers?: Json | null
+          series_date?: string | null
+          series_id?: string | null
           stripe_price_id?: string | null
           stripe_product_id?: string | null
           ticket_capacity?: number | null
           time?: string
+          time_zone?: string | null
           title?: string
           updated_at?: string
           use_stripe_checkout?: boolean | null
@@ -562,6 +1163,13 @@ export type Database = {
             referencedRelation: "artists"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "events_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "event_series"
+            referencedColumns: ["id"]
+          },
         ]
       }
       knowledge_posts: {
@@ -600,6 +1208,265 @@ export type Database = {
         }
         Relationships: []
       }
+      lesson_credit_ledger: {
+        Row: {
+          booking_id: string | null
+          change: number
+          created_at: string
+          id: string
+          purchase_id: string
+          reason: string
+          teacher_id: string
+          user_id: string
+        }
+        Insert: {
+          booking_id?: string | null
+          change: number
+          created_at?: string
+          id?: string
+          purchase_id: string
+          reason: string
+          teacher_id: string
+          user_id: string
+        }
+        Update: {
+          booking_id?: string | null
+          change?: number
+          created_at?: string
+          id?: string
+          purchase_id?: string
+          reason?: string
+          teacher_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_credit_ledger_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "class_bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lesson_credit_ledger_purchase_id_fkey"
+            columns: ["purchase_id"]
+            isOneToOne: false
+            referencedRelation: "lesson_credit_purchases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_credit_purchases: {
+        Row: {
+          amount: number
+          created_at: string
+          credits: number
+          credits_remaining: number
+          expires_at: string | null
+          id: string
+          package_id: string | null
+          package_name: string
+          paid_at: string | null
+          status: string
+          stripe_checkout_session_id: string | null
+          stripe_payment_intent_id: string | null
+          teacher_id: string
+          updated_at: string
+          user_id: string
+          valid_days: number | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          credits: number
+          credits_remaining?: number
+          expires_at?: string | null
+          id?: string
+          package_id?: string | null
+          package_name: string
+          paid_at?: string | null
+          status?: string
+          stripe_checkout_session_id?: string | null
+          stripe_payment_intent_id?: string | null
+          teacher_id: string
+          updated_at?: string
+          user_id: string
+          valid_days?: number | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          credits?: number
+          credits_remaining?: number
+          expires_at?: string | null
+          id?: string
+          package_id?: string | null
+          package_name?: string
+          paid_at?: string | null
+          status?: string
+          stripe_checkout_session_id?: string | null
+          stripe_payment_intent_id?: string | null
+          teacher_id?: string
+          updated_at?: string
+          user_id?: string
+          valid_days?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_credit_purchases_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "lesson_packages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_packages: {
+        Row: {
+          class_id: string
+          created_at: string
+          id: string
+          is_active: boolean
+          lesson_count: number
+          name: string
+          price: number
+          updated_at: string
+          valid_days: number | null
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          lesson_count: number
+          name: string
+          price: number
+          updated_at?: string
+          valid_days?: number | null
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          lesson_count?: number
+          name?: string
+          price?: number
+          updated_at?: string
+          valid_days?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_packages_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          buyer_email: string
+          buyer_name: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string
+          discount_amount: number
+          event_id: string
+          expires_at: string | null
+          id: string
+          payment_method: string
+          paypal_capture_id: string | null
+          paypal_order_id: string | null
+          price_tier_id: string | null
+          promo_code_id: string | null
+          proof_of_payment_url: string | null
+          quantity: number
+          refund_method: string | null
+          refund_note: string | null
+          refund_status: string | null
+          refunded_at: string | null
+          status: string
+          stripe_checkout_session_id: string | null
+          stripe_payment_intent_id: string | null
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          buyer_email: string
+          buyer_name: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          discount_amount?: number
+          event_id: string
+          expires_at?: string | null
+          id?: string
+          payment_method?: string
+          paypal_capture_id?: string | null
+          paypal_order_id?: string | null
+          price_tier_id?: string | null
+          promo_code_id?: string | null
+          proof_of_payment_url?: string | null
+          quantity: number
+          refund_method?: string | null
+          refund_note?: string | null
+          refund_status?: string | null
+          refunded_at?: string | null
+          status?: string
+          stripe_checkout_session_id?: string | null
+          stripe_payment_intent_id?: string | null
+          total_amount: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          buyer_email?: string
+          buyer_name?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          discount_amount?: number
+          event_id?: string
+          expires_at?: string | null
+          id?: string
+          payment_method?: string
+          paypal_capture_id?: string | null
+          paypal_order_id?: string | null
+          price_tier_id?: string | null
+          promo_code_id?: string | null
+          proof_of_payment_url?: string | null
+          quantity?: number
+          refund_method?: string | null
+          refund_note?: string | null
+          refund_status?: string | null
+          refunded_at?: string | null
+          status?: string
+          stripe_checkout_session_id?: string | null
+          stripe_payment_intent_id?: string | null
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "event_promo_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -654,6 +1521,60 @@ export type Database = {
         }
         Relationships: []
       }
+      teacher_calendars: {
+        Row: {
+          calendar_url: string
+          created_at: string
+          display_name: string | null
+          last_error: string | null
+          last_synced_at: string | null
+          password_secret_id: string
+          updated_at: string
+          user_id: string
+          username: string
+        }
+        Insert: {
+          calendar_url: string
+          created_at?: string
+          display_name?: string | null
+          last_error?: string | null
+          last_synced_at?: string | null
+          password_secret_id: string
+          updated_at?: string
+          user_id: string
+          username: string
+        }
+        Update: {
+          calendar_url?: string
+          created_at?: string
+          display_name?: string | null
+          last_error?: string | null
+          last_synced_at?: string | null
+          password_secret_id?: string
+          updated_at?: string
+          user_id?: string
+          username?: string
+        }
+        Relationships: []
+      }
+      ticket_signing_key: {
+        Row: {
+          created_at: string
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          created_at?: string
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -684,10 +1605,12 @@ export type Database = {
           attendee_email_masked: string | null
           attendee_name: string | null
           attendee_name_masked: string | null
+          checked_in_at: string | null
           created_at: string | null
           event_id: string | null
           id: string | null
           payment_method: string | null
+          price_tier_id: string | null
           proof_of_payment_url: string | null
           status: string | null
           updated_at: string | null
@@ -698,10 +1621,12 @@ export type Database = {
           attendee_email_masked?: never
           attendee_name?: never
           attendee_name_masked?: never
+          checked_in_at?: string | null
           created_at?: string | null
           event_id?: string | null
           id?: string | null
           payment_method?: string | null
+          price_tier_id?: string | null
           proof_of_payment_url?: never
           status?: string | null
           updated_at?: string | null
@@ -712,10 +1637,12 @@ export type Database = {
           attendee_email_masked?: never
           attendee_name?: never
           attendee_name_masked?: never
+          checked_in_at?: string | null
           created_at?: string | null
           event_id?: string | null
           id?: string | null
           payment_method?: string | null
+          price_tier_id?: string | null
           proof_of_payment_url?: never
           status?: string | null
           updated_at?: string | null
@@ -730,9 +1657,389 @@ export type Database = {
           },
         ]
       }
+      event_sales_daily: {
+        Row: {
+          day: string | null
+          event_id: string | null
+          revenue: number | null
+          tickets_sold: number | null
+        }
+        Insert: {
+          day?: string | null
+          event_id?: string | null
+          revenue?: number | null
+          tickets_sold?: number | null
+        }
+        Update: {
+          day?: string | null
+          event_id?: string | null
+          revenue?: number | null
+          tickets_sold?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookings_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_sales_summary: {
+        Row: {
+          date: string | null
+          event_id: string | null
+          orders_count: number | null
+          page_views: number | null
+          pending_tickets: number | null
+          revenue: number | null
+          ticket_capacity: number | null
+          tickets_sold: number | null
+          title: string | null
+          unique_visitors: number | null
+          user_id: string | null
+        }
+        Insert: {
+          date?: string | null
+          event_id?: string | null
+          orders_count?: number | null
+          page_views?: number | null
+          pending_tickets?: number | null
+          revenue?: number | null
+          ticket_capacity?: number | null
+          tickets_sold?: number | null
+          title?: string | null
+          unique_visitors?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          date?: string | null
+          event_id?: string | null
+          orders_count?: number | null
+          page_views?: number | null
+          pending_tickets?: number | null
+          revenue?: number | null
+          ticket_capacity?: number | null
+          tickets_sold?: number | null
+          title?: string | null
+          unique_visitors?: number | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      event_tier_sales: {
+        Row: {
+          event_id: string | null
+          price_tier_id: string | null
+          revenue: number | null
+          tickets_sold: number | null
+        }
+        Insert: {
+          event_id?: string | null
+          price_tier_id?: string | null
+          revenue?: number | null
+          tickets_sold?: number | null
+        }
+        Update: {
+          event_id?: string | null
+          price_tier_id?: string | null
+          revenue?: number | null
+          tickets_sold?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookings_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders_organizer_view: {
+        Row: {
+          buyer_email: string | null
+          buyer_email_masked: string | null
+          buyer_name: string | null
+          buyer_name_masked: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string | null
+          discount_amount: number | null
+          event_id: string | null
+          id: string | null
+          payment_method: string | null
+          price_tier_id: string | null
+          promo_code: string | null
+          proof_of_payment_url: string | null
+          quantity: number | null
+          refund_method: string | null
+          refund_note: string | null
+          refund_status: string | null
+          refunded_at: string | null
+          status: string | null
+          total_amount: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          buyer_email?: never
+          buyer_email_masked?: never
+          buyer_name?: never
+          buyer_name_masked?: never
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          created_at?: string | null
+          discount_amount?: number | null
+          event_id?: string | null
+          id?: string | null
+          payment_method?: string | null
+          price_tier_id?: string | null
+          promo_code?: string | null
+          proof_of_payment_url?: never
+          quantity?: number | null
+          refund_method?: string | null
+          refund_note?: string | null
+          refund_status?: string | null
+          refunded_at?: string | null
+          status?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          buyer_email?: never
+          buyer_email_masked?: never
+          buyer_name?: never
+          buyer_name_masked?: never
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          created_at?: string | null
+          discount_amount?: number | null
+          event_id?: string | null
+          id?: string | null
+          payment_method?: string | null
+          price_tier_id?: string | null
+          promo_code?: string | null
+          proof_of_payment_url?: never
+          quantity?: number | null
+          refund_method?: string | null
+          refund_note?: string | null
+          refund_status?: string | null
+          refunded_at?: string | null
+          status?: string | null
+          total_amount?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      apply_promo_discount: {
+        Args: {
+          _discount_type: string
+          _discount_value: number
+          _price: number
+        }
+        Returns: number
+      }
+      book_class_lessons: {
+        Args: {
+          _availability_id: string
+          _class_id: string
+          _dates: string[]
+          _end_date?: string
+          _end_time: string
+          _interval_weeks?: number
+          _notes: string
+          _session_count?: number
+          _start_time: string
+          _student_email: string
+          _student_name: string
+          _use_credits?: boolean
+          _user_id: string
+        }
+        Returns: {
+          availability_id: string | null
+          booking_date: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          class_id: string
+          created_at: string
+          credit_purchase_id: string | null
+          end_time: string
+          id: string
+          is_recurring: boolean
+          notes: string | null
+          proposal_note: string | null
+          proposed_date: string | null
+          proposed_end_time: string | null
+          proposed_start_time: string | null
+          reminder_sent_at: string | null
+          series_id: string | null
+          start_time: string
+          status: string
+          student_email: string
+          student_name: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "class_bookings"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      book_event_tickets: {
+        Args: {
+          _event_id: string
+          _payment_method?: string
+          _price_tier_id?: string
+          _promo_code?: string
+          _proof_path?: string
+          _quantity: number
+          _user_id: string
+        }
+        Returns: string
+      }
+      cancel_class_lessons: {
+        Args: { _booking_id: string; _reason?: string; _whole_series?: boolean }
+        Returns: string[]
+      }
+      cancel_event_order: {
+        Args: { _order_id: string; _reason?: string }
+        Returns: string
+      }
+      check_in_ticket: {
+        Args: { _code: string; _event_id: string }
+        Returns: {
+          already_checked_in: boolean
+          attendee_name: string
+          booking_id: string
+          checked_in_at: string
+          price_tier_id: string
+        }[]
+      }
+      class_term_seats: {
+        Args: { _class_id: string }
+        Returns: {
+          enrolled: number
+          term_id: string
+          waitlisted: number
+        }[]
+      }
+      class_time_available: {
+        Args: {
+          _class_id: string
+          _date: string
+          _end_time: string
+          _start_time: string
+        }
+        Returns: boolean
+      }
       cleanup_old_audit_logs: { Args: never; Returns: undefined }
+      create_event_booking: {
+        Args: {
+          _event_id: string
+          _price_tier_id?: string
+          _promo_code?: string
+          _proof_path?: string
+          _quantity: number
+        }
+        Returns: string
+      }
+      enroll_in_class_term: {
+        Args: { _student_email: string; _student_name: string; _term_id: string }
+        Returns: {
+          enrollment_id: string
+          enrollment_status: string
+        }[]
+      }
+      ensure_lesson_room: { Args: { _booking_id: string }; Returns: string }
+      event_day_sales: {
+        Args: { _event_id: string; _exclude_booking_id?: string }
+        Returns: {
+          day: string
+          sold: number
+        }[]
+      }
+      event_held_seats: {
+        Args: { _event_id: string; _exclude_user_id?: string }
+        Returns: number
+      }
+      expire_pending_orders: { Args: { _event_id?: string }; Returns: number }
+      fill_class_term: { Args: { _term_id: string }; Returns: string[] }
+      find_promo_code: {
+        Args: { _code: string; _event_id: string; _price_tier_id?: string }
+        Returns: {
+          code: string
+          created_at: string
+          discount_type: string
+          discount_value: number
+          event_id: string
+          id: string
+          is_active: boolean
+          max_redemptions: number | null
+          price_tier_ids: string[] | null
+          updated_at: string
+          valid_until: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "event_promo_codes"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      generate_ticket_code: { Args: never; Returns: string }
+      get_calendar_feed_token: { Args: { _reset?: boolean }; Returns: string }
+      get_event_ticket_sales: {
+        Args: { _event_id: string }
+        Returns: {
+          price_tier_id: string
+          sold: number
+        }[]
+      }
+      get_event_waitlist_count: {
+        Args: { _event_id: string }
+        Returns: number
+      }
+      get_lesson_room: { Args: { _booking_id: string }; Returns: string }
+      get_my_waitlist_entry: {
+        Args: { _event_id: string }
+        Returns: {
+          id: string
+          offer_expires_at: string
+          quantity: number
+          status: string
+          waitlist_position: number
+        }[]
+      }
+      get_teacher_calendar: {
+        Args: { _user_id: string }
+        Returns: {
+          calendar_url: string
+          password: string
+          username: string
+        }[]
+      }
+      grant_package_credits: {
+        Args: {
+          _checkout_session_id?: string
+          _payment_intent_id?: string
+          _purchase_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -741,6 +2048,106 @@ export type Database = {
         Returns: boolean
       }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
+      is_valid_time_zone: { Args: { _time_zone: string }; Returns: boolean }
+      join_event_waitlist: {
+        Args: { _event_id: string; _quantity?: number }
+        Returns: string
+      }
+      leave_class_term: { Args: { _enrollment_id: string }; Returns: string[] }
+      leave_event_waitlist: { Args: { _event_id: string }; Returns: boolean }
+      lesson_time_range: {
+        Args: {
+          _date: string
+          _end_time: string
+          _start_time: string
+          _time_zone: string
+        }
+        Returns: unknown
+      }
+      lock_teacher_lessons: { Args: { _teacher_id: string }; Returns: undefined }
+      manage_class_booking: {
+        Args: {
+          _action: string
+          _booking_id: string
+          _new_date?: string
+          _new_end_time?: string
+          _new_start_time?: string
+          _reason?: string
+        }
+        Returns: string
+      }
+      promote_class_waitlist: { Args: { _term_id: string }; Returns: string[] }
+      promote_event_waitlist: {
+        Args: { _event_id: string; _hold?: unknown }
+        Returns: {
+          created_at: string
+          email: string
+          event_id: string
+          id: string
+          name: string
+          offer_expires_at: string | null
+          offered_at: string | null
+          quantity: number
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "event_waitlist"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      record_event_view: {
+        Args: { _event_id: string; _visitor_id: string }
+        Returns: undefined
+      }
+      release_pending_order: { Args: { _order_id: string }; Returns: boolean }
+      rename_ticket: {
+        Args: { _attendee_name: string; _booking_id: string }
+        Returns: undefined
+      }
+      request_class_booking_sync: {
+        Args: { _booking_ids: string[]; _removed_for_teacher?: string }
+        Returns: undefined
+      }
+      respond_to_class_reschedule: {
+        Args: { _accept: boolean; _booking_id: string }
+        Returns: string
+      }
+      save_teacher_calendar: {
+        Args: {
+          _calendar_url: string
+          _display_name: string
+          _password: string
+          _user_id: string
+          _username: string
+        }
+        Returns: undefined
+      }
+      teacher_lesson_conflict: {
+        Args: {
+          _buffer_minutes?: number
+          _exclude_booking_id?: string
+          _range: unknown
+          _teacher_id: string
+        }
+        Returns: boolean
+      }
+      ticket_code_signature: { Args: { _payload: string }; Returns: string }
+      use_lesson_credits: {
+        Args: { _booking_ids: string[] }
+        Returns: undefined
+      }
+      validate_promo_code: {
+        Args: { _code: string; _event_id: string; _price_tier_id?: string }
+        Returns: {
+          code: string
+          discount_type: string
+          discount_value: number
+        }[]
+      }
     }
     Enums: {
       app_role: "viewer" | "artist" | "organizer" | "admin" | "teacher"
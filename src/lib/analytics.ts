@@ -0,0 +1,30 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const VISITOR_ID_KEY = "raagconnect-visitor-id";
+
+/** Anonymous id for this browser, so repeat views in a day only count once. */
+export function getVisitorId() {
+  try {
+    let visitorId = localStorage.getItem(VISITOR_ID_KEY);
+    if (!visitorId) {
+      visitorId = crypto.randomUUID();
+      localStorage.setItem(VISITOR_ID_KEY, visitorId);
+    }
+    return visitorId;
+  } catch {
+    // Storage can be blocked (private mode); count the view without deduping
+    return crypto.randomUUID();
+  }
+}
+
+/** Records a view of an event page for the organizer's conversion stats. Never throws. */
+export async function recordEventView(eventId: string) {
+  const { error } = await supabase.rpc("record_event_view", {
+    _event_id: eventId,
+    _visitor_id: getVisitorId(),
+  });
+
+  if (error) {
+    console.error("Error recording event view:", error);
+  }
+}
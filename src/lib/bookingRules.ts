@@ -0,0 +1,14 @@
+/** Limits on when students can book, kept on the class. */
+export interface BookingRules {
+  min_notice_hours: number;
+  booking_horizon_days: number;
+  buffer_minutes: number;
+  daily_lesson_cap: number | null;
+}
+
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  min_notice_hours: 0,
+  booking_horizon_days: 30,
+  buffer_minutes: 0,
+  daily_lesson_cap: null,
+};
@@ -0,0 +1,24 @@
+import { getOccurrenceDates } from "@/lib/recurrence";
+
+export interface ClassTerm {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  capacity: number | null;
+}
+
+/** The weekly session dates of a term, or none without a schedule day. */
+export function getTermSessionDates(term: ClassTerm, scheduleDay: number | null) {
+  if (scheduleDay === null) return [];
+  return getOccurrenceDates({
+    frequency: "weekly",
+    repeat_interval: 1,
+    weekdays: [scheduleDay],
+    month_week: null,
+    starts_on: term.start_date,
+    ends_on: term.end_date,
+    occurrence_count: null,
+    exception_dates: [],
+  });
+}
@@ -0,0 +1,63 @@
+import { addDaysToDate, formatTimeZoneName, formatViewerTimeRange, zonedTimeToDate } from "@/lib/timeZones";
+
+/** How long an event without an end time is assumed to last. */
+export const DEFAULT_EVENT_DURATION_HOURS = 2;
+
+export type EventTiming = {
+  date: string;
+  time: string;
+  end_date?: string | null;
+  end_time?: string | null;
+  time_zone?: string | null;
+};
+
+/** When an event starts, read in its own time zone when it has one. */
+export function getEventStart(event: EventTiming) {
+  return zonedTimeToDate(event.date, event.time, event.time_zone);
+}
+
+/**
+ * When an event ends. An end time that isn't after the start on the same day
+ * means the event runs past midnight. Without an end time, the event is
+ * assumed to run DEFAULT_EVENT_DURATION_HOURS past its start on the last day.
+ */
+export function getEventEnd(event: EventTiming) {
+  const lastDay = event.end_date || event.date;
+
+  if (event.end_time) {
+    const end = zonedTimeToDate(lastDay, event.end_time, event.time_zone);
+    return end <= getEventStart(event) ? zonedTimeToDate(addDaysToDate(lastDay, 1), event.end_time, event.time_zone) : end;
+  }
+
+  const end = zonedTimeToDate(lastDay, event.time, event.time_zone);
+  return new Date(end.getTime() + DEFAULT_EVENT_DURATION_HOURS * 60 * 60 * 1000);
+}
+
+/** Whether an event is over, rather than just started. */
+export function hasEventEnded(event: EventTiming, now = new Date()) {
+  return getEventEnd(event) < now;
+}
+
+/** "7:30 PM" for a HH:MM(:SS) time. */
+export function formatTime(time: string) {
+  const [hours, minutes] = time.split(":");
+  const h = parseInt(hours, 10);
+  return `${h % 12 || 12}:${minutes} ${h >= 12 ? "PM" : "AM"}`;
+}
+
+/** "7:30 PM", or "7:30 PM – 10:00 PM" when the end time is known. */
+export function formatTimeRange(time: string, endTime?: string | null) {
+  return endTime ? `${formatTime(time)} – ${formatTime(endTime)}` : formatTime(time);
+}
+
+/** The event's own times with its zone, e.g. "7:30 PM – 10:00 PM EDT". */
+export function formatEventTimeRange(event: EventTiming) {
+  const range = formatTimeRange(event.time, event.end_time);
+  return event.time_zone ? `${range} ${formatTimeZoneName(getEventStart(event), event.time_zone)}` : range;
+}
+
+/** The first day's times on the viewer's clock, or null when that's the event's own. */
+export function formatEventViewerTimes(event: EventTiming) {
+  const end = event.end_time ? getEventEnd({ ...event, end_date: null }) : null;
+  return formatViewerTimeRange(getEventStart(event), end, event.time_zone);
+}
@@ -7,7 +7,8 @@ type FetchAllEventsOptions = {
   pageSize?: number;
 };
 
-const EVENT_SELECT_WITH_RELATIONS = "*, artists(*), event_artists(artist_id, artists(*))" as const;
+const EVENT_SELECT_WITH_RELATIONS =
+  "*, artists(*), event_artists(artist_id, artists(*)), event_series(frequency, repeat_interval, weekdays, month_week, starts_on)" as const;
 
 export async function fetchAllEventsWithRelations(options: FetchAllEventsOptions = {}) {
   const pageSize = options.pageSize ?? 1000;
@@ -0,0 +1,44 @@
+export type ExportCell = string | number | null | undefined;
+
+/** Turns a name into something safe to use as a download file name. */
+export function toFileName(name: string) {
+  return name.trim().replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "").toLowerCase() || "export";
+}
+
+/** Starts a browser download for generated content. */
+export function downloadFile(content: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Quotes a value for CSV, and stops spreadsheet apps from running it as a formula. */
+function escapeCsvCell(value: ExportCell) {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Downloads rows (header first) as a CSV file Excel opens with the right encoding. */
+export function downloadCsv(rows: ExportCell[][], fileName: string) {
+  const csv = rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+  downloadFile(`\uFEFF${csv}`, `${fileName}.csv`, "text/csv;charset=utf-8");
+}
+
+/** Downloads rows (header first) as a single-sheet XLSX workbook. */
+export async function downloadXlsx(rows: ExportCell[][], fileName: string, sheetName = "Sheet1") {
+  // Only load the spreadsheet library when someone actually exports
+  const XLSX = await import("xlsx");
+  const sheet = XLSX.utils.aoa_to_sheet(rows.map((row) => row.map((cell) => cell ?? "")));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName.slice(0, 31));
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+}
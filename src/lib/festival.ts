@@ -0,0 +1,62 @@
+/** Longest event allowed, matching the events end_date check. */
+export const MAX_EVENT_DAYS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Every day a (possibly multi-day) event runs on, as YYYY-MM-DD strings. */
+export function getEventDays(date: string, endDate?: string | null) {
+  if (!date) return [];
+  const start = Date.parse(`${date}T00:00:00Z`);
+  const end = endDate ? Date.parse(`${endDate}T00:00:00Z`) : start;
+  const days: string[] = [];
+
+  for (let time = start; time <= end && days.length < MAX_EVENT_DAYS; time += DAY_MS) {
+    days.push(new Date(time).toISOString().split("T")[0]);
+  }
+
+  return days.length > 0 ? days : [date];
+}
+
+/** Short label for one day of an event, e.g. "Sat, Oct 3". */
+export function formatEventDay(day: string) {
+  return new Date(`${day}T00:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+}
+
+/** Long date of an event, or its first and last day for multi-day events. */
+export function formatEventDates(date: string, endDate?: string | null) {
+  const start = new Date(`${date}T00:00:00`);
+  if (!endDate || endDate === date) {
+    return start.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+  }
+
+  const end = new Date(`${endDate}T00:00:00`);
+  const startLabel = start.toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    ...(start.getFullYear() !== end.getFullYear() && { year: "numeric" as const }),
+  });
+  return `${startLabel} – ${end.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}`;
+}
+
+/**
+ * Days a ticket tier gets you into. Tiers with a day are day passes; the rest,
+ * and any day that's no longer part of the event, are full passes.
+ */
+export function getPassDays(tier: { day?: string } | null | undefined, days: string[]) {
+  return tier?.day && days.includes(tier.day) ? [tier.day] : days;
+}
+
+/**
+ * Tickets taken on each day, mirroring event_day_sales in the database. Every
+ * ticket counts towards every day except day passes for other days.
+ */
+export function getDaySales(days: string[], tiers: { id: string; day?: string }[], tierSales: Record<string, number>, totalSold: number) {
+  const sales: Record<string, number> = {};
+  for (const day of days) {
+    sales[day] = tiers.reduce(
+      (sold, tier) => (tier.day && tier.day !== day && days.includes(tier.day) ? sold - (tierSales[tier.id] || 0) : sold),
+      totalSold
+    );
+  }
+  return sales;
+}
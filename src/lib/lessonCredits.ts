@@ -0,0 +1,42 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface CreditBalance {
+  teacherId: string;
+  credits: number;
+  /** Soonest expiry among the remaining credits; null when none expire */
+  nextExpiry: string | null;
+}
+
+/** A student's unexpired lesson credits, totalled per teacher. */
+export async function fetchCreditBalances(userId: string, teacherId?: string): Promise<CreditBalance[]> {
+  let query = supabase
+    .from("lesson_credit_purchases")
+    .select("teacher_id, credits_remaining, expires_at")
+    .eq("user_id", userId)
+    .eq("status", "paid")
+    .gt("credits_remaining", 0)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+  if (teacherId) query = query.eq("teacher_id", teacherId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const balances = new Map<string, CreditBalance>();
+  for (const lot of data ?? []) {
+    const balance = balances.get(lot.teacher_id) ?? { teacherId: lot.teacher_id, credits: 0, nextExpiry: null };
+    balance.credits += lot.credits_remaining;
+    if (lot.expires_at && (!balance.nextExpiry || lot.expires_at < balance.nextExpiry)) {
+      balance.nextExpiry = lot.expires_at;
+    }
+    balances.set(lot.teacher_id, balance);
+  }
+  return [...balances.values()];
+}
+
+/** "10 lessons · $180.00 · valid 6 months" style summary of a package's terms. */
+export function describePackage(lessonCount: number, price: number, validDays: number | null) {
+  const parts = [`${lessonCount} ${lessonCount === 1 ? "lesson" : "lessons"}`, `$${price.toFixed(2)}`];
+  if (lessonCount > 1) parts.push(`$${(price / lessonCount).toFixed(2)} each`);
+  if (validDays) parts.push(`valid ${validDays} days`);
+  return parts.join(" · ");
+}
@@ -0,0 +1,55 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export type LessonRepeat = "none" | "weekly" | "biweekly";
+
+export interface LessonPlan {
+  repeat: LessonRepeat;
+  /** A plan ends after a number of sessions or on a date */
+  ends: "sessions" | "until";
+  sessions: number;
+  until: string;
+}
+
+export interface LessonOccurrence {
+  date: string;
+  start_time: string;
+  end_time: string;
+  conflict: string | null;
+}
+
+export const DEFAULT_LESSON_PLAN: LessonPlan = { repeat: "none", ends: "sessions", sessions: 4, until: "" };
+
+/** The slot a plan starts from, as the class calendar offers it. */
+interface LessonSlot {
+  availability_id: string | null;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+}
+
+/** Fields book-class-lessons needs for a slot and plan. */
+export function lessonPlanRequest(classId: string, slot: LessonSlot, plan: LessonPlan) {
+  const repeating = plan.repeat !== "none";
+  return {
+    classId,
+    availabilityId: slot.availability_id,
+    date: slot.booking_date,
+    startTime: slot.start_time,
+    endTime: slot.end_time,
+    repeat: plan.repeat,
+    sessions: repeating && plan.ends === "sessions" ? plan.sessions : null,
+    until: repeating && plan.ends === "until" ? plan.until : null,
+  };
+}
+
+/** Calls book-class-lessons, surfacing the function's own error message. */
+export async function invokeBookLessons<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("book-class-lessons", { body });
+  if (error instanceof FunctionsHttpError) {
+    const details = await error.context.json().catch(() => null);
+    throw new Error(details?.error || "Could not book the lessons");
+  }
+  if (error) throw error;
+  return data as T;
+}
@@ -0,0 +1,34 @@
+import { supabase } from "@/integrations/supabase/client";
+import { addDaysToDate, zonedTimeToDate } from "@/lib/timeZones";
+
+/** Jitsi-style server the rooms live on; a self-hosted one can be set per deployment. */
+const MEETING_BASE_URL = (import.meta.env.VITE_MEETING_BASE_URL as string | undefined) || "https://meet.jit.si";
+
+/** Minutes before a lesson that its room opens, as get_lesson_room allows. */
+export const ROOM_OPENS_MINUTES = 15;
+
+export function lessonRoomUrl(room: string) {
+  return `${MEETING_BASE_URL.replace(/\/$/, "")}/${encodeURIComponent(room)}`;
+}
+
+/** Whether a lesson's room is open: from shortly before it starts until it ends. */
+export function isLessonRoomOpen(date: string, startTime: string, endTime: string, timeZone: string | null, now = new Date()) {
+  const startsAt = zonedTimeToDate(date, startTime.slice(0, 5), timeZone);
+  const endDate = endTime <= startTime ? addDaysToDate(date, 1) : date;
+  const endsAt = zonedTimeToDate(endDate, endTime.slice(0, 5), timeZone);
+  return now.getTime() >= startsAt.getTime() - ROOM_OPENS_MINUTES * 60000 && now <= endsAt;
+}
+
+/** Opens a confirmed online lesson's room in a new tab. */
+export async function joinLessonRoom(bookingId: string) {
+  // Opened before the request so browsers don't block it as a popup
+  const tab = window.open("", "_blank");
+  if (tab) tab.opener = null;
+  const { data: room, error } = await supabase.rpc("get_lesson_room", { _booking_id: bookingId });
+  if (error || !room) {
+    tab?.close();
+    throw new Error(error?.message || "This lesson has no room");
+  }
+  if (tab) tab.location.href = lessonRoomUrl(room);
+  else window.location.href = lessonRoomUrl(room);
+}
@@ -0,0 +1,216 @@
+export type RecurrenceFrequency = "weekly" | "monthly_day" | "monthly_weekday";
+
+/** A recurrence rule as stored in event_series. Dates are YYYY-MM-DD strings. */
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  repeat_interval: number;
+  /** Weekly: days of the week, 0 = Sunday */
+  weekdays: number[] | null;
+  /** Monthly by weekday: week of the month, -1 = last */
+  month_week: number | null;
+  starts_on: string;
+  ends_on: string | null;
+  occurrence_count: number | null;
+  exception_dates: string[];
+};
+
+/** Upper bound on generated occurrences, matching the event_series check. */
+export const MAX_OCCURRENCES = 52;
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date math happens in UTC so DST changes never shift a date
+function parseDate(date: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toDateString(date: Date) {
+  return date.toISOString().split("T")[0];
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Week of the month a date falls in (1-4), or -1 when it's in the last seven days. */
+export function getMonthWeek(date: string) {
+  const d = parseDate(date);
+  const week = Math.ceil(d.getUTCDate() / 7);
+  return week > 4 || d.getUTCDate() + 7 > daysInMonth(d.getUTCFullYear(), d.getUTCMonth()) ? -1 : week;
+}
+
+/** Day of the week (0 = Sunday) for a YYYY-MM-DD date. */
+export function getWeekday(date: string) {
+  return parseDate(date).getUTCDay();
+}
+
+// The nth (or last) given weekday of a month, or null if that month doesn't have one
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, week: number) {
+  if (week === -1) {
+    const last = daysInMonth(year, month);
+    const lastWeekday = new Date(Date.UTC(year, month, last)).getUTCDay();
+    return new Date(Date.UTC(year, month, last - ((lastWeekday - weekday + 7) % 7)));
+  }
+
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (week - 1) * 7;
+  return day <= daysInMonth(year, month) ? new Date(Date.UTC(year, month, day)) : null;
+}
+
+// Every date the rule produces before exceptions are removed
+function* candidateDates(rule: RecurrenceRule): Generator<Date> {
+  const start = parseDate(rule.starts_on);
+  const interval = Math.max(rule.repeat_interval, 1);
+
+  if (rule.frequency === "weekly") {
+    const weekdays = [...new Set(rule.weekdays?.length ? rule.weekdays : [start.getUTCDay()])].sort();
+    const weekStart = new Date(start.getTime() - start.getUTCDay() * DAY_MS);
+    for (let week = 0; ; week += interval) {
+      for (const weekday of weekdays) {
+        const date = new Date(weekStart.getTime() + (week * 7 + weekday) * DAY_MS);
+        if (date >= start) yield date;
+      }
+    }
+  }
+
+  const weekday = start.getUTCDay();
+  const monthWeek = rule.month_week ?? getMonthWeek(rule.starts_on);
+  for (let offset = 0; ; offset += interval) {
+    const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + offset) / 12);
+    const month = (start.getUTCMonth() + offset) % 12;
+
+    const date = rule.frequency === "monthly_day"
+      // Months without this day (e.g. the 31st) are skipped
+      ? start.getUTCDate() <= daysInMonth(year, month) ? new Date(Date.UTC(year, month, start.getUTCDate())) : null
+      : nthWeekdayOfMonth(year, month, weekday, monthWeek);
+
+    if (date && date >= start) yield date;
+  }
+}
+
+/**
+ * Expands a rule into its occurrence dates, in order. Like iCalendar, the
+ * occurrence count is applied before exception dates are removed.
+ */
+export function getOccurrenceDates(rule: RecurrenceRule) {
+  const limit = Math.min(rule.occurrence_count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const endsOn = rule.ends_on ? parseDate(rule.ends_on) : null;
+  const exceptions = new Set(rule.exception_dates);
+  const dates: string[] = [];
+
+  let generated = 0;
+  for (const date of candidateDates(rule)) {
+    if (generated >= limit || (endsOn && date > endsOn)) break;
+    generated++;
+
+    const dateString = toDateString(date);
+    if (!exceptions.has(dateString)) dates.push(dateString);
+  }
+
+  return dates;
+}
+
+/** Short human description, e.g. "Every 2 weeks on Sunday" or "Monthly on the last Friday". */
+export function describeRecurrence(rule: Pick<RecurrenceRule, "frequency" | "repeat_interval" | "weekdays" | "month_week" | "starts_on">) {
+  const interval = Math.max(rule.repeat_interval, 1);
+
+  if (rule.frequency === "weekly") {
+    const days = (rule.weekdays?.length ? [...rule.weekdays].sort() : [getWeekday(rule.starts_on)])
+      .map((day) => WEEKDAY_NAMES[day])
+      .join(", ");
+    return `${interval === 1 ? "Weekly" : `Every ${interval} weeks`} on ${days}`;
+  }
+
+  const prefix = interval === 1 ? "Monthly" : `Every ${interval} months`;
+  if (rule.frequency === "monthly_day") {
+    return `${prefix} on day ${parseDate(rule.starts_on).getUTCDate()}`;
+  }
+
+  const week = rule.month_week ?? getMonthWeek(rule.starts_on);
+  return `${prefix} on the ${ORDINALS[week]} ${WEEKDAY_NAMES[getWeekday(rule.starts_on)]}`;
+}
+
+/** Editor state for a recurrence rule; numbers stay strings while being typed. */
+export interface Recurrence {
+  frequency: "none" | RecurrenceFrequency;
+  interval: string;
+  weekdays: number[];
+  endType: "count" | "date";
+  occurrenceCount: string;
+  endsOn: string;
+  /** Dates the organizer chose to skip */
+  exceptionDates: string[];
+}
+
+export const emptyRecurrence: Recurrence = {
+  frequency: "none",
+  interval: "1",
+  weekdays: [],
+  endType: "count",
+  occurrenceCount: "8",
+  endsOn: "",
+  exceptionDates: [],
+};
+
+/** Builds the stored rule for a series starting on startsOn, or null when the event doesn't repeat. */
+export function toRecurrenceRule(recurrence: Recurrence, startsOn: string): RecurrenceRule | null {
+  if (recurrence.frequency === "none" || !startsOn) return null;
+
+  return {
+    frequency: recurrence.frequency,
+    repeat_interval: Math.min(Math.max(parseInt(recurrence.interval, 10) || 1, 1), 12),
+    weekdays: recurrence.frequency === "weekly"
+      ? (recurrence.weekdays.length > 0 ? recurrence.weekdays : [getWeekday(startsOn)])
+      : null,
+    month_week: recurrence.frequency === "monthly_weekday" ? getMonthWeek(startsOn) : null,
+    starts_on: startsOn,
+    ends_on: recurrence.endType === "date" ? recurrence.endsOn || null : null,
+    occurrence_count: recurrence.endType === "count" ? parseInt(recurrence.occurrenceCount, 10) || null : null,
+    exception_dates: recurrence.exceptionDates,
+  };
+}
+
+/** Loads a stored rule back into editor state. */
+export function fromRecurrenceRule(rule: RecurrenceRule): Recurrence {
+  return {
+    frequency: rule.frequency,
+    interval: rule.repeat_interval.toString(),
+    weekdays: rule.weekdays || [],
+    endType: rule.ends_on ? "date" : "count",
+    occurrenceCount: rule.occurrence_count?.toString() || "",
+    endsOn: rule.ends_on || "",
+    exceptionDates: rule.exception_dates,
+  };
+}
+
+/**
+ * Collapses the occurrences of each series in an ordered event list down to the
+ * first one, which carries the rest in `series_occurrences`.
+ */
+export function collapseSeries<T extends { id: string; series_id?: string | null }>(events: T[]) {
+  const bySeries = new Map<string, T[]>();
+  const collapsed: (T & { series_occurrences: T[] })[] = [];
+
+  for (const event of events) {
+    if (!event.series_id) {
+      collapsed.push({ ...event, series_occurrences: [] });
+      continue;
+    }
+
+    const occurrences = bySeries.get(event.series_id);
+    if (occurrences) {
+      occurrences.push(event);
+    } else {
+      const first = { ...event, series_occurrences: [event] };
+      bySeries.set(event.series_id, first.series_occurrences);
+      collapsed.push(first);
+    }
+  }
+
+  return collapsed;
+}
@@ -0,0 +1,12 @@
+/** Ticket codes are 24 hex chars: 16 random + an 8 char server signature. */
+export const TICKET_CODE_LENGTH = 24;
+
+/** Strips spaces/dashes and upper-cases a scanned or typed ticket code. */
+export function normalizeTicketCode(code: string) {
+  return code.replace(/[^0-9a-f]/gi, "").toUpperCase();
+}
+
+/** Groups a ticket code into blocks of four for display, e.g. 1A2B-3C4D-... */
+export function formatTicketCode(code: string) {
+  return normalizeTicketCode(code).match(/.{1,4}/g)?.join("-") ?? code;
+}
@@ -0,0 +1,102 @@
+/** Zones offered when picking where an event or class takes place. */
+export const COMMON_TIME_ZONES = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "America/Anchorage",
+  "Pacific/Honolulu",
+  "America/Toronto",
+  "America/Vancouver",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Dubai",
+  "Asia/Karachi",
+  "Asia/Kolkata",
+  "Asia/Kathmandu",
+  "Asia/Dhaka",
+  "Asia/Singapore",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The viewer's own IANA time zone. */
+export function getViewerTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Zones to choose from, always including the viewer's and the current one. */
+export function getTimeZoneOptions(current?: string | null) {
+  const zones = new Set([getViewerTimeZone(), ...COMMON_TIME_ZONES]);
+  if (current) zones.add(current);
+  return [...zones].sort();
+}
+
+/** A YYYY-MM-DD date moved by a number of days. */
+export function addDaysToDate(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+/** Wall-clock date (YYYY-MM-DD) and time (HH:MM) at an instant, in a zone or the viewer's own. */
+export function getZonedDateTime(instant: Date, timeZone?: string | null) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timeZone || undefined,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value;
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    time: `${part("hour")}:${part("minute")}`,
+  };
+}
+
+/** How far ahead of UTC a time zone is at an instant, in milliseconds. */
+function getTimeZoneOffset(instant: Date, timeZone: string) {
+  const { date, time } = getZonedDateTime(instant, timeZone);
+  const minute = Math.floor(instant.getTime() / 60000) * 60000;
+  return Date.parse(`${date}T${time}:00Z`) - minute;
+}
+
+/**
+ * The instant a wall-clock date and time happens in a time zone. Without a
+ * zone the time is read in the viewer's own, as before times carried one.
+ */
+export function zonedTimeToDate(date: string, time: string, timeZone?: string | null) {
+  if (!timeZone) return new Date(`${date}T${time}`);
+
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + (hours * 60 + minutes) * 60000;
+  // The offset at the wall-clock time is right except across a DST change, so check it once more
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/** Short name of a time zone at an instant, e.g. "EDT" or "GMT+5:30". */
+export function formatTimeZoneName(instant: Date, timeZone?: string | null) {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone: timeZone || undefined, timeZoneName: "short" }).formatToParts(instant);
+  return parts.find((p) => p.type === "timeZoneName")?.value || "";
+}
+
+/**
+ * "Sat, Oct 4, 5:00 AM – 7:30 AM GMT+5:30": when something set in another
+ * time zone happens on the viewer's clock, or null when the clocks agree.
+ */
+export function formatViewerTimeRange(start: Date, end: Date | null, timeZone?: string | null) {
+  if (!timeZone) return null;
+
+  const there = getZonedDateTime(start, timeZone);
+  const here = getZonedDateTime(start);
+  if (there.date === here.date && there.time === here.time) return null;
+
+  const startLabel = start.toLocaleString("en-US", { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+  const endLabel = end ? ` – ${end.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}` : "";
+  return `${startLabel}${endLabel} ${formatTimeZoneName(start)}`;
+}
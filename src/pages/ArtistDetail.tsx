@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Music, MapPin, Calendar, ArrowLeft, Edit, Upload, Trash2 } from 'lucide-react';
+import { Music, MapPin, Calendar, ArrowLeft, Edit, Upload, Trash2, Repeat } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -25,6 +25,29 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUserRoles } from '@/hooks/useUserRoles';
 import Nav from '@/components/Nav';
+import SubscribeCalendar from '@/components/SubscribeCalendar';
+import { collapseSeries, describeRecurrence } from '@/lib/recurrence';
+import { formatEventDay } from '@/lib/festival';
+
+const SERIES_SELECT = 'event_series(frequency, repeat_interval, weekdays, month_week, starts_on)';
+
+// A schedule slot the artist performs in
+interface Performance {
+  id: string;
+  event_id: string;
+  day: string | null;
+  time: string;
+  title: string;
+  raag: string | null;
+  taal: string | null;
+  stage: string | null;
+}
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':');
+  const h = parseInt(hours, 10);
+  return `${h % 12 || 12}:${minutes} ${h >= 12 ? 'PM' : 'AM'}`;
+};
 
 export default function ArtistDetail() {
   const { id } = useParams();
@@ -34,6 +57,7 @@ export default function ArtistDetail() {
   const [artist, setArtist] = useState<any>(null);
   const [upcomingEvents, setUpcomingEvents] = useState<any[]>([]);
   const [pastEvents, setPastEvents] = useState<any[]>([]);
+  const [performances, setPerformances] = useState<Record<string, Performance[]>>({});
   const [loading, setLoading] = useState(true);
   const [editOpen, setEditOpen] = useState(false);
   const [editLoading, setEditLoading] = useState(false);
@@ -47,11 +71,7 @@ export default function ArtistDetail() {
     bio: ''
   });
 
-  useEffect(() => {
-    fetchArtistDetails();
-  }, [id]);
-
-  const fetchArtistDetails = async () => {
+  const fetchArtistDetails = useCallback(async () => {
     if (!id) return;
 
     setLoading(true);
@@ -78,14 +98,33 @@ export default function ArtistDetail() {
       });
 
       // Fetch artist's events (supports legacy single-artist + new multi-artist links)
-      const [{ data: legacyEvents, error: legacyEventsError }, { data: linkedRows, error: linkedEventsError }] =
-        await Promise.all([
-          supabase.from('events').select('*').eq('artist_id', id),
-          supabase.from('event_artists').select('event:events(*)').eq('artist_id', id),
-        ]);
+      const [
+        { data: legacyEvents, error: legacyEventsError },
+        { data: linkedRows, error: linkedEventsError },
+        { data: scheduleRows, error: scheduleError },
+      ] = await Promise.all([
+        supabase.from('events').select(`*, ${SERIES_SELECT}`).eq('artist_id', id),
+        supabase.from('event_artists').select(`event:events(*, ${SERIES_SELECT})`).eq('artist_id', id),
+        supabase
+          .from('event_schedule_artists')
+          .select('event_schedule(id, event_id, day, time, title, raag, taal, stage)')
+          .eq('artist_id', id),
+      ]);
 
       if (legacyEventsError) throw legacyEventsError;
       if (linkedEventsError) throw linkedEventsError;
+      if (scheduleError) throw scheduleError;
+
+      // The artist's slots in each event's program, in running order
+      const slotsByEvent: Record<string, Performance[]> = {};
+      (scheduleRows || [])
+        .map((row) => row.event_schedule)
+        .filter((slot): slot is Performance => !!slot)
+        .sort((a, b) => (a.day || '').localeCompare(b.day || '') || a.time.localeCompare(b.time))
+        .forEach((slot) => {
+          slotsByEvent[slot.event_id] = [...(slotsByEvent[slot.event_id] || []), slot];
+        });
+      setPerformances(slotsByEvent);
 
       const linkedEvents = (linkedRows || [])
         .map((row: any) => row.event)
@@ -101,15 +140,20 @@ export default function ArtistDetail() {
       const upcoming = uniqueEvents.filter((e: any) => e.date >= today);
       const past = uniqueEvents.filter((e: any) => e.date < today).reverse();
 
-      setUpcomingEvents(upcoming);
-      setPastEvents(past);
+      // A series shows once, at its next (or most recent) date
+      setUpcomingEvents(collapseSeries(upcoming));
+      setPastEvents(collapseSeries(past));
     } catch (error: any) {
       toast.error('Failed to load artist details');
       console.error(error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [id]);
+
+  useEffect(() => {
+    fetchArtistDetails();
+  }, [fetchArtistDetails]);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -354,9 +398,12 @@ export default function ArtistDetail() {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.2 }}
         >
-          <h2 className="text-3xl font-bold mb-6 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
-            Upcoming Events
-          </h2>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              Upcoming Events
+            </h2>
+            <SubscribeCalendar feed={{ type: 'artist', id: artist.id }} name={`${artist.name} on RaagConnect`} label="Follow in Calendar" />
+          </div>
 
           {upcomingEvents.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -381,6 +428,26 @@ export default function ArtistDetail() {
                         <Calendar className="h-4 w-4" />
                         <span>{new Date(event.date).toLocaleDateString()} at {event.time}</span>
                       </div>
+                      {(performances[event.id] || []).map((slot) => (
+                        <div key={slot.id} className="flex items-start gap-2 text-sm">
+                          <Music className="h-4 w-4 text-primary shrink-0 mt-0.5" />
+                          <span>
+                            Performing {slot.raag ? `Raag ${slot.raag}` : slot.title}
+                            {slot.taal && ` in ${slot.taal}`} at {formatTime(slot.time)}
+                            {event.end_date && slot.day && ` on ${formatEventDay(slot.day)}`}
+                            {slot.stage && ` · ${slot.stage}`}
+                          </span>
+                        </div>
+                      ))}
+                      {event.event_series && (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Repeat className="h-4 w-4" />
+                          <span>
+                            {describeRecurrence(event.event_series)}
+                            {event.series_occurrences.length > 1 && ` · ${event.series_occurrences.length - 1} more ${event.series_occurrences.length === 2 ? 'date' : 'dates'}`}
+                          </span>
+                        </div>
+                      )}
                       <div className="flex items-center gap-2 text-sm text-muted-foreground">
                         <MapPin className="h-4 w-4" />
                         <span>{event.location_name || 'Location TBA'}</span>
@@ -1,12 +1,21 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUserRoles } from '@/hooks/useUserRoles';
 import Nav from '@/components/Nav';
 import AddToCalendar from '@/components/AddToCalendar';
+import SubscribeCalendar from '@/components/SubscribeCalendar';
 import ClassCalendarView, { TimeSlot } from '@/components/ClassCalendarView';
+import { AvailabilityOverride } from '@/components/ClassAvailabilityEditor';
+import { BookingRules } from '@/lib/bookingRules';
 import ClassAnnouncements from '@/components/ClassAnnouncements';
+import ClassBookingManagement from '@/components/ClassBookingManagement';
+import LessonPackages from '@/components/LessonPackages';
+import LessonCreditLedger from '@/components/LessonCreditLedger';
+import ClassTerms from '@/components/ClassTerms';
+import LessonPlanPicker from '@/components/LessonPlanPicker';
+import { DEFAULT_LESSON_PLAN, LessonPlan, invokeBookLessons, lessonPlanRequest } from '@/lib/lessonPlans';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -16,12 +25,14 @@ import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
-import { format, addDays } from 'date-fns';
+import { format } from 'date-fns';
 import {
   ArrowLeft, MapPin, DollarSign, Users, Clock,
   Globe, User as UserIcon, Check, Mail, Pencil, Trash2
 } from 'lucide-react';
 import { Loader2 } from 'lucide-react';
+import { fetchCreditBalances } from '@/lib/lessonCredits';
+import { addDaysToDate, formatTimeZoneName, formatViewerTimeRange, getZonedDateTime, zonedTimeToDate } from '@/lib/timeZones';
 
 interface AvailabilitySlot {
   id: string;
@@ -29,6 +40,7 @@ interface AvailabilitySlot {
   start_time: string;
   end_time: string;
   slot_duration_minutes: number;
+  time_zone: string | null;
 }
 
 const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
@@ -45,35 +57,56 @@ export default function ClassDetail() {
   const { user } = useAuth();
   const { isAdmin } = useUserRoles(user?.id);
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [cls, setCls] = useState<any>(null);
   const [teacherName, setTeacherName] = useState('');
   const [availability, setAvailability] = useState<AvailabilitySlot[]>([]);
   const [existingBookings, setExistingBookings] = useState<any[]>([]);
+  const [bookingRules, setBookingRules] = useState<BookingRules | undefined>();
+  const [overrides, setOverrides] = useState<AvailabilityOverride[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
   const [bookingName, setBookingName] = useState('');
   const [bookingEmail, setBookingEmail] = useState('');
   const [bookingNotes, setBookingNotes] = useState('');
-  const [isRecurring, setIsRecurring] = useState(false);
+  const [lessonPlan, setLessonPlan] = useState<LessonPlan>(DEFAULT_LESSON_PLAN);
+  const [planBookable, setPlanBookable] = useState(true);
+  const [credits, setCredits] = useState(0);
+  const [payWithCredits, setPayWithCredits] = useState(false);
   const [booking, setBooking] = useState(false);
   const [booked, setBooked] = useState(false);
+  const [bookedCount, setBookedCount] = useState(0);
   const [bookedEvent, setBookedEvent] = useState<{ title: string; startDate: Date; endDate: Date; location?: string } | null>(null);
 
-  useEffect(() => {
-    if (id) fetchClass();
-  }, [id]);
+  const fetchCredits = useCallback(async (teacherId: string) => {
+    try {
+      const [balance] = await fetchCreditBalances(user!.id, teacherId);
+      setCredits(balance?.credits ?? 0);
+      setPayWithCredits(!!balance);
+    } catch (err) {
+      console.error('Failed to load lesson credits:', err);
+    }
+  }, [user]);
 
-  const fetchClass = async () => {
+  const fetchClass = useCallback(async () => {
     try {
-      const [{ data: classData, error }, { data: availData }, { data: bookingsData }] = await Promise.all([
-        supabase.from('classes').select('id, user_id, title, description, genre, skill_level, class_type, class_mode, location_name, location_lat, location_lng, price, max_capacity, contact_info, image_url, recurring_schedule, schedule_details, group_schedule_day, group_schedule_time, group_schedule_end_time, created_at, updated_at').eq('id', id!).single(),
+      const [{ data: classData, error }, { data: availData }, { data: bookingsData }, { data: overrideData }] = await Promise.all([
+        supabase.from('classes').select('id, user_id, title, description, genre, skill_level, class_type, class_mode, location_name, location_lat, location_lng, price, max_capacity, contact_info, image_url, recurring_schedule, schedule_details, group_schedule_day, group_schedule_time, group_schedule_end_time, time_zone, min_notice_hours, booking_horizon_days, buffer_minutes, daily_lesson_cap, created_at, updated_at').eq('id', id!).single(),
         supabase.from('class_availability').select('*').eq('class_id', id!).order('day_of_week'),
         supabase.from('class_bookings').select('*').eq('class_id', id!).gte('booking_date', new Date().toISOString().split('T')[0]),
+        supabase.from('class_availability_overrides').select('kind, start_date, end_date, start_time, end_time, slot_duration_minutes, note').eq('class_id', id!).gte('end_date', addDaysToDate(new Date().toISOString().split('T')[0], -1)),
       ]);
       if (error) throw error;
       setCls(classData);
       setAvailability(availData || []);
       setExistingBookings(bookingsData || []);
+      setBookingRules({
+        min_notice_hours: classData.min_notice_hours,
+        booking_horizon_days: classData.booking_horizon_days,
+        buffer_minutes: classData.buffer_minutes,
+        daily_lesson_cap: classData.daily_lesson_cap,
+      });
+      setOverrides((overrideData || []).map(o => ({ ...o, kind: o.kind as AvailabilityOverride['kind'] })));
 
       const { data: profile } = await supabase.from('profiles').select('full_name').eq('user_id', classData.user_id).maybeSingle();
       setTeacherName(profile?.full_name || 'Unknown Teacher');
@@ -82,6 +115,7 @@ export default function ClassDetail() {
         setBookingEmail(user.email || '');
         const { data: myProfile } = await supabase.from('profiles').select('full_name').eq('user_id', user.id).maybeSingle();
         if (myProfile?.full_name) setBookingName(myProfile.full_name);
+        if (user.id !== classData.user_id) await fetchCredits(classData.user_id);
       }
     } catch (err: any) {
       toast.error('Failed to load class');
@@ -89,7 +123,26 @@ export default function ClassDetail() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [id, user, fetchCredits]);
+
+  useEffect(() => {
+    if (id) fetchClass();
+  }, [id, fetchClass]);
+
+  // Returning from Stripe Checkout for a lesson package
+  useEffect(() => {
+    const checkoutStatus = searchParams.get('checkout');
+    if (!checkoutStatus) return;
+
+    if (checkoutStatus === 'success') {
+      toast.success('Payment received! Your lesson credits will appear shortly.');
+    } else if (checkoutStatus === 'cancelled') {
+      toast.info('Checkout cancelled. No credits were bought.');
+    }
+
+    searchParams.delete('checkout');
+    setSearchParams(searchParams, { replace: true });
+  }, [searchParams, setSearchParams]);
 
   const handleBook = async () => {
     if (!user) { toast.error('Please sign in to book'); return; }
@@ -100,60 +153,33 @@ export default function ClassDetail() {
 
     setBooking(true);
     try {
-      const bookings: any[] = [];
-      const dateStr = format(selectedSlot.date, 'yyyy-MM-dd');
-
-      // Create the primary booking
-      bookings.push({
-        class_id: id!,
-        availability_id: selectedSlot.availability_id === 'ical' ? null : selectedSlot.availability_id,
-        user_id: user.id,
-        student_name: bookingName.trim(),
-        student_email: bookingEmail.trim(),
-        booking_date: dateStr,
-        start_time: selectedSlot.start_time,
-        end_time: selectedSlot.end_time,
+      const { bookingIds } = await invokeBookLessons<{ bookingIds: string[] }>({
+        ...lessonPlanRequest(id!, selectedSlot, lessonPlan),
+        studentName: bookingName.trim(),
+        studentEmail: bookingEmail.trim(),
         notes: bookingNotes.trim() || null,
-        is_recurring: isRecurring,
+        useCredits: payWithCredits && credits > 0,
       });
 
-      // If recurring, book the same slot for the next 3 weeks (4 weeks total)
-      if (isRecurring) {
-        for (let w = 1; w <= 3; w++) {
-          const recurDate = addDays(selectedSlot.date, w * 7);
-          bookings.push({
-            class_id: id!,
-            availability_id: selectedSlot.availability_id === 'ical' ? null : selectedSlot.availability_id,
-            user_id: user.id,
-            student_name: bookingName.trim(),
-            student_email: bookingEmail.trim(),
-            booking_date: format(recurDate, 'yyyy-MM-dd'),
-            start_time: selectedSlot.start_time,
-            end_time: selectedSlot.end_time,
-            notes: bookingNotes.trim() || null,
-            is_recurring: true,
-          });
-        }
+      // The teacher confirms the request; one email covers the whole plan
+      try {
+        await supabase.functions.invoke('send-booking-email', {
+          body: { status: 'lesson_requested', classBookingId: bookingIds[0], wholeSeries: true },
+        });
+      } catch (emailError) {
+        console.error('Failed to send email notification:', emailError);
       }
 
-      const { error } = await supabase.from('class_bookings').insert(bookings);
-      if (error) throw error;
-
-      const [sH, sM] = selectedSlot.start_time.split(':').map(Number);
-      const [eH, eM] = selectedSlot.end_time.split(':').map(Number);
-      const startDate = new Date(selectedSlot.date);
-      startDate.setHours(sH, sM, 0);
-      const endDate = new Date(selectedSlot.date);
-      endDate.setHours(eH, eM, 0);
-
       setBookedEvent({
         title: `${cls.title} with ${teacherName}`,
-        startDate,
-        endDate,
+        startDate: selectedSlot.start,
+        endDate: selectedSlot.end,
         location: cls.location_name || undefined,
       });
+      if (payWithCredits && credits > 0) fetchCredits(cls.user_id);
+      setBookedCount(bookingIds.length);
       setBooked(true);
-      toast.success(isRecurring ? 'Booked for 4 weeks!' : 'Session booked successfully!');
+      toast.success(bookingIds.length > 1 ? `Requested ${bookingIds.length} sessions!` : 'Session requested!');
     } catch (err: any) {
       toast.error('Booking failed: ' + err.message);
     } finally {
@@ -189,6 +215,22 @@ export default function ClassDetail() {
   const classMode = (cls as any).class_mode || '1-on-1';
   const isGroupClass = classMode === 'group';
 
+  // The next group session, so the weekly schedule can be shown on the viewer's clock
+  const getNextGroupSession = () => {
+    const today = getZonedDateTime(new Date(), cls.time_zone).date;
+    const daysAhead = (cls.group_schedule_day - new Date(`${today}T00:00:00Z`).getUTCDay() + 7) % 7;
+    const date = addDaysToDate(today, daysAhead);
+    const start = zonedTimeToDate(date, cls.group_schedule_time, cls.time_zone);
+    const end = cls.group_schedule_end_time ? zonedTimeToDate(date, cls.group_schedule_end_time, cls.time_zone) : null;
+    return { start, end };
+  };
+  const groupSession = cls.group_schedule_day != null && cls.group_schedule_time ? getNextGroupSession() : null;
+  const groupViewerTimes = groupSession && formatViewerTimeRange(groupSession.start, groupSession.end, cls.time_zone);
+  // The teacher's own clock for the picked slot, when it differs from the viewer's
+  const slotTeacherTimes = selectedSlot && formatViewerTimeRange(selectedSlot.start, selectedSlot.end, cls.time_zone)
+    ? `${formatTime12h(selectedSlot.start_time)} – ${formatTime12h(selectedSlot.end_time)} ${formatTimeZoneName(selectedSlot.start, cls.time_zone)}`
+    : null;
+
   const handleDelete = async () => {
     try {
       await supabase.from('class_availability').delete().eq('class_id', id!);
@@ -277,20 +319,25 @@ export default function ClassDetail() {
                 <Check className="h-7 w-7 text-primary" />
               </div>
               <div>
-                <p className="text-xl font-semibold text-foreground">You're booked!</p>
+                <p className="text-xl font-semibold text-foreground">Request sent!</p>
                 <p className="text-sm text-muted-foreground mt-2">
                   {format(bookedEvent.startDate, 'EEEE, MMMM d')} at {format(bookedEvent.startDate, 'h:mm a')}
                 </p>
                 <p className="text-sm text-muted-foreground">
                   {cls.title} with {teacherName}
                 </p>
-                {isRecurring && (
-                  <p className="text-xs text-primary mt-1">Recurring weekly for 4 weeks</p>
+                {bookedCount > 1 && (
+                  <p className="text-xs text-primary mt-1">
+                    {bookedCount} sessions, {lessonPlan.repeat === 'biweekly' ? 'every 2 weeks' : 'weekly'}
+                  </p>
                 )}
+                <p className="text-xs text-muted-foreground mt-2">
+                  {teacherName} will confirm it by email. Your lessons are listed in Settings.
+                </p>
               </div>
               <div className="flex flex-col gap-2">
                 <AddToCalendar event={bookedEvent} variant="default" size="default" className="w-full" />
-                <Button variant="ghost" size="sm" onClick={() => { setBooked(false); setSelectedSlot(null); setIsRecurring(false); fetchClass(); }}>
+                <Button variant="ghost" size="sm" onClick={() => { setBooked(false); setSelectedSlot(null); setLessonPlan(DEFAULT_LESSON_PLAN); fetchClass(); }}>
                   Book another session
                 </Button>
               </div>
@@ -299,10 +346,15 @@ export default function ClassDetail() {
         ) : isGroupClass ? (
           /* Group Class View */
           <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-            <div className="lg:col-span-3">
+            <div className="lg:col-span-3 space-y-5">
               <Card>
                 <CardContent className="p-6">
-                  <h3 className="text-lg font-semibold text-foreground mb-4">Class Schedule</h3>
+                  <div className="flex items-center justify-between gap-2 mb-4">
+                    <h3 className="text-lg font-semibold text-foreground">Class Schedule</h3>
+                    {groupSession && (
+                      <SubscribeCalendar feed={{ type: 'teacher', id: cls.user_id }} name={`${teacherName}'s classes on RaagConnect`} />
+                    )}
+                  </div>
                   {(cls as any).group_schedule_day != null && (cls as any).group_schedule_time ? (
                     <div className="space-y-3">
                       <div className="flex items-center gap-3 p-4 rounded-lg bg-primary/5 border border-primary/10">
@@ -314,7 +366,11 @@ export default function ClassDetail() {
                           <p className="text-sm text-muted-foreground">
                             {formatTime12h((cls as any).group_schedule_time.slice(0, 5))}
                             {(cls as any).group_schedule_end_time && ` – ${formatTime12h((cls as any).group_schedule_end_time.slice(0, 5))}`}
+                            {cls.time_zone && ` ${formatTimeZoneName(groupSession.start, cls.time_zone)}`}
                           </p>
+                          {groupViewerTimes && (
+                            <p className="text-xs text-muted-foreground">Your time, next class: {groupViewerTimes}</p>
+                          )}
                         </div>
                       </div>
                       {cls.recurring_schedule && (
@@ -340,11 +396,18 @@ export default function ClassDetail() {
                   )}
                   {isOwner && (
                     <p className="text-xs text-muted-foreground text-center mt-4 pt-3 border-t border-border">
-                      This is your group class — students see the schedule and contact you to join.
+                      This is your group class — add a term so students can enroll, then take attendance from its roster.
                     </p>
                   )}
                 </CardContent>
               </Card>
+              <ClassTerms
+                classId={id!}
+                maxCapacity={cls.max_capacity}
+                scheduleDay={cls.group_schedule_day}
+                timeZone={cls.time_zone}
+                canManage={canManage}
+              />
             </div>
             <div className="lg:col-span-2 space-y-5">
               {/* Details */}
@@ -384,6 +447,9 @@ export default function ClassDetail() {
                         onSelectSlot={isOwner ? () => {} : setSelectedSlot}
                         selectedSlot={isOwner ? null : selectedSlot}
                         readOnly={isOwner}
+                        timeZone={cls.time_zone}
+                        rules={bookingRules}
+                        overrides={overrides}
                       />
                       {isOwner && (
                         <p className="text-xs text-muted-foreground text-center mt-4 pt-3 border-t border-border">
@@ -423,11 +489,14 @@ export default function ClassDetail() {
                       <>
                         <div>
                           <p className="text-sm font-semibold text-foreground">
-                            {format(selectedSlot.date, 'EEEE, MMMM d')}
+                            {format(selectedSlot.start, 'EEEE, MMMM d')}
                           </p>
                           <p className="text-sm text-muted-foreground">
-                            {selectedSlot.start_time} – {selectedSlot.end_time}
+                            {format(selectedSlot.start, 'h:mm a')} – {format(selectedSlot.end, 'h:mm a')}
                           </p>
+                          {slotTeacherTimes && (
+                            <p className="text-xs text-muted-foreground">{slotTeacherTimes} for your teacher</p>
+                          )}
                         </div>
                         <div className="space-y-3">
                           <div className="space-y-1.5">
@@ -442,22 +511,27 @@ export default function ClassDetail() {
                             <Label className="text-xs font-medium">Notes <span className="text-muted-foreground font-normal">(optional)</span></Label>
                             <Textarea value={bookingNotes} onChange={e => setBookingNotes(e.target.value)} placeholder="Anything the teacher should know?" rows={2} className="text-sm resize-none" />
                           </div>
-                          <div className="flex items-center gap-2 pt-1">
-                            <Checkbox
-                              id="recurring"
-                              checked={isRecurring}
-                              onCheckedChange={(checked) => setIsRecurring(checked === true)}
-                            />
-                            <label htmlFor="recurring" className="text-sm text-foreground cursor-pointer">
-                              Book weekly (same time, 4 weeks)
-                            </label>
-                          </div>
+                          <LessonPlanPicker
+                            classId={id!}
+                            slot={selectedSlot}
+                            plan={lessonPlan}
+                            onChange={setLessonPlan}
+                            onCheckedChange={setPlanBookable}
+                          />
+                          {credits > 0 && (
+                            <div className="flex items-center gap-2">
+                              <Checkbox id="pay-with-credits" checked={payWithCredits} onCheckedChange={(checked) => setPayWithCredits(checked === true)} />
+                              <label htmlFor="pay-with-credits" className="text-sm text-foreground cursor-pointer">
+                                Use lesson credits ({credits} left)
+                              </label>
+                            </div>
+                          )}
                         </div>
-                        <Button className="w-full" onClick={handleBook} disabled={booking}>
+                        <Button className="w-full" onClick={handleBook} disabled={booking || !planBookable}>
                           {booking ? (
                             <><Loader2 className="h-4 w-4 mr-2 animate-spin" /> Booking…</>
-                          ) : isRecurring ? (
-                            'Book 4 Sessions'
+                          ) : lessonPlan.repeat !== 'none' ? (
+                            'Request Sessions'
                           ) : (
                             'Confirm Booking'
                           )}
@@ -468,6 +542,12 @@ export default function ClassDetail() {
                 </Card>
               )}
 
+              {canManage && <ClassBookingManagement classId={id!} timeZone={cls.time_zone} isOnline={cls.class_type === 'online'} />}
+
+              <LessonPackages classId={id!} teacherId={cls.user_id} isOwner={canManage} />
+
+              {canManage && <LessonCreditLedger teacherId={cls.user_id} />}
+
               {/* Details */}
               <Card>
                 <CardContent className="p-5 space-y-3">
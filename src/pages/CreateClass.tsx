@@ -4,7 +4,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUserRoles } from '@/hooks/useUserRoles';
 import Nav from '@/components/Nav';
-import ClassAvailabilityEditor, { AvailabilitySlot } from '@/components/ClassAvailabilityEditor';
+import ClassAvailabilityEditor, { AvailabilityOverride, AvailabilitySlot } from '@/components/ClassAvailabilityEditor';
+import { BookingRules, DEFAULT_BOOKING_RULES } from '@/lib/bookingRules';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,6 +16,9 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { toast } from 'sonner';
 import { Loader2, GraduationCap, ArrowLeft } from 'lucide-react';
 import LocationAutocomplete from '@/components/LocationAutocomplete';
+import TimeZoneSelect from '@/components/TimeZoneSelect';
+import CalDavConnection from '@/components/CalDavConnection';
+import { getViewerTimeZone, getZonedDateTime } from '@/lib/timeZones';
 
 const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
 
@@ -56,11 +60,15 @@ export default function CreateClass() {
   const [imageUrl, setImageUrl] = useState('');
   const [uploading, setUploading] = useState(false);
   const [availabilitySlots, setAvailabilitySlots] = useState<AvailabilitySlot[]>([]);
+  const [bookingRules, setBookingRules] = useState<BookingRules>(DEFAULT_BOOKING_RULES);
+  const [overrides, setOverrides] = useState<AvailabilityOverride[]>([]);
   const [icalUrl, setIcalUrl] = useState('');
   // Group class schedule fields
   const [groupDay, setGroupDay] = useState('');
   const [groupTime, setGroupTime] = useState('');
   const [groupEndTime, setGroupEndTime] = useState('');
+  // Zone the schedule and availability times are in
+  const [timeZone, setTimeZone] = useState(getViewerTimeZone);
 
   // Load profiles for admin user picker
   useEffect(() => {
@@ -100,6 +108,13 @@ export default function CreateClass() {
         setGroupDay((cls as any).group_schedule_day?.toString() || '');
         setGroupTime((cls as any).group_schedule_time?.slice(0, 5) || '');
         setGroupEndTime((cls as any).group_schedule_end_time?.slice(0, 5) || '');
+        setTimeZone(cls.time_zone || getViewerTimeZone());
+        setBookingRules({
+          min_notice_hours: cls.min_notice_hours,
+          booking_horizon_days: cls.booking_horizon_days,
+          buffer_minutes: cls.buffer_minutes,
+          daily_lesson_cap: cls.daily_lesson_cap,
+        });
 
         // Load availability slots
         const { data: avail } = await supabase.from('class_availability').select('*').eq('class_id', editId);
@@ -111,6 +126,25 @@ export default function CreateClass() {
             slot_duration_minutes: a.slot_duration_minutes,
           })));
         }
+
+        // Past date changes no longer matter, so only upcoming ones are edited
+        const { data: dateChanges } = await supabase
+          .from('class_availability_overrides')
+          .select('*')
+          .eq('class_id', editId)
+          .gte('end_date', getZonedDateTime(new Date(), cls.time_zone).date)
+          .order('start_date');
+        if (dateChanges?.length) {
+          setOverrides(dateChanges.map(o => ({
+            kind: o.kind as AvailabilityOverride['kind'],
+            start_date: o.start_date,
+            end_date: o.end_date,
+            start_time: o.start_time?.slice(0, 5) ?? null,
+            end_time: o.end_time?.slice(0, 5) ?? null,
+            slot_duration_minutes: o.slot_duration_minutes,
+            note: o.note,
+          })));
+        }
       } catch (err: any) {
         toast.error('Failed to load class');
         navigate('/classes');
@@ -119,7 +153,7 @@ export default function CreateClass() {
       }
     };
     loadClass();
-  }, [editId, user]);
+  }, [editId, user, isAdmin, navigate]);
 
   if (!user || !canCreate) {
     return (
@@ -158,6 +192,17 @@ export default function CreateClass() {
       toast.error('Title and genre are required');
       return;
     }
+    if (classMode === '1-on-1' && overrides.some(o =>
+      (o.start_time === null) !== (o.end_time === null)
+      || (o.start_time !== null && o.end_time !== null && o.end_time <= o.start_time)
+      || (o.kind === 'available' && o.start_time === null))) {
+      toast.error('Each date change needs an end time after its start time');
+      return;
+    }
+    if (bookingRules.daily_lesson_cap !== null && (bookingRules.daily_lesson_cap < 1 || bookingRules.daily_lesson_cap > 48)) {
+      toast.error('Lessons per day must be between 1 and 48');
+      return;
+    }
     setLoading(true);
     try {
       const effectiveUserId = isAdmin && targetUserId ? targetUserId : user.id;
@@ -182,6 +227,8 @@ export default function CreateClass() {
         group_schedule_day: classMode === 'group' && groupDay ? parseInt(groupDay) : null,
         group_schedule_time: classMode === 'group' && groupTime ? groupTime : null,
         group_schedule_end_time: classMode === 'group' && groupEndTime ? groupEndTime : null,
+        time_zone: timeZone || null,
+        ...bookingRules,
       };
 
       let classId: string;
@@ -193,6 +240,7 @@ export default function CreateClass() {
 
         // Delete old availability and re-insert
         await supabase.from('class_availability').delete().eq('class_id', editId);
+        await supabase.from('class_availability_overrides').delete().eq('class_id', editId);
       } else {
         const { data: classData, error } = await supabase.from('classes').insert(classPayload).select('id').single();
         if (error) throw error;
@@ -209,11 +257,28 @@ export default function CreateClass() {
             start_time: slot.start_time,
             end_time: slot.end_time,
             slot_duration_minutes: slot.slot_duration_minutes,
+            time_zone: timeZone || null,
           }))
         );
         if (availError) console.error('Failed to save availability:', availError);
       }
 
+      if (overrides.length > 0 && classMode === '1-on-1') {
+        const { error: overrideError } = await supabase.from('class_availability_overrides').insert(
+          overrides.map(o => ({
+            class_id: classId,
+            kind: o.kind,
+            start_date: o.start_date,
+            end_date: o.end_date,
+            start_time: o.start_time,
+            end_time: o.end_time,
+            slot_duration_minutes: o.kind === 'available' ? o.slot_duration_minutes : null,
+            note: o.note?.trim() || null,
+          }))
+        );
+        if (overrideError) console.error('Failed to save date changes:', overrideError);
+      }
+
       toast.success(editId ? 'Class updated!' : 'Class listed successfully!');
       navigate(editId ? `/classes/${editId}` : '/classes');
     } catch (err: any) {
@@ -368,6 +433,12 @@ export default function CreateClass() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="timeZone">Time Zone</Label>
+                <TimeZoneSelect id="timeZone" value={timeZone} onChange={setTimeZone} />
+                <p className="text-xs text-muted-foreground">Your schedule and availability are in this zone. Students elsewhere see times in their own.</p>
+              </div>
+
               {/* Group class schedule */}
               {classMode === 'group' && (
                 <div className="space-y-3 p-4 rounded-lg border border-border bg-muted/30">
@@ -405,7 +476,15 @@ export default function CreateClass() {
                     <Input id="schedule" value={recurringSchedule} onChange={e => setRecurringSchedule(e.target.value)} placeholder="When do classes happen?" />
                   </div>
 
-                  <ClassAvailabilityEditor slots={availabilitySlots} onChange={setAvailabilitySlots} />
+                  <ClassAvailabilityEditor
+                    slots={availabilitySlots}
+                    onChange={setAvailabilitySlots}
+                    rules={bookingRules}
+                    onRulesChange={setBookingRules}
+                    overrides={overrides}
+                    onOverridesChange={setOverrides}
+                    timeZone={timeZone}
+                  />
 
                   <div className="space-y-2">
                     <Label htmlFor="ical">Google Calendar Link (optional)</Label>
@@ -425,6 +504,8 @@ export default function CreateClass() {
                       Use the "Secret address in iCal format" from your Google Calendar settings for secure access. Your calendar URL is stored securely and never shared publicly.
                     </p>
                   </div>
+
+                  {user && <CalDavConnection userId={user.id} />}
                 </>
               )}
 
@@ -1,9 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Upload, UserPlus, Users, X, Sparkles, AlertTriangle } from 'lucide-react';
 import { z } from 'zod';
 import EventScheduleEditor from '@/components/EventScheduleEditor';
 import PriceTiersEditor, { PriceTier } from '@/components/PriceTiersEditor';
+import PromoCodesEditor, { PromoCode } from '@/components/PromoCodesEditor';
+import RecurrenceEditor from '@/components/RecurrenceEditor';
+import TimeZoneSelect from '@/components/TimeZoneSelect';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -12,19 +15,34 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUserRoles } from '@/hooks/useUserRoles';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import type { TablesInsert } from '@/integrations/supabase/types';
 import Nav from '@/components/Nav';
 import LocationAutocomplete from '@/components/LocationAutocomplete';
+import {
+  describeRecurrence,
+  emptyRecurrence,
+  fromRecurrenceRule,
+  getOccurrenceDates,
+  toRecurrenceRule,
+  type Recurrence,
+  type RecurrenceRule,
+} from '@/lib/recurrence';
+import { MAX_EVENT_DAYS, getEventDays } from '@/lib/festival';
+import { getViewerTimeZone } from '@/lib/timeZones';
 
 // Validation schema for event form
 const eventSchema = z.object({
   title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be less than 200 characters'),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format'),
   time: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time format'),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid end time format').optional(),
   price: z.string().optional().refine(
     (v) => !v || (!isNaN(parseFloat(v)) && parseFloat(v) >= 0 && parseFloat(v) <= 10000),
     'Price must be between 0 and 10,000'
@@ -36,6 +54,10 @@ const eventSchema = z.object({
   paypal: z.string().max(50, 'PayPal handle must be less than 50 characters').optional(),
 });
 
+const promoCodeRegex = /^[A-Z0-9_-]{3,30}$/;
+
+type EventSeries = RecurrenceRule & { id: string };
+
 type Artist = {
   id: string;
   name: string;
@@ -57,22 +79,34 @@ export default function CreateEvent() {
   const [editingEvent, setEditingEvent] = useState<any>(null);
   const [schedule, setSchedule] = useState<{ id: string; time: string; title: string; description: string }[]>([]);
   const [priceTiers, setPriceTiers] = useState<PriceTier[]>([]);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  // Codes already saved for the event being edited, so removed ones can be deleted
+  const [savedPromoCodeIds, setSavedPromoCodeIds] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<Recurrence>(emptyRecurrence);
+  // Series the event being edited belongs to, and whether edits apply to all of it
+  const [series, setSeries] = useState<EventSeries | null>(null);
+  const [editScope, setEditScope] = useState<'occurrence' | 'series'>('occurrence');
   const [analyzingFlyer, setAnalyzingFlyer] = useState(false);
   const [aiExtracted, setAiExtracted] = useState(false);
   
   const [formData, setFormData] = useState({
     title: '',
     date: '',
+    endDate: '',
     time: '',
+    endTime: '',
+    timeZone: getViewerTimeZone(),
     locationName: '',
     locationLat: null as number | null,
     locationLng: null as number | null,
     price: '',
     ticketCapacity: '',
+    cancellationDeadlineHours: '',
     venmo: '',
     cashapp: '',
     zelle: '',
     paypal: '',
+    useStripeCheckout: false,
     notes: '',
     confirmationType: 'online' as 'online' | 'at_the_door'
   });
@@ -93,40 +127,41 @@ export default function CreateEvent() {
     }
   }, []);
 
-  useEffect(() => {
-    if (!user || !session) {
-      toast.error('Please sign in to create an event');
-      navigate('/login');
-      return;
-    }
-    
-    if (rolesLoading) {
-      return;
-    }
-    
-    if (!canCreateEvents) {
-      toast.error('You need artist or organizer role to create events');
-      navigate('/');
+  const fetchPromoCodes = useCallback(async (eventId: string) => {
+    const [{ data: codes, error }, { data: redeemedOrders }] = await Promise.all([
+      supabase
+        .from('event_promo_codes')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('created_at'),
+      supabase
+        .from('orders')
+        .select('promo_code_id')
+        .eq('event_id', eventId)
+        .not('promo_code_id', 'is', null)
+        .not('status', 'in', '(cancelled,rejected)'),
+    ]);
+
+    if (error) {
+      console.error('Error fetching promo codes:', error);
       return;
     }
 
-    if (editId) {
-      fetchEventForEdit(editId);
-    }
-  }, [user, session, canCreateEvents, rolesLoading, editId]);
-
-  const fetchArtistsByIds = async (artistIds: string[]) => {
-    const { data, error } = await supabase
-      .from('artists')
-      .select('id, name, genre, image_url')
-      .in('id', artistIds);
-    
-    if (!error && data) {
-      setSelectedArtists(data);
-    }
-  };
+    setPromoCodes((codes || []).map(code => ({
+      id: code.id,
+      code: code.code,
+      discountType: code.discount_type === 'fixed' ? 'fixed' : 'percent',
+      discountValue: code.discount_value.toString(),
+      maxRedemptions: code.max_redemptions?.toString() || '',
+      validUntil: code.valid_until || '',
+      tierIds: code.price_tier_ids || [],
+      isActive: code.is_active,
+      redemptions: redeemedOrders?.filter(o => o.promo_code_id === code.id).length || 0,
+    })));
+    setSavedPromoCodeIds((codes || []).map(code => code.id));
+  }, []);
 
-  const fetchEventForEdit = async (id: string) => {
+  const fetchEventForEdit = useCallback(async (id: string) => {
     // Fetch event data
     const { data: eventData, error: eventError } = await supabase
       .from('events')
@@ -152,16 +187,21 @@ export default function CreateEvent() {
     setFormData({
       title: eventData.title,
       date: eventData.date,
+      endDate: eventData.end_date || '',
       time: eventData.time,
+      endTime: eventData.end_time?.slice(0, 5) || '',
+      timeZone: eventData.time_zone || getViewerTimeZone(),
       locationName: eventData.location_name || '',
       locationLat: eventData.location_lat,
       locationLng: eventData.location_lng,
       price: eventData.price?.toString() || '',
       ticketCapacity: eventData.ticket_capacity?.toString() || '',
+      cancellationDeadlineHours: eventData.cancellation_deadline_hours?.toString() ?? '',
       venmo: paymentInfo.venmo || '',
       cashapp: paymentInfo.cashapp || '',
       zelle: paymentInfo.zelle || '',
       paypal: paymentInfo.paypal || '',
+      useStripeCheckout: !!eventData.use_stripe_checkout,
       notes: eventData.notes || '',
       confirmationType: (eventData.confirmation_type === 'at_the_door' ? 'at_the_door' : 'online') as 'online' | 'at_the_door'
     });
@@ -171,6 +211,24 @@ export default function CreateEvent() {
       setPriceTiers(eventData.price_tiers as unknown as PriceTier[]);
     }
 
+    await fetchPromoCodes(id);
+
+    if (eventData.series_id) {
+      const { data: seriesData, error: seriesError } = await supabase
+        .from('event_series')
+        .select('*')
+        .eq('id', eventData.series_id)
+        .single();
+
+      if (seriesError) {
+        console.error('Error fetching event series:', seriesError);
+      } else {
+        const rule = { ...seriesData, frequency: seriesData.frequency as RecurrenceRule['frequency'] };
+        setSeries(rule);
+        setRecurrence(fromRecurrenceRule(rule));
+      }
+    }
+
     // Set selected artists from junction table
     if (eventArtists && eventArtists.length > 0) {
       const artists = eventArtists
@@ -189,6 +247,181 @@ export default function CreateEvent() {
         setSelectedArtists([legacyArtist]);
       }
     }
+  }, [navigate, fetchPromoCodes]);
+
+  useEffect(() => {
+    if (!user || !session) {
+      toast.error('Please sign in to create an event');
+      navigate('/login');
+      return;
+    }
+    
+    if (rolesLoading) {
+      return;
+    }
+    
+    if (!canCreateEvents) {
+      toast.error('You need artist or organizer role to create events');
+      navigate('/');
+      return;
+    }
+
+    if (editId) {
+      fetchEventForEdit(editId);
+    }
+  }, [user, session, canCreateEvents, rolesLoading, editId, navigate, fetchEventForEdit]);
+
+  const fetchArtistsByIds = async (artistIds: string[]) => {
+    const { data, error } = await supabase
+      .from('artists')
+      .select('id, name, genre, image_url')
+      .in('id', artistIds);
+    
+    if (!error && data) {
+      setSelectedArtists(data);
+    }
+  };
+
+  const validatePromoCodes = () => {
+    const seen = new Set<string>();
+    for (const promoCode of promoCodes) {
+      const value = parseFloat(promoCode.discountValue);
+      if (!promoCodeRegex.test(promoCode.code)) {
+        return 'Promo codes must be 3-30 letters, numbers, dashes or underscores';
+      }
+      if (seen.has(promoCode.code)) {
+        return `Promo code ${promoCode.code} is listed twice`;
+      }
+      if (isNaN(value) || value <= 0 || (promoCode.discountType === 'percent' && value > 100)) {
+        return `Enter a valid discount for ${promoCode.code}`;
+      }
+      if (promoCode.maxRedemptions && !(parseInt(promoCode.maxRedemptions, 10) > 0)) {
+        return `Max uses for ${promoCode.code} must be at least 1`;
+      }
+      seen.add(promoCode.code);
+    }
+    return null;
+  };
+
+  const toPromoCodeRow = (promoCode: PromoCode, eventId: string) => {
+    const promoTierIds = promoCode.tierIds.filter(id => priceTiers.some(t => t.id === id));
+    return {
+      event_id: eventId,
+      code: promoCode.code,
+      discount_type: promoCode.discountType,
+      discount_value: parseFloat(promoCode.discountValue),
+      max_redemptions: promoCode.maxRedemptions ? parseInt(promoCode.maxRedemptions, 10) : null,
+      valid_until: promoCode.validUntil || null,
+      price_tier_ids: promoTierIds.length > 0 ? promoTierIds : null,
+      is_active: promoCode.isActive,
+    };
+  };
+
+  // Sync the promo code rows with the editor
+  const savePromoCodes = async (eventId: string) => {
+    const removedIds = savedPromoCodeIds.filter(id => !promoCodes.some(p => p.id === id));
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase
+        .from('event_promo_codes')
+        .delete()
+        .in('id', removedIds);
+      if (error) throw error;
+    }
+
+    if (promoCodes.length > 0) {
+      const { error } = await supabase
+        .from('event_promo_codes')
+        .upsert(promoCodes.map(promoCode => ({ id: promoCode.id, ...toPromoCodeRow(promoCode, eventId) })));
+      if (error) throw error;
+    }
+  };
+
+  // New occurrences of a series get their own copy of the codes
+  const copyPromoCodes = async (eventIds: string[]) => {
+    if (promoCodes.length === 0 || eventIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('event_promo_codes')
+      .insert(eventIds.flatMap(eventId => promoCodes.map(promoCode => toPromoCodeRow(promoCode, eventId))));
+    if (error) throw error;
+  };
+
+  // Creates or updates a series and brings its upcoming occurrences in line with
+  // the rule: new dates get events, dropped dates without orders are deleted, and
+  // the rest get the shared details. Past occurrences are left alone.
+  const saveSeries = async (eventData: Omit<TablesInsert<'events'>, 'user_id'>, rule: RecurrenceRule, userId: string) => {
+    const today = new Date().toISOString().split('T')[0];
+    const dates = getOccurrenceDates(rule);
+
+    let seriesId = series?.id;
+    if (!seriesId) {
+      const { data: newSeries, error } = await supabase
+        .from('event_series')
+        .insert({ ...rule, user_id: userId })
+        .select('id')
+        .single();
+      if (error) throw error;
+      seriesId = newSeries.id;
+    }
+
+    const { data: occurrences, error: occurrencesError } = await supabase
+      .from('events')
+      .select('id, series_date')
+      .eq('series_id', seriesId);
+    if (occurrencesError) throw occurrencesError;
+
+    const upcoming = (occurrences || []).filter(o => o.series_date! >= today);
+    const dropped = upcoming.filter(o => !dates.includes(o.series_date!));
+    let keptIds = upcoming.filter(o => dates.includes(o.series_date!)).map(o => o.id);
+
+    if (dropped.length > 0) {
+      // Never delete a date people have already booked
+      const { data: bookedOrders, error: ordersError } = await supabase
+        .from('orders')
+        .select('event_id')
+        .in('event_id', dropped.map(o => o.id));
+      if (ordersError) throw ordersError;
+
+      const bookedIds = new Set((bookedOrders || []).map(o => o.event_id));
+      const deletableIds = dropped.filter(o => !bookedIds.has(o.id)).map(o => o.id);
+      keptIds = [...keptIds, ...dropped.filter(o => bookedIds.has(o.id)).map(o => o.id)];
+
+      if (deletableIds.length > 0) {
+        const { error } = await supabase.from('events').delete().in('id', deletableIds);
+        if (error) throw error;
+      }
+      if (bookedIds.size > 0) {
+        toast.warning(`${bookedIds.size} ${bookedIds.size === 1 ? 'date has' : 'dates have'} bookings, so ${bookedIds.size === 1 ? 'it was' : 'they were'} kept in the series`);
+      }
+    }
+
+    // Saved after deleting, since deleting an occurrence records its date as skipped
+    if (series) {
+      const { error } = await supabase.from('event_series').update(rule).eq('id', seriesId);
+      if (error) throw error;
+    }
+
+    if (keptIds.length > 0) {
+      // Each occurrence keeps its own date
+      const { date: _date, ...sharedData } = eventData;
+      const { error } = await supabase.from('events').update(sharedData).in('id', keptIds);
+      if (error) throw error;
+    }
+
+    const existingDates = new Set((occurrences || []).map(o => o.series_date));
+    const newDates = dates.filter(date => !existingDates.has(date) && (!series || date >= today));
+    let newIds: string[] = [];
+    if (newDates.length > 0) {
+      const { data: newEvents, error } = await supabase
+        .from('events')
+        .insert(newDates.map(date => ({ ...eventData, date, series_id: seriesId, series_date: date, user_id: userId })))
+        .select('id');
+      if (error) throw error;
+      newIds = (newEvents || []).map(e => e.id);
+    }
+
+    return { keptIds, newIds };
   };
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -247,7 +480,9 @@ export default function CreateEvent() {
           ...prev,
           title: extracted.title || prev.title,
           date: extracted.date || prev.date,
+          endDate: extracted.end_date || prev.endDate,
           time: extracted.time || prev.time,
+          endTime: extracted.end_time || prev.endTime,
           locationName: extracted.location || prev.locationName,
           price: extracted.price || prev.price,
           notes: extracted.notes || prev.notes
@@ -304,6 +539,10 @@ export default function CreateEvent() {
     setSelectedArtists(prev => prev.filter(a => a.id !== artistId));
   };
 
+  // Every day of the event; more than one makes it a multi-day festival
+  const eventDays = getEventDays(formData.date, formData.endDate);
+  const isMultiDay = eventDays.length > 1;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -317,6 +556,7 @@ export default function CreateEvent() {
       title: formData.title,
       date: formData.date,
       time: formData.time,
+      endTime: formData.endTime || undefined,
       price: formData.price || undefined,
       notes: formData.notes || undefined,
       venmo: formData.venmo || undefined,
@@ -331,11 +571,53 @@ export default function CreateEvent() {
       return;
     }
 
+    if (formData.endDate && formData.endDate < formData.date) {
+      toast.error('The last day must be on or after the first day');
+      return;
+    }
+
+    if (eventDays.length > 1 && formData.endDate !== eventDays[eventDays.length - 1]) {
+      toast.error(`Events can last up to ${MAX_EVENT_DAYS} days`);
+      return;
+    }
+
     if (formData.locationName && !formData.locationLat) {
       toast.error('Please select a location from the suggestions');
       return;
     }
 
+    const promoCodeError = validatePromoCodes();
+    if (promoCodeError) {
+      toast.error(promoCodeError);
+      return;
+    }
+
+    // New events and whole-series edits go through the recurrence rule
+    const isSeriesEdit = !!series && editScope === 'series';
+    const rule = editingEvent && !isSeriesEdit
+      ? null
+      : toRecurrenceRule(recurrence, series?.starts_on ?? formData.date);
+
+    if (isSeriesEdit && !rule) {
+      toast.error('Choose how the series repeats');
+      return;
+    }
+
+    if (rule) {
+      if (isMultiDay) {
+        toast.error('Multi-day events can\'t repeat. Remove the last day or turn off repeating.');
+        return;
+      }
+      if (!rule.ends_on && !rule.occurrence_count) {
+        toast.error(recurrence.endType === 'date' ? 'Choose when the series ends' : 'Enter how many times the event repeats');
+        return;
+      }
+      if (getOccurrenceDates(rule).length === 0) {
+        toast.error('The series has no dates. Check the schedule and skipped dates.');
+        return;
+      }
+    }
+
     setLoading(true);
 
     try {
@@ -387,36 +669,49 @@ export default function CreateEvent() {
         title: formData.title,
         artist_id: selectedArtists.length > 0 ? selectedArtists[0].id : null, // Keep for backward compatibility
         date: formData.date,
+        end_date: isMultiDay ? formData.endDate : null,
         time: formData.time,
+        end_time: formData.endTime || null,
+        time_zone: formData.timeZone || null,
         location_name: formData.locationName || null,
         location_lat: formData.locationLat,
         location_lng: formData.locationLng,
         price: formData.price ? parseFloat(formData.price) : null,
         ticket_capacity: formData.ticketCapacity ? parseInt(formData.ticketCapacity, 10) : null,
-        price_tiers: priceTiers.length > 0 ? JSON.parse(JSON.stringify(priceTiers)) : null,
+        cancellation_deadline_hours: formData.cancellationDeadlineHours ? parseInt(formData.cancellationDeadlineHours, 10) : null,
+        // Day passes for days the event no longer runs on become full passes
+        price_tiers: priceTiers.length > 0
+          ? JSON.parse(JSON.stringify(priceTiers.map(({ day, ...tier }) => (day && isMultiDay && eventDays.includes(day) ? { ...tier, day } : tier))))
+          : null,
         payment_link: paymentInfo,
         image_url: imageUrl,
         flyer_url: flyerUrl,
         notes: formData.notes || null,
-        confirmation_type: formData.price ? formData.confirmationType : null
+        confirmation_type: formData.price ? formData.confirmationType : null,
+        use_stripe_checkout: formData.useStripeCheckout
       };
 
-      let eventId: string;
+      // Events that were saved, and which of them already existed
+      let eventIds: string[];
+      let existingIds: string[];
 
-      if (editingEvent) {
+      if (rule) {
+        const { keptIds, newIds } = await saveSeries(eventData, rule, editingEvent?.user_id ?? user.id);
+        eventIds = [...keptIds, ...newIds];
+        existingIds = keptIds;
+
+        toast.success(editingEvent
+          ? 'Series updated successfully!'
+          : `Event series created with ${newIds.length} ${newIds.length === 1 ? 'date' : 'dates'}!`);
+      } else if (editingEvent) {
         const { error } = await supabase
           .from('events')
           .update(eventData)
           .eq('id', editingEvent.id);
 
         if (error) throw error;
-        eventId = editingEvent.id;
-
-        // Delete existing event_artists and re-create
-        await supabase
-          .from('event_artists')
-          .delete()
-          .eq('event_id', eventId);
+        eventIds = [editingEvent.id];
+        existingIds = eventIds;
 
         toast.success('Event updated successfully!');
       } else {
@@ -430,16 +725,55 @@ export default function CreateEvent() {
           .single();
 
         if (error) throw error;
-        eventId = newEvent.id;
+        eventIds = [newEvent.id];
+        existingIds = [];
         toast.success('Event created successfully!');
       }
 
+      // Create or sync the Stripe product and price used for card checkout
+      if (formData.useStripeCheckout) {
+        for (const eventId of eventIds) {
+          const { error: stripeError } = await supabase.functions.invoke('create-stripe-product', {
+            body: { eventId }
+          });
+
+          if (stripeError) {
+            console.error('Error setting up Stripe checkout:', stripeError);
+            toast.error('Event saved, but card payments could not be set up. Try saving again.');
+            break;
+          }
+        }
+      }
+
+      try {
+        // The editor's codes belong to the event being edited (or the first new one);
+        // other new dates get copies
+        const promoEventId = editingEvent
+          ? eventIds.find(id => id === editingEvent.id)
+          : eventIds[0];
+        if (promoEventId) {
+          await savePromoCodes(promoEventId);
+        }
+        await copyPromoCodes(eventIds.filter(id => id !== promoEventId && !existingIds.includes(id)));
+      } catch (promoError) {
+        console.error('Error saving promo codes:', promoError);
+        toast.error('Event saved, but promo codes could not be saved. Try saving again.');
+      }
+
+      // Delete existing event_artists and re-create
+      if (existingIds.length > 0) {
+        await supabase
+          .from('event_artists')
+          .delete()
+          .in('event_id', existingIds);
+      }
+
       // Insert event_artists relationships
       if (selectedArtists.length > 0) {
-        const eventArtistRecords = selectedArtists.map(artist => ({
+        const eventArtistRecords = eventIds.flatMap(eventId => selectedArtists.map(artist => ({
           event_id: eventId,
           artist_id: artist.id
-        }));
+        })));
 
         const { error: artistsError } = await supabase
           .from('event_artists')
@@ -525,18 +859,34 @@ export default function CreateEvent() {
                   
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="date">Date *</Label>
+                      <Label htmlFor="date">{isMultiDay ? 'First Day *' : 'Date *'}</Label>
                       <Input
                         id="date"
                         type="date"
                         value={formData.date}
                         onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                        disabled={!!series && editScope === 'series'}
                         required
                       />
                     </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="endDate">Last Day</Label>
+                      <Input
+                        id="endDate"
+                        type="date"
+                        min={formData.date}
+                        value={formData.endDate}
+                        onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                        disabled={!!series || recurrence.frequency !== 'none'}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        For festivals and other multi-day events
+                      </p>
+                    </div>
                     
                     <div className="space-y-2">
-                      <Label htmlFor="time">Time *</Label>
+                      <Label htmlFor="time">Start Time *</Label>
                       <Input
                         id="time"
                         type="time"
@@ -545,7 +895,69 @@ export default function CreateEvent() {
                         required
                       />
                     </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="endTime">End Time</Label>
+                      <Input
+                        id="endTime"
+                        type="time"
+                        value={formData.endTime}
+                        onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {isMultiDay
+                          ? 'When the last day finishes'
+                          : 'Times before the start time run past midnight'}
+                      </p>
+                    </div>
+
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="timeZone">Time Zone</Label>
+                      <TimeZoneSelect
+                        id="timeZone"
+                        value={formData.timeZone}
+                        onChange={(timeZone) => setFormData({ ...formData, timeZone })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Where the event takes place. Attendees elsewhere also see it in their own time.
+                      </p>
+                    </div>
                   </div>
+
+                  {series && (
+                    <div className="space-y-3 rounded-lg border p-4">
+                      <p className="text-sm font-medium">
+                        This event is part of a series: {describeRecurrence(series).toLowerCase()}
+                      </p>
+                      <RadioGroup
+                        value={editScope}
+                        onValueChange={(value) => setEditScope(value as 'occurrence' | 'series')}
+                        className="flex flex-col gap-2"
+                      >
+                        <label htmlFor="scope-occurrence" className="flex items-center gap-2 cursor-pointer">
+                          <RadioGroupItem value="occurrence" id="scope-occurrence" />
+                          <span className="text-sm">This event only</span>
+                        </label>
+                        <label htmlFor="scope-series" className="flex items-center gap-2 cursor-pointer">
+                          <RadioGroupItem value="series" id="scope-series" />
+                          <span className="text-sm">All upcoming events in the series</span>
+                        </label>
+                      </RadioGroup>
+                      <p className="text-xs text-muted-foreground">
+                        {editScope === 'series'
+                          ? 'Changes apply to every upcoming date. Each keeps its own date, and promo codes stay separate per date.'
+                          : 'Only this date changes. Use this to move or adjust a single occurrence.'}
+                      </p>
+                    </div>
+                  )}
+
+                  {(!editingEvent || (series && editScope === 'series')) && !isMultiDay && (
+                    <RecurrenceEditor
+                      recurrence={recurrence}
+                      onChange={setRecurrence}
+                      startDate={series?.starts_on ?? formData.date}
+                    />
+                  )}
                   
                   <div className="space-y-2">
                     <Label>Location</Label>
@@ -649,7 +1061,7 @@ export default function CreateEvent() {
                     </div>
 
                     <div className="space-y-2">
-                      <Label htmlFor="ticketCapacity">Ticket Capacity</Label>
+                      <Label htmlFor="ticketCapacity">{isMultiDay ? 'Capacity per Day' : 'Ticket Capacity'}</Label>
                       <Input
                         id="ticketCapacity"
                         type="number"
@@ -659,14 +1071,36 @@ export default function CreateEvent() {
                         placeholder="Unlimited (leave empty)"
                       />
                       <p className="text-xs text-muted-foreground">
-                        Event will show as sold out when capacity is reached
+                        {isMultiDay
+                          ? 'Full passes count towards every day, day passes only towards their own day'
+                          : 'Event will show as sold out when capacity is reached'}
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="cancellationDeadlineHours">Cancellation Deadline (hours before)</Label>
+                      <Input
+                        id="cancellationDeadlineHours"
+                        type="number"
+                        min="0"
+                        value={formData.cancellationDeadlineHours}
+                        onChange={(e) => setFormData({ ...formData, cancellationDeadlineHours: e.target.value })}
+                        placeholder="Until the event starts (leave empty)"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Attendees can cancel their booking up to this many hours before the event
                       </p>
                     </div>
                   </div>
 
                   {/* Price Tiers */}
                   <div className="p-4 bg-muted/30 rounded-lg">
-                    <PriceTiersEditor tiers={priceTiers} onChange={setPriceTiers} />
+                    <PriceTiersEditor tiers={priceTiers} onChange={setPriceTiers} days={eventDays} />
+                  </div>
+
+                  {/* Promo Codes */}
+                  <div className="p-4 bg-muted/30 rounded-lg">
+                    <PromoCodesEditor promoCodes={promoCodes} onChange={setPromoCodes} tiers={priceTiers} />
                   </div>
 
                   <Separator className="my-4" />
@@ -709,11 +1143,30 @@ export default function CreateEvent() {
                         id="paypal"
                         value={formData.paypal}
                         onChange={(e) => setFormData({ ...formData, paypal: e.target.value })}
-                        placeholder="@username"
+                        placeholder="@username or email"
                       />
+                      <p className="text-xs text-muted-foreground">
+                        Attendees can pay through PayPal checkout; use your PayPal email to receive payments directly
+                      </p>
                     </div>
                   </div>
 
+                  <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="use-stripe-checkout" className="text-sm font-medium">
+                        Accept card payments
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Attendees pay by card through Stripe Checkout and are confirmed automatically
+                      </p>
+                    </div>
+                    <Switch
+                      id="use-stripe-checkout"
+                      checked={formData.useStripeCheckout}
+                      onCheckedChange={(checked) => setFormData({ ...formData, useStripeCheckout: checked })}
+                    />
+                  </div>
+
                   {/* Confirmation Type - Only for paid events */}
                   {formData.price && parseFloat(formData.price) > 0 && (
                     <div className="space-y-3 p-4 bg-muted/50 rounded-lg">
@@ -743,7 +1196,9 @@ export default function CreateEvent() {
 
                   <Alert>
                     <AlertDescription className="text-sm">
-                      Attendees will send payment using one of these methods and upload proof. You'll review and approve bookings from the event management area.
+                      {formData.useStripeCheckout
+                        ? 'Card payments are confirmed automatically. Attendees can still pay with the methods above and upload proof for you to review in the event management area.'
+                        : "Attendees will send payment using one of these methods and upload proof. You'll review and approve bookings from the event management area."}
                     </AlertDescription>
                   </Alert>
                 </div>
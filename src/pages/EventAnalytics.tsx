@@ -0,0 +1,425 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { BarChart3, DollarSign, Eye, Loader2, Percent, Ticket } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import Nav from '@/components/Nav';
+
+interface EventSummary {
+  event_id: string;
+  title: string;
+  date: string;
+  ticket_capacity: number | null;
+  tickets_sold: number;
+  pending_tickets: number;
+  revenue: number;
+  orders_count: number;
+  page_views: number;
+  unique_visitors: number;
+}
+
+interface DailySales {
+  event_id: string;
+  day: string;
+  tickets_sold: number;
+  revenue: number;
+}
+
+interface TierSales {
+  event_id: string;
+  price_tier_id: string | null;
+  tickets_sold: number;
+  revenue: number;
+}
+
+const salesChartConfig = {
+  tickets: { label: 'Tickets sold', color: 'hsl(var(--primary))' },
+  total: { label: 'Running total', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const tierChartConfig = {
+  revenue: { label: 'Revenue', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const comparisonChartConfig = {
+  sold: { label: 'Sold', color: 'hsl(var(--primary))' },
+  remaining: { label: 'Remaining', color: 'hsl(var(--muted-foreground) / 0.3)' },
+} satisfies ChartConfig;
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+const formatRate = (numerator: number, denominator: number) =>
+  denominator > 0 ? `${((numerator / denominator) * 100).toFixed(1)}%` : '—';
+
+export default function EventAnalytics() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [summaries, setSummaries] = useState<EventSummary[]>([]);
+  const [dailySales, setDailySales] = useState<DailySales[]>([]);
+  const [tierSales, setTierSales] = useState<TierSales[]>([]);
+  const [tierNames, setTierNames] = useState<Record<string, string>>({});
+
+  const selectedEventId = searchParams.get('event') || 'all';
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    fetchAnalytics(user.id);
+  }, [user, navigate]);
+
+  const fetchAnalytics = async (userId: string) => {
+    setLoading(true);
+    try {
+      const { data: summaryData, error: summaryError } = await supabase
+        .from('event_sales_summary')
+        .select('*')
+        .eq('user_id', userId)
+        .order('date', { ascending: false });
+
+      if (summaryError) throw summaryError;
+
+      const events = (summaryData || []).map(s => ({
+        event_id: s.event_id!,
+        title: s.title || 'Untitled event',
+        date: s.date!,
+        ticket_capacity: s.ticket_capacity,
+        tickets_sold: s.tickets_sold ?? 0,
+        pending_tickets: s.pending_tickets ?? 0,
+        revenue: Number(s.revenue ?? 0),
+        orders_count: s.orders_count ?? 0,
+        page_views: s.page_views ?? 0,
+        unique_visitors: s.unique_visitors ?? 0,
+      }));
+      setSummaries(events);
+
+      const eventIds = events.map(e => e.event_id);
+      if (eventIds.length === 0) {
+        setDailySales([]);
+        setTierSales([]);
+        return;
+      }
+
+      const [dailyResult, tierResult, eventsResult] = await Promise.all([
+        supabase.from('event_sales_daily').select('*').in('event_id', eventIds).order('day'),
+        supabase.from('event_tier_sales').select('*').in('event_id', eventIds),
+        supabase.from('events').select('id, price_tiers').in('id', eventIds),
+      ]);
+
+      if (dailyResult.error) throw dailyResult.error;
+      if (tierResult.error) throw tierResult.error;
+      if (eventsResult.error) throw eventsResult.error;
+
+      setDailySales((dailyResult.data || []).map(d => ({
+        event_id: d.event_id!,
+        day: d.day!,
+        tickets_sold: d.tickets_sold ?? 0,
+        revenue: Number(d.revenue ?? 0),
+      })));
+      setTierSales((tierResult.data || []).map(t => ({
+        event_id: t.event_id!,
+        price_tier_id: t.price_tier_id,
+        tickets_sold: t.tickets_sold ?? 0,
+        revenue: Number(t.revenue ?? 0),
+      })));
+
+      const names: Record<string, string> = {};
+      (eventsResult.data || []).forEach(event => {
+        if (!Array.isArray(event.price_tiers)) return;
+        (event.price_tiers as { id: string; name: string }[]).forEach(tier => {
+          names[tier.id] = tier.name;
+        });
+      });
+      setTierNames(names);
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+      toast.error('Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectEvent = (value: string) => {
+    if (value === 'all') {
+      searchParams.delete('event');
+    } else {
+      searchParams.set('event', value);
+    }
+    setSearchParams(searchParams, { replace: true });
+  };
+
+  if (loading) {
+    return (
+      <>
+        <Nav />
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </>
+    );
+  }
+
+  const isSelected = (eventId: string) => selectedEventId === 'all' || eventId === selectedEventId;
+  const selectedSummaries = summaries.filter(s => isSelected(s.event_id));
+
+  const totals = selectedSummaries.reduce(
+    (acc, s) => ({
+      ticketsSold: acc.ticketsSold + s.tickets_sold,
+      revenue: acc.revenue + s.revenue,
+      orders: acc.orders + s.orders_count,
+      visitors: acc.visitors + s.unique_visitors,
+      // Fill rate only makes sense for events with a capacity
+      cappedSold: acc.cappedSold + (s.ticket_capacity ? s.tickets_sold : 0),
+      capacity: acc.capacity + (s.ticket_capacity || 0),
+    }),
+    { ticketsSold: 0, revenue: 0, orders: 0, visitors: 0, cappedSold: 0, capacity: 0 }
+  );
+
+  // Daily sales across the selected events, with a running total
+  const salesByDay = new Map<string, number>();
+  dailySales
+    .filter(d => isSelected(d.event_id))
+    .forEach(d => salesByDay.set(d.day, (salesByDay.get(d.day) || 0) + d.tickets_sold));
+  let runningTotal = 0;
+  const salesOverTime = Array.from(salesByDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, tickets]) => {
+      runningTotal += tickets;
+      return { day, tickets, total: runningTotal };
+    });
+
+  // Revenue by tier name, so tiers like "Student" add up across events
+  const revenueByTier = new Map<string, number>();
+  tierSales
+    .filter(t => isSelected(t.event_id))
+    .forEach(t => {
+      const name = (t.price_tier_id && tierNames[t.price_tier_id]) || 'General Admission';
+      revenueByTier.set(name, (revenueByTier.get(name) || 0) + t.revenue);
+    });
+  const tierRevenue = Array.from(revenueByTier.entries())
+    .map(([tier, revenue]) => ({ tier, revenue }))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  const eventComparison = summaries
+    .slice(0, 12)
+    .reverse()
+    .map(s => ({
+      title: s.title,
+      sold: s.tickets_sold,
+      remaining: s.ticket_capacity ? Math.max(s.ticket_capacity - s.tickets_sold, 0) : 0,
+    }));
+
+  const stats = [
+    { label: 'Tickets Sold', value: totals.ticketsSold.toString(), icon: Ticket },
+    { label: 'Revenue', value: formatCurrency(totals.revenue), icon: DollarSign },
+    { label: 'Conversion', value: formatRate(totals.orders, totals.visitors), icon: Eye, hint: `${totals.visitors} visitors` },
+    { label: 'Capacity Filled', value: formatRate(totals.cappedSold, totals.capacity), icon: Percent, hint: totals.capacity ? `of ${totals.capacity} seats` : 'No capacity set' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Nav />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold flex items-center gap-2">
+              <BarChart3 className="h-7 w-7" />
+              Event Analytics
+            </h1>
+            <p className="text-muted-foreground">Ticket sales and revenue across your events</p>
+          </div>
+          {summaries.length > 0 && (
+            <Select value={selectedEventId} onValueChange={handleSelectEvent}>
+              <SelectTrigger className="md:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All events</SelectItem>
+                {summaries.map(s => (
+                  <SelectItem key={s.event_id} value={s.event_id}>{s.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {summaries.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6 text-center space-y-4">
+              <p className="text-muted-foreground">You haven't organized any events yet.</p>
+              <Button onClick={() => navigate('/events/create')}>Create Event</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {stats.map(stat => (
+                <Card key={stat.label}>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      {stat.label}
+                      <stat.icon className="h-4 w-4" />
+                    </div>
+                    <p className="text-2xl font-bold mt-1">{stat.value}</p>
+                    {stat.hint && <p className="text-xs text-muted-foreground">{stat.hint}</p>}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Tickets Sold Over Time</CardTitle>
+                  <CardDescription>Confirmed tickets per day</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {salesOverTime.length === 0 ? (
+                    <p className="text-center text-sm text-muted-foreground py-12">No confirmed tickets yet.</p>
+                  ) : (
+                    <ChartContainer config={salesChartConfig}>
+                      <ComposedChart data={salesOverTime}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis
+                          dataKey="day"
+                          tickLine={false}
+                          axisLine={false}
+                          tickFormatter={(day: string) => format(new Date(`${day}T00:00:00`), 'MMM d')}
+                        />
+                        <YAxis yAxisId="daily" allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                        <YAxis yAxisId="total" orientation="right" allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                        <ChartTooltip
+                          content={
+                            <ChartTooltipContent
+                              labelFormatter={(_, payload) => {
+                                const day = payload?.[0]?.payload?.day;
+                                return day ? format(new Date(`${day}T00:00:00`), 'EEE, MMM d, yyyy') : '';
+                              }}
+                            />
+                          }
+                        />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar yAxisId="daily" dataKey="tickets" fill="var(--color-tickets)" radius={4} />
+                        <Line yAxisId="total" dataKey="total" type="monotone" stroke="var(--color-total)" strokeWidth={2} dot={false} />
+                      </ComposedChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Revenue by Tier</CardTitle>
+                  <CardDescription>From confirmed tickets, after discounts</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {tierRevenue.length === 0 ? (
+                    <p className="text-center text-sm text-muted-foreground py-12">No revenue yet.</p>
+                  ) : (
+                    <ChartContainer config={tierChartConfig}>
+                      <BarChart data={tierRevenue} layout="vertical" margin={{ left: 8 }}>
+                        <CartesianGrid horizontal={false} />
+                        <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value: number) => `$${value}`} />
+                        <YAxis type="category" dataKey="tier" tickLine={false} axisLine={false} width={110} />
+                        <ChartTooltip
+                          content={<ChartTooltipContent formatter={(value) => formatCurrency(Number(value))} />}
+                        />
+                        <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Compare Events</CardTitle>
+                <CardDescription>Tickets sold against capacity for your latest events</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <ChartContainer config={comparisonChartConfig} className="aspect-auto h-64 w-full">
+                  <BarChart data={eventComparison}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="title"
+                      tickLine={false}
+                      axisLine={false}
+                      interval={0}
+                      tickFormatter={(title: string) => (title.length > 14 ? `${title.slice(0, 13)}…` : title)}
+                    />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="sold" stackId="seats" fill="var(--color-sold)" />
+                    <Bar dataKey="remaining" stackId="seats" fill="var(--color-remaining)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Event</TableHead>
+                      <TableHead className="text-right">Sold</TableHead>
+                      <TableHead className="text-right hidden sm:table-cell">Filled</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                      <TableHead className="text-right hidden md:table-cell">Visitors</TableHead>
+                      <TableHead className="text-right hidden md:table-cell">Conversion</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summaries.map(s => (
+                      <TableRow
+                        key={s.event_id}
+                        className="cursor-pointer"
+                        data-state={s.event_id === selectedEventId ? 'selected' : undefined}
+                        onClick={() => handleSelectEvent(s.event_id)}
+                      >
+                        <TableCell>
+                          <p className="font-medium">{s.title}</p>
+                          <p className="text-xs text-muted-foreground">{format(new Date(`${s.date}T00:00:00`), 'MMM d, yyyy')}</p>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {s.tickets_sold}
+                          {s.pending_tickets > 0 && (
+                            <span className="block text-xs text-muted-foreground">+{s.pending_tickets} pending</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right hidden sm:table-cell">
+                          {s.ticket_capacity ? formatRate(s.tickets_sold, s.ticket_capacity) : '—'}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(s.revenue)}</TableCell>
+                        <TableCell className="text-right hidden md:table-cell">{s.unique_visitors}</TableCell>
+                        <TableCell className="text-right hidden md:table-cell">{formatRate(s.orders_count, s.unique_visitors)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
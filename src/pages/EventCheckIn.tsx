@@ -0,0 +1,332 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Camera, CameraOff, CheckCircle, AlertCircle, XCircle, Loader2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUserRoles } from '@/hooks/useUserRoles';
+import { TICKET_CODE_LENGTH, formatTicketCode, normalizeTicketCode } from '@/lib/tickets';
+import Nav from '@/components/Nav';
+import QrScanner from '@/components/QrScanner';
+
+interface CheckInEvent {
+  id: string;
+  title: string;
+  date: string;
+  time: string;
+  user_id: string;
+  price_tiers: { id: string; name: string }[] | null;
+}
+
+interface CheckInResult {
+  type: 'success' | 'duplicate' | 'error';
+  code: string;
+  message: string;
+  attendeeName?: string;
+  tierName?: string | null;
+  checkedInAt?: string;
+}
+
+export default function EventCheckIn() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { isAdmin, loading: rolesLoading } = useUserRoles(user?.id);
+  const [event, setEvent] = useState<CheckInEvent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [manualCode, setManualCode] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [stats, setStats] = useState({ total: 0, checkedIn: 0 });
+  const [results, setResults] = useState<CheckInResult[]>([]);
+  // Guards against the scanner firing again while a check-in is in flight
+  const checkingRef = useRef(false);
+
+  const fetchEvent = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, title, date, time, user_id, price_tiers')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      toast.error('Failed to load event');
+      console.error(error);
+    } else {
+      setEvent(data as CheckInEvent);
+    }
+    setLoading(false);
+  }, [id]);
+
+  useEffect(() => {
+    if (id) {
+      fetchEvent();
+    }
+  }, [id, fetchEvent]);
+
+  const fetchStats = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('bookings_organizer_view')
+      .select('id, checked_in_at')
+      .eq('event_id', id)
+      .eq('status', 'confirmed');
+
+    if (error) {
+      console.error('Error fetching attendance:', error);
+      return;
+    }
+
+    setStats({
+      total: data?.length || 0,
+      checkedIn: data?.filter((b) => b.checked_in_at).length || 0,
+    });
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    fetchStats();
+
+    // Live attendance count across every door scanner
+    const channel = supabase
+      .channel(`check-in-${id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'bookings',
+          filter: `event_id=eq.${id}`
+        },
+        () => {
+          fetchStats();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, fetchStats]);
+
+  const getTierName = (tierId: string | null) => {
+    if (!tierId || !Array.isArray(event?.price_tiers)) return null;
+    return event.price_tiers.find((t) => t.id === tierId)?.name || null;
+  };
+
+  const handleCheckIn = async (rawCode: string) => {
+    const code = normalizeTicketCode(rawCode);
+    if (checkingRef.current || !id) return;
+
+    if (code.length !== TICKET_CODE_LENGTH) {
+      setResults((prev) => [{ type: 'error' as const, code, message: 'Not a valid ticket code' }, ...prev].slice(0, 10));
+      return;
+    }
+
+    checkingRef.current = true;
+    setCheckingIn(true);
+
+    try {
+      const { data, error } = await supabase.rpc('check_in_ticket', { _event_id: id, _code: code });
+      if (error) throw error;
+
+      const ticket = data?.[0];
+      if (!ticket) throw new Error('Ticket not found');
+
+      const result: CheckInResult = ticket.already_checked_in
+        ? {
+            type: 'duplicate',
+            code,
+            message: `Already checked in at ${format(new Date(ticket.checked_in_at), 'h:mm a')}`,
+            attendeeName: ticket.attendee_name,
+            tierName: getTierName(ticket.price_tier_id),
+            checkedInAt: ticket.checked_in_at,
+          }
+        : {
+            type: 'success',
+            code,
+            message: 'Checked in',
+            attendeeName: ticket.attendee_name,
+            tierName: getTierName(ticket.price_tier_id),
+            checkedInAt: ticket.checked_in_at,
+          };
+
+      setResults((prev) => [result, ...prev].slice(0, 10));
+      if (result.type === 'success') {
+        setManualCode('');
+        fetchStats();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Check-in failed';
+      setResults((prev) => [{ type: 'error' as const, code, message }, ...prev].slice(0, 10));
+    } finally {
+      checkingRef.current = false;
+      setCheckingIn(false);
+    }
+  };
+
+  if (loading || rolesLoading) {
+    return (
+      <>
+        <Nav />
+        <div className="min-h-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </>
+    );
+  }
+
+  const isOwnerOrAdmin = user && event && (event.user_id === user.id || isAdmin);
+
+  if (!event || !isOwnerOrAdmin) {
+    return (
+      <>
+        <Nav />
+        <div className="min-h-screen flex items-center justify-center">
+          <p className="text-muted-foreground">
+            {event ? 'Only the event organizer can check in attendees' : 'Event not found'}
+          </p>
+        </div>
+      </>
+    );
+  }
+
+  const latest = results[0];
+  const progress = stats.total > 0 ? (stats.checkedIn / stats.total) * 100 : 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Nav />
+
+      <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2"
+          onClick={() => navigate(`/events/${event.id}`)}
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Event
+        </Button>
+
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold">Check-in</h1>
+          <p className="text-muted-foreground">
+            {event.title} · {new Date(event.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+          </p>
+        </div>
+
+        {/* Live attendance */}
+        <Card>
+          <CardContent className="pt-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-sm font-medium">
+                <Users className="h-4 w-4" />
+                Attendance
+              </span>
+              <span className="text-2xl font-bold">
+                {stats.checkedIn}
+                <span className="text-base font-normal text-muted-foreground"> / {stats.total}</span>
+              </span>
+            </div>
+            <Progress value={progress} />
+          </CardContent>
+        </Card>
+
+        {/* Scanner and manual entry */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Scan Tickets</CardTitle>
+            <CardDescription>Scan the QR code on an attendee's ticket or type in the ticket code</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {scanning && <QrScanner onScan={handleCheckIn} />}
+
+            <Button
+              variant={scanning ? 'outline' : 'default'}
+              className="w-full gap-2"
+              onClick={() => setScanning(!scanning)}
+            >
+              {scanning ? <CameraOff className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+              {scanning ? 'Stop Camera' : 'Scan with Camera'}
+            </Button>
+
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCheckIn(manualCode);
+              }}
+            >
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                className="font-mono uppercase"
+                autoComplete="off"
+              />
+              <Button type="submit" disabled={checkingIn || !manualCode.trim()}>
+                {checkingIn ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Check In'}
+              </Button>
+            </form>
+
+            {/* Latest result */}
+            {latest && (
+              <div
+                className={`flex items-start gap-3 p-4 rounded-lg border ${
+                  latest.type === 'success'
+                    ? 'border-green-500/50 bg-green-50 dark:bg-green-950/20'
+                    : latest.type === 'duplicate'
+                      ? 'border-amber-500/50 bg-amber-50 dark:bg-amber-950/20'
+                      : 'border-destructive/50 bg-destructive/10'
+                }`}
+              >
+                {latest.type === 'success' ? (
+                  <CheckCircle className="h-6 w-6 text-green-600 shrink-0" />
+                ) : latest.type === 'duplicate' ? (
+                  <AlertCircle className="h-6 w-6 text-amber-600 shrink-0" />
+                ) : (
+                  <XCircle className="h-6 w-6 text-destructive shrink-0" />
+                )}
+                <div className="min-w-0">
+                  {latest.attendeeName && <p className="font-semibold truncate">{latest.attendeeName}</p>}
+                  <p className="text-sm">{latest.message}</p>
+                  {latest.tierName && <Badge variant="outline" className="mt-1">{latest.tierName}</Badge>}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Recent scans at this device */}
+        {results.length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Recent Scans</CardTitle>
+            </CardHeader>
+            <CardContent className="divide-y">
+              {results.slice(1).map((result, index) => (
+                <div key={`${result.code}-${index}`} className="flex items-center justify-between gap-2 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{result.attendeeName || formatTicketCode(result.code) || 'Unknown code'}</p>
+                    <p className="text-xs text-muted-foreground">{result.message}</p>
+                  </div>
+                  <Badge variant={result.type === 'success' ? 'default' : result.type === 'duplicate' ? 'secondary' : 'destructive'}>
+                    {result.type === 'success' ? 'Checked in' : result.type === 'duplicate' ? 'Duplicate' : 'Rejected'}
+                  </Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
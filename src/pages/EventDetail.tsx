@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Calendar, MapPin, Clock, Ticket, Edit, ArrowLeft, Loader2, Trash2, StickyNote } from 'lucide-react';
+import { Calendar, MapPin, Clock, Ticket, Edit, ArrowLeft, Loader2, Trash2, StickyNote, ScanLine, BarChart3, Repeat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -11,11 +11,16 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useUserRoles } from '@/hooks/useUserRoles';
 import Nav from '@/components/Nav';
 import EventDiscussion from '@/components/EventDiscussion';
+import AddToCalendar from '@/components/AddToCalendar';
 import BookingModal from '@/components/BookingModal';
 import BookingManagement from '@/components/BookingManagement';
 import EventSchedule from '@/components/EventSchedule';
 import ShareEvent from '@/components/ShareEvent';
 import TransferOwnership from '@/components/TransferOwnership';
+import { recordEventView } from '@/lib/analytics';
+import { describeRecurrence } from '@/lib/recurrence';
+import { formatEventDates, getEventDays } from '@/lib/festival';
+import { formatEventTimeRange, formatEventViewerTimes, getEventEnd, getEventStart, hasEventEnded } from '@/lib/eventTimes';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -31,23 +36,43 @@ import {
 export default function EventDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user, session } = useAuth();
   const { isAdmin } = useUserRoles(user?.id);
   const [event, setEvent] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [bookingModalOpen, setBookingModalOpen] = useState(false);
+  const [claimingOffer, setClaimingOffer] = useState(false);
+  const [seriesDates, setSeriesDates] = useState<{ id: string; date: string; time: string }[]>([]);
 
-  useEffect(() => {
-    if (id) {
-      fetchEvent();
+  // Other upcoming dates in the same series
+  const fetchSeriesDates = useCallback(async (seriesId: string | null) => {
+    if (!seriesId) {
+      setSeriesDates([]);
+      return;
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, date, time')
+      .eq('series_id', seriesId)
+      .gte('date', today)
+      .order('date')
+      .limit(9);
+
+    if (error) {
+      console.error('Error fetching series dates:', error);
+    } else {
+      setSeriesDates((data || []).filter(d => d.id !== id).slice(0, 8));
     }
   }, [id]);
 
-  const fetchEvent = async () => {
+  const fetchEvent = useCallback(async () => {
     setLoading(true);
     const { data, error } = await supabase
       .from('events')
-      .select('*, artists(*), event_artists(artist_id, artists(*))')
+      .select('*, artists(*), event_artists(artist_id, artists(*)), event_series(frequency, repeat_interval, weekdays, month_week, starts_on)')
       .eq('id', id)
       .single();
 
@@ -57,9 +82,44 @@ export default function EventDetail() {
       navigate('/');
     } else {
       setEvent(data);
+      fetchSeriesDates(data.series_id);
     }
     setLoading(false);
-  };
+  }, [id, navigate, fetchSeriesDates]);
+
+  useEffect(() => {
+    if (id) fetchEvent();
+  }, [id, fetchEvent]);
+
+  useEffect(() => {
+    if (id) recordEventView(id);
+  }, [id]);
+
+  // Returning from Stripe Checkout
+  useEffect(() => {
+    const checkoutStatus = searchParams.get('checkout');
+    if (!checkoutStatus) return;
+
+    if (checkoutStatus === 'success') {
+      toast.success('Payment received! Your tickets will be confirmed shortly and appear in My Bookings.');
+    } else if (checkoutStatus === 'cancelled') {
+      toast.info('Checkout cancelled. Your tickets were not booked.');
+    }
+
+    searchParams.delete('checkout');
+    setSearchParams(searchParams, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  // Following a waitlist claim link opens booking with the held seats
+  useEffect(() => {
+    if (!searchParams.has('claim') || !event || !user) return;
+
+    setClaimingOffer(true);
+    setBookingModalOpen(true);
+
+    searchParams.delete('claim');
+    setSearchParams(searchParams, { replace: true });
+  }, [searchParams, setSearchParams, event, user]);
 
   const getArtistNames = () => {
     if (!event) return 'TBA';
@@ -93,8 +153,14 @@ export default function EventDetail() {
 
   const isOwnerOrAdmin = user && (event.user_id === user.id || isAdmin);
   
-  // Check if event is in the past
-  const isPastEvent = new Date(`${event.date}T${event.time}`) < new Date();
+  const eventDays = getEventDays(event.date, event.end_date);
+  const lineup = ((event.event_artists || []) as { artists: { id: string; name: string } | null }[])
+    .map(ea => ea.artists)
+    .filter((artist): artist is { id: string; name: string } => !!artist);
+
+  // Check if event is in the past (multi-day events stay bookable until they end)
+  const isPastEvent = eventDays.length > 1 ? hasEventEnded(event) : getEventStart(event) < new Date();
+  const viewerTimes = formatEventViewerTimes(event);
 
   return (
     <div className="min-h-screen bg-background">
@@ -137,6 +203,22 @@ export default function EventDetail() {
                     navigate('/events');
                   }}
                 />
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => navigate(`/events/${event.id}/check-in`)}
+                >
+                  <ScanLine className="h-4 w-4" />
+                  Check-in
+                </Button>
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => navigate(`/events/analytics?event=${event.id}`)}
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  Analytics
+                </Button>
                 <Button
                   variant="outline"
                   className="gap-2"
@@ -157,6 +239,7 @@ export default function EventDetail() {
                       <AlertDialogTitle>Delete Event</AlertDialogTitle>
                       <AlertDialogDescription>
                         Are you sure you want to delete "{event.title}"? This action cannot be undone.
+                        {event.series_id && ' Only this date is deleted; the rest of the series stays.'}
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
@@ -214,18 +297,45 @@ export default function EventDetail() {
                 <div className="flex items-center gap-3">
                   <Calendar className="h-5 w-5 text-primary" />
                   <span className="font-medium">
-                    {new Date(event.date).toLocaleDateString('en-US', { 
-                      weekday: 'long', 
-                      month: 'long', 
-                      day: 'numeric', 
-                      year: 'numeric' 
-                    })}
+                    {formatEventDates(event.date, event.end_date)}
                   </span>
+                  {eventDays.length > 1 && (
+                    <Badge variant="secondary">{eventDays.length} days</Badge>
+                  )}
                 </div>
+
+                {event.event_series && (
+                  <div className="flex items-start gap-3">
+                    <Repeat className="h-5 w-5 text-primary shrink-0 mt-0.5" />
+                    <div className="space-y-2">
+                      <span className="font-medium">{describeRecurrence(event.event_series)}</span>
+                      {seriesDates.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {seriesDates.map(occurrence => (
+                            <Button
+                              key={occurrence.id}
+                              variant="outline"
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => navigate(`/events/${occurrence.id}`)}
+                            >
+                              {new Date(`${occurrence.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
                 
                 <div className="flex items-center gap-3">
                   <Clock className="h-5 w-5 text-primary" />
-                  <span className="font-medium">{event.time}</span>
+                  <div>
+                    <span className="font-medium">{formatEventTimeRange(event)}</span>
+                    {viewerTimes && (
+                      <p className="text-sm text-muted-foreground">Your time: {viewerTimes}</p>
+                    )}
+                  </div>
                 </div>
                 
                 <div className="flex items-center gap-3">
@@ -242,7 +352,12 @@ export default function EventDetail() {
               </div>
 
               {/* Event Schedule */}
-              <EventSchedule eventId={event.id} canEdit={isOwnerOrAdmin || false} />
+              <EventSchedule
+                eventId={event.id}
+                canEdit={isOwnerOrAdmin || false}
+                days={eventDays}
+                artists={lineup}
+              />
             </div>
 
             {/* Booking Card */}
@@ -283,6 +398,19 @@ export default function EventDetail() {
                     : 'Register for Free'}
               </Button>
 
+              {!hasEventEnded(event) && (
+                <AddToCalendar
+                  event={{
+                    title: event.title,
+                    description: event.notes || undefined,
+                    location: event.location_name || undefined,
+                    startDate: getEventStart(event),
+                    endDate: getEventEnd(event),
+                  }}
+                  className="w-full"
+                />
+              )}
+
               {/* Share button for non-owners */}
               {!isOwnerOrAdmin && (
                 <ShareEvent 
@@ -316,6 +444,7 @@ export default function EventDetail() {
                     eventDate={event.date}
                     eventTime={event.time}
                     eventLocation={event.location_name}
+                    priceTiers={Array.isArray(event.price_tiers) ? event.price_tiers : []}
                   />
                 </TabsContent>
               </Tabs>
@@ -333,7 +462,11 @@ export default function EventDetail() {
       <BookingModal
         event={event}
         open={bookingModalOpen}
-        onOpenChange={setBookingModalOpen}
+        onOpenChange={(open) => {
+          setBookingModalOpen(open);
+          if (!open) setClaimingOffer(false);
+        }}
+        claimingOffer={claimingOffer}
       />
     </div>
   );
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { Calendar, MapPin, Clock, Ticket, Plus, Upload, Edit, Search, ArrowLeft, Music, Map } from 'lucide-react';
+import { Calendar, MapPin, Clock, Ticket, Plus, Upload, Edit, Search, ArrowLeft, Music, Map, Repeat } from 'lucide-react';
 import EventsMap from '@/components/EventsMap';
 import { Slider } from '@/components/ui/slider';
 import EventFilters, { DateFilter, SortOption, filterAndSortEvents } from '@/components/EventFilters';
@@ -13,8 +13,11 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUserRoles } from '@/hooks/useUserRoles';
 import Nav from '@/components/Nav';
+import SubscribeCalendar from '@/components/SubscribeCalendar';
 import { useNavigate } from 'react-router-dom';
 import { fetchAllEventsWithRelations } from '@/lib/events';
+import { collapseSeries, describeRecurrence } from '@/lib/recurrence';
+import { formatEventTimeRange } from '@/lib/eventTimes';
 
 export default function Events() {
   const { user, session } = useAuth();
@@ -84,8 +87,8 @@ export default function Events() {
       );
     }
     
-    // Apply filters and sorting
-    return filterAndSortEvents(result, dateFilter, locationFilter, sortBy);
+    // Apply filters and sorting, then show each series once at its first matching date
+    return collapseSeries(filterAndSortEvents(result, dateFilter, locationFilter, sortBy));
   }, [events, searchTerm, dateFilter, locationFilter, sortBy]);
 
   const filteredArtists = useMemo(() => {
@@ -253,7 +256,7 @@ export default function Events() {
                       </span>
                       <span className="flex items-center gap-1">
                         <Clock className="h-3 w-3" />
-                        {event.time}
+                        {formatEventTimeRange(event)}
                       </span>
                       {event.location_name && (
                         <span className="flex items-center gap-1">
@@ -261,6 +264,13 @@ export default function Events() {
                           <span className="line-clamp-1">{event.location_name}</span>
                         </span>
                       )}
+                      {event.event_series && (
+                        <span className="flex items-center gap-1">
+                          <Repeat className="h-3 w-3" />
+                          {describeRecurrence(event.event_series)}
+                          {event.series_occurrences.length > 1 && ` · ${event.series_occurrences.length - 1} more ${event.series_occurrences.length === 2 ? 'date' : 'dates'}`}
+                        </span>
+                      )}
                     </div>
                     
                     <Button 
@@ -324,15 +334,22 @@ export default function Events() {
 
           {showMap && userLocation && (
             <div className="space-y-4">
-              <div className="flex items-center gap-4 max-w-sm">
-                <span className="text-sm text-muted-foreground whitespace-nowrap">Radius: {mapRadius} mi</span>
-                <Slider
-                  value={[mapRadius]}
-                  onValueChange={(v) => setMapRadius(v[0])}
-                  min={10}
-                  max={200}
-                  step={10}
-                  className="flex-1"
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-4 flex-1 max-w-sm">
+                  <span className="text-sm text-muted-foreground whitespace-nowrap">Radius: {mapRadius} mi</span>
+                  <Slider
+                    value={[mapRadius]}
+                    onValueChange={(v) => setMapRadius(v[0])}
+                    min={10}
+                    max={200}
+                    step={10}
+                    className="flex-1"
+                  />
+                </div>
+                <SubscribeCalendar
+                  feed={{ type: 'events', lat: userLocation.lat.toFixed(3), lng: userLocation.lng.toFixed(3), radius: mapRadius }}
+                  name={`RaagConnect events within ${mapRadius} mi`}
+                  label="Subscribe to Nearby Events"
                 />
               </div>
               <EventsMap
@@ -341,10 +358,14 @@ export default function Events() {
                   title: e.title,
                   date: e.date,
                   time: e.time,
+                  end_date: e.end_date,
+                  end_time: e.end_time,
+                  time_zone: e.time_zone,
                   location_name: e.location_name,
                   location_lat: e.location_lat,
                   location_lng: e.location_lng,
                   price: e.price,
+                  recurrence: e.event_series ? describeRecurrence(e.event_series) : null,
                 }))}
                 userLocation={userLocation}
                 radius={mapRadius}
@@ -13,6 +13,7 @@ import { toast } from 'sonner';
 import { Loader2, Upload, Music, Eye, Calendar, Settings as SettingsIcon, Moon, Sun, Trash2, GraduationCap } from 'lucide-react';
 import Nav from '@/components/Nav';
 import MyBookings from '@/components/MyBookings';
+import MyLessons from '@/components/MyLessons';
 import { useSettings } from '@/hooks/useSettings';
 import { useUserRoles, type UserRole } from '@/hooks/useUserRoles';
 
@@ -528,6 +529,9 @@ export default function Settings() {
 
           {/* My Bookings */}
           {user && <MyBookings userId={user.id} />}
+
+          {/* My Lessons */}
+          {user && <MyLessons userId={user.id} />}
         </div>
       </div>
     </>
@@ -0,0 +1,146 @@
+// Minimal CalDAV (RFC 4791) client for teachers' connected calendars.
+// Works with any server that takes Basic auth, e.g. iCloud or Fastmail with an
+// app password. For local testing, point a connection at a Radicale server
+// (http://localhost:5232/<user>/<calendar>/) and set CALDAV_ALLOW_INSECURE=true;
+// tests/radicale.ts stands in for one in npm test.
+import { formatUtc } from "./ical.ts";
+
+export interface CalDavCalendar {
+  calendar_url: string;
+  username: string;
+  password: string;
+}
+
+export class CalDavError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Plain http is only for local test servers
+export function assertCalendarUrl(url: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new CalDavError('Enter the full calendar URL', 400);
+  }
+  const allowInsecure = Deno.env.get('CALDAV_ALLOW_INSECURE') === 'true';
+  if (parsed.protocol !== 'https:' && !(allowInsecure && parsed.protocol === 'http:')) {
+    throw new CalDavError('The calendar URL must start with https://', 400);
+  }
+}
+
+const collectionUrl = (calendar: CalDavCalendar) =>
+  calendar.calendar_url.endsWith('/') ? calendar.calendar_url : `${calendar.calendar_url}/`;
+
+// Each lesson is stored as its own resource, named after the booking
+const resourceUrl = (calendar: CalDavCalendar, name: string) =>
+  `${collectionUrl(calendar)}${encodeURIComponent(name)}.ics`;
+
+async function caldavRequest(
+  calendar: CalDavCalendar,
+  url: string,
+  method: string,
+  body?: string,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  assertCalendarUrl(url);
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Basic ${btoa(`${calendar.username}:${calendar.password}`)}`,
+      ...headers,
+    },
+    body,
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    await response.body?.cancel();
+    throw new CalDavError('The calendar rejected the username or password', response.status);
+  }
+  return response;
+}
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+// Servers pick their own namespace prefixes, so match elements by local name
+const elementText = (xml: string, name: string): string[] =>
+  [...xml.matchAll(new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'gi'))]
+    .map((match) => unescapeXml(match[1].trim()));
+
+// Checks the URL is a calendar the credentials can use, returning its name
+export async function checkCalendar(calendar: CalDavCalendar): Promise<string | null> {
+  const response = await caldavRequest(calendar, collectionUrl(calendar), 'PROPFIND',
+    `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:resourcetype/><d:displayname/></d:prop>
+</d:propfind>`,
+    { 'Depth': '0', 'Content-Type': 'application/xml; charset=utf-8' },
+  );
+
+  const xml = await response.text();
+  if (!response.ok) {
+    throw new CalDavError(`The calendar server returned ${response.status}`, 400);
+  }
+  const resourceType = elementText(xml, 'resourcetype').join('');
+  if (!/<(?:[\w-]+:)?calendar\b/i.test(resourceType)) {
+    throw new CalDavError('That URL is not a calendar. Use the address of one calendar, not the account.', 400);
+  }
+  return elementText(xml, 'displayname')[0] || null;
+}
+
+export async function putEvent(calendar: CalDavCalendar, name: string, ics: string): Promise<void> {
+  const response = await caldavRequest(calendar, resourceUrl(calendar, name), 'PUT', ics, {
+    'Content-Type': 'text/calendar; charset=utf-8',
+  });
+  await response.body?.cancel();
+  if (!response.ok) {
+    throw new CalDavError(`Saving the lesson failed with ${response.status}`, response.status);
+  }
+}
+
+// Removing something that's already gone counts as done
+export async function deleteEvent(calendar: CalDavCalendar, name: string): Promise<void> {
+  const response = await caldavRequest(calendar, resourceUrl(calendar, name), 'DELETE');
+  await response.body?.cancel();
+  if (!response.ok && response.status !== 404) {
+    throw new CalDavError(`Removing the lesson failed with ${response.status}`, response.status);
+  }
+}
+
+// iCalendar text of every event overlapping a range, with recurring events left unexpanded
+export async function fetchCalendarData(calendar: CalDavCalendar, rangeStart: Date, rangeEnd: Date): Promise<string[]> {
+  const response = await caldavRequest(calendar, collectionUrl(calendar), 'REPORT',
+    `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><c:calendar-data/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${formatUtc(rangeStart)}" end="${formatUtc(rangeEnd)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`,
+    { 'Depth': '1', 'Content-Type': 'application/xml; charset=utf-8' },
+  );
+
+  const xml = await response.text();
+  if (!response.ok) {
+    throw new CalDavError(`Reading the calendar failed with ${response.status}`, response.status);
+  }
+  return elementText(xml, 'calendar-data');
+}
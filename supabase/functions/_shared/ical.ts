@@ -0,0 +1,530 @@
+// Builds and reads iCalendar (RFC 5545) files for the calendar edge functions.
+// Times with a known IANA zone are written in UTC; the rest stay floating,
+// so calendar apps read them in the subscriber's own zone.
+
+// A wall-clock date (YYYY-MM-DD) and time (HH:MM or HH:MM:SS) in a zone
+export interface ICalTime {
+  date: string;
+  time: string;
+  timeZone?: string | null;
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  start: ICalTime;
+  end: ICalTime;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  geo?: { lat: number; lng: number } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const encoder = new TextEncoder();
+
+export function addDaysToDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+// Moves a wall-clock time, rolling over into the next or previous days
+export function addMinutes(at: ICalTime, minutes: number): ICalTime {
+  const [h, m] = at.time.split(':').map(Number);
+  const total = h * 60 + m + minutes;
+  const days = Math.floor(total / 1440);
+  const rest = total - days * 1440;
+  return {
+    ...at,
+    date: addDaysToDate(at.date, days),
+    time: `${String(Math.floor(rest / 60)).padStart(2, '0')}:${String(rest % 60).padStart(2, '0')}`,
+  };
+}
+
+// Wall-clock date and time at an instant in a zone
+export function getZonedDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+}
+
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const { date, time } = getZonedDateTime(instant, timeZone);
+  return Date.parse(`${date}T${time}:00Z`) - Math.floor(instant.getTime() / 60000) * 60000;
+}
+
+// The instant a wall-clock time happens in a zone; mirrors zonedTimeToDate in src/lib/timeZones.ts
+export function zonedTimeToDate(date: string, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + (hours * 60 + minutes) * 60000;
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+export function formatUtc(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatTime(at: ICalTime): string {
+  if (at.timeZone) return formatUtc(zonedTimeToDate(at.date, at.time, at.timeZone));
+  const [h, m, s = '00'] = at.time.split(':');
+  return `${at.date.replace(/-/g, '')}T${h}${m}${s}`;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const folded: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (folded.length ? 74 : 75)) {
+      folded.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  folded.push(current);
+  return folded.join('\r\n ');
+}
+
+// A named calendar is a subscribable feed; without a name it's a single
+// resource, like the lessons written to a teacher's CalDAV calendar
+export function buildCalendar(name: string | null, events: ICalEvent[]): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//RaagConnect//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+  if (name) {
+    lines.push(
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(name)}`,
+      // Ask subscribed calendars to check for changes every hour
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+    );
+  }
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatTime(event.start)}`,
+      `DTEND:${formatTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      ...(event.geo ? [`GEO:${event.geo.lat};${event.geo.lng}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      `STATUS:${event.status ?? 'CONFIRMED'}`,
+      'END:VEVENT',
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ---------------------------------------------------------------------------
+// Reading calendars
+// ---------------------------------------------------------------------------
+
+export interface ParsedEvent {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+}
+
+// A DATE or DATE-TIME value as written, with the zone it's read in
+interface ICalValue {
+  date: string;
+  time: string;
+  timeZone: string;
+  dateOnly: boolean;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface RawEvent {
+  uid: string;
+  summary: string;
+  status: string;
+  start: ICalValue | null;
+  end: ICalValue | null;
+  duration: number | null;
+  rrule: string | null;
+  exdates: ICalValue[];
+  rdates: ICalValue[];
+  recurrenceId: ICalValue | null;
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count: number | null;
+  until: Date | null;
+  byDay: { weekday: number; nth: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  weekStart: number;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Stops runaway rules, e.g. a daily rule started decades ago
+const MAX_RECURRENCE_PERIODS = 20000;
+
+// Outlook writes Windows zone names rather than IANA ones
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'Pakistan Standard Time': 'Asia/Karachi',
+  'India Standard Time': 'Asia/Kolkata',
+  'Nepal Standard Time': 'Asia/Kathmandu',
+  'Bangladesh Standard Time': 'Asia/Dhaka',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'New Zealand Standard Time': 'Pacific/Auckland',
+};
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// IANA names are used as they are; anything else falls back to the calendar's zone
+function resolveTimeZone(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback;
+  const name = tzid.replace(/^"|"$/g, '').replace(/^\/[^/]+\/[^/]+\//, '');
+  if (isValidTimeZone(name)) return name;
+  return WINDOWS_TIME_ZONES[name] ?? fallback;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+
+  const head = line.slice(0, split);
+  const name = head.split(';')[0].toUpperCase();
+  const params: Record<string, string> = {};
+  for (const match of head.slice(name.length).matchAll(/;([^=;]+)=("[^"]*"|[^;]*)/g)) {
+    params[match[1].toUpperCase()] = match[2];
+  }
+  return { name, params, value: line.slice(split + 1) };
+}
+
+function parseDateValue(value: string, params: Record<string, string>, defaultZone: string): ICalValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const dateOnly = h === undefined;
+  return {
+    date: `${y}-${mo}-${d}`,
+    time: dateOnly ? '00:00:00' : `${h}:${mi}:${s ?? '00'}`,
+    timeZone: utc ? 'UTC' : resolveTimeZone(params.TZID, defaultZone),
+    dateOnly,
+  };
+}
+
+const parseDateList = (line: ContentLine, defaultZone: string) =>
+  line.value.split(',').map((v) => parseDateValue(v, line.params, defaultZone)).filter((v): v is ICalValue => !!v);
+
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const seconds = (Number(w ?? 0) * 7 + Number(d ?? 0)) * 86400 + Number(h ?? 0) * 3600 + Number(m ?? 0) * 60 + Number(s ?? 0);
+  return (sign === '-' ? -1 : 1) * seconds * 1000;
+}
+
+const toInstant = (value: ICalValue) => zonedTimeToDate(value.date, value.time, value.timeZone);
+
+function parseRecurrenceRule(value: string, start: ICalValue): RecurrenceRule | null {
+  const parts = Object.fromEntries(value.split(';').map((part) => {
+    const [key, ...rest] = part.split('=');
+    return [key.toUpperCase(), rest.join('=')];
+  }));
+
+  const freq = parts.FREQ as RecurrenceRule['freq'];
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  const numbers = (list?: string) => (list ? list.split(',').map(Number).filter((n) => Number.isInteger(n) && n !== 0) : []);
+  // A floating UNTIL is read in the start's zone
+  const until = parts.UNTIL ? parseDateValue(parts.UNTIL, {}, start.timeZone) : null;
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL ?? '1', 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : null,
+    // A date-only UNTIL still includes occurrences later that day, up to midnight
+    until: until
+      ? (until.dateOnly ? new Date(zonedTimeToDate(addDaysToDate(until.date, 1), '00:00', start.timeZone).getTime() - 1) : toInstant(until))
+      : null,
+    byDay: (parts.BYDAY ? parts.BYDAY.split(',') : []).flatMap((day: string) => {
+      const dayMatch = day.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+      return dayMatch ? [{ weekday: WEEKDAYS.indexOf(dayMatch[2]), nth: parseInt(dayMatch[1] ?? '0', 10) }] : [];
+    }),
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+    bySetPos: numbers(parts.BYSETPOS),
+    weekStart: parts.WKST && WEEKDAYS.includes(parts.WKST) ? WEEKDAYS.indexOf(parts.WKST) : 1,
+  };
+}
+
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const toDate = (year: number, month: number, day: number) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// Days of one month picked by BYMONTHDAY and BYDAY, or the start's day of the month
+function getMonthDates(year: number, month: number, rule: RecurrenceRule, startDay: number): string[] {
+  const lastDay = daysInMonth(year, month);
+
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map((day) => (day > 0 ? day : lastDay + day + 1))
+      .filter((day) => day >= 1 && day <= lastDay)
+      .map((day) => toDate(year, month, day))
+      .filter((date) => rule.byDay.length === 0 || rule.byDay.some((d) => d.weekday === weekdayOf(date)));
+  }
+
+  if (rule.byDay.length > 0) {
+    return rule.byDay.flatMap(({ weekday, nth }) => {
+      const matching: string[] = [];
+      for (let day = 1; day <= lastDay; day++) {
+        const date = toDate(year, month, day);
+        if (weekdayOf(date) === weekday) matching.push(date);
+      }
+      if (nth === 0) return matching;
+      const picked = nth > 0 ? matching[nth - 1] : matching[matching.length + nth];
+      return picked ? [picked] : [];
+    });
+  }
+
+  return startDay <= lastDay ? [toDate(year, month, startDay)] : [];
+}
+
+// Candidate dates in the nth period (day, week, month or year) after the start
+function getPeriodDates(rule: RecurrenceRule, start: ICalValue, period: number): { from: string; dates: string[] } {
+  const [startYear, startMonth, startDay] = start.date.split('-').map(Number);
+  const step = period * rule.interval;
+
+  if (rule.freq === 'DAILY') {
+    const date = addDaysToDate(start.date, step);
+    const [year, month, day] = date.split('-').map(Number);
+    const lastDay = daysInMonth(year, month);
+    const matches = (rule.byMonth.length === 0 || rule.byMonth.includes(month))
+      && (rule.byMonthDay.length === 0 || rule.byMonthDay.some((d) => (d > 0 ? d : lastDay + d + 1) === day))
+      && (rule.byDay.length === 0 || rule.byDay.some((d) => d.weekday === weekdayOf(date)));
+    return { from: date, dates: matches ? [date] : [] };
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const weekStart = addDaysToDate(start.date, -((weekdayOf(start.date) - rule.weekStart + 7) % 7) + step * 7);
+    const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [weekdayOf(start.date)];
+    const dates = weekdays
+      .map((weekday) => addDaysToDate(weekStart, (weekday - rule.weekStart + 7) % 7))
+      .filter((date) => rule.byMonth.length === 0 || rule.byMonth.includes(Number(date.slice(5, 7))));
+    return { from: weekStart, dates };
+  }
+
+  if (rule.freq === 'MONTHLY') {
+    const monthIndex = startYear * 12 + (startMonth - 1) + step;
+    const year = Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    const dates = rule.byMonth.length === 0 || rule.byMonth.includes(month) ? getMonthDates(year, month, rule, startDay) : [];
+    return { from: toDate(year, month, 1), dates };
+  }
+
+  const year = startYear + step;
+  const months = rule.byMonth.length > 0 ? rule.byMonth : [startMonth];
+  return { from: toDate(year, 1, 1), dates: months.flatMap((month) => getMonthDates(year, month, rule, startDay)) };
+}
+
+// Start of every occurrence of a recurring event up to rangeEnd, in its own zone
+function expandRecurrence(start: ICalValue, rule: RecurrenceRule, rangeEnd: Date): ICalValue[] {
+  const occurrences: ICalValue[] = [];
+  let count = 0;
+
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+    const { from, dates } = getPeriodDates(rule, start, period);
+    if (toInstant({ ...start, date: from }) > rangeEnd) break;
+
+    let periodDates = [...new Set(dates)].sort();
+    if (rule.bySetPos.length > 0) {
+      periodDates = rule.bySetPos
+        .map((pos) => (pos > 0 ? periodDates[pos - 1] : periodDates[periodDates.length + pos]))
+        .filter((date): date is string => !!date)
+        .sort();
+    }
+
+    for (const date of periodDates) {
+      if (date < start.date) continue;
+      const occurrence = { ...start, date };
+      const instant = toInstant(occurrence);
+      if ((rule.until && instant > rule.until) || (rule.count !== null && count >= rule.count) || instant > rangeEnd) {
+        return occurrences;
+      }
+      count++;
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+}
+
+function readRawEvents(icalText: string, defaultZone: string): RawEvent[] {
+  const lines = icalText.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').replace(/\r/g, '').split('\n');
+
+  // Floating times are read in the calendar's own zone when it names one
+  const calendarZone = lines.map((line) => line.match(/^X-WR-TIMEZONE:(.+)$/i)?.[1].trim()).find(Boolean);
+  const zone = resolveTimeZone(calendarZone, defaultZone);
+
+  const events: RawEvent[] = [];
+  let current: RawEvent | null = null;
+  // Alarms and other components nested in an event have properties of their own
+  let depth = 0;
+
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine.trim());
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT' && !current) {
+        current = { uid: '', summary: '', status: '', start: null, end: null, duration: null, rrule: null, exdates: [], rdates: [], recurrenceId: null };
+        depth = 0;
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+    if (line.name === 'END') {
+      if (current && depth > 0) depth--;
+      else if (current && line.value.toUpperCase() === 'VEVENT') {
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || depth > 0) continue;
+
+    switch (line.name) {
+      case 'UID': current.uid = line.value; break;
+      case 'SUMMARY': current.summary = line.value; break;
+      case 'STATUS': current.status = line.value.toUpperCase(); break;
+      case 'DTSTART': current.start = parseDateValue(line.value, line.params, zone); break;
+      case 'DTEND': current.end = parseDateValue(line.value, line.params, zone); break;
+      case 'DURATION': current.duration = parseDuration(line.value); break;
+      case 'RRULE': current.rrule = line.value; break;
+      case 'EXDATE': current.exdates.push(...parseDateList(line, zone)); break;
+      case 'RDATE': current.rdates.push(...parseDateList(line, zone)); break;
+      case 'RECURRENCE-ID': current.recurrenceId = parseDateValue(line.value, line.params, zone); break;
+    }
+  }
+
+  return events;
+}
+
+// How long an event lasts: DTEND, DURATION, or a day for all-day events
+function getEventDuration(event: RawEvent, start: ICalValue): number {
+  if (event.end) return toInstant(event.end).getTime() - toInstant(start).getTime();
+  if (event.duration !== null) return event.duration;
+  return start.dateOnly ? DAY_MS : 0;
+}
+
+/**
+ * Events overlapping a date range, with recurring events expanded into their
+ * occurrences. RRULE, RDATE, EXDATE and RECURRENCE-ID overrides are honoured,
+ * and times with a TZID are read in that zone. Floating times use the
+ * calendar's X-WR-TIMEZONE, or defaultZone when it has none.
+ */
+export function readCalendarEvents(icalText: string, rangeStart: Date, rangeEnd: Date, defaultZone = 'UTC'): ParsedEvent[] {
+  const rawEvents = readRawEvents(icalText, defaultZone);
+  const results: ParsedEvent[] = [];
+
+  // Occurrences moved or cancelled by an override are replaced by that override
+  const overridden = new Set(
+    rawEvents.filter((e) => e.recurrenceId).map((e) => `${e.uid}|${toInstant(e.recurrenceId!).getTime()}`),
+  );
+
+  const addOccurrence = (event: RawEvent, start: ICalValue, duration: number) => {
+    const startInstant = toInstant(start);
+    const endInstant = new Date(startInstant.getTime() + duration);
+    if (startInstant < rangeEnd && endInstant > rangeStart) {
+      results.push({ uid: event.uid, start: startInstant.toISOString(), end: endInstant.toISOString(), summary: event.summary });
+    }
+  };
+
+  for (const event of rawEvents) {
+    if (!event.start || event.status === 'CANCELLED') continue;
+    const duration = getEventDuration(event, event.start);
+
+    const rule = !event.recurrenceId && event.rrule ? parseRecurrenceRule(event.rrule, event.start) : null;
+    if (!rule && event.rdates.length === 0) {
+      addOccurrence(event, event.start, duration);
+      continue;
+    }
+
+    const excluded = new Set<string | number>(event.exdates.map((d) => (d.dateOnly ? d.date : toInstant(d).getTime())));
+    const starts = [...(rule ? expandRecurrence(event.start, rule, rangeEnd) : [event.start]), ...event.rdates];
+    const seen = new Set<number>();
+
+    for (const start of starts) {
+      const instant = toInstant(start).getTime();
+      if (seen.has(instant) || excluded.has(instant) || excluded.has(start.date)) continue;
+      if (overridden.has(`${event.uid}|${instant}`)) continue;
+      seen.add(instant);
+      addOccurrence(event, start, duration);
+    }
+  }
+
+  return results.sort((a, b) => a.start.localeCompare(b.start));
+}
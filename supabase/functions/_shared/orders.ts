@@ -0,0 +1,67 @@
+// Order bookkeeping shared by the payment edge functions.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Payments that complete after their order was released or expired
+export const LATE_PAYMENT_REFUND_NOTE = 'Paid after the reservation had expired';
+
+// Flags a released order's payment for the organizer to refund by hand, when
+// the automatic refund didn't go through
+export async function flagOrderRefund(supabase: SupabaseClient, orderId: string, refundMethod: string, refundNote: string) {
+  const { error } = await supabase
+    .from('orders')
+    .update({ refund_status: 'refund_requested', refund_method: refundMethod, refund_note: refundNote })
+    .eq('id', orderId)
+    .eq('status', 'cancelled')
+    .is('refund_status', null);
+  if (error) console.error(`Failed to flag order ${orderId} for a refund:`, error);
+}
+
+// Records a refund the payment functions made on a cancelled order and
+// emails the buyer. Does nothing if the refund was already recorded.
+export async function recordOrderRefund(
+  supabase: SupabaseClient,
+  orderId: string,
+  refundMethod: string,
+  refundNote: string,
+  paymentIds: Record<string, string | null> = {},
+) {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .update({
+      ...paymentIds,
+      refund_status: 'refunded',
+      refund_method: refundMethod,
+      refund_note: refundNote,
+      refunded_at: new Date().toISOString(),
+    })
+    .eq('id', orderId)
+    .eq('status', 'cancelled')
+    .or('refund_status.is.null,refund_status.eq.refund_requested')
+    .select('total_amount, buyer_email, buyer_name, events(title, date, time, location_name)')
+    .maybeSingle();
+  if (error) throw error;
+  if (!order) return;
+
+  const orderEvent = order.events as { title: string; date: string; time: string; location_name: string | null } | null;
+  try {
+    await supabase.functions.invoke('send-booking-email', {
+      body: {
+        to: order.buyer_email,
+        attendeeName: order.buyer_name,
+        eventTitle: orderEvent?.title || 'Event',
+        eventDate: orderEvent?.date
+          ? new Date(orderEvent.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+          : 'TBA',
+        eventTime: orderEvent?.time || 'TBA',
+        eventLocation: orderEvent?.location_name || 'TBA',
+        status: 'refunded',
+        orderId,
+        refundAmount: Number(order.total_amount),
+        refundMethod,
+        refundNote,
+      }
+    });
+  } catch (emailError) {
+    console.error('Failed to send refund email:', emailError);
+  }
+}
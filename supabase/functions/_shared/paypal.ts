@@ -0,0 +1,126 @@
+// Minimal PayPal Orders v2 client shared by the PayPal edge functions.
+// Defaults to live; set PAYPAL_API_BASE=https://api-m.sandbox.paypal.com for sandbox testing.
+const PAYPAL_API_BASE = Deno.env.get('PAYPAL_API_BASE') ?? 'https://api-m.paypal.com';
+
+export class PayPalError extends Error {
+  status: number;
+  issue?: string;
+
+  constructor(message: string, status: number, issue?: string) {
+    super(message);
+    this.status = status;
+    this.issue = issue;
+  }
+}
+
+export interface PayPalCapture {
+  id: string;
+  status: string;
+  custom_id?: string;
+  amount: { currency_code: string; value: string };
+  supplementary_data?: { related_ids?: { order_id?: string } };
+}
+
+export interface PayPalOrder {
+  id: string;
+  status: string;
+  purchase_units?: {
+    reference_id?: string;
+    custom_id?: string;
+    payments?: { captures?: PayPalCapture[] };
+  }[];
+}
+
+async function getAccessToken(): Promise<string> {
+  const clientId = Deno.env.get('PAYPAL_CLIENT_ID');
+  const clientSecret = Deno.env.get('PAYPAL_CLIENT_SECRET');
+  if (!clientId || !clientSecret) {
+    throw new PayPalError('PayPal is not configured', 500);
+  }
+
+  const response = await fetch(`${PAYPAL_API_BASE}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    console.error('PayPal auth error:', data);
+    throw new PayPalError('Could not authenticate with PayPal', response.status);
+  }
+
+  return data.access_token;
+}
+
+// requestId makes POSTs idempotent, so a retried capture never charges twice
+export async function paypalRequest<T = Record<string, unknown>>(
+  path: string,
+  body?: unknown,
+  method: 'GET' | 'POST' = 'POST',
+  requestId?: string,
+): Promise<T> {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(`${PAYPAL_API_BASE}/v2/${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      ...(requestId ? { 'PayPal-Request-Id': requestId } : {}),
+    },
+    body: method === 'POST' ? JSON.stringify(body ?? {}) : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    console.error('PayPal API error:', data);
+    throw new PayPalError(
+      data?.details?.[0]?.description ?? data?.message ?? `PayPal returned ${response.status}`,
+      response.status,
+      data?.details?.[0]?.issue,
+    );
+  }
+
+  return data as T;
+}
+
+// Asks PayPal whether a webhook delivery really came from it, using the
+// transmission headers and the id of the webhook it was sent for
+export async function verifyPayPalWebhook(headers: Headers, event: unknown, webhookId: string): Promise<boolean> {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(`${PAYPAL_API_BASE}/v1/notifications/verify-webhook-signature`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      auth_algo: headers.get('PayPal-Auth-Algo'),
+      cert_url: headers.get('PayPal-Cert-Url'),
+      transmission_id: headers.get('PayPal-Transmission-Id'),
+      transmission_sig: headers.get('PayPal-Transmission-Sig'),
+      transmission_time: headers.get('PayPal-Transmission-Time'),
+      webhook_id: webhookId,
+      webhook_event: event,
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    console.error('PayPal webhook verification error:', data);
+    return false;
+  }
+  return data.verification_status === 'SUCCESS';
+}
+
+// Gives a whole capture back to the buyer; requestId keeps retries to one refund
+export const refundPayPalCapture = (captureId: string, requestId: string) =>
+  paypalRequest(`payments/captures/${captureId}/refund`, {}, 'POST', requestId);
+
+// PayPal amounts are decimal strings with two places
+export const toPayPalAmount = (amount: number): string => amount.toFixed(2);
@@ -0,0 +1,108 @@
+// Minimal Stripe REST client shared by the payment edge functions.
+// Set STRIPE_API_BASE to point at a local stripe-mock (e.g. http://localhost:12111) in tests.
+const STRIPE_API_BASE = Deno.env.get('STRIPE_API_BASE') ?? 'https://api.stripe.com';
+
+type StripeParams = Record<string, string | number | boolean | null | undefined>;
+
+export class StripeError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Params use Stripe's bracket notation directly, e.g. { 'line_items[0][quantity]': 2 }
+const encodeParams = (params: StripeParams): string => {
+  const body = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === null || value === undefined) continue;
+    body.append(key, String(value));
+  }
+  return body.toString();
+};
+
+// idempotencyKey makes POSTs safe to retry, e.g. a refund from a redelivered webhook
+export async function stripeRequest<T = Record<string, unknown>>(
+  path: string,
+  params: StripeParams = {},
+  method: 'GET' | 'POST' = 'POST',
+  idempotencyKey?: string,
+): Promise<T> {
+  const secretKey = Deno.env.get('STRIPE_SECRET_KEY');
+  if (!secretKey) {
+    throw new StripeError('Stripe is not configured', 500);
+  }
+
+  const encoded = encodeParams(params);
+  const url = method === 'GET' && encoded
+    ? `${STRIPE_API_BASE}/v1/${path}?${encoded}`
+    : `${STRIPE_API_BASE}/v1/${path}`;
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+    },
+    body: method === 'POST' ? encoded : undefined,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    console.error('Stripe API error:', data);
+    throw new StripeError(data?.error?.message ?? `Stripe returned ${response.status}`, response.status);
+  }
+
+  return data as T;
+}
+
+// Stripe amounts are integers in the smallest currency unit
+export const toStripeAmount = (amount: number): number => Math.round(amount * 100);
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map((b) => b.toString(16).padStart(2, '0')).join('');
+
+// Constant-time comparison so signature checks don't leak timing information
+const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+};
+
+// Verifies a Stripe-Signature header (t=...,v1=...) against the raw request body
+export async function verifyStripeSignature(
+  payload: string,
+  signatureHeader: string | null,
+  secret: string,
+  toleranceSeconds = 300,
+): Promise<boolean> {
+  if (!signatureHeader) return false;
+
+  const parts = signatureHeader.split(',').map((p) => p.split('='));
+  const timestamp = parts.find(([k]) => k === 't')?.[1];
+  const signatures = parts.filter(([k]) => k === 'v1').map(([, v]) => v);
+
+  if (!timestamp || signatures.length === 0) return false;
+
+  const age = Math.abs(Date.now() / 1000 - parseInt(timestamp, 10));
+  if (isNaN(age) || age > toleranceSeconds) return false;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const expected = toHex(
+    await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`)),
+  );
+
+  return signatures.some((sig) => safeEqual(sig, expected));
+}
@@ -0,0 +1,105 @@
+// Reads a teacher's outside calendars: the iCal feed whose events are their
+// bookable times, and the connected CalDAV calendar whose events are busy.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { addDaysToDate, readCalendarEvents, zonedTimeToDate } from "./ical.ts";
+import { type CalDavCalendar, fetchCalendarData } from "./caldav.ts";
+
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+export class IcalFeedError extends Error {}
+
+// Google Calendar sharing links become their iCal feed URLs
+function resolveIcalUrl(url: string): string {
+  const cidMatch = url.match(/[?&]cid=([A-Za-z0-9+/=]+)/);
+  if (!cidMatch) return url;
+  try {
+    const decoded = atob(cidMatch[1]);
+    if (decoded.includes('@')) {
+      return `https://calendar.google.com/calendar/ical/${encodeURIComponent(decoded)}/public/basic.ics`;
+    }
+  } catch (e) {
+    console.error('Failed to decode cid:', e);
+  }
+  return url;
+}
+
+// Bookable times from the class's iCal feed. Recurring availability is
+// expanded; floating times are the teacher's own.
+export async function fetchIcalSlots(icalUrl: string, rangeStart: Date, rangeEnd: Date, timeZone: string): Promise<TimeRange[]> {
+  const icalResponse = await fetch(resolveIcalUrl(icalUrl));
+  if (!icalResponse.ok) {
+    console.error('Failed to fetch iCal:', icalResponse.status);
+    throw new IcalFeedError('Failed to fetch calendar');
+  }
+
+  const icalText = await icalResponse.text();
+  if (!icalText.includes('BEGIN:VCALENDAR')) {
+    throw new IcalFeedError('Invalid iCal feed. Please use the "Secret address in iCal format" from Google Calendar settings.');
+  }
+
+  // Start/end only — no private details like summary
+  return readCalendarEvents(icalText, rangeStart, rangeEnd, timeZone).map((e) => ({ start: e.start, end: e.end }));
+}
+
+// The teacher's connected CalDAV calendar, with its password from Vault
+export async function fetchTeacherCalendar(supabase: SupabaseClient, teacherId: string): Promise<CalDavCalendar | null> {
+  const { data, error } = await supabase.rpc('get_teacher_calendar', { _user_id: teacherId });
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+// Busy times from the teacher's connected CalDAV calendar. Lessons we wrote
+// there ourselves are skipped, since bookings already block their slots.
+export async function fetchBusyTimes(
+  supabase: SupabaseClient,
+  teacherId: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string,
+): Promise<TimeRange[]> {
+  try {
+    const calendar = await fetchTeacherCalendar(supabase, teacherId);
+    if (!calendar) return [];
+
+    const resources = await fetchCalendarData(calendar, rangeStart, rangeEnd);
+    return resources
+      .flatMap((ics) => readCalendarEvents(ics, rangeStart, rangeEnd, timeZone))
+      .filter((e) => !(e.uid.startsWith('lesson-') && e.uid.endsWith('@raagconnect')))
+      .map((e) => ({ start: e.start, end: e.end }));
+  } catch (err) {
+    // A broken connection shouldn't hide the teacher's availability
+    console.error('Failed to read connected calendar:', err);
+    return [];
+  }
+}
+
+// The teacher's pending and confirmed lessons in all of their classes that
+// fall on the dates given (each in its own class's zone), give or take a day.
+// Only times are returned, never who booked.
+export async function fetchLessonTimes(
+  supabase: SupabaseClient,
+  teacherId: string,
+  fromDate: string,
+  toDate: string,
+): Promise<TimeRange[]> {
+  const { data, error } = await supabase
+    .from('class_bookings')
+    .select('booking_date, start_time, end_time, classes!inner(user_id, time_zone)')
+    .eq('classes.user_id', teacherId)
+    .in('status', ['pending', 'confirmed'])
+    .gte('booking_date', addDaysToDate(fromDate, -1))
+    .lte('booking_date', addDaysToDate(toDate, 1));
+  if (error) throw error;
+
+  return (data ?? []).map((b) => {
+    const zone = (b.classes as unknown as { time_zone: string | null }).time_zone || 'UTC';
+    const endDate = b.end_time <= b.start_time ? addDaysToDate(b.booking_date, 1) : b.booking_date;
+    return {
+      start: zonedTimeToDate(b.booking_date, b.start_time, zone).toISOString(),
+      end: zonedTimeToDate(endDate, b.end_time, zone).toISOString(),
+    };
+  });
+}
@@ -72,6 +72,8 @@ Extract the following details from the event flyer image:
 - Event title/name
 - Date (in YYYY-MM-DD format if possible)
 - Time (in HH:MM 24-hour format if possible)
+- End date, only for events that run over several days (in YYYY-MM-DD format)
+- End time (in HH:MM 24-hour format if possible)
 - Location/venue name
 - Price (just the number, no currency symbol)
 - Any additional notes or details
@@ -83,7 +85,7 @@ If you cannot determine a field, leave it as null. Be accurate and only extract
             content: [
               {
                 type: 'text',
-                text: 'Please analyze this event flyer and extract the event details. Return the information as a JSON object with these fields: title, date, time, location, price, notes'
+                text: 'Please analyze this event flyer and extract the event details. Return the information as a JSON object with these fields: title, date, time, end_date, end_time, location, price, notes'
               },
               {
                 type: 'image_url',
@@ -106,6 +108,8 @@ If you cannot determine a field, leave it as null. Be accurate and only extract
                   title: { type: 'string', description: 'The event title or name' },
                   date: { type: 'string', description: 'The event date in YYYY-MM-DD format' },
                   time: { type: 'string', description: 'The event time in HH:MM 24-hour format' },
+                  end_date: { type: 'string', description: 'The last day in YYYY-MM-DD format, only if the event spans several days' },
+                  end_time: { type: 'string', description: 'The time the event ends in HH:MM 24-hour format' },
                   location: { type: 'string', description: 'The venue or location name' },
                   price: { type: 'string', description: 'The ticket price as a number' },
                   notes: { type: 'string', description: 'Any additional event details or notes' }
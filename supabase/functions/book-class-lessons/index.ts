@@ -0,0 +1,346 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { addDaysToDate, getZonedDateTime, zonedTimeToDate } from "../_shared/ical.ts";
+import { fetchBusyTimes, fetchIcalSlots, fetchLessonTimes, IcalFeedError, type TimeRange } from "../_shared/teacherCalendar.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+const timeRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const MAX_SESSIONS = 26;
+const MAX_SERIES_DAYS = 183;
+
+const REPEAT_WEEKS: Record<string, number> = { none: 0, weekly: 1, biweekly: 2 };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+class BookingError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+interface Occurrence {
+  date: string;
+  start_time: string;
+  end_time: string;
+  start: Date;
+  end: Date;
+  conflict: string | null;
+}
+
+interface Availability {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  slot_duration_minutes: number;
+}
+
+interface AvailabilityOverride {
+  kind: string;
+  start_date: string;
+  end_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  slot_duration_minutes: number | null;
+}
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const overlaps = (occurrence: Occurrence, range: TimeRange, paddingMinutes = 0) =>
+  new Date(range.start).getTime() < occurrence.end.getTime() + paddingMinutes * 60000
+  && new Date(range.end).getTime() > occurrence.start.getTime() - paddingMinutes * 60000;
+
+// Every date of the plan, in the class's zone. Biweekly plans skip a week;
+// a plan ends after its session count or on its end date, whichever is given.
+function planDates(firstDate: string, intervalWeeks: number, sessions: number | null, until: string | null): string[] {
+  if (intervalWeeks === 0) return [firstDate];
+
+  const dates: string[] = [];
+  for (let date = firstDate; dates.length < MAX_SESSIONS; date = addDaysToDate(date, intervalWeeks * 7)) {
+    if (sessions !== null && dates.length >= sessions) break;
+    if (until !== null && date > until) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+// The availability slot grid, as ClassCalendarView builds it
+function fitsAvailability(occurrence: Occurrence, availability: Availability): boolean {
+  if (new Date(`${occurrence.date}T00:00:00Z`).getUTCDay() !== availability.day_of_week) return false;
+  const start = toMinutes(occurrence.start_time);
+  const windowStart = toMinutes(availability.start_time);
+  return start >= windowStart
+    && (start - windowStart) % availability.slot_duration_minutes === 0
+    && start + availability.slot_duration_minutes <= toMinutes(availability.end_time)
+    && toMinutes(occurrence.end_time) === start + availability.slot_duration_minutes;
+}
+
+// Time off covering the occurrence: the whole day, or hours overlapping it
+function isTimeOff(occurrence: Occurrence, override: AvailabilityOverride): boolean {
+  if (override.kind !== 'unavailable' || occurrence.date < override.start_date || occurrence.date > override.end_date) {
+    return false;
+  }
+  if (!override.start_time || !override.end_time) return true;
+  const start = toMinutes(occurrence.start_time);
+  const end = occurrence.end_time <= occurrence.start_time ? 24 * 60 : toMinutes(occurrence.end_time);
+  return start < toMinutes(override.end_time) && end > toMinutes(override.start_time);
+}
+
+// An extra date's window, read like a weekly availability row
+function fitsExtraDate(occurrence: Occurrence, override: AvailabilityOverride): boolean {
+  if (override.kind !== 'available' || occurrence.date !== override.start_date) return false;
+  return fitsAvailability(occurrence, {
+    day_of_week: new Date(`${override.start_date}T00:00:00Z`).getUTCDay(),
+    start_time: override.start_time!,
+    end_time: override.end_time!,
+    slot_duration_minutes: override.slot_duration_minutes!,
+  });
+}
+
+// Books one lesson or a recurring plan of them. With preview set, only checks
+// each occurrence and reports conflicts; otherwise refuses to book unless
+// every occurrence is free, then creates the series and its pending lessons,
+// paying for them with the student's lesson credits when asked. The class's
+// booking rules apply as in ClassCalendarView: notice, how far ahead the
+// first lesson can be, time off and extra dates, the gap kept around other
+// lessons and the lessons a day.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: 'Invalid or expired token' }, 401);
+    }
+    const userId = claimsData.claims.sub as string;
+
+    const {
+      classId,
+      availabilityId = null,
+      date,
+      startTime,
+      endTime,
+      repeat = 'none',
+      sessions = null,
+      until = null,
+      studentName,
+      studentEmail,
+      notes = null,
+      useCredits = false,
+      preview = false,
+    } = await req.json();
+
+    if (typeof classId !== 'string' || !uuidRegex.test(classId)) {
+      throw new BookingError('Invalid classId');
+    }
+    if (availabilityId !== null && (typeof availabilityId !== 'string' || !uuidRegex.test(availabilityId))) {
+      throw new BookingError('Invalid availabilityId');
+    }
+    if (typeof date !== 'string' || !dateRegex.test(date)
+      || typeof startTime !== 'string' || !timeRegex.test(startTime)
+      || typeof endTime !== 'string' || !timeRegex.test(endTime)) {
+      throw new BookingError('Choose a date and time');
+    }
+    if (!(repeat in REPEAT_WEEKS)) {
+      throw new BookingError('repeat must be none, weekly or biweekly');
+    }
+    const intervalWeeks = REPEAT_WEEKS[repeat];
+    if (intervalWeeks > 0) {
+      if ((sessions === null) === (until === null)) {
+        throw new BookingError('Choose a number of sessions or an end date');
+      }
+      if (sessions !== null && (!Number.isInteger(sessions) || sessions < 2 || sessions > MAX_SESSIONS)) {
+        throw new BookingError(`Recurring plans can have 2 to ${MAX_SESSIONS} sessions`);
+      }
+      if (until !== null && (typeof until !== 'string' || !dateRegex.test(until) || until <= date)) {
+        throw new BookingError('The end date has to be after the first lesson');
+      }
+      if (until !== null && until > addDaysToDate(date, MAX_SERIES_DAYS)) {
+        throw new BookingError('Recurring plans can run for up to six months');
+      }
+    }
+    if (!preview) {
+      if (typeof studentName !== 'string' || !studentName.trim() || studentName.length > 100) {
+        throw new BookingError('Enter your name');
+      }
+      if (typeof studentEmail !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(studentEmail.trim())) {
+        throw new BookingError('Enter a valid email');
+      }
+      if (notes !== null && (typeof notes !== 'string' || notes.length > 1000)) {
+        throw new BookingError('Notes are too long');
+      }
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: cls } = await supabase
+      .from('classes')
+      .select('id, user_id, time_zone, ical_url, min_notice_hours, booking_horizon_days, buffer_minutes, daily_lesson_cap')
+      .eq('id', classId)
+      .maybeSingle();
+    if (!cls) throw new BookingError('Class not found', 404);
+    if (cls.user_id === userId) throw new BookingError("You can't book your own class");
+
+    let availability: Availability | null = null;
+    if (availabilityId) {
+      const { data } = await supabase
+        .from('class_availability')
+        .select('day_of_week, start_time, end_time, slot_duration_minutes')
+        .eq('id', availabilityId)
+        .eq('class_id', classId)
+        .maybeSingle();
+      if (!data) throw new BookingError('That time is no longer offered');
+      availability = data;
+    }
+
+    const timeZone = cls.time_zone || 'UTC';
+    const overnight = endTime <= startTime;
+    const occurrences: Occurrence[] = planDates(date, intervalWeeks, sessions, until).map((d) => ({
+      date: d,
+      start_time: startTime,
+      end_time: endTime,
+      start: zonedTimeToDate(d, startTime, timeZone),
+      end: zonedTimeToDate(overnight ? addDaysToDate(d, 1) : d, endTime, timeZone),
+      conflict: null,
+    }));
+    if (intervalWeeks > 0 && occurrences.length < 2) {
+      throw new BookingError('The end date leaves only one lesson');
+    }
+
+    const rangeStart = occurrences[0].start;
+    const rangeEnd = occurrences[occurrences.length - 1].end;
+    const lastDate = occurrences[occurrences.length - 1].date;
+
+    // Slots from the teacher's iCal feed stand in for availability rows
+    let icalSlots: TimeRange[] = [];
+    if (!availability && cls.ical_url) {
+      try {
+        icalSlots = await fetchIcalSlots(cls.ical_url, rangeStart, rangeEnd, timeZone);
+      } catch (err) {
+        if (!(err instanceof IcalFeedError)) throw err;
+        throw new BookingError("The teacher's calendar couldn't be read. Please try again later.", 503);
+      }
+    }
+
+    const { data: overrides, error: overridesError } = await supabase
+      .from('class_availability_overrides')
+      .select('kind, start_date, end_date, start_time, end_time, slot_duration_minutes')
+      .eq('class_id', classId)
+      .lte('start_date', lastDate)
+      .gte('end_date', date);
+    if (overridesError) throw overridesError;
+
+    // Lessons in any of the teacher's classes block the time
+    const takenRanges = await fetchLessonTimes(supabase, cls.user_id, date, lastDate);
+    const lessonsByDate = new Map<string, number>();
+    for (const range of takenRanges) {
+      const day = getZonedDateTime(new Date(range.start), timeZone).date;
+      lessonsByDate.set(day, (lessonsByDate.get(day) ?? 0) + 1);
+    }
+
+    const busyTimes = await fetchBusyTimes(supabase, cls.user_id, rangeStart, rangeEnd, timeZone);
+
+    const now = new Date();
+    const earliestStart = new Date(now.getTime() + cls.min_notice_hours * 60 * 60 * 1000);
+    // A plan may run past the horizon once its first lesson is inside it
+    const lastBookableDate = addDaysToDate(getZonedDateTime(now, timeZone).date, cls.booking_horizon_days - 1);
+    for (const occurrence of occurrences) {
+      if (occurrence.start <= now) {
+        occurrence.conflict = 'This time has already passed';
+      } else if (occurrence.start < earliestStart) {
+        occurrence.conflict = `Lessons need ${cls.min_notice_hours} hours' notice`;
+      } else if (occurrence === occurrences[0] && occurrence.date > lastBookableDate) {
+        occurrence.conflict = `Lessons can be booked up to ${cls.booking_horizon_days} days ahead`;
+      } else if ((overrides ?? []).some((o) => isTimeOff(occurrence, o))) {
+        occurrence.conflict = 'The teacher is away then';
+      } else if (!(availability ? fitsAvailability(occurrence, availability)
+        : icalSlots.some((slot) => new Date(slot.start) <= occurrence.start && new Date(slot.end) >= occurrence.end))
+        && !(overrides ?? []).some((o) => fitsExtraDate(occurrence, o))) {
+        occurrence.conflict = "The teacher isn't available then";
+      } else if (takenRanges.some((range) => overlaps(occurrence, range))) {
+        occurrence.conflict = 'Already booked';
+      } else if (takenRanges.some((range) => overlaps(occurrence, range, cls.buffer_minutes))) {
+        occurrence.conflict = 'Too close to another lesson';
+      } else if (cls.daily_lesson_cap !== null && (lessonsByDate.get(occurrence.date) ?? 0) >= cls.daily_lesson_cap) {
+        occurrence.conflict = 'The teacher is fully booked that day';
+      } else if (busyTimes.some((range) => overlaps(occurrence, range))) {
+        occurrence.conflict = 'The teacher is busy then';
+      }
+    }
+
+    const summary = occurrences.map(({ date, start_time, end_time, conflict }) => ({ date, start_time, end_time, conflict }));
+    if (preview) {
+      return jsonResponse({ occurrences: summary });
+    }
+    if (occurrences.some((o) => o.conflict)) {
+      return jsonResponse({ error: "Some of these lessons can't be booked", occurrences: summary }, 409);
+    }
+
+    // The final check, the insert and any credit payment happen together
+    // under the teacher's lock
+    const { data: bookings, error: insertError } = await supabase.rpc('book_class_lessons', {
+      _class_id: classId,
+      _user_id: userId,
+      _availability_id: availabilityId,
+      _student_name: studentName.trim(),
+      _student_email: studentEmail.trim(),
+      _notes: notes?.trim() || null,
+      _dates: occurrences.map((o) => o.date),
+      _start_time: startTime,
+      _end_time: endTime,
+      _interval_weeks: intervalWeeks,
+      _session_count: sessions,
+      _end_date: until,
+      _use_credits: useCredits === true,
+    });
+    if (insertError) {
+      // Raised when someone else took the time since the checks above, or
+      // when the student's credits don't cover every lesson
+      if (insertError.code === 'P0001') throw new BookingError(insertError.message, 409);
+      throw insertError;
+    }
+
+    const seriesId: string | null = bookings?.[0]?.series_id ?? null;
+    const bookingIds = (bookings ?? []).map((b) => b.id);
+
+    return jsonResponse({ seriesId, bookingIds, occurrences: summary });
+  } catch (err) {
+    if (err instanceof BookingError) {
+      return jsonResponse({ error: err.message }, err.status);
+    }
+    console.error('Error booking lessons:', err);
+    return jsonResponse({ error: 'Could not book the lessons' }, 500);
+  }
+});
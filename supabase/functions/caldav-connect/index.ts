@@ -0,0 +1,89 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { assertCalendarUrl, CalDavError, checkCalendar } from "../_shared/caldav.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Connects or disconnects the caller's CalDAV calendar. Connecting checks the
+// calendar with the given credentials before saving them.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: 'Invalid or expired token' }, 401);
+    }
+    const userId = claimsData.claims.sub as string;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { action, calendarUrl, username, password } = await req.json();
+
+    if (action === 'disconnect') {
+      const { error } = await supabase.from('teacher_calendars').delete().eq('user_id', userId);
+      if (error) throw error;
+      return jsonResponse({ connected: false });
+    }
+
+    if (action !== 'connect') {
+      return jsonResponse({ error: 'action must be connect or disconnect' }, 400);
+    }
+    if (typeof calendarUrl !== 'string' || calendarUrl.length > 500) {
+      return jsonResponse({ error: 'Enter the calendar URL' }, 400);
+    }
+    if (typeof username !== 'string' || !username.trim() || username.length > 200) {
+      return jsonResponse({ error: 'Enter the calendar username' }, 400);
+    }
+    if (typeof password !== 'string' || !password || password.length > 500) {
+      return jsonResponse({ error: 'Enter the calendar password' }, 400);
+    }
+
+    const calendar = { calendar_url: calendarUrl.trim(), username: username.trim(), password };
+    assertCalendarUrl(calendar.calendar_url);
+    const displayName = await checkCalendar(calendar);
+
+    // The password is kept in Vault; the table only refers to it
+    const { error } = await supabase.rpc('save_teacher_calendar', {
+      _user_id: userId,
+      _calendar_url: calendar.calendar_url,
+      _username: calendar.username,
+      _password: calendar.password,
+      _display_name: displayName,
+    });
+    if (error) throw error;
+
+    return jsonResponse({ connected: true, displayName });
+  } catch (err) {
+    if (err instanceof CalDavError) {
+      return jsonResponse({ error: err.message }, 400);
+    }
+    console.error('Error connecting calendar:', err);
+    return jsonResponse({ error: 'Could not connect the calendar' }, 500);
+  }
+});
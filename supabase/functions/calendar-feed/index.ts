@@ -0,0 +1,301 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { addDaysToDate, addMinutes, buildCalendar, getZonedDateTime, type ICalEvent, type ICalTime } from "../_shared/ical.ts";
+
+// Subscribable iCal feeds, fetched directly by calendar apps:
+//   ?type=events&lat=..&lng=..&radius=..  upcoming events near a location (radius in miles)
+//   ?type=artist&id=..                     upcoming events for an artist
+//   ?type=teacher&id=..                    a teacher's weekly group classes
+//   ?type=bookings&token=..                a user's tickets and lessons (private token)
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Matches DEFAULT_EVENT_DURATION_HOURS in src/lib/eventTimes.ts
+const DEFAULT_DURATION_MINUTES = 120;
+const DEFAULT_LESSON_MINUTES = 60;
+const DEFAULT_RADIUS_MILES = 50;
+const GROUP_CLASS_WEEKS = 12;
+const MAX_EVENTS = 500;
+
+const EVENT_COLUMNS = 'id, title, date, time, end_date, end_time, time_zone, location_name, location_lat, location_lng, notes';
+
+interface FeedEvent {
+  id: string;
+  title: string;
+  date: string;
+  time: string;
+  end_date: string | null;
+  end_time: string | null;
+  time_zone: string | null;
+  location_name: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+  notes: string | null;
+}
+
+interface FeedClass {
+  id: string;
+  title: string;
+  time_zone: string | null;
+  location_name: string | null;
+  class_type: string;
+}
+
+class FeedError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const siteUrl = () => Deno.env.get('SITE_URL') ?? 'https://raagconnect.com';
+
+// Yesterday in UTC, so events that are still today somewhere aren't dropped
+const recentDate = () => addDaysToDate(new Date().toISOString().split('T')[0], -1);
+
+// Start and end of an event, mirroring getEventEnd in src/lib/eventTimes.ts
+function getEventTimes(event: FeedEvent): { start: ICalTime; end: ICalTime } {
+  const start = { date: event.date, time: event.time, timeZone: event.time_zone };
+  const lastDay = event.end_date || event.date;
+
+  if (event.end_time) {
+    // An end time at or before the start on a one-day event runs past midnight
+    const pastMidnight = lastDay === event.date && event.end_time <= event.time;
+    return { start, end: { ...start, date: pastMidnight ? addDaysToDate(lastDay, 1) : lastDay, time: event.end_time } };
+  }
+
+  return { start, end: addMinutes({ ...start, date: lastDay }, DEFAULT_DURATION_MINUTES) };
+}
+
+// A session from start to end time on one date, running past midnight if needed
+function getSessionTimes(date: string, startTime: string, endTime: string | null, timeZone: string | null) {
+  const start = { date, time: startTime, timeZone };
+  if (!endTime) return { start, end: addMinutes(start, DEFAULT_LESSON_MINUTES) };
+  return { start, end: { ...start, date: endTime <= startTime ? addDaysToDate(date, 1) : date, time: endTime } };
+}
+
+function toICalEvent(event: FeedEvent, extra: Partial<ICalEvent> = {}): ICalEvent {
+  return {
+    uid: `event-${event.id}@raagconnect`,
+    summary: event.title,
+    ...getEventTimes(event),
+    description: event.notes,
+    location: event.location_name,
+    geo: event.location_lat != null && event.location_lng != null ? { lat: event.location_lat, lng: event.location_lng } : null,
+    url: `${siteUrl()}/events/${event.id}`,
+    ...extra,
+  };
+}
+
+function distanceInMiles(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 3958.8 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function readId(params: URLSearchParams, name: string): string {
+  const value = params.get(name);
+  if (!value || !uuidRegex.test(value)) throw new FeedError(`A valid ${name} is required`, 400);
+  return value;
+}
+
+// Events that haven't ended, starting from yesterday or running into today
+const upcomingEventsQuery = (supabase: SupabaseClient) => {
+  const since = recentDate();
+  return supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .or(`date.gte.${since},end_date.gte.${since}`)
+    .order('date')
+    .limit(MAX_EVENTS);
+};
+
+async function buildNearbyFeed(supabase: SupabaseClient, params: URLSearchParams) {
+  const lat = parseFloat(params.get('lat') ?? '');
+  const lng = parseFloat(params.get('lng') ?? '');
+  const radius = parseFloat(params.get('radius') ?? '') || DEFAULT_RADIUS_MILES;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new FeedError('lat and lng are required', 400);
+  }
+
+  const { data, error } = await upcomingEventsQuery(supabase)
+    .not('location_lat', 'is', null)
+    .not('location_lng', 'is', null);
+  if (error) throw error;
+
+  const events = (data as FeedEvent[]).filter(
+    (event) => distanceInMiles(lat, lng, event.location_lat!, event.location_lng!) <= radius,
+  );
+  return buildCalendar(`RaagConnect events within ${radius} mi`, events.map((event) => toICalEvent(event)));
+}
+
+async function buildArtistFeed(supabase: SupabaseClient, params: URLSearchParams) {
+  const artistId = readId(params, 'id');
+
+  const [{ data: artist }, { data: lineups, error: lineupError }] = await Promise.all([
+    supabase.from('artists').select('name').eq('id', artistId).maybeSingle(),
+    supabase.from('event_artists').select('event_id').eq('artist_id', artistId),
+  ]);
+  if (lineupError) throw lineupError;
+  if (!artist) throw new FeedError('Artist not found', 404);
+
+  // Older events name their artist directly rather than through a line-up
+  const eventIds = (lineups ?? []).map((l) => l.event_id);
+  const filter = eventIds.length > 0 ? `artist_id.eq.${artistId},id.in.(${eventIds.join(',')})` : `artist_id.eq.${artistId}`;
+  const { data, error } = await upcomingEventsQuery(supabase).or(filter);
+  if (error) throw error;
+
+  return buildCalendar(`${artist.name} on RaagConnect`, (data as FeedEvent[]).map((event) => toICalEvent(event)));
+}
+
+async function buildTeacherFeed(supabase: SupabaseClient, params: URLSearchParams) {
+  const teacherId = readId(params, 'id');
+
+  const [{ data: profile }, { data: classes, error }] = await Promise.all([
+    supabase.from('profiles').select('full_name').eq('user_id', teacherId).maybeSingle(),
+    supabase
+      .from('classes')
+      .select('id, title, time_zone, location_name, class_type, group_schedule_day, group_schedule_time, group_schedule_end_time')
+      .eq('user_id', teacherId)
+      .eq('class_mode', 'group')
+      .not('group_schedule_day', 'is', null)
+      .not('group_schedule_time', 'is', null),
+  ]);
+  if (error) throw error;
+
+  const events: ICalEvent[] = [];
+  for (const cls of classes ?? []) {
+    // Weekly classes are listed session by session; the feed refreshes, so it keeps rolling forward
+    const today = getZonedDateTime(new Date(), cls.time_zone || 'UTC').date;
+    const daysAhead = (cls.group_schedule_day - new Date(`${today}T00:00:00Z`).getUTCDay() + 7) % 7;
+    for (let week = 0; week < GROUP_CLASS_WEEKS; week++) {
+      const date = addDaysToDate(today, daysAhead + week * 7);
+      events.push({
+        uid: `class-${cls.id}-${date}@raagconnect`,
+        summary: cls.title,
+        ...getSessionTimes(date, cls.group_schedule_time, cls.group_schedule_end_time, cls.time_zone),
+        location: cls.class_type === 'online' ? 'Online' : cls.location_name,
+        url: `${siteUrl()}/classes/${cls.id}`,
+      });
+    }
+  }
+
+  const teacherName = profile?.full_name || 'Teacher';
+  return buildCalendar(`${teacherName}'s classes on RaagConnect`, events);
+}
+
+async function buildBookingsFeed(supabase: SupabaseClient, params: URLSearchParams) {
+  const token = readId(params, 'token');
+
+  const { data: feedToken } = await supabase.from('calendar_feed_tokens').select('user_id').eq('token', token).maybeSingle();
+  if (!feedToken) throw new FeedError('This calendar link is no longer valid', 404);
+  const userId = feedToken.user_id;
+  const since = addDaysToDate(recentDate(), -30);
+
+  const lessonColumns = 'id, booking_date, start_time, end_time, status, student_name, classes!inner(id, title, time_zone, location_name, class_type, user_id)';
+  const [orders, lessons, teaching] = await Promise.all([
+    supabase
+      .from('orders')
+      .select(`id, status, quantity, events(${EVENT_COLUMNS})`)
+      .eq('user_id', userId)
+      .in('status', ['pending', 'confirmed']),
+    supabase
+      .from('class_bookings')
+      .select(lessonColumns)
+      .eq('user_id', userId)
+      .in('status', ['pending', 'confirmed'])
+      .gte('booking_date', since),
+    supabase
+      .from('class_bookings')
+      .select(lessonColumns)
+      .eq('classes.user_id', userId)
+      .in('status', ['pending', 'confirmed'])
+      .gte('booking_date', since),
+  ]);
+  for (const result of [orders, lessons, teaching]) {
+    if (result.error) throw result.error;
+  }
+
+  const events: ICalEvent[] = [];
+  for (const order of orders.data ?? []) {
+    const event = order.events as unknown as FeedEvent | null;
+    if (!event || (event.end_date || event.date) < since) continue;
+    events.push(toICalEvent(event, {
+      uid: `order-${order.id}@raagconnect`,
+      description: `${order.quantity} ticket${order.quantity === 1 ? '' : 's'}${order.status === 'pending' ? ' (awaiting confirmation)' : ''}`,
+      status: order.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED',
+    }));
+  }
+
+  const addLessons = (rows: typeof lessons.data, asTeacher: boolean) => {
+    for (const lesson of rows ?? []) {
+      const cls = lesson.classes as unknown as FeedClass;
+      events.push({
+        uid: `lesson-${lesson.id}@raagconnect`,
+        summary: asTeacher ? `${cls.title} with ${lesson.student_name}` : cls.title,
+        ...getSessionTimes(lesson.booking_date, lesson.start_time, lesson.end_time, cls.time_zone),
+        location: cls.class_type === 'online' ? 'Online' : cls.location_name,
+        url: `${siteUrl()}/classes/${cls.id}`,
+        status: lesson.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED',
+      });
+    }
+  };
+  addLessons(lessons.data, false);
+  // Teachers booking their own class only get the one entry
+  addLessons((teaching.data ?? []).filter((lesson) => !lessons.data?.some((l) => l.id === lesson.id)), true);
+
+  return buildCalendar('My RaagConnect bookings', events);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const params = new URL(req.url).searchParams;
+    const type = params.get('type');
+
+    // Feeds are public or guarded by their token, so read with the service role
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    let calendar: string;
+    if (type === 'events') calendar = await buildNearbyFeed(supabase, params);
+    else if (type === 'artist') calendar = await buildArtistFeed(supabase, params);
+    else if (type === 'teacher') calendar = await buildTeacherFeed(supabase, params);
+    else if (type === 'bookings') calendar = await buildBookingsFeed(supabase, params);
+    else throw new FeedError('type must be events, artist, teacher or bookings', 400);
+
+    return new Response(calendar, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="raagconnect.ics"',
+        'Cache-Control': type === 'bookings' ? 'private, max-age=900' : 'public, max-age=900',
+      },
+    });
+  } catch (err) {
+    if (err instanceof FeedError) {
+      return new Response(err.message, {
+        status: err.status,
+        headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' },
+      });
+    }
+    console.error('Error building calendar feed:', err);
+    return new Response('Internal error', {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' },
+    });
+  }
+});
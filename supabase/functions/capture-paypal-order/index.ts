@@ -0,0 +1,181 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { PayPalError, paypalRequest, refundPayPalCapture, toPayPalAmount, type PayPalOrder } from "../_shared/paypal.ts";
+import { flagOrderRefund, LATE_PAYMENT_REFUND_NOTE, recordOrderRefund } from "../_shared/orders.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Matches the organizer's refund methods in BookingManagement
+const PAYPAL_REFUND_METHOD = 'PayPal';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Captures an approved PayPal order and confirms the tickets once the payment checks out
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Require authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: 'Invalid or expired token' }, 401);
+    }
+    const userId = claimsData.claims.sub as string;
+
+    const { orderId } = await req.json();
+    if (!orderId || !uuidRegex.test(orderId)) {
+      return jsonResponse({ error: 'Invalid orderId' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, user_id, status, payment_method, total_amount, paypal_order_id, expires_at')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (orderError) throw orderError;
+    if (!order || order.user_id !== userId) {
+      return jsonResponse({ error: 'Order not found' }, 404);
+    }
+
+    // Already captured on an earlier attempt
+    if (order.status === 'confirmed') {
+      return jsonResponse({ orderId, status: 'confirmed' });
+    }
+    if (order.status !== 'pending' || order.payment_method !== 'paypal' || !order.paypal_order_id) {
+      return jsonResponse({ error: 'This order can no longer be paid with PayPal' }, 400);
+    }
+
+    // Don't take payment for tickets whose hold has lapsed; the seats may be gone
+    if (order.expires_at && new Date(order.expires_at) <= new Date()) {
+      await supabase
+        .from('orders')
+        .update({ status: 'cancelled' })
+        .eq('id', order.id)
+        .eq('status', 'pending');
+      return jsonResponse({ error: 'Your reservation expired. Please book again.' }, 409);
+    }
+
+    let paypalOrder: PayPalOrder;
+    try {
+      paypalOrder = await paypalRequest<PayPalOrder>(
+        `checkout/orders/${order.paypal_order_id}/capture`,
+        {},
+        'POST',
+        `capture-${order.id}`,
+      );
+    } catch (paypalError) {
+      if (!(paypalError instanceof PayPalError) || paypalError.issue !== 'ORDER_ALREADY_CAPTURED') {
+        throw paypalError;
+      }
+      paypalOrder = await paypalRequest<PayPalOrder>(`checkout/orders/${order.paypal_order_id}`, undefined, 'GET');
+    }
+
+    // Never trust the client: the capture must be complete and match what we reserved
+    const purchaseUnit = paypalOrder.purchase_units?.[0];
+    const capture = purchaseUnit?.payments?.captures?.[0];
+    const expectedAmount = toPayPalAmount(Number(order.total_amount));
+
+    if (!capture || paypalOrder.status !== 'COMPLETED') {
+      return jsonResponse({ error: 'PayPal payment was not completed' }, 402);
+    }
+    if (
+      (capture.custom_id ?? purchaseUnit?.custom_id) !== order.id ||
+      capture.amount.currency_code !== 'USD' ||
+      capture.amount.value !== expectedAmount
+    ) {
+      console.error(`PayPal capture ${capture.id} does not match order ${order.id}`, capture);
+      return jsonResponse({ error: 'PayPal payment does not match this order' }, 400);
+    }
+
+    // Some funding sources (e.g. eChecks) settle later; keep the order pending
+    // until they do. paypal-webhook confirms or releases it when PayPal reports back.
+    if (capture.status !== 'COMPLETED') {
+      await supabase
+        .from('orders')
+        .update({ paypal_capture_id: capture.id, expires_at: null })
+        .eq('id', order.id)
+        .eq('status', 'pending');
+      return jsonResponse({ orderId, status: 'pending' });
+    }
+
+    const { data: confirmed, error: updateError } = await supabase
+      .from('orders')
+      .update({ status: 'confirmed', paypal_capture_id: capture.id })
+      .eq('id', order.id)
+      .eq('status', 'pending')
+      .select('buyer_email, buyer_name, events(title, date, time, location_name)')
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+    // The hold lapsed while PayPal was capturing, so the tickets may be gone
+    if (!confirmed) {
+      console.error(`PayPal capture ${capture.id} arrived after order ${order.id} was released; refunding`);
+      try {
+        await refundPayPalCapture(capture.id, `refund-${order.id}`);
+      } catch (refundError) {
+        console.error(`Failed to refund PayPal capture ${capture.id}:`, refundError);
+        await flagOrderRefund(supabase, order.id, PAYPAL_REFUND_METHOD, LATE_PAYMENT_REFUND_NOTE);
+        return jsonResponse({ error: 'Your reservation expired before payment completed. The organizer will refund you.' }, 409);
+      }
+      await recordOrderRefund(supabase, order.id, PAYPAL_REFUND_METHOD, LATE_PAYMENT_REFUND_NOTE, { paypal_capture_id: capture.id });
+      return jsonResponse({ error: 'Your reservation expired before payment completed, so your payment has been refunded. Please book again.' }, 409);
+    }
+
+    console.log(`Order ${order.id} confirmed via PayPal capture ${capture.id}`);
+
+    const orderEvent = confirmed.events as { title: string; date: string; time: string; location_name: string | null } | null;
+    try {
+      await supabase.functions.invoke('send-booking-email', {
+        body: {
+          to: confirmed.buyer_email,
+          attendeeName: confirmed.buyer_name,
+          eventTitle: orderEvent?.title || 'Event',
+          eventDate: orderEvent?.date
+            ? new Date(orderEvent.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+            : 'TBA',
+          eventTime: orderEvent?.time || 'TBA',
+          eventLocation: orderEvent?.location_name || 'TBA',
+          status: 'confirmed',
+          orderId: order.id
+        }
+      });
+    } catch (emailError) {
+      console.error('Failed to send confirmation email:', emailError);
+    }
+
+    return jsonResponse({ orderId, status: 'confirmed' });
+  } catch (error: unknown) {
+    console.error('Error capturing PayPal order:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stripeRequest, toStripeAmount } from "../_shared/stripe.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Stripe requires checkout sessions to stay open for at least 30 minutes
+const SESSION_TTL_SECONDS = 30 * 60;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Require authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: 'Invalid or expired token' }, 401);
+    }
+    const userId = claimsData.claims.sub as string;
+
+    const { eventId, quantity, priceTierId, promoCode } = await req.json();
+
+    if (!eventId || !uuidRegex.test(eventId)) {
+      return jsonResponse({ error: 'Invalid eventId' }, 400);
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > 10) {
+      return jsonResponse({ error: 'Quantity must be between 1 and 10' }, 400);
+    }
+    if (promoCode != null && (typeof promoCode !== 'string' || promoCode.length > 30)) {
+      return jsonResponse({ error: 'Invalid promoCode' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('id, title, date, use_stripe_checkout, stripe_product_id, stripe_price_id')
+      .eq('id', eventId)
+      .single();
+
+    if (eventError || !event) {
+      return jsonResponse({ error: 'Event not found' }, 404);
+    }
+    if (!event.use_stripe_checkout) {
+      return jsonResponse({ error: 'Card payments are not enabled for this event' }, 400);
+    }
+
+    // Reserve the tickets as a pending order; the webhook confirms or releases it
+    const { data: orderId, error: bookingError } = await supabase.rpc('book_event_tickets', {
+      _user_id: userId,
+      _event_id: eventId,
+      _quantity: quantity,
+      _price_tier_id: priceTierId ?? null,
+      _payment_method: 'stripe',
+      _promo_code: promoCode || null,
+    });
+
+    if (bookingError) {
+      return jsonResponse({ error: bookingError.message }, 400);
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, buyer_email, price_tier_id, promo_code_id, quantity, total_amount, status')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      throw new Error('Failed to load order');
+    }
+
+    // Free tickets don't need a checkout session
+    if (order.status === 'confirmed') {
+      return jsonResponse({ orderId, url: null });
+    }
+
+    const origin = req.headers.get('origin') || Deno.env.get('SITE_URL') || '';
+    const unitAmount = toStripeAmount(Number(order.total_amount) / order.quantity);
+
+    // The event's Stripe price only covers the full base ticket; tiers and discounts are priced inline
+    const lineItem = !order.price_tier_id && !order.promo_code_id && event.stripe_price_id
+      ? { 'line_items[0][price]': event.stripe_price_id }
+      : {
+          'line_items[0][price_data][currency]': 'usd',
+          'line_items[0][price_data][unit_amount]': unitAmount,
+          ...(event.stripe_product_id
+            ? { 'line_items[0][price_data][product]': event.stripe_product_id }
+            : { 'line_items[0][price_data][product_data][name]': event.title }),
+        };
+
+    let session: { id: string; url: string };
+    try {
+      session = await stripeRequest<{ id: string; url: string }>('checkout/sessions', {
+        mode: 'payment',
+        ...lineItem,
+        'line_items[0][quantity]': order.quantity,
+        customer_email: order.buyer_email,
+        client_reference_id: order.id,
+        'metadata[order_id]': order.id,
+        'metadata[event_id]': event.id,
+        'payment_intent_data[metadata][order_id]': order.id,
+        expires_at: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+        success_url: `${origin}/events/${event.id}?checkout=success`,
+        cancel_url: `${origin}/events/${event.id}?checkout=cancelled`,
+      });
+    } catch (stripeError) {
+      // Release the reserved tickets if we couldn't start checkout
+      await supabase.from('orders').update({ status: 'cancelled' }).eq('id', order.id);
+      throw stripeError;
+    }
+
+    await supabase
+      .from('orders')
+      .update({ stripe_checkout_session_id: session.id })
+      .eq('id', order.id);
+
+    console.log(`Created checkout session ${session.id} for order ${order.id}`);
+
+    return jsonResponse({ orderId: order.id, url: session.url });
+  } catch (error: unknown) {
+    console.error('Error creating checkout session:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,127 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stripeRequest, toStripeAmount } from "../_shared/stripe.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Stripe requires checkout sessions to stay open for at least 30 minutes
+const SESSION_TTL_SECONDS = 30 * 60;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Starts a Stripe Checkout for a lesson package. The purchase waits as pending
+// until the webhook confirms payment and adds the credits.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: 'Invalid or expired token' }, 401);
+    }
+    const userId = claimsData.claims.sub as string;
+    const userEmail = claimsData.claims.email as string | undefined;
+
+    const { packageId } = await req.json();
+    if (!packageId || !uuidRegex.test(packageId)) {
+      return jsonResponse({ error: 'Invalid packageId' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: pkg } = await supabase
+      .from('lesson_packages')
+      .select('id, name, lesson_count, price, valid_days, is_active, classes(id, title, user_id)')
+      .eq('id', packageId)
+      .maybeSingle();
+
+    const cls = pkg?.classes as { id: string; title: string; user_id: string } | null | undefined;
+    if (!pkg || !pkg.is_active || !cls) {
+      return jsonResponse({ error: 'This package is no longer available' }, 404);
+    }
+    if (cls.user_id === userId) {
+      return jsonResponse({ error: "You can't buy your own package" }, 400);
+    }
+
+    const { data: purchase, error: purchaseError } = await supabase
+      .from('lesson_credit_purchases')
+      .insert({
+        package_id: pkg.id,
+        teacher_id: cls.user_id,
+        user_id: userId,
+        package_name: pkg.name,
+        credits: pkg.lesson_count,
+        amount: pkg.price,
+        valid_days: pkg.valid_days,
+      })
+      .select('id')
+      .single();
+
+    if (purchaseError || !purchase) {
+      throw purchaseError ?? new Error('Failed to create purchase');
+    }
+
+    const origin = req.headers.get('origin') || Deno.env.get('SITE_URL') || '';
+
+    let session: { id: string; url: string };
+    try {
+      session = await stripeRequest<{ id: string; url: string }>('checkout/sessions', {
+        mode: 'payment',
+        'line_items[0][price_data][currency]': 'usd',
+        'line_items[0][price_data][unit_amount]': toStripeAmount(Number(pkg.price)),
+        'line_items[0][price_data][product_data][name]': `${cls.title}: ${pkg.name}`,
+        'line_items[0][quantity]': 1,
+        customer_email: userEmail,
+        client_reference_id: purchase.id,
+        'metadata[package_purchase_id]': purchase.id,
+        'metadata[class_id]': cls.id,
+        'payment_intent_data[metadata][package_purchase_id]': purchase.id,
+        expires_at: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+        success_url: `${origin}/classes/${cls.id}?checkout=success`,
+        cancel_url: `${origin}/classes/${cls.id}?checkout=cancelled`,
+      });
+    } catch (stripeError) {
+      await supabase.from('lesson_credit_purchases').update({ status: 'cancelled' }).eq('id', purchase.id);
+      throw stripeError;
+    }
+
+    await supabase
+      .from('lesson_credit_purchases')
+      .update({ stripe_checkout_session_id: session.id })
+      .eq('id', purchase.id);
+
+    console.log(`Created checkout session ${session.id} for package purchase ${purchase.id}`);
+
+    return jsonResponse({ purchaseId: purchase.id, url: session.url });
+  } catch (error: unknown) {
+    console.error('Error creating package checkout:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
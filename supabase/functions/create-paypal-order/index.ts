@@ -0,0 +1,146 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { paypalRequest, toPayPalAmount, type PayPalOrder } from "../_shared/paypal.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const parsePaymentInfo = (paymentLink: string | null): { paypal?: string } => {
+  try {
+    return paymentLink ? JSON.parse(paymentLink) : {};
+  } catch {
+    return {};
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Require authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: 'Invalid or expired token' }, 401);
+    }
+    const userId = claimsData.claims.sub as string;
+
+    const { eventId, quantity, priceTierId, promoCode } = await req.json();
+
+    if (!eventId || !uuidRegex.test(eventId)) {
+      return jsonResponse({ error: 'Invalid eventId' }, 400);
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > 10) {
+      return jsonResponse({ error: 'Quantity must be between 1 and 10' }, 400);
+    }
+    if (promoCode != null && (typeof promoCode !== 'string' || promoCode.length > 30)) {
+      return jsonResponse({ error: 'Invalid promoCode' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('id, title, payment_link')
+      .eq('id', eventId)
+      .single();
+
+    if (eventError || !event) {
+      return jsonResponse({ error: 'Event not found' }, 404);
+    }
+
+    const paypalHandle = parsePaymentInfo(event.payment_link).paypal?.trim();
+    if (!paypalHandle) {
+      return jsonResponse({ error: 'PayPal is not enabled for this event' }, 400);
+    }
+
+    // Reserve the tickets as a pending order; capture-paypal-order confirms it
+    const { data: orderId, error: bookingError } = await supabase.rpc('book_event_tickets', {
+      _user_id: userId,
+      _event_id: eventId,
+      _quantity: quantity,
+      _price_tier_id: priceTierId ?? null,
+      _payment_method: 'paypal',
+      _promo_code: promoCode || null,
+    });
+
+    if (bookingError) {
+      return jsonResponse({ error: bookingError.message }, 400);
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, quantity, total_amount, status')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !order) {
+      throw new Error('Failed to load order');
+    }
+
+    // Free tickets don't need a PayPal order
+    if (order.status === 'confirmed') {
+      return jsonResponse({ orderId, paypalOrderId: null });
+    }
+
+    let paypalOrder: PayPalOrder;
+    try {
+      paypalOrder = await paypalRequest<PayPalOrder>('checkout/orders', {
+        intent: 'CAPTURE',
+        purchase_units: [{
+          reference_id: order.id,
+          custom_id: order.id,
+          description: `${event.title} (${order.quantity} ticket${order.quantity > 1 ? 's' : ''})`.slice(0, 127),
+          amount: { currency_code: 'USD', value: toPayPalAmount(Number(order.total_amount)) },
+          // Pay the organizer directly when their PayPal handle is an email address
+          ...(emailRegex.test(paypalHandle) ? { payee: { email_address: paypalHandle } } : {}),
+        }],
+        application_context: { shipping_preference: 'NO_SHIPPING' },
+      }, 'POST', `create-${order.id}`);
+    } catch (paypalError) {
+      // Release the reserved tickets if we couldn't start checkout
+      await supabase.from('orders').update({ status: 'cancelled' }).eq('id', order.id);
+      throw paypalError;
+    }
+
+    await supabase
+      .from('orders')
+      .update({ paypal_order_id: paypalOrder.id })
+      .eq('id', order.id);
+
+    console.log(`Created PayPal order ${paypalOrder.id} for order ${order.id}`);
+
+    return jsonResponse({ orderId: order.id, paypalOrderId: paypalOrder.id });
+  } catch (error: unknown) {
+    console.error('Error creating PayPal order:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stripeRequest, toStripeAmount } from "../_shared/stripe.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface StripePrice {
+  id: string;
+  active: boolean;
+  unit_amount: number | null;
+}
+
+// Creates (or syncs) the Stripe product and base price for an event
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Require authentication
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims?.sub) {
+      return jsonResponse({ error: 'Invalid or expired token' }, 401);
+    }
+    const userId = claimsData.claims.sub as string;
+
+    const { eventId } = await req.json();
+    if (!eventId || !uuidRegex.test(eventId)) {
+      return jsonResponse({ error: 'Invalid eventId' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('id, user_id, title, price, stripe_product_id, stripe_price_id')
+      .eq('id', eventId)
+      .single();
+
+    if (eventError || !event) {
+      return jsonResponse({ error: 'Event not found' }, 404);
+    }
+
+    // Only the organizer (or an admin) can set up payments for an event
+    if (event.user_id !== userId) {
+      const { data: isAdmin } = await supabase.rpc('is_admin', { _user_id: userId });
+      if (!isAdmin) {
+        return jsonResponse({ error: 'Not allowed to manage this event' }, 403);
+      }
+    }
+
+    let productId = event.stripe_product_id;
+    if (productId) {
+      await stripeRequest(`products/${productId}`, { name: event.title });
+    } else {
+      const product = await stripeRequest<{ id: string }>('products', {
+        name: event.title,
+        'metadata[event_id]': event.id,
+      });
+      productId = product.id;
+    }
+
+    // Stripe prices are immutable, so a changed base price means a new price object
+    let priceId = event.stripe_price_id;
+    const unitAmount = event.price ? toStripeAmount(Number(event.price)) : 0;
+
+    if (priceId) {
+      const existing = await stripeRequest<StripePrice>(`prices/${priceId}`, {}, 'GET');
+      if (!existing.active || existing.unit_amount !== unitAmount) {
+        if (existing.active) {
+          await stripeRequest(`prices/${priceId}`, { active: false });
+        }
+        priceId = null;
+      }
+    }
+
+    if (!priceId && unitAmount > 0) {
+      const price = await stripeRequest<StripePrice>('prices', {
+        product: productId,
+        currency: 'usd',
+        unit_amount: unitAmount,
+        'metadata[event_id]': event.id,
+      });
+      priceId = price.id;
+    }
+
+    const { error: updateError } = await supabase
+      .from('events')
+      .update({
+        stripe_product_id: productId,
+        stripe_price_id: priceId,
+        use_stripe_checkout: true,
+      })
+      .eq('id', event.id);
+
+    if (updateError) throw updateError;
+
+    console.log(`Synced Stripe product ${productId} / price ${priceId} for event ${event.id}`);
+
+    return jsonResponse({ productId, priceId });
+  } catch (error: unknown) {
+    console.error('Error creating Stripe product:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -1,82 +1,12 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getZonedDateTime } from "../_shared/ical.ts";
+import { fetchBusyTimes, fetchIcalSlots, fetchLessonTimes, IcalFeedError } from "../_shared/teacherCalendar.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
 };
 
-function parseICalDate(dateStr: string): Date | null {
-  const cleaned = dateStr.replace(/^(DTSTART|DTEND)[^:]*:/, '');
-  if (cleaned.length === 8) {
-    const y = parseInt(cleaned.slice(0, 4));
-    const m = parseInt(cleaned.slice(4, 6)) - 1;
-    const d = parseInt(cleaned.slice(6, 8));
-    return new Date(Date.UTC(y, m, d));
-  }
-  if (cleaned.length >= 15) {
-    const y = parseInt(cleaned.slice(0, 4));
-    const m = parseInt(cleaned.slice(4, 6)) - 1;
-    const d = parseInt(cleaned.slice(6, 8));
-    const h = parseInt(cleaned.slice(9, 11));
-    const min = parseInt(cleaned.slice(11, 13));
-    const s = parseInt(cleaned.slice(13, 15));
-    if (cleaned.endsWith('Z')) {
-      return new Date(Date.UTC(y, m, d, h, min, s));
-    }
-    return new Date(y, m, d, h, min, s);
-  }
-  return null;
-}
-
-interface CalendarEvent {
-  start: string;
-  end: string;
-  summary: string;
-}
-
-function extractEvents(icalText: string, rangeStart: Date, rangeEnd: Date): CalendarEvent[] {
-  const events: CalendarEvent[] = [];
-  
-  const unfolded = icalText.replace(/\r\n[ \t]/g, '').replace(/\r/g, '');
-  const lines = unfolded.split('\n');
-  
-  let inEvent = false;
-  let dtstart: Date | null = null;
-  let dtend: Date | null = null;
-  let summary = '';
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed === 'BEGIN:VEVENT') {
-      inEvent = true;
-      dtstart = null;
-      dtend = null;
-      summary = '';
-    } else if (trimmed === 'END:VEVENT') {
-      if (inEvent && dtstart && dtend) {
-        if (dtstart < rangeEnd && dtend > rangeStart) {
-          events.push({
-            start: dtstart.toISOString(),
-            end: dtend.toISOString(),
-            summary,
-          });
-        }
-      }
-      inEvent = false;
-    } else if (inEvent) {
-      if (trimmed.startsWith('DTSTART')) {
-        dtstart = parseICalDate(trimmed);
-      } else if (trimmed.startsWith('DTEND')) {
-        dtend = parseICalDate(trimmed);
-      } else if (trimmed.startsWith('SUMMARY:')) {
-        summary = trimmed.slice(8);
-      }
-    }
-  }
-
-  return events;
-}
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -106,65 +36,48 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
     );
 
-    // Only select ical_url - don't expose other data
+    // Only select ical_url, the zone for floating times and the booking window - don't expose other data
     const { data: cls, error } = await supabase
       .from('classes')
-      .select('ical_url')
+      .select('user_id, ical_url, time_zone, booking_horizon_days')
       .eq('id', class_id)
       .single();
 
-    if (error || !cls?.ical_url) {
-      return new Response(JSON.stringify({ slots: [], busy_times: [] }), {
+    if (error || !cls) {
+      return new Response(JSON.stringify({ slots: [], busy_times: [], lesson_times: [] }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    // Convert Google Calendar sharing links to iCal feed URLs
-    let icalUrl = cls.ical_url;
-    const cidMatch = icalUrl.match(/[?&]cid=([A-Za-z0-9+/=]+)/);
-    if (cidMatch) {
-      try {
-        const decoded = atob(cidMatch[1]);
-        if (decoded.includes('@')) {
-          icalUrl = `https://calendar.google.com/calendar/ical/${encodeURIComponent(decoded)}/public/basic.ics`;
-        }
-      } catch (e) {
-        console.error('Failed to decode cid:', e);
-      }
-    }
+    const now = new Date();
+    const rangeEnd = new Date(now.getTime() + cls.booking_horizon_days * 24 * 60 * 60 * 1000);
+    const timeZone = cls.time_zone || 'UTC';
+    const busy_times = await fetchBusyTimes(supabase, cls.user_id, now, rangeEnd, timeZone);
+    // The teacher's booked lessons, so buffers and the daily limit can be shown
+    const lesson_times = await fetchLessonTimes(
+      supabase,
+      cls.user_id,
+      getZonedDateTime(now, timeZone).date,
+      getZonedDateTime(rangeEnd, timeZone).date,
+    );
 
-    // Fetch iCal feed
-    const icalResponse = await fetch(icalUrl);
-    if (!icalResponse.ok) {
-      console.error('Failed to fetch iCal:', icalResponse.status);
-      return new Response(JSON.stringify({ slots: [], busy_times: [], error: 'Failed to fetch calendar' }), {
+    if (!cls.ical_url) {
+      return new Response(JSON.stringify({ slots: [], busy_times, lesson_times }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    const icalText = await icalResponse.text();
-    
-    // Check if it's valid iCal
-    if (!icalText.includes('BEGIN:VCALENDAR')) {
-      return new Response(JSON.stringify({ slots: [], busy_times: [], error: 'Invalid iCal feed. Please use the "Secret address in iCal format" from Google Calendar settings.' }), {
+    try {
+      const slots = await fetchIcalSlots(cls.ical_url, now, rangeEnd, timeZone);
+      return new Response(JSON.stringify({ slots, busy_times, lesson_times }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      if (!(err instanceof IcalFeedError)) throw err;
+      return new Response(JSON.stringify({ slots: [], busy_times, lesson_times, error: err.message }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
-
-    const now = new Date();
-    const rangeEnd = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-
-    const events = extractEvents(icalText, now, rangeEnd);
-
-    // Return events as available slots (start/end only — no private details like summary)
-    const slots = events.map(e => ({
-      start: e.start,
-      end: e.end,
-    }));
-
-    return new Response(JSON.stringify({ slots, busy_times: [] }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
   } catch (err) {
     console.error('Error:', err);
     return new Response(JSON.stringify({ error: 'Internal error' }), {
@@ -0,0 +1,195 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { refundPayPalCapture, toPayPalAmount, verifyPayPalWebhook, type PayPalCapture } from "../_shared/paypal.ts";
+import { flagOrderRefund, LATE_PAYMENT_REFUND_NOTE, recordOrderRefund } from "../_shared/orders.ts";
+
+interface PayPalOrderRow {
+  id: string;
+  status: string;
+  total_amount: number;
+  paypal_order_id: string | null;
+  paypal_capture_id: string | null;
+}
+
+// Matches the organizer's refund methods in BookingManagement
+const PAYPAL_REFUND_METHOD = 'PayPal';
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+async function promoteWaitlist(supabase: SupabaseClient, eventId: string) {
+  try {
+    await supabase.functions.invoke('promote-waitlist', { body: { eventId } });
+  } catch (waitlistError) {
+    console.error('Failed to promote waitlist:', waitlistError);
+  }
+}
+
+// A capture that settled later confirms its order, or is refunded if the
+// order was released meanwhile. If the refund fails, the order is flagged for
+// the organizer and the error makes PayPal deliver the event again.
+async function confirmCapturedOrder(supabase: SupabaseClient, order: PayPalOrderRow, capture: PayPalCapture) {
+  if (capture.amount.currency_code !== 'USD' || capture.amount.value !== toPayPalAmount(Number(order.total_amount))) {
+    console.error(`PayPal capture ${capture.id} does not match order ${order.id}`, capture);
+    return;
+  }
+
+  // Only pending orders move to confirmed, so redeliveries are harmless
+  const { data: confirmed, error } = await supabase
+    .from('orders')
+    .update({ status: 'confirmed', paypal_capture_id: capture.id, expires_at: null })
+    .eq('id', order.id)
+    .eq('status', 'pending')
+    .select('buyer_email, buyer_name, events(title, date, time, location_name)')
+    .maybeSingle();
+  if (error) throw error;
+
+  if (!confirmed) {
+    if (order.status === 'confirmed') return;
+
+    console.error(`PayPal capture ${capture.id} completed after order ${order.id} was ${order.status}; refunding`);
+    try {
+      await refundPayPalCapture(capture.id, `refund-${order.id}`);
+    } catch (refundError) {
+      await flagOrderRefund(supabase, order.id, PAYPAL_REFUND_METHOD, LATE_PAYMENT_REFUND_NOTE);
+      throw refundError;
+    }
+    await recordOrderRefund(supabase, order.id, PAYPAL_REFUND_METHOD, LATE_PAYMENT_REFUND_NOTE, { paypal_capture_id: capture.id });
+    return;
+  }
+
+  console.log(`Order ${order.id} confirmed via PayPal capture ${capture.id}`);
+
+  const orderEvent = confirmed.events as { title: string; date: string; time: string; location_name: string | null } | null;
+  try {
+    await supabase.functions.invoke('send-booking-email', {
+      body: {
+        to: confirmed.buyer_email,
+        attendeeName: confirmed.buyer_name,
+        eventTitle: orderEvent?.title || 'Event',
+        eventDate: orderEvent?.date
+          ? new Date(orderEvent.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+          : 'TBA',
+        eventTime: orderEvent?.time || 'TBA',
+        eventLocation: orderEvent?.location_name || 'TBA',
+        status: 'confirmed',
+        orderId: order.id
+      }
+    });
+  } catch (emailError) {
+    console.error('Failed to send confirmation email:', emailError);
+  }
+}
+
+// Settles PayPal captures that didn't complete straight away (e.g. eChecks)
+// and releases orders whose payment PayPal denied or reversed. Subscribe the
+// webhook named by PAYPAL_WEBHOOK_ID to the PAYMENT.CAPTURE.* events.
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const webhookId = Deno.env.get('PAYPAL_WEBHOOK_ID');
+  if (!webhookId) {
+    console.error('PAYPAL_WEBHOOK_ID not configured');
+    return jsonResponse({ error: 'Webhook not configured' }, 500);
+  }
+
+  try {
+    const event = JSON.parse(await req.text());
+    if (!(await verifyPayPalWebhook(req.headers, event, webhookId))) {
+      console.error('Invalid PayPal webhook signature');
+      return jsonResponse({ error: 'Invalid signature' }, 400);
+    }
+
+    const capture = event.resource as PayPalCapture;
+    const orderId = capture?.custom_id;
+    if (!String(event.event_type).startsWith('PAYMENT.CAPTURE.') || !orderId || !uuidRegex.test(orderId)) {
+      console.log(`Ignoring PayPal event ${event.event_type}`);
+      return jsonResponse({ received: true });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, status, payment_method, total_amount, paypal_order_id, paypal_capture_id')
+      .eq('id', orderId)
+      .maybeSingle();
+    if (orderError) throw orderError;
+
+    // The capture has to belong to the PayPal order made for this order
+    if (
+      !order ||
+      order.payment_method !== 'paypal' ||
+      (order.paypal_capture_id !== capture.id && order.paypal_order_id !== capture.supplementary_data?.related_ids?.order_id)
+    ) {
+      console.error(`PayPal capture ${capture.id} does not belong to order ${orderId}`);
+      return jsonResponse({ received: true });
+    }
+
+    switch (event.event_type) {
+      case 'PAYMENT.CAPTURE.COMPLETED':
+        await confirmCapturedOrder(supabase, order, capture);
+        break;
+
+      case 'PAYMENT.CAPTURE.DENIED':
+      case 'PAYMENT.CAPTURE.DECLINED': {
+        // Release the reserved tickets
+        const { data: released, error } = await supabase
+          .from('orders')
+          .update({ status: 'cancelled' })
+          .eq('id', order.id)
+          .eq('status', 'pending')
+          .select('event_id')
+          .maybeSingle();
+        if (error) throw error;
+        if (!released) break;
+
+        console.log(`Order ${order.id} released (${event.event_type})`);
+        await promoteWaitlist(supabase, released.event_id);
+        break;
+      }
+
+      case 'PAYMENT.CAPTURE.REVERSED': {
+        // The buyer got their money back through PayPal, so the tickets go too
+        const { data: reversed, error } = await supabase
+          .from('orders')
+          .update({
+            status: 'cancelled',
+            refund_status: 'refunded',
+            refund_method: PAYPAL_REFUND_METHOD,
+            refund_note: 'Payment reversed through PayPal',
+            refunded_at: new Date().toISOString(),
+          })
+          .eq('id', order.id)
+          .in('status', ['pending', 'confirmed'])
+          .select('event_id')
+          .maybeSingle();
+        if (error) throw error;
+        if (!reversed) break;
+
+        console.error(`Order ${order.id} cancelled: PayPal capture ${capture.id} was reversed`);
+        await promoteWaitlist(supabase, reversed.event_id);
+        break;
+      }
+
+      default:
+        console.log(`Ignoring PayPal event ${event.event_type}`);
+    }
+
+    return jsonResponse({ received: true });
+  } catch (error: unknown) {
+    console.error('Error handling PayPal webhook:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,135 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Escape HTML special characters to prevent XSS in email clients
+const escapeHtml = (str: string): string => {
+  if (!str) return '';
+  return str.replace(/[&<>"']/g, (c) => {
+    const entities: Record<string, string> = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#39;'
+    };
+    return entities[c] || c;
+  });
+};
+
+interface WaitlistOffer {
+  id: string;
+  name: string;
+  email: string;
+  quantity: number;
+  offer_expires_at: string;
+}
+
+// Offers freed seats to the next people on an event's waitlist and emails them a claim link.
+// Safe to call any time seats may have been released; it only offers seats that are actually free.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The gateway verifies the JWT; users and other functions (service role) may both call this
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const { eventId } = await req.json();
+    if (!eventId || !uuidRegex.test(eventId)) {
+      return jsonResponse({ error: 'Invalid eventId' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: offers, error: promoteError } = await supabase.rpc('promote_event_waitlist', {
+      _event_id: eventId,
+    });
+
+    if (promoteError) throw promoteError;
+    if (!offers || offers.length === 0) {
+      return jsonResponse({ offered: 0 });
+    }
+
+    const { data: event, error: eventError } = await supabase
+      .from('events')
+      .select('id, title, date, time, location_name')
+      .eq('id', eventId)
+      .single();
+
+    if (eventError || !event) throw eventError ?? new Error('Event not found');
+
+    // Links go to other people's inboxes, so never build them from the caller's Origin header
+    const origin = Deno.env.get('SITE_URL') ?? 'https://raagconnect.com';
+    const safeEventTitle = escapeHtml(event.title);
+    const eventDate = new Date(event.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+    for (const offer of offers as WaitlistOffer[]) {
+      const claimUrl = `${origin}/events/${event.id}?claim=1`;
+      const expiresAt = new Date(offer.offer_expires_at).toLocaleString('en-US', {
+        weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short',
+      });
+      const seatText = offer.quantity > 1 ? `${offer.quantity} seats` : 'a seat';
+
+      const html = `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">A seat opened up! 🎶</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${escapeHtml(offer.name)},</p>
+          <p style="color: #333; font-size: 16px;">Good news! You're next on the waitlist and we're holding ${seatText} for you at:</p>
+          <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h2 style="color: #1a1a1a; margin: 0 0 12px 0;">${safeEventTitle}</h2>
+            <p style="margin: 8px 0; color: #666;"><strong>Date:</strong> ${escapeHtml(eventDate)}</p>
+            <p style="margin: 8px 0; color: #666;"><strong>Time:</strong> ${escapeHtml(event.time || 'TBA')}</p>
+            <p style="margin: 8px 0; color: #666;"><strong>Location:</strong> ${escapeHtml(event.location_name || 'TBA')}</p>
+          </div>
+          <p style="margin: 24px 0;">
+            <a href="${claimUrl}" style="background: #1a1a1a; color: #fff; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Claim your ${offer.quantity > 1 ? 'seats' : 'seat'}</a>
+          </p>
+          <p style="color: #333; font-size: 14px;">Your ${offer.quantity > 1 ? 'seats are' : 'seat is'} held until <strong>${escapeHtml(expiresAt)}</strong>. After that ${offer.quantity > 1 ? 'they go' : 'it goes'} to the next person in line.</p>
+          <p style="color: #666; font-size: 14px; margin-top: 30px;">Best regards,<br>Raag Connect</p>
+        </div>
+      `;
+
+      const { error: resendError } = await resend.emails.send({
+        from: "Raag Connect <noreply@raagconnect.com>",
+        to: [offer.email],
+        subject: `🎵 A seat opened up for "${event.title}"`,
+        html,
+      });
+
+      if (resendError) {
+        console.error(`Failed to email waitlist offer ${offer.id}:`, resendError);
+      }
+    }
+
+    console.log(`Offered seats to ${offers.length} waitlist entries for event ${event.id}`);
+
+    return jsonResponse({ offered: offers.length });
+  } catch (error: unknown) {
+    console.error('Error promoting waitlist:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import QRCode from "https://esm.sh/qrcode@1.5.4";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
@@ -8,6 +10,103 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+type BookingEmailStatus = "confirmed" | "rejected" | "cancelled" | "refund_requested" | "refunded";
+
+const validStatuses: BookingEmailStatus[] = ["confirmed", "rejected", "cancelled", "refund_requested", "refunded"];
+
+// Lesson emails are built from the class booking itself, so callers only pass
+// its id. Each one is only sent while the lesson is in the matching state.
+type LessonEmailStatus =
+  | "lesson_requested"
+  | "lesson_confirmed"
+  | "lesson_declined"
+  | "lesson_cancelled"
+  | "lesson_cancelled_by_student"
+  | "lesson_reschedule_proposed"
+  | "lesson_rescheduled"
+  | "lesson_reschedule_declined"
+  | "lesson_reminder";
+
+const lessonStatuses: LessonEmailStatus[] = [
+  "lesson_requested",
+  "lesson_confirmed",
+  "lesson_declined",
+  "lesson_cancelled",
+  "lesson_cancelled_by_student",
+  "lesson_reschedule_proposed",
+  "lesson_rescheduled",
+  "lesson_reschedule_declined",
+  "lesson_reminder",
+];
+
+interface LessonBooking {
+  id: string;
+  user_id: string;
+  student_name: string;
+  student_email: string;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  notes: string | null;
+  proposed_date: string | null;
+  proposed_start_time: string | null;
+  proposed_end_time: string | null;
+  proposal_note: string | null;
+  cancelled_at: string | null;
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
+  series_id: string | null;
+  classes: {
+    id: string;
+    title: string;
+    user_id: string;
+    time_zone: string | null;
+    location_name: string | null;
+    class_type: string;
+  };
+}
+
+// Group class enrollment emails, built from the enrollment like lesson emails
+type EnrollmentEmailStatus =
+  | "class_enrolled"
+  | "class_waitlisted"
+  | "class_waitlist_promoted"
+  | "class_enrollment_cancelled";
+
+const enrollmentStatuses: EnrollmentEmailStatus[] = [
+  "class_enrolled",
+  "class_waitlisted",
+  "class_waitlist_promoted",
+  "class_enrollment_cancelled",
+];
+
+interface ClassEnrollment {
+  id: string;
+  user_id: string;
+  student_name: string;
+  student_email: string;
+  status: string;
+  promoted_at: string | null;
+  cancelled_by: string | null;
+  class_terms: {
+    name: string;
+    start_date: string;
+    end_date: string;
+  };
+  classes: {
+    id: string;
+    title: string;
+    user_id: string;
+    time_zone: string | null;
+    location_name: string | null;
+    class_type: string;
+    group_schedule_day: number | null;
+    group_schedule_time: string | null;
+    group_schedule_end_time: string | null;
+  };
+}
+
 interface BookingEmailRequest {
   to: string;
   attendeeName: string;
@@ -15,9 +114,25 @@ interface BookingEmailRequest {
   eventDate: string;
   eventTime: string;
   eventLocation: string;
-  status: "confirmed" | "rejected";
+  status: BookingEmailStatus;
+  orderId?: string;
+  // Cancellation and refund details
+  refundAmount?: number;
+  refundMethod?: string;
+  refundNote?: string;
 }
 
+interface TicketAttachment {
+  attendeeName: string;
+  code: string;
+  filename: string;
+}
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Display form of a ticket code, e.g. 1A2B-3C4D-...
+const formatTicketCode = (code: string): string => code.match(/.{1,4}/g)?.join('-') ?? code;
+
 // Escape HTML special characters to prevent XSS in email clients
 const escapeHtml = (str: string): string => {
   if (!str) return '';
@@ -39,6 +154,384 @@ const isValidEmail = (email: string): boolean => {
   return emailRegex.test(email);
 };
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+// Lesson dates and times are wall-clock values in the class's zone
+const formatLessonDate = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric", timeZone: "UTC" });
+
+const formatLessonTime = (time: string): string => {
+  const [h, m] = time.split(":").map(Number);
+  return `${h % 12 || 12}:${String(m).padStart(2, "0")} ${h < 12 ? "AM" : "PM"}`;
+};
+
+const formatLessonTimes = (start: string, end: string, timeZone: string | null): string =>
+  `${formatLessonTime(start)} – ${formatLessonTime(end)}${timeZone ? ` (${timeZone.replace(/_/g, " ")})` : ""}`;
+
+// Whether the lesson is still in the state the email describes
+const lessonMatchesStatus = (booking: LessonBooking, status: LessonEmailStatus): boolean => {
+  switch (status) {
+    case "lesson_requested": return booking.status === "pending";
+    case "lesson_confirmed": return booking.status === "confirmed";
+    case "lesson_declined": return booking.status === "declined";
+    case "lesson_cancelled": return booking.status === "cancelled" && booking.cancelled_by === "teacher";
+    case "lesson_cancelled_by_student": return booking.status === "cancelled" && booking.cancelled_by === "student";
+    case "lesson_reschedule_proposed": return booking.proposed_date !== null;
+    case "lesson_rescheduled": return booking.status === "confirmed" && booking.proposed_date === null;
+    case "lesson_reschedule_declined": return booking.status === "cancelled" && booking.cancelled_by === "student";
+    case "lesson_reminder": return booking.status === "confirmed";
+  }
+};
+
+// With wholeSeries, the email covers the lessons of the booking's series that
+// changed together with it: still pending, confirmed, or cancelled at once.
+async function sendLessonEmail(status: LessonEmailStatus, classBookingId: unknown, wholeSeries: boolean, caller: Caller): Promise<Response> {
+  if (typeof classBookingId !== "string" || !uuidRegex.test(classBookingId)) {
+    return jsonResponse({ error: "Invalid classBookingId" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  const { data, error } = await supabase
+    .from("class_bookings")
+    .select("id, user_id, student_name, student_email, booking_date, start_time, end_time, status, notes, proposed_date, proposed_start_time, proposed_end_time, proposal_note, cancelled_at, cancelled_by, cancellation_reason, series_id, classes!inner(id, title, user_id, time_zone, location_name, class_type)")
+    .eq("id", classBookingId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const booking = data as unknown as LessonBooking | null;
+  if (!booking) {
+    return jsonResponse({ error: "Lesson not found" }, 404);
+  }
+  if (!caller.isServiceRole && caller.userId !== booking.user_id && caller.userId !== booking.classes.user_id) {
+    return jsonResponse({ error: "Not allowed" }, 403);
+  }
+  if (!lessonMatchesStatus(booking, status)) {
+    return jsonResponse({ error: "The lesson is no longer in that state" }, 409);
+  }
+
+  let seriesLessons: { booking_date: string; start_time: string; end_time: string }[] = [];
+  if (wholeSeries && booking.series_id) {
+    let query = supabase
+      .from("class_bookings")
+      .select("booking_date, start_time, end_time")
+      .eq("series_id", booking.series_id)
+      .eq("status", booking.status)
+      .order("booking_date");
+    query = booking.status === "cancelled"
+      ? query.eq("cancelled_at", booking.cancelled_at)
+      : query.gte("booking_date", booking.booking_date);
+    const { data: lessons, error: seriesError } = await query;
+    if (seriesError) throw seriesError;
+    seriesLessons = lessons ?? [];
+  }
+
+  const cls = booking.classes;
+  const toTeacher = ["lesson_requested", "lesson_cancelled_by_student", "lesson_rescheduled", "lesson_reschedule_declined"].includes(status);
+  let to = booking.student_email;
+  let recipientName = booking.student_name;
+  if (toTeacher) {
+    const { data: teacher } = await supabase
+      .from("profiles")
+      .select("email, full_name")
+      .eq("user_id", cls.user_id)
+      .maybeSingle();
+    if (!teacher?.email) {
+      return jsonResponse({ error: "The teacher has no email address" }, 404);
+    }
+    to = teacher.email;
+    recipientName = teacher.full_name || "there";
+  }
+  if (!isValidEmail(to)) {
+    return jsonResponse({ error: "Invalid email format" }, 400);
+  }
+
+  // Reminders for online lessons carry the lesson's room link
+  let roomUrl: string | null = null;
+  if (status === "lesson_reminder" && cls.class_type === "online") {
+    const { data: room, error: roomError } = await supabase.rpc("ensure_lesson_room", { _booking_id: booking.id });
+    if (roomError) throw roomError;
+    if (room) {
+      const meetingBaseUrl = (Deno.env.get("MEETING_BASE_URL") ?? "https://meet.jit.si").replace(/\/$/, "");
+      roomUrl = `${meetingBaseUrl}/${encodeURIComponent(room)}`;
+    }
+  }
+
+  const siteUrl = Deno.env.get("SITE_URL") ?? "https://raagconnect.com";
+  const safeName = escapeHtml(recipientName);
+  const safeStudent = escapeHtml(booking.student_name);
+  const safeTitle = escapeHtml(cls.title);
+  const safeReason = escapeHtml(booking.cancellation_reason || "");
+  const safeLocation = escapeHtml(cls.class_type === "online" ? "Online" : cls.location_name || "TBA");
+
+  const lessonHtml = (date: string, start: string, end: string, heading = safeTitle) => `
+          <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h2 style="color: #1a1a1a; margin: 0 0 12px 0;">${heading}</h2>
+            <p style="margin: 8px 0; color: #666;"><strong>Date:</strong> ${escapeHtml(formatLessonDate(date))}</p>
+            <p style="margin: 8px 0; color: #666;"><strong>Time:</strong> ${escapeHtml(formatLessonTimes(start, end, cls.time_zone))}</p>
+            <p style="margin: 8px 0; color: #666;"><strong>Location:</strong> ${safeLocation}</p>
+          </div>`;
+  // A series lists every lesson it covers instead of the single one
+  const currentLessonHtml = seriesLessons.length > 1
+    ? `
+          <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h2 style="color: #1a1a1a; margin: 0 0 12px 0;">${safeTitle} &mdash; ${seriesLessons.length} lessons</h2>
+            ${seriesLessons.map((l) => `
+            <p style="margin: 6px 0; color: #666;">${escapeHtml(formatLessonDate(l.booking_date))}, ${escapeHtml(formatLessonTimes(l.start_time, l.end_time, cls.time_zone))}</p>`).join("")}
+            <p style="margin: 8px 0; color: #666;"><strong>Location:</strong> ${safeLocation}</p>
+          </div>`
+    : lessonHtml(booking.booking_date, booking.start_time, booking.end_time);
+  const reasonHtml = safeReason ? `<p style="color: #333; font-size: 16px;"><strong>Reason:</strong> ${safeReason}</p>` : "";
+  const linkHtml = (path: string, label: string) =>
+    `<p style="margin: 24px 0;"><a href="${siteUrl}${path}" style="background: #1a1a1a; color: #fff; padding: 10px 18px; border-radius: 6px; text-decoration: none;">${label}</a></p>`;
+
+  const subjects: Record<LessonEmailStatus, string> = {
+    lesson_requested: `New lesson request from ${safeStudent}`,
+    lesson_confirmed: `🎵 Your lesson "${safeTitle}" is confirmed!`,
+    lesson_declined: `Lesson request update for "${safeTitle}"`,
+    lesson_cancelled: `Your lesson "${safeTitle}" has been cancelled`,
+    lesson_cancelled_by_student: `${safeStudent} cancelled a lesson`,
+    lesson_reschedule_proposed: `New time proposed for "${safeTitle}"`,
+    lesson_rescheduled: `${safeStudent} accepted the new lesson time`,
+    lesson_reschedule_declined: `${safeStudent} couldn't make the new lesson time`,
+    lesson_reminder: `Reminder: "${safeTitle}" is coming up`,
+  };
+
+  const bodies: Record<LessonEmailStatus, () => string> = {
+    lesson_requested: () => `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">New Lesson Request</h1>
+          <p style="color: #333; font-size: 16px;">Hi ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">${safeStudent} would like to book ${seriesLessons.length > 1 ? "a series of lessons" : "a lesson"}:</p>
+          ${currentLessonHtml}
+          ${booking.notes ? `<p style="color: #333; font-size: 16px;"><strong>Note from ${safeStudent}:</strong> ${escapeHtml(booking.notes)}</p>` : ""}
+          ${linkHtml(`/classes/${cls.id}`, "Review the request")}`,
+    lesson_confirmed: () => `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">Lesson Confirmed! 🎉</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">Your teacher has confirmed ${seriesLessons.length > 1 ? "your lessons" : "your lesson"}:</p>
+          ${currentLessonHtml}
+          <p style="color: #333; font-size: 16px;">We look forward to seeing you there!</p>`,
+    lesson_declined: () => `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">Lesson Request Update</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">Unfortunately, your teacher couldn't take this lesson:</p>
+          ${currentLessonHtml}
+          ${reasonHtml}
+          ${linkHtml(`/classes/${cls.id}`, "Pick another time")}`,
+    lesson_cancelled: () => `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">Lesson Cancelled</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">Your teacher has cancelled ${seriesLessons.length > 1 ? "these lessons" : "this lesson"}:</p>
+          ${currentLessonHtml}
+          ${reasonHtml}
+          ${linkHtml(`/classes/${cls.id}`, "Book another time")}`,
+    lesson_cancelled_by_student: () => `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">Lesson Cancelled</h1>
+          <p style="color: #333; font-size: 16px;">Hi ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">${safeStudent} has cancelled:</p>
+          ${currentLessonHtml}
+          ${reasonHtml}
+          <p style="color: #333; font-size: 16px;">The time is open for other students again.</p>`,
+    lesson_reschedule_proposed: () => `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">New Time Proposed</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">Your teacher can't make the original time and has suggested a new one.</p>
+          ${lessonHtml(booking.booking_date, booking.start_time, booking.end_time, `${safeTitle} (original time)`)}
+          ${lessonHtml(booking.proposed_date!, booking.proposed_start_time!, booking.proposed_end_time!, "Proposed time")}
+          ${booking.proposal_note ? `<p style="color: #333; font-size: 16px;"><strong>Note from your teacher:</strong> ${escapeHtml(booking.proposal_note)}</p>` : ""}
+          ${linkHtml("/settings", "Accept or decline")}`,
+    lesson_rescheduled: () => `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">New Time Accepted</h1>
+          <p style="color: #333; font-size: 16px;">Hi ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">${safeStudent} accepted the new time, so the lesson is confirmed for:</p>
+          ${currentLessonHtml}`,
+    lesson_reschedule_declined: () => `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">New Time Declined</h1>
+          <p style="color: #333; font-size: 16px;">Hi ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">${safeStudent} couldn't make the time you proposed, so this lesson has been cancelled:</p>
+          ${currentLessonHtml}`,
+    lesson_reminder: () => `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">Your Lesson Is Coming Up</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">Just a reminder of your upcoming lesson:</p>
+          ${currentLessonHtml}
+          ${roomUrl
+            ? `<p style="color: #333; font-size: 16px;">This lesson is online. Join from 15 minutes before it starts:</p>
+          <p style="margin: 24px 0;"><a href="${escapeHtml(roomUrl)}" style="background: #1a1a1a; color: #fff; padding: 10px 18px; border-radius: 6px; text-decoration: none;">Join the lesson</a></p>
+          <p style="color: #666; font-size: 14px;">Or paste this link into your browser: ${escapeHtml(roomUrl)}</p>`
+            : `<p style="color: #333; font-size: 16px;">We look forward to seeing you there!</p>`}
+          ${linkHtml("/settings", "View my lessons")}`,
+  };
+
+  console.log(`Sending ${status} email for lesson ${booking.id}`);
+
+  const { data: sent, error: resendError } = await resend.emails.send({
+    from: "Raag Connect <noreply@raagconnect.com>",
+    to: [to],
+    subject: subjects[status],
+    html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          ${bodies[status]()}
+          <p style="color: #666; font-size: 14px; margin-top: 30px;">Best regards,<br>Raag Connect</p>
+        </div>
+      `,
+  });
+
+  if (resendError) {
+    console.error("Resend error:", resendError);
+    return jsonResponse({ error: resendError.message ?? "Failed to send email" }, 500);
+  }
+  return jsonResponse({ data: sent });
+}
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const enrollmentMatchesStatus = (enrollment: ClassEnrollment, status: EnrollmentEmailStatus): boolean => {
+  switch (status) {
+    case "class_enrolled": return enrollment.status === "enrolled" && enrollment.promoted_at === null;
+    case "class_waitlisted": return enrollment.status === "waitlisted";
+    case "class_waitlist_promoted": return enrollment.status === "enrolled" && enrollment.promoted_at !== null;
+    case "class_enrollment_cancelled": return enrollment.status === "cancelled" && enrollment.cancelled_by === "teacher";
+  }
+};
+
+async function sendEnrollmentEmail(status: EnrollmentEmailStatus, enrollmentId: unknown, caller: Caller): Promise<Response> {
+  if (typeof enrollmentId !== "string" || !uuidRegex.test(enrollmentId)) {
+    return jsonResponse({ error: "Invalid enrollmentId" }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  const { data, error } = await supabase
+    .from("class_enrollments")
+    .select("id, user_id, student_name, student_email, status, promoted_at, cancelled_by, class_terms!inner(name, start_date, end_date), classes!inner(id, title, user_id, time_zone, location_name, class_type, group_schedule_day, group_schedule_time, group_schedule_end_time)")
+    .eq("id", enrollmentId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const enrollment = data as unknown as ClassEnrollment | null;
+  if (!enrollment) {
+    return jsonResponse({ error: "Enrollment not found" }, 404);
+  }
+  if (!caller.isServiceRole && caller.userId !== enrollment.user_id && caller.userId !== enrollment.classes.user_id) {
+    return jsonResponse({ error: "Not allowed" }, 403);
+  }
+  if (!enrollmentMatchesStatus(enrollment, status)) {
+    return jsonResponse({ error: "The enrollment is no longer in that state" }, 409);
+  }
+  if (!isValidEmail(enrollment.student_email)) {
+    return jsonResponse({ error: "Invalid email format" }, 400);
+  }
+
+  const siteUrl = Deno.env.get("SITE_URL") ?? "https://raagconnect.com";
+  const cls = enrollment.classes;
+  const term = enrollment.class_terms;
+  const safeName = escapeHtml(enrollment.student_name);
+  const safeTitle = escapeHtml(cls.title);
+  const safeTerm = escapeHtml(term.name);
+  const safeLocation = escapeHtml(cls.class_type === "online" ? "Online" : cls.location_name || "TBA");
+  const schedule = cls.group_schedule_day !== null && cls.group_schedule_time
+    ? `Every ${WEEKDAYS[cls.group_schedule_day]}, ${cls.group_schedule_end_time
+      ? formatLessonTimes(cls.group_schedule_time, cls.group_schedule_end_time, cls.time_zone)
+      : formatLessonTime(cls.group_schedule_time)}`
+    : null;
+
+  const termHtml = `
+          <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h2 style="color: #1a1a1a; margin: 0 0 12px 0;">${safeTitle} &mdash; ${safeTerm}</h2>
+            <p style="margin: 8px 0; color: #666;"><strong>Dates:</strong> ${escapeHtml(formatLessonDate(term.start_date))} to ${escapeHtml(formatLessonDate(term.end_date))}</p>
+            ${schedule ? `<p style="margin: 8px 0; color: #666;"><strong>When:</strong> ${escapeHtml(schedule)}</p>` : ""}
+            <p style="margin: 8px 0; color: #666;"><strong>Location:</strong> ${safeLocation}</p>
+          </div>`;
+  const linkHtml = `<p style="margin: 24px 0;"><a href="${siteUrl}/classes/${cls.id}" style="background: #1a1a1a; color: #fff; padding: 10px 18px; border-radius: 6px; text-decoration: none;">View the class</a></p>`;
+
+  const subjects: Record<EnrollmentEmailStatus, string> = {
+    class_enrolled: `🎵 You're enrolled in "${safeTitle}"`,
+    class_waitlisted: `You're on the waitlist for "${safeTitle}"`,
+    class_waitlist_promoted: `🎉 A seat opened up in "${safeTitle}"`,
+    class_enrollment_cancelled: `Your enrollment in "${safeTitle}" has been cancelled`,
+  };
+
+  const bodies: Record<EnrollmentEmailStatus, string> = {
+    class_enrolled: `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">You're Enrolled! 🎉</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">Your seat is confirmed for:</p>
+          ${termHtml}
+          <p style="color: #333; font-size: 16px;">We look forward to seeing you there!</p>`,
+    class_waitlisted: `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">You're on the Waitlist</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">This term is full, so we've added you to the waitlist. If a seat opens up, you'll get it automatically and we'll email you.</p>
+          ${termHtml}
+          ${linkHtml}`,
+    class_waitlist_promoted: `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">You're In! 🎉</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">A seat opened up and it's yours. You're now enrolled in:</p>
+          ${termHtml}
+          ${linkHtml}`,
+    class_enrollment_cancelled: `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">Enrollment Cancelled</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeName},</p>
+          <p style="color: #333; font-size: 16px;">Your teacher has removed you from:</p>
+          ${termHtml}
+          <p style="color: #333; font-size: 16px;">If you think this is a mistake, please contact your teacher.</p>`,
+  };
+
+  console.log(`Sending ${status} email for enrollment ${enrollment.id}`);
+
+  const { data: sent, error: resendError } = await resend.emails.send({
+    from: "Raag Connect <noreply@raagconnect.com>",
+    to: [enrollment.student_email],
+    subject: subjects[status],
+    html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          ${bodies[status]}
+          <p style="color: #666; font-size: 14px; margin-top: 30px;">Best regards,<br>Raag Connect</p>
+        </div>
+      `,
+  });
+
+  if (resendError) {
+    console.error("Resend error:", resendError);
+    return jsonResponse({ error: resendError.message ?? "Failed to send email" }, 500);
+  }
+  return jsonResponse({ data: sent });
+}
+
+interface Caller {
+  userId: string | null;
+  isServiceRole: boolean;
+}
+
+// Who sent the request: a signed-in user, or the service role as the
+// reminder job and payment functions do. Null without a valid token.
+async function getCaller(req: Request): Promise<Caller | null> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+    { global: { headers: { Authorization: authHeader } } },
+  );
+  const { data: claimsData, error } = await supabaseClient.auth.getClaims(authHeader.replace("Bearer ", ""));
+  if (error || !claimsData?.claims) return null;
+  if (claimsData.claims.role === "service_role") return { userId: null, isServiceRole: true };
+  return claimsData.claims.sub ? { userId: claimsData.claims.sub as string, isServiceRole: false } : null;
+}
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -47,7 +540,24 @@ const handler = async (req: Request): Promise<Response> => {
 
   try {
     const body = await req.json();
-    const { to, attendeeName, eventTitle, eventDate, eventTime, eventLocation, status } = body as BookingEmailRequest;
+    // Emails built from a lesson or enrollment only go to the people in it,
+    // so only they (or the service role) can send them
+    if (lessonStatuses.includes(body.status) || enrollmentStatuses.includes(body.status)) {
+      const caller = await getCaller(req);
+      if (!caller) {
+        return jsonResponse({ error: "Authentication required" }, 401);
+      }
+      // Reminders open the lesson's room, so only send-lesson-reminders sends them
+      if (body.status === "lesson_reminder" && !caller.isServiceRole) {
+        return jsonResponse({ error: "Not allowed" }, 403);
+      }
+      if (lessonStatuses.includes(body.status)) {
+        return await sendLessonEmail(body.status, body.classBookingId, body.wholeSeries === true, caller);
+      }
+      return await sendEnrollmentEmail(body.status, body.enrollmentId, caller);
+    }
+
+    const { to, attendeeName, eventTitle, eventDate, eventTime, eventLocation, status, orderId, refundAmount, refundMethod, refundNote } = body as BookingEmailRequest;
 
     // Validate required fields
     if (!to || !attendeeName || !eventTitle || !eventDate || !status) {
@@ -88,13 +598,86 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     // Validate status
-    if (status !== "confirmed" && status !== "rejected") {
+    if (!validStatuses.includes(status)) {
       return new Response(
         JSON.stringify({ error: "Invalid status" }),
         { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
+    if (orderId !== undefined && (typeof orderId !== "string" || !uuidRegex.test(orderId))) {
+      return new Response(
+        JSON.stringify({ error: "Invalid orderId" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    if (refundAmount !== undefined && (typeof refundAmount !== "number" || !(refundAmount >= 0) || refundAmount > 100000)) {
+      return new Response(
+        JSON.stringify({ error: "Invalid refundAmount" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+    if ((refundMethod && refundMethod.length > 50) || (refundNote && refundNote.length > 500)) {
+      return new Response(
+        JSON.stringify({ error: "Refund details too long" }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    // Confirmed orders get their e-tickets as QR code attachments. Tickets are
+    // only ever sent to the order's own buyer address.
+    const tickets: TicketAttachment[] = [];
+    if (status === "confirmed" && orderId) {
+      const supabase = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      );
+
+      const { data: order, error: orderError } = await supabase
+        .from("orders")
+        .select("buyer_email, bookings(attendee_name, ticket_code, status, created_at)")
+        .eq("id", orderId)
+        .maybeSingle();
+
+      if (orderError) {
+        console.error("Error loading order tickets:", orderError);
+      } else if (order && order.buyer_email.toLowerCase() === to.toLowerCase()) {
+        const orderTickets = (order.bookings as { attendee_name: string; ticket_code: string | null; status: string; created_at: string }[])
+          .filter((t) => t.status === "confirmed" && t.ticket_code)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+        orderTickets.forEach((t, index) => {
+          tickets.push({
+            attendeeName: t.attendee_name,
+            code: t.ticket_code!,
+            filename: `ticket-${index + 1}.png`,
+          });
+        });
+      }
+    }
+
+    const attachments = await Promise.all(
+      tickets.map(async (t) => {
+        const dataUrl: string = await QRCode.toDataURL(t.code, { width: 320, margin: 2 });
+        return { filename: t.filename, content: dataUrl.split(",")[1] };
+      })
+    );
+
+    const ticketsHtml = tickets.length > 0
+      ? `
+          <div style="margin: 20px 0;">
+            <h3 style="color: #1a1a1a; margin: 0 0 8px 0;">Your ${tickets.length === 1 ? "ticket" : "tickets"}</h3>
+            <p style="color: #666; font-size: 14px; margin: 0 0 12px 0;">Show the attached QR ${tickets.length === 1 ? "code" : "codes"} at the door, or read out the ticket code below.</p>
+            ${tickets.map((t) => `
+              <p style="margin: 6px 0; color: #333; font-size: 14px;">
+                ${escapeHtml(t.attendeeName)} &mdash; <span style="font-family: monospace; font-weight: bold;">${formatTicketCode(t.code)}</span> (${t.filename})
+              </p>
+            `).join("")}
+          </div>
+        `
+      : "";
+
     // Escape all user-provided content for safe HTML embedding
     const safeAttendeeName = escapeHtml(attendeeName);
     const safeEventTitle = escapeHtml(eventTitle);
@@ -104,14 +687,27 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Sending ${status} email to ${to} for event: ${eventTitle}`);
 
-    const isConfirmed = status === "confirmed";
-    const subject = isConfirmed 
-      ? `🎵 Your booking for "${safeEventTitle}" is confirmed!`
-      : `Booking update for "${safeEventTitle}"`;
+    const safeRefundAmount = refundAmount !== undefined ? `$${refundAmount.toFixed(2)}` : "your payment";
+    const safeRefundMethod = escapeHtml(refundMethod || "");
+    const safeRefundNote = escapeHtml(refundNote || "");
 
-    const html = isConfirmed
-      ? `
-        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+    const eventSummaryHtml = `
+          <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h2 style="color: #1a1a1a; margin: 0 0 12px 0;">${safeEventTitle}</h2>
+            <p style="margin: 8px 0; color: #666;"><strong>Date:</strong> ${safeEventDate}</p>
+          </div>`;
+
+    const subjects: Record<BookingEmailStatus, string> = {
+      confirmed: `🎵 Your booking for "${safeEventTitle}" is confirmed!`,
+      rejected: `Booking update for "${safeEventTitle}"`,
+      cancelled: `Your booking for "${safeEventTitle}" has been cancelled`,
+      refund_requested: `Your booking for "${safeEventTitle}" has been cancelled`,
+      refunded: `Your refund for "${safeEventTitle}" has been issued`,
+    };
+    const subject = subjects[status];
+
+    const bodies: Record<BookingEmailStatus, string> = {
+      confirmed: `
           <h1 style="color: #1a1a1a; margin-bottom: 20px;">Booking Confirmed! 🎉</h1>
           <p style="color: #333; font-size: 16px;">Dear ${safeAttendeeName},</p>
           <p style="color: #333; font-size: 16px;">Great news! Your booking has been confirmed for:</p>
@@ -121,20 +717,38 @@ const handler = async (req: Request): Promise<Response> => {
             <p style="margin: 8px 0; color: #666;"><strong>Time:</strong> ${safeEventTime}</p>
             <p style="margin: 8px 0; color: #666;"><strong>Location:</strong> ${safeEventLocation}</p>
           </div>
-          <p style="color: #333; font-size: 16px;">We look forward to seeing you at the event!</p>
-          <p style="color: #666; font-size: 14px; margin-top: 30px;">Best regards,<br>Raag Connect</p>
-        </div>
-      `
-      : `
-        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          ${ticketsHtml}
+          <p style="color: #333; font-size: 16px;">We look forward to seeing you at the event!</p>`,
+      rejected: `
           <h1 style="color: #1a1a1a; margin-bottom: 20px;">Booking Update</h1>
           <p style="color: #333; font-size: 16px;">Dear ${safeAttendeeName},</p>
           <p style="color: #333; font-size: 16px;">Unfortunately, your booking for the following event could not be confirmed:</p>
-          <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <h2 style="color: #1a1a1a; margin: 0 0 12px 0;">${safeEventTitle}</h2>
-            <p style="margin: 8px 0; color: #666;"><strong>Date:</strong> ${safeEventDate}</p>
-          </div>
-          <p style="color: #333; font-size: 16px;">This may be due to payment verification issues or event capacity. Please contact the organizer for more details.</p>
+          ${eventSummaryHtml}
+          <p style="color: #333; font-size: 16px;">This may be due to payment verification issues or event capacity. Please contact the organizer for more details.</p>`,
+      cancelled: `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">Booking Cancelled</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeAttendeeName},</p>
+          <p style="color: #333; font-size: 16px;">Your booking for the following event has been cancelled and your tickets are no longer valid:</p>
+          ${eventSummaryHtml}
+          <p style="color: #333; font-size: 16px;">We hope to see you at another event soon.</p>`,
+      refund_requested: `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">Booking Cancelled</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeAttendeeName},</p>
+          <p style="color: #333; font-size: 16px;">Your booking for the following event has been cancelled and your tickets are no longer valid:</p>
+          ${eventSummaryHtml}
+          <p style="color: #333; font-size: 16px;">We've asked the organizer to refund ${safeRefundAmount}. You'll get another email once the refund has been issued.</p>`,
+      refunded: `
+          <h1 style="color: #1a1a1a; margin-bottom: 20px;">Refund Issued</h1>
+          <p style="color: #333; font-size: 16px;">Dear ${safeAttendeeName},</p>
+          <p style="color: #333; font-size: 16px;">The organizer has refunded ${safeRefundAmount}${safeRefundMethod ? ` via ${safeRefundMethod}` : ""} for your cancelled booking:</p>
+          ${eventSummaryHtml}
+          ${safeRefundNote ? `<p style="color: #333; font-size: 16px;"><strong>Note from the organizer:</strong> ${safeRefundNote}</p>` : ""}
+          <p style="color: #333; font-size: 16px;">Depending on the payment method, it may take a few days to show up in your account.</p>`,
+    };
+
+    const html = `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          ${bodies[status]}
           <p style="color: #666; font-size: 14px; margin-top: 30px;">Best regards,<br>Raag Connect</p>
         </div>
       `;
@@ -144,6 +758,7 @@ const handler = async (req: Request): Promise<Response> => {
       to: [to],
       subject,
       html,
+      attachments: attachments.length > 0 ? attachments : undefined,
     });
 
     if (resendError) {
@@ -0,0 +1,101 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { addDaysToDate, getZonedDateTime, zonedTimeToDate } from "../_shared/ical.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How long before a lesson its reminder goes out
+const REMINDER_HOURS = 24;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Emails students a reminder of each confirmed lesson starting within the
+// next day, with the room link for online lessons. Each lesson is reminded
+// once. The send-lesson-reminders cron job calls it every 15 minutes with
+// the service role key.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getClaims(token);
+    if (authError || claimsData?.claims?.role !== 'service_role') {
+      return jsonResponse({ error: 'Not allowed' }, 403);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    // Lesson dates are in each class's zone, so look a day either side
+    const now = new Date();
+    const until = new Date(now.getTime() + REMINDER_HOURS * 60 * 60 * 1000);
+    const today = getZonedDateTime(now, 'UTC').date;
+
+    const { data: lessons, error } = await supabase
+      .from('class_bookings')
+      .select('id, booking_date, start_time, classes!inner(time_zone)')
+      .eq('status', 'confirmed')
+      .is('reminder_sent_at', null)
+      .gte('booking_date', addDaysToDate(today, -1))
+      .lte('booking_date', addDaysToDate(getZonedDateTime(until, 'UTC').date, 1));
+    if (error) throw error;
+
+    const dueIds = (lessons ?? [])
+      .filter((lesson) => {
+        const zone = (lesson.classes as unknown as { time_zone: string | null }).time_zone || 'UTC';
+        const startsAt = zonedTimeToDate(lesson.booking_date, lesson.start_time, zone);
+        return startsAt > now && startsAt <= until;
+      })
+      .map((lesson) => lesson.id);
+    if (dueIds.length === 0) {
+      return jsonResponse({ sent: 0 });
+    }
+
+    // Claimed before sending, so overlapping runs don't send twice
+    const { data: claimed, error: claimError } = await supabase
+      .from('class_bookings')
+      .update({ reminder_sent_at: now.toISOString() })
+      .in('id', dueIds)
+      .is('reminder_sent_at', null)
+      .select('id');
+    if (claimError) throw claimError;
+
+    let sent = 0;
+    for (const { id } of claimed ?? []) {
+      const { error: emailError } = await supabase.functions.invoke('send-booking-email', {
+        body: { status: 'lesson_reminder', classBookingId: id },
+      });
+      if (emailError) {
+        console.error(`Failed to send reminder for lesson ${id}:`, emailError);
+        continue;
+      }
+      sent++;
+    }
+
+    return jsonResponse({ sent });
+  } catch (err) {
+    console.error('Error sending lesson reminders:', err);
+    return jsonResponse({ error: 'Could not send lesson reminders' }, 500);
+  }
+});
@@ -0,0 +1,217 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stripeRequest, verifyStripeSignature } from "../_shared/stripe.ts";
+import { flagOrderRefund, LATE_PAYMENT_REFUND_NOTE, recordOrderRefund } from "../_shared/orders.ts";
+
+interface CheckoutSession {
+  id: string;
+  payment_status: string;
+  payment_intent: string | null;
+  metadata?: { order_id?: string; package_purchase_id?: string };
+}
+
+// Matches the organizer's refund methods in BookingManagement
+const STRIPE_REFUND_METHOD = 'Card (Stripe)';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// A payment that completes after its order was released (by the buyer or the
+// expiry sweep) has no tickets left to confirm, so the money goes back. If
+// Stripe refuses, the order is flagged for the organizer and the error makes
+// Stripe retry.
+async function refundReleasedOrder(supabase: SupabaseClient, orderId: string, session: CheckoutSession) {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('status')
+    .eq('id', orderId)
+    .maybeSingle();
+  if (error) throw error;
+  // Already confirmed by an earlier delivery of this event
+  if (!order || order.status === 'confirmed') return;
+
+  console.error(`Stripe payment ${session.payment_intent} arrived after order ${orderId} was ${order.status}; refunding`);
+
+  try {
+    if (!session.payment_intent) throw new Error('Checkout session has no payment intent');
+    await stripeRequest('refunds', {
+      payment_intent: session.payment_intent,
+      'metadata[order_id]': orderId,
+    }, 'POST', `refund-${session.id}`);
+  } catch (refundError) {
+    await flagOrderRefund(supabase, orderId, STRIPE_REFUND_METHOD, LATE_PAYMENT_REFUND_NOTE);
+    throw refundError;
+  }
+
+  await recordOrderRefund(supabase, orderId, STRIPE_REFUND_METHOD, LATE_PAYMENT_REFUND_NOTE, {
+    stripe_checkout_session_id: session.id,
+    stripe_payment_intent_id: session.payment_intent,
+  });
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+  if (!webhookSecret) {
+    console.error('STRIPE_WEBHOOK_SECRET not configured');
+    return jsonResponse({ error: 'Webhook not configured' }, 500);
+  }
+
+  // Signature is computed over the raw body, so read it before parsing
+  const payload = await req.text();
+  const isValid = await verifyStripeSignature(payload, req.headers.get('Stripe-Signature'), webhookSecret);
+  if (!isValid) {
+    console.error('Invalid Stripe signature');
+    return jsonResponse({ error: 'Invalid signature' }, 400);
+  }
+
+  try {
+    const event = JSON.parse(payload);
+    const session = event.data?.object as CheckoutSession;
+    const orderId = session?.metadata?.order_id;
+    const packagePurchaseId = session?.metadata?.package_purchase_id;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    // Lesson packages add credits instead of confirming an order
+    if (packagePurchaseId) {
+      switch (event.type) {
+        case 'checkout.session.completed':
+        case 'checkout.session.async_payment_succeeded': {
+          if (session.payment_status !== 'paid') break;
+
+          const { data: granted, error } = await supabase.rpc('grant_package_credits', {
+            _purchase_id: packagePurchaseId,
+            _checkout_session_id: session.id,
+            _payment_intent_id: session.payment_intent ?? undefined,
+          });
+          if (error) throw error;
+          if (granted) console.log(`Package purchase ${packagePurchaseId} paid via Stripe`);
+          break;
+        }
+
+        case 'checkout.session.expired':
+        case 'checkout.session.async_payment_failed': {
+          const { error } = await supabase
+            .from('lesson_credit_purchases')
+            .update({ status: 'cancelled' })
+            .eq('id', packagePurchaseId)
+            .eq('status', 'pending');
+          if (error) throw error;
+          console.log(`Package purchase ${packagePurchaseId} released (${event.type})`);
+          break;
+        }
+
+        default:
+          console.log(`Ignoring Stripe event ${event.type}`);
+      }
+
+      return jsonResponse({ received: true });
+    }
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded': {
+        if (!orderId) break;
+
+        // Delayed payment methods settle later; keep the tickets held until they do
+        if (session.payment_status !== 'paid') {
+          const { error } = await supabase
+            .from('orders')
+            .update({ expires_at: null })
+            .eq('id', orderId)
+            .eq('status', 'pending');
+          if (error) throw error;
+          break;
+        }
+
+        // Only pending orders move to confirmed, so webhook retries are harmless
+        const { data: order, error } = await supabase
+          .from('orders')
+          .update({
+            status: 'confirmed',
+            stripe_checkout_session_id: session.id,
+            stripe_payment_intent_id: session.payment_intent,
+          })
+          .eq('id', orderId)
+          .eq('status', 'pending')
+          .select('buyer_email, buyer_name, events(title, date, time, location_name)')
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!order) {
+          await refundReleasedOrder(supabase, orderId, session);
+          break;
+        }
+
+        console.log(`Order ${orderId} confirmed via Stripe`);
+
+        const orderEvent = order.events as { title: string; date: string; time: string; location_name: string | null } | null;
+        try {
+          await supabase.functions.invoke('send-booking-email', {
+            body: {
+              to: order.buyer_email,
+              attendeeName: order.buyer_name,
+              eventTitle: orderEvent?.title || 'Event',
+              eventDate: orderEvent?.date
+                ? new Date(orderEvent.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+                : 'TBA',
+              eventTime: orderEvent?.time || 'TBA',
+              eventLocation: orderEvent?.location_name || 'TBA',
+              status: 'confirmed',
+              orderId
+            }
+          });
+        } catch (emailError) {
+          console.error('Failed to send confirmation email:', emailError);
+        }
+        break;
+      }
+
+      case 'checkout.session.expired':
+      case 'checkout.session.async_payment_failed': {
+        if (!orderId) break;
+
+        // Release the reserved tickets
+        const { data: released, error } = await supabase
+          .from('orders')
+          .update({ status: 'cancelled' })
+          .eq('id', orderId)
+          .eq('status', 'pending')
+          .select('event_id')
+          .maybeSingle();
+
+        if (error) throw error;
+        console.log(`Order ${orderId} released (${event.type})`);
+
+        // Offer the freed seats to the waitlist
+        if (released) {
+          try {
+            await supabase.functions.invoke('promote-waitlist', { body: { eventId: released.event_id } });
+          } catch (waitlistError) {
+            console.error('Failed to promote waitlist:', waitlistError);
+          }
+        }
+        break;
+      }
+
+      default:
+        console.log(`Ignoring Stripe event ${event.type}`);
+    }
+
+    return jsonResponse({ received: true });
+  } catch (error: unknown) {
+    console.error('Error handling Stripe webhook:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 500);
+  }
+});
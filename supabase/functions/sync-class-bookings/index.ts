@@ -0,0 +1,157 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { addDaysToDate, buildCalendar } from "../_shared/ical.ts";
+import { type CalDavCalendar, CalDavError, deleteEvent, putEvent } from "../_shared/caldav.ts";
+import { fetchTeacherCalendar } from "../_shared/teacherCalendar.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+interface BookingClass {
+  id: string;
+  title: string;
+  user_id: string;
+  time_zone: string | null;
+  location_name: string | null;
+  class_type: string;
+}
+
+interface LessonBooking {
+  id: string;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  student_name: string;
+  student_email: string;
+  notes: string | null;
+}
+
+function lessonCalendar(booking: LessonBooking, cls: BookingClass, siteUrl: string): string {
+  const start = { date: booking.booking_date, time: booking.start_time, timeZone: cls.time_zone };
+  return buildCalendar(null, [{
+    uid: `lesson-${booking.id}@raagconnect`,
+    summary: `${cls.title} with ${booking.student_name}`,
+    start,
+    end: {
+      ...start,
+      date: booking.end_time <= booking.start_time ? addDaysToDate(booking.booking_date, 1) : booking.booking_date,
+      time: booking.end_time,
+    },
+    description: [booking.student_email, booking.notes].filter(Boolean).join('\n\n'),
+    location: cls.class_type === 'online' ? 'Online' : cls.location_name,
+    url: `${siteUrl}/classes/${cls.id}`,
+  }]);
+}
+
+// Writes confirmed lessons to the teacher's connected CalDAV calendar and
+// removes cancelled ones. Called by the class_bookings triggers as the service
+// role; deleted bookings come with remove: true and the teacher they belonged to.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: claimsData, error: authError } = await supabaseClient.auth.getClaims(token);
+    if (authError || !claimsData?.claims) {
+      return jsonResponse({ error: 'Invalid or expired token' }, 401);
+    }
+    if (claimsData.claims.role !== 'service_role') {
+      return jsonResponse({ error: 'Not allowed to sync bookings' }, 403);
+    }
+
+    const { bookingIds, remove = false, teacherId } = await req.json();
+    if (!Array.isArray(bookingIds) || bookingIds.length === 0 || bookingIds.length > 100
+      || !bookingIds.every((id) => typeof id === 'string' && uuidRegex.test(id))) {
+      return jsonResponse({ error: 'bookingIds must be a list of booking ids' }, 400);
+    }
+    if (remove && (typeof teacherId !== 'string' || !uuidRegex.test(teacherId))) {
+      return jsonResponse({ error: 'Removing bookings needs their teacherId' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const siteUrl = Deno.env.get('SITE_URL') ?? 'https://raagconnect.com';
+    const calendars = new Map<string, CalDavCalendar | null>();
+    const failures = new Map<string, string>();
+    let synced = 0;
+
+    const syncLesson = async (lessonTeacherId: string, write: (calendar: CalDavCalendar) => Promise<void>) => {
+      if (failures.has(lessonTeacherId)) return;
+
+      if (!calendars.has(lessonTeacherId)) {
+        calendars.set(lessonTeacherId, await fetchTeacherCalendar(supabase, lessonTeacherId));
+      }
+      const calendar = calendars.get(lessonTeacherId);
+      if (!calendar) return;
+
+      try {
+        await write(calendar);
+        synced++;
+      } catch (err) {
+        // One broken calendar shouldn't stop the rest; the teacher sees the error
+        console.error('Calendar sync failed:', err);
+        failures.set(lessonTeacherId, err instanceof CalDavError ? err.message : 'Could not reach the calendar server');
+      }
+    };
+
+    if (remove) {
+      // The bookings are already deleted; their lessons are named after them
+      for (const bookingId of bookingIds as string[]) {
+        await syncLesson(teacherId, (calendar) => deleteEvent(calendar, bookingId));
+      }
+    } else {
+      const { data: bookings, error: bookingsError } = await supabase
+        .from('class_bookings')
+        .select('id, booking_date, start_time, end_time, status, student_name, student_email, notes, classes!inner(id, title, user_id, time_zone, location_name, class_type)')
+        .in('id', bookingIds);
+      if (bookingsError) throw bookingsError;
+
+      for (const booking of bookings ?? []) {
+        const cls = booking.classes as unknown as BookingClass;
+        await syncLesson(cls.user_id, (calendar) => booking.status === 'confirmed'
+          ? putEvent(calendar, booking.id, lessonCalendar(booking, cls, siteUrl))
+          : deleteEvent(calendar, booking.id));
+      }
+    }
+
+    for (const [calendarTeacherId, calendar] of calendars) {
+      if (!calendar) continue;
+      await supabase
+        .from('teacher_calendars')
+        .update(failures.has(calendarTeacherId)
+          ? { last_error: failures.get(calendarTeacherId) }
+          : { last_synced_at: new Date().toISOString(), last_error: null })
+        .eq('user_id', calendarTeacherId);
+    }
+
+    return jsonResponse({ synced, failed: failures.size });
+  } catch (err) {
+    console.error('Error syncing bookings:', err);
+    return jsonResponse({ error: 'Could not sync bookings' }, 500);
+  }
+});
@@ -0,0 +1,77 @@
+// Talking to a CalDAV calendar through caldav.ts, against the Radicale-style
+// server in radicale.ts. Run with npm test.
+import { deepStrictEqual as assertEquals, rejects as assertRejects } from "node:assert";
+import { CalDavError, checkCalendar, deleteEvent, fetchCalendarData, putEvent, type CalDavCalendar } from "../_shared/caldav.ts";
+import { buildCalendar } from "../_shared/ical.ts";
+import { startCalendarServer, type TestCalendarServer } from "./radicale.ts";
+
+Deno.env.set('CALDAV_ALLOW_INSECURE', 'true');
+
+const withServer = (name: string, fn: (server: TestCalendarServer, calendar: CalDavCalendar) => Promise<void>) =>
+  Deno.test(name, async () => {
+    const server = startCalendarServer();
+    try {
+      await fn(server, { calendar_url: server.calendarUrl, username: server.username, password: server.password });
+    } finally {
+      await server.close();
+    }
+  });
+
+const lesson = (uid: string, date: string) =>
+  buildCalendar(null, [{
+    uid,
+    summary: 'Sitar with Asha',
+    start: { date, time: '17:00', timeZone: 'America/New_York' },
+    end: { date, time: '18:00', timeZone: 'America/New_York' },
+  }]);
+
+withServer('checkCalendar returns the calendar name', async (_server, calendar) => {
+  assertEquals(await checkCalendar(calendar), 'Lessons');
+});
+
+withServer('checkCalendar accepts a calendar URL without the trailing slash', async (_server, calendar) => {
+  assertEquals(await checkCalendar({ ...calendar, calendar_url: calendar.calendar_url.replace(/\/$/, '') }), 'Lessons');
+});
+
+withServer('checkCalendar refuses the account URL', async (server, calendar) => {
+  await assertRejects(
+    checkCalendar({ ...calendar, calendar_url: server.accountUrl }),
+    (err: unknown) => err instanceof CalDavError && /not a calendar/.test(err.message),
+  );
+});
+
+withServer('a wrong password is reported as rejected credentials', async (_server, calendar) => {
+  await assertRejects(
+    checkCalendar({ ...calendar, password: 'wrong' }),
+    (err: unknown) => err instanceof CalDavError && err.status === 401 && /username or password/.test(err.message),
+  );
+});
+
+withServer('putEvent stores a lesson that fetchCalendarData finds in its range', async (server, calendar) => {
+  const ics = lesson('lesson-1@raagconnect', '2026-03-10');
+  await putEvent(calendar, 'booking-1', ics);
+  await putEvent(calendar, 'booking-2', lesson('lesson-2@raagconnect', '2026-04-20'));
+
+  assertEquals([...server.events.keys()], ['booking-1', 'booking-2']);
+  assertEquals(
+    await fetchCalendarData(calendar, new Date('2026-03-01T00:00:00Z'), new Date('2026-04-01T00:00:00Z')),
+    [ics.trim()],
+  );
+});
+
+withServer('putEvent replaces a lesson saved under the same name', async (server, calendar) => {
+  await putEvent(calendar, 'booking-1', lesson('lesson-1@raagconnect', '2026-03-10'));
+  const moved = lesson('lesson-1@raagconnect', '2026-03-12');
+  await putEvent(calendar, 'booking-1', moved);
+
+  assertEquals(server.events.get('booking-1'), moved);
+});
+
+withServer('deleteEvent removes a lesson, and removing it again succeeds', async (server, calendar) => {
+  await putEvent(calendar, 'booking-1', lesson('lesson-1@raagconnect', '2026-03-10'));
+  await deleteEvent(calendar, 'booking-1');
+  await deleteEvent(calendar, 'booking-1');
+
+  assertEquals(server.events.size, 0);
+  assertEquals(await fetchCalendarData(calendar, new Date('2026-03-01T00:00:00Z'), new Date('2026-04-01T00:00:00Z')), []);
+});
@@ -0,0 +1,109 @@
+// Reading sample calendars with readCalendarEvents. Run with npm test.
+import { deepStrictEqual as assertEquals } from "node:assert";
+import { readCalendarEvents, type ParsedEvent } from "../_shared/ical.ts";
+
+const readFixture = (name: string) => Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+const read = async (name: string, from: string, to: string, defaultZone?: string) =>
+  readCalendarEvents(await readFixture(name), new Date(from), new Date(to), defaultZone);
+
+const times = (events: ParsedEvent[]) => events.map(({ start, end }) => [start, end]);
+
+Deno.test('RRULE with COUNT and BYDAY stops after the given number of occurrences', async () => {
+  const events = await read('rrule-count-byday.ics', '2026-01-01T00:00:00Z', '2026-03-01T00:00:00Z');
+  assertEquals(times(events), [
+    ['2026-01-05T23:00:00.000Z', '2026-01-06T00:00:00.000Z'],
+    ['2026-01-07T23:00:00.000Z', '2026-01-08T00:00:00.000Z'],
+    ['2026-01-12T23:00:00.000Z', '2026-01-13T00:00:00.000Z'],
+    ['2026-01-14T23:00:00.000Z', '2026-01-15T00:00:00.000Z'],
+    ['2026-01-19T23:00:00.000Z', '2026-01-20T00:00:00.000Z'],
+  ]);
+});
+
+Deno.test('only occurrences overlapping the range are returned', async () => {
+  const events = await read('rrule-count-byday.ics', '2026-01-10T00:00:00Z', '2026-01-15T00:00:00Z');
+  assertEquals(events.map((e) => e.start), ['2026-01-12T23:00:00.000Z', '2026-01-14T23:00:00.000Z']);
+});
+
+Deno.test('RRULE with UNTIL includes the last occurrence before it', async () => {
+  const events = await read('rrule-until.ics', '2026-01-01T00:00:00Z', '2026-02-01T00:00:00Z');
+  assertEquals(times(events.filter((e) => e.uid === 'until-datetime@example.com')), [
+    ['2026-01-05T08:00:00.000Z', '2026-01-05T09:00:00.000Z'],
+    ['2026-01-07T08:00:00.000Z', '2026-01-07T09:00:00.000Z'],
+    ['2026-01-09T08:00:00.000Z', '2026-01-09T09:00:00.000Z'],
+  ]);
+  // A date-only UNTIL includes that day
+  assertEquals(times(events.filter((e) => e.uid === 'until-date@example.com')), [
+    ['2026-01-12T00:00:00.000Z', '2026-01-13T00:00:00.000Z'],
+    ['2026-01-13T00:00:00.000Z', '2026-01-14T00:00:00.000Z'],
+    ['2026-01-14T00:00:00.000Z', '2026-01-15T00:00:00.000Z'],
+  ]);
+});
+
+Deno.test('RRULE with BYSETPOS and an ordinal BYDAY picks days within the month', async () => {
+  const events = await read('rrule-bysetpos.ics', '2026-01-01T00:00:00Z', '2026-05-01T00:00:00Z');
+  // Last weekday of each month, in Chicago's zone
+  assertEquals(times(events.filter((e) => e.uid === 'last-weekday@example.com')), [
+    ['2026-01-30T23:00:00.000Z', '2026-01-30T23:30:00.000Z'],
+    ['2026-02-27T23:00:00.000Z', '2026-02-27T23:30:00.000Z'],
+    ['2026-03-31T22:00:00.000Z', '2026-03-31T22:30:00.000Z'],
+  ]);
+  assertEquals(events.filter((e) => e.uid === 'second-tuesday@example.com').map((e) => e.start), [
+    '2026-01-13T12:00:00.000Z',
+    '2026-02-10T12:00:00.000Z',
+  ]);
+});
+
+Deno.test('EXDATE removes occurrences and RDATE adds them', async () => {
+  const events = await read('exdate-rdate.ics', '2026-01-01T00:00:00Z', '2026-02-01T00:00:00Z');
+  assertEquals(times(events), [
+    ['2026-01-05T10:00:00.000Z', '2026-01-05T11:00:00.000Z'],
+    ['2026-01-26T10:00:00.000Z', '2026-01-26T11:00:00.000Z'],
+    ['2026-01-28T15:00:00.000Z', '2026-01-28T16:00:00.000Z'],
+  ]);
+});
+
+Deno.test('RECURRENCE-ID overrides move or cancel single occurrences', async () => {
+  const events = await read('recurrence-id.ics', '2026-01-01T00:00:00Z', '2026-02-01T00:00:00Z');
+  assertEquals(events.map(({ start, end, summary }) => [start, end, summary]), [
+    ['2026-01-06T21:00:00.000Z', '2026-01-06T22:00:00.000Z', 'Sitar lesson'],
+    ['2026-01-14T22:00:00.000Z', '2026-01-14T23:00:00.000Z', 'Sitar lesson (moved)'],
+  ]);
+});
+
+Deno.test('Windows zone names are read as their IANA zones', async () => {
+  const events = await read('windows-tzid.ics', '2026-02-01T00:00:00Z', '2026-03-01T00:00:00Z');
+  assertEquals(times(events), [
+    ['2026-02-10T17:00:00.000Z', '2026-02-10T18:00:00.000Z'],
+    ['2026-02-11T08:00:00.000Z', '2026-02-11T08:30:00.000Z'],
+  ]);
+});
+
+Deno.test('floating times are read in the default zone', async () => {
+  const inUtc = await read('floating.ics', '2026-02-01T00:00:00Z', '2026-03-01T00:00:00Z');
+  assertEquals(times(inUtc), [['2026-02-10T09:30:00.000Z', '2026-02-10T10:30:00.000Z']]);
+
+  const inSydney = await read('floating.ics', '2026-02-01T00:00:00Z', '2026-03-01T00:00:00Z', 'Australia/Sydney');
+  assertEquals(times(inSydney), [['2026-02-09T22:30:00.000Z', '2026-02-09T23:30:00.000Z']]);
+});
+
+Deno.test("floating times use the calendar's X-WR-TIMEZONE over the default zone", async () => {
+  const events = await read('floating-calendar-zone.ics', '2026-02-01T00:00:00Z', '2026-03-01T00:00:00Z', 'America/New_York');
+  assertEquals(times(events), [['2026-02-10T04:00:00.000Z', '2026-02-10T05:00:00.000Z']]);
+});
+
+Deno.test('occurrences keep their wall-clock time across a DST change', async () => {
+  const events = await read('dst-transition.ics', '2026-03-01T00:00:00Z', '2026-03-31T00:00:00Z');
+  assertEquals(events.map((e) => e.start), [
+    '2026-03-06T14:00:00.000Z',
+    '2026-03-07T14:00:00.000Z',
+    '2026-03-08T13:00:00.000Z',
+    '2026-03-09T13:00:00.000Z',
+  ]);
+});
+
+Deno.test('an event spanning a DST change lasts the real elapsed time', async () => {
+  const events = await read('dst-transition.ics', '2026-10-01T00:00:00Z', '2026-11-01T00:00:00Z');
+  // 23:00 BST to 03:00 GMT is five hours
+  assertEquals(times(events), [['2026-10-24T22:00:00.000Z', '2026-10-25T03:00:00.000Z']]);
+});
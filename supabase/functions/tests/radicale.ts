@@ -0,0 +1,105 @@
+// A small in-memory CalDAV server for tests, answering the way Radicale does:
+// one user with one calendar at /<user>/<calendar>/, Basic auth, and the
+// PROPFIND, PUT, DELETE and calendar-query REPORT requests caldav.ts makes.
+import { readCalendarEvents } from "../_shared/ical.ts";
+
+export interface TestCalendarServer {
+  // Collection URL, ending in a slash
+  calendarUrl: string;
+  // Account URL, which is a collection but not a calendar
+  accountUrl: string;
+  username: string;
+  password: string;
+  // Stored resources by name, without the .ics extension
+  events: Map<string, string>;
+  close: () => Promise<void>;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Radicale writes DAV: as the default namespace and prefixes CalDAV with C:
+const multistatus = (responses: string[]) =>
+  new Response(`<?xml version='1.0' encoding='utf-8'?>
+<multistatus xmlns="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">${responses.join('')}</multistatus>`, {
+    status: 207,
+    headers: { 'Content-Type': 'text/xml; charset=utf-8' },
+  });
+
+const propResponse = (href: string, props: string) =>
+  `<response><href>${escapeXml(href)}</href><propstat><prop>${props}</prop><status>HTTP/1.1 200 OK</status></propstat></response>`;
+
+// 20260105T230000Z as sent in a time-range filter
+const parseUtc = (value: string) =>
+  new Date(value.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+
+export function startCalendarServer(
+  { username = 'teacher', password = 'secret', displayName = 'Lessons' } = {},
+): TestCalendarServer {
+  const accountPath = `/${username}/`;
+  const calendarPath = `${accountPath}lessons/`;
+  const events = new Map<string, string>();
+
+  const handler = async (req: Request): Promise<Response> => {
+    const body = await req.text();
+    if (req.headers.get('Authorization') !== `Basic ${btoa(`${username}:${password}`)}`) {
+      return new Response('Access to the requested resource forbidden.', {
+        status: 401,
+        headers: { 'WWW-Authenticate': 'Basic realm="Radicale - Password Required"' },
+      });
+    }
+
+    const path = decodeURIComponent(new URL(req.url).pathname);
+    const name = path.startsWith(calendarPath) && path.endsWith('.ics')
+      ? path.slice(calendarPath.length, -'.ics'.length)
+      : null;
+
+    switch (req.method) {
+      case 'PROPFIND':
+        if (path === calendarPath) {
+          return multistatus([propResponse(path,
+            `<resourcetype><collection/><C:calendar/></resourcetype><displayname>${escapeXml(displayName)}</displayname>`)]);
+        }
+        if (path === accountPath) {
+          return multistatus([propResponse(path, '<resourcetype><collection/></resourcetype>')]);
+        }
+        return new Response(null, { status: 404 });
+
+      case 'PUT': {
+        if (!name) return new Response(null, { status: 409 });
+        const existed = events.has(name);
+        events.set(name, body);
+        return new Response(null, { status: existed ? 204 : 201 });
+      }
+
+      case 'DELETE':
+        if (!name || !events.delete(name)) return new Response(null, { status: 404 });
+        return new Response(null, { status: 200 });
+
+      case 'REPORT': {
+        if (path !== calendarPath) return new Response(null, { status: 404 });
+        const range = body.match(/time-range\s+start="([^"]+)"\s+end="([^"]+)"/);
+        const responses = [...events]
+          .filter(([, ics]) => !range || readCalendarEvents(ics, parseUtc(range[1]), parseUtc(range[2])).length > 0)
+          .map(([eventName, ics]) =>
+            propResponse(`${calendarPath}${eventName}.ics`, `<C:calendar-data>${escapeXml(ics)}</C:calendar-data>`));
+        return multistatus(responses);
+      }
+
+      default:
+        return new Response(null, { status: 405 });
+    }
+  };
+
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, handler);
+  const origin = `http://127.0.0.1:${server.addr.port}`;
+
+  return {
+    calendarUrl: `${origin}${calendarPath}`,
+    accountUrl: `${origin}${accountPath}`,
+    username,
+    password,
+    events,
+    close: () => server.shutdown(),
+  };
+}
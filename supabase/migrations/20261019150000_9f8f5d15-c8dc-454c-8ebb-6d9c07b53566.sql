@@ -0,0 +1,135 @@
+-- Track which price tier each booking was sold from
+ALTER TABLE public.bookings ADD COLUMN price_tier_id text;
+
+COMMENT ON COLUMN public.bookings.price_tier_id IS 'Id of the entry in events.price_tiers this ticket was sold from (null = base price)';
+
+CREATE INDEX IF NOT EXISTS bookings_event_tier_idx ON public.bookings (event_id, price_tier_id);
+
+-- Ticket sales per tier for an event. SECURITY DEFINER so attendees can see
+-- availability without being able to read other people's bookings.
+CREATE OR REPLACE FUNCTION public.get_event_ticket_sales(_event_id uuid)
+RETURNS TABLE (price_tier_id text, sold integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.price_tier_id, COUNT(*)::integer AS sold
+  FROM bookings b
+  WHERE b.event_id = _event_id
+    AND b.status NOT IN ('cancelled', 'rejected')
+  GROUP BY b.price_tier_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_ticket_sales(uuid) TO anon, authenticated;
+
+-- Reject bookings that would exceed the event capacity or a tier's quantity.
+-- The event row is locked so two buyers racing for the last seats are serialized.
+CREATE OR REPLACE FUNCTION public.enforce_booking_inventory()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _tier jsonb;
+  _tier_quantity integer;
+  _sold integer;
+BEGIN
+  -- Released bookings never consume inventory
+  IF NEW.status IN ('cancelled', 'rejected') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Updates only need checking when a released booking is reactivated or moves tier
+  IF TG_OP = 'UPDATE'
+    AND OLD.status NOT IN ('cancelled', 'rejected')
+    AND OLD.price_tier_id IS NOT DISTINCT FROM NEW.price_tier_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = NEW.event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF _event.ticket_capacity IS NOT NULL AND _event.ticket_capacity > 0 THEN
+    SELECT COUNT(*) INTO _sold
+    FROM bookings
+    WHERE event_id = NEW.event_id
+      AND status NOT IN ('cancelled', 'rejected')
+      AND id <> NEW.id;
+
+    IF _sold >= _event.ticket_capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    END IF;
+  END IF;
+
+  IF NEW.price_tier_id IS NOT NULL THEN
+    SELECT t INTO _tier
+    FROM jsonb_array_elements(COALESCE(_event.price_tiers, '[]'::jsonb)) AS t
+    WHERE t->>'id' = NEW.price_tier_id;
+
+    IF _tier IS NULL THEN
+      RAISE EXCEPTION 'Unknown ticket type for this event';
+    END IF;
+
+    _tier_quantity := CASE WHEN _tier->>'quantity' ~ '^\d+$' THEN (_tier->>'quantity')::integer END;
+
+    IF _tier_quantity IS NOT NULL AND _tier_quantity > 0 THEN
+      SELECT COUNT(*) INTO _sold
+      FROM bookings
+      WHERE event_id = NEW.event_id
+        AND price_tier_id = NEW.price_tier_id
+        AND status NOT IN ('cancelled', 'rejected')
+        AND id <> NEW.id;
+
+      IF _sold >= _tier_quantity THEN
+        RAISE EXCEPTION '"%" tickets are sold out', _tier->>'name';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_booking_inventory
+BEFORE INSERT OR UPDATE OF status, price_tier_id ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_booking_inventory();
+
+-- Expose the tier on the organizer view
+DROP VIEW IF EXISTS public.bookings_organizer_view;
+
+CREATE VIEW public.bookings_organizer_view
+WITH (security_invoker = true)
+AS
+SELECT
+  b.id,
+  b.event_id,
+  LEFT(b.attendee_email, 3) || '***@' || SPLIT_PART(b.attendee_email, '@', 2) as attendee_email_masked,
+  LEFT(b.attendee_name, 1) || '***' as attendee_name_masked,
+  b.amount,
+  b.status,
+  b.payment_method,
+  b.price_tier_id,
+  b.created_at,
+  b.updated_at,
+  -- Full data only visible to the booking owner or admin
+  CASE
+    WHEN b.user_id = auth.uid() OR is_admin(auth.uid()) THEN b.attendee_email
+    ELSE NULL
+  END as attendee_email,
+  CASE
+    WHEN b.user_id = auth.uid() OR is_admin(auth.uid()) THEN b.attendee_name
+    ELSE NULL
+  END as attendee_name,
+  CASE
+    WHEN b.user_id = auth.uid() OR is_admin(auth.uid()) THEN b.proof_of_payment_url
+    ELSE NULL
+  END as proof_of_payment_url
+FROM public.bookings b;
+
+GRANT SELECT ON public.bookings_organizer_view TO authenticated;
@@ -0,0 +1,326 @@
+-- Orders group the tickets (bookings) bought together in one checkout
+CREATE TABLE public.orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  buyer_name text NOT NULL,
+  buyer_email text NOT NULL,
+  price_tier_id text,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  total_amount numeric NOT NULL CHECK (total_amount >= 0),
+  payment_method text NOT NULL DEFAULT 'direct',
+  proof_of_payment_url text,
+  status text NOT NULL DEFAULT 'pending',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX orders_event_id_idx ON public.orders (event_id);
+CREATE INDEX orders_user_id_idx ON public.orders (user_id);
+
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own orders"
+ON public.orders FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Organizers can view orders for their events"
+ON public.orders FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.events
+  WHERE events.id = orders.event_id
+  AND events.user_id = auth.uid()
+));
+
+CREATE POLICY "Organizers can update orders for their events"
+ON public.orders FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.events
+  WHERE events.id = orders.event_id
+  AND events.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all orders"
+ON public.orders FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update all orders"
+ON public.orders FOR UPDATE
+USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_orders_updated_at
+BEFORE UPDATE ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
+
+-- Link tickets to their order, backfilling orders for existing bookings.
+-- Legacy rows inserted together share user, event and created_at.
+ALTER TABLE public.bookings DISABLE TRIGGER audit_booking_changes;
+
+ALTER TABLE public.bookings ADD COLUMN order_id uuid;
+
+UPDATE public.bookings
+SET order_id = COALESCE(
+  booking_group_id,
+  md5(user_id::text || event_id::text || created_at::text)::uuid
+);
+
+INSERT INTO public.orders (
+  id, event_id, user_id, buyer_name, buyer_email, price_tier_id, quantity,
+  total_amount, payment_method, proof_of_payment_url, status, created_at, updated_at
+)
+SELECT
+  order_id,
+  (array_agg(event_id))[1],
+  (array_agg(user_id))[1],
+  (array_agg(attendee_name ORDER BY id))[1],
+  (array_agg(attendee_email ORDER BY id))[1],
+  (array_agg(price_tier_id))[1],
+  COUNT(*)::integer,
+  SUM(amount),
+  (array_agg(payment_method))[1],
+  (array_agg(proof_of_payment_url) FILTER (WHERE proof_of_payment_url IS NOT NULL))[1],
+  (array_agg(status ORDER BY updated_at DESC))[1],
+  MIN(created_at),
+  MAX(updated_at)
+FROM public.bookings
+GROUP BY order_id;
+
+ALTER TABLE public.bookings ALTER COLUMN order_id SET NOT NULL;
+ALTER TABLE public.bookings
+ADD CONSTRAINT bookings_order_id_fkey FOREIGN KEY (order_id) REFERENCES public.orders(id) ON DELETE CASCADE;
+
+DROP INDEX IF EXISTS public.bookings_booking_group_id_idx;
+ALTER TABLE public.bookings DROP COLUMN booking_group_id;
+
+CREATE INDEX bookings_order_id_idx ON public.bookings (order_id);
+
+ALTER TABLE public.bookings ENABLE TRIGGER audit_booking_changes;
+
+-- Approving or rejecting an order applies to every ticket in it
+CREATE OR REPLACE FUNCTION public.sync_order_booking_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE bookings
+    SET status = NEW.status
+    WHERE order_id = NEW.id
+      AND status <> NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_order_booking_status
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_order_booking_status();
+
+-- Masked view for organizers, mirroring bookings_organizer_view. The event
+-- organizer also sees the proof of payment so they can approve the order.
+CREATE VIEW public.orders_organizer_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.event_id,
+  LEFT(o.buyer_email, 3) || '***@' || SPLIT_PART(o.buyer_email, '@', 2) as buyer_email_masked,
+  LEFT(o.buyer_name, 1) || '***' as buyer_name_masked,
+  o.price_tier_id,
+  o.quantity,
+  o.total_amount,
+  o.payment_method,
+  o.status,
+  o.created_at,
+  o.updated_at,
+  CASE
+    WHEN o.user_id = auth.uid() OR is_admin(auth.uid()) THEN o.buyer_email
+    ELSE NULL
+  END as buyer_email,
+  CASE
+    WHEN o.user_id = auth.uid() OR is_admin(auth.uid()) THEN o.buyer_name
+    ELSE NULL
+  END as buyer_name,
+  CASE
+    WHEN o.user_id = auth.uid() OR is_admin(auth.uid())
+      OR EXISTS (SELECT 1 FROM events e WHERE e.id = o.event_id AND e.user_id = auth.uid())
+    THEN o.proof_of_payment_url
+    ELSE NULL
+  END as proof_of_payment_url
+FROM public.orders o;
+
+GRANT SELECT ON public.orders_organizer_view TO authenticated;
+
+-- Payment proofs now live on the order
+DROP POLICY IF EXISTS "Organizers can view payment proofs for their events" ON storage.objects;
+
+CREATE POLICY "Organizers can view payment proofs for their events"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'payment-proofs'
+  AND EXISTS (
+    SELECT 1 FROM orders o
+    JOIN events e ON o.event_id = e.id
+    WHERE o.proof_of_payment_url = name
+    AND e.user_id = auth.uid()
+  )
+);
+
+-- Book tickets as a single order with one booking row per ticket
+CREATE OR REPLACE FUNCTION public.create_event_booking(
+  _event_id uuid,
+  _quantity integer,
+  _price_tier_id text DEFAULT NULL,
+  _proof_path text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _event events%ROWTYPE;
+  _tier jsonb;
+  _tier_quantity integer;
+  _price numeric;
+  _is_free boolean;
+  _sold integer;
+  _attendee_name text;
+  _attendee_email text;
+  _status text;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to book this event';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 OR _quantity > 10 THEN
+    RAISE EXCEPTION 'You can book between 1 and 10 tickets at a time';
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF _event.date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This event has already passed';
+  END IF;
+
+  -- Work out the ticket price
+  IF jsonb_array_length(COALESCE(_event.price_tiers, '[]'::jsonb)) > 0 THEN
+    IF _price_tier_id IS NULL THEN
+      RAISE EXCEPTION 'Please select a ticket type';
+    END IF;
+
+    SELECT t INTO _tier
+    FROM jsonb_array_elements(_event.price_tiers) AS t
+    WHERE t->>'id' = _price_tier_id;
+
+    IF _tier IS NULL THEN
+      RAISE EXCEPTION 'Unknown ticket type for this event';
+    END IF;
+
+    IF COALESCE(_tier->>'endDate', '') <> '' AND (_tier->>'endDate')::date < CURRENT_DATE THEN
+      RAISE EXCEPTION '"%" tickets are no longer available', _tier->>'name';
+    END IF;
+
+    _price := CASE WHEN _tier->>'price' ~ '^\d+(\.\d+)?$' THEN (_tier->>'price')::numeric ELSE 0 END;
+  ELSE
+    _price_tier_id := NULL;
+    _price := COALESCE(_event.price, 0);
+  END IF;
+
+  -- Capacity (the inventory trigger enforces this too, but this gives a clearer message)
+  IF _event.ticket_capacity IS NOT NULL AND _event.ticket_capacity > 0 THEN
+    SELECT COUNT(*) INTO _sold
+    FROM bookings
+    WHERE event_id = _event_id
+      AND status NOT IN ('cancelled', 'rejected');
+
+    IF _sold >= _event.ticket_capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    ELSIF _sold + _quantity > _event.ticket_capacity THEN
+      RAISE EXCEPTION 'Only % tickets remaining', _event.ticket_capacity - _sold;
+    END IF;
+  END IF;
+
+  IF _tier IS NOT NULL THEN
+    _tier_quantity := CASE WHEN _tier->>'quantity' ~ '^\d+$' THEN (_tier->>'quantity')::integer END;
+
+    IF _tier_quantity IS NOT NULL AND _tier_quantity > 0 THEN
+      SELECT COUNT(*) INTO _sold
+      FROM bookings
+      WHERE event_id = _event_id
+        AND price_tier_id = _price_tier_id
+        AND status NOT IN ('cancelled', 'rejected');
+
+      IF _sold >= _tier_quantity THEN
+        RAISE EXCEPTION '"%" tickets are sold out', _tier->>'name';
+      ELSIF _sold + _quantity > _tier_quantity THEN
+        RAISE EXCEPTION 'Only % "%" tickets remaining', _tier_quantity - _sold, _tier->>'name';
+      END IF;
+    END IF;
+  END IF;
+
+  -- Paid bookings need a proof of payment uploaded to the booker's own folder
+  _is_free := _price = 0;
+  IF _is_free THEN
+    _proof_path := NULL;
+  ELSIF COALESCE(_proof_path, '') = '' THEN
+    RAISE EXCEPTION 'Please upload proof of payment';
+  ELSIF split_part(_proof_path, '/', 1) <> _user_id::text THEN
+    RAISE EXCEPTION 'Invalid proof of payment';
+  END IF;
+
+  SELECT
+    COALESCE(NULLIF(u.email, ''), p.email),
+    COALESCE(NULLIF(p.full_name, ''), u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name')
+  INTO _attendee_email, _attendee_name
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.user_id = u.id
+  WHERE u.id = _user_id;
+
+  IF COALESCE(_attendee_name, '') = '' OR COALESCE(_attendee_email, '') = '' THEN
+    RAISE EXCEPTION 'Please complete your profile with name and email in Account Settings';
+  END IF;
+
+  _status := CASE WHEN _is_free THEN 'confirmed' ELSE 'pending' END;
+
+  INSERT INTO orders (
+    event_id, user_id, buyer_name, buyer_email, price_tier_id, quantity,
+    total_amount, payment_method, proof_of_payment_url, status
+  )
+  VALUES (
+    _event_id, _user_id, _attendee_name, _attendee_email, _price_tier_id, _quantity,
+    _price * _quantity,
+    CASE WHEN _is_free THEN 'free' ELSE 'direct' END,
+    _proof_path,
+    _status
+  )
+  RETURNING id INTO _order_id;
+
+  -- Tickets start out in the buyer's name; they can rename each one afterwards
+  INSERT INTO bookings (
+    order_id, event_id, user_id, attendee_name, attendee_email,
+    amount, price_tier_id, payment_method, status
+  )
+  SELECT
+    _order_id, _event_id, _user_id, _attendee_name, _attendee_email,
+    _price, _price_tier_id,
+    CASE WHEN _is_free THEN 'free' ELSE 'direct' END,
+    _status
+  FROM generate_series(1, _quantity);
+
+  RETURN _order_id;
+END;
+$$;
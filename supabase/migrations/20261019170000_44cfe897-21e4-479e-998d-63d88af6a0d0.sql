@@ -0,0 +1,235 @@
+-- PayPal Checkout references on orders
+ALTER TABLE public.orders ADD COLUMN paypal_order_id text;
+ALTER TABLE public.orders ADD COLUMN paypal_capture_id text;
+
+CREATE UNIQUE INDEX orders_paypal_order_id_key
+ON public.orders (paypal_order_id)
+WHERE paypal_order_id IS NOT NULL;
+
+-- Booking logic shared by the client RPC and the payment edge functions.
+-- Only the service role may call this directly since it trusts _user_id.
+CREATE OR REPLACE FUNCTION public.book_event_tickets(
+  _user_id uuid,
+  _event_id uuid,
+  _quantity integer,
+  _price_tier_id text DEFAULT NULL,
+  _proof_path text DEFAULT NULL,
+  _payment_method text DEFAULT 'direct'
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _tier jsonb;
+  _tier_quantity integer;
+  _price numeric;
+  _is_free boolean;
+  _sold integer;
+  _attendee_name text;
+  _attendee_email text;
+  _status text;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to book this event';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 OR _quantity > 10 THEN
+    RAISE EXCEPTION 'You can book between 1 and 10 tickets at a time';
+  END IF;
+
+  IF _payment_method NOT IN ('direct', 'stripe', 'paypal') THEN
+    RAISE EXCEPTION 'Unsupported payment method';
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF _event.date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This event has already passed';
+  END IF;
+
+  IF _payment_method = 'stripe' AND NOT COALESCE(_event.use_stripe_checkout, false) THEN
+    RAISE EXCEPTION 'Card payments are not enabled for this event';
+  END IF;
+
+  IF _payment_method = 'paypal'
+     AND COALESCE(COALESCE(NULLIF(_event.payment_link, ''), '{}')::jsonb->>'paypal', '') = '' THEN
+    RAISE EXCEPTION 'PayPal is not enabled for this event';
+  END IF;
+
+  -- Work out the ticket price
+  IF jsonb_array_length(COALESCE(_event.price_tiers, '[]'::jsonb)) > 0 THEN
+    IF _price_tier_id IS NULL THEN
+      RAISE EXCEPTION 'Please select a ticket type';
+    END IF;
+
+    SELECT t INTO _tier
+    FROM jsonb_array_elements(_event.price_tiers) AS t
+    WHERE t->>'id' = _price_tier_id;
+
+    IF _tier IS NULL THEN
+      RAISE EXCEPTION 'Unknown ticket type for this event';
+    END IF;
+
+    IF COALESCE(_tier->>'endDate', '') <> '' AND (_tier->>'endDate')::date < CURRENT_DATE THEN
+      RAISE EXCEPTION '"%" tickets are no longer available', _tier->>'name';
+    END IF;
+
+    _price := CASE WHEN _tier->>'price' ~ '^\d+(\.\d+)?$' THEN (_tier->>'price')::numeric ELSE 0 END;
+  ELSE
+    _price_tier_id := NULL;
+    _price := COALESCE(_event.price, 0);
+  END IF;
+
+  -- Capacity (the inventory trigger enforces this too, but this gives a clearer message)
+  IF _event.ticket_capacity IS NOT NULL AND _event.ticket_capacity > 0 THEN
+    SELECT COUNT(*) INTO _sold
+    FROM bookings
+    WHERE event_id = _event_id
+      AND status NOT IN ('cancelled', 'rejected');
+
+    IF _sold >= _event.ticket_capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    ELSIF _sold + _quantity > _event.ticket_capacity THEN
+      RAISE EXCEPTION 'Only % tickets remaining', _event.ticket_capacity - _sold;
+    END IF;
+  END IF;
+
+  IF _tier IS NOT NULL THEN
+    _tier_quantity := CASE WHEN _tier->>'quantity' ~ '^\d+$' THEN (_tier->>'quantity')::integer END;
+
+    IF _tier_quantity IS NOT NULL AND _tier_quantity > 0 THEN
+      SELECT COUNT(*) INTO _sold
+      FROM bookings
+      WHERE event_id = _event_id
+        AND price_tier_id = _price_tier_id
+        AND status NOT IN ('cancelled', 'rejected');
+
+      IF _sold >= _tier_quantity THEN
+        RAISE EXCEPTION '"%" tickets are sold out', _tier->>'name';
+      ELSIF _sold + _quantity > _tier_quantity THEN
+        RAISE EXCEPTION 'Only % "%" tickets remaining', _tier_quantity - _sold, _tier->>'name';
+      END IF;
+    END IF;
+  END IF;
+
+  -- Direct payments need a proof of payment uploaded to the booker's own folder.
+  -- Stripe and PayPal payments are confirmed by the provider instead.
+  _is_free := _price = 0;
+  IF _is_free OR _payment_method <> 'direct' THEN
+    _proof_path := NULL;
+  ELSIF COALESCE(_proof_path, '') = '' THEN
+    RAISE EXCEPTION 'Please upload proof of payment';
+  ELSIF split_part(_proof_path, '/', 1) <> _user_id::text THEN
+    RAISE EXCEPTION 'Invalid proof of payment';
+  END IF;
+
+  IF _is_free THEN
+    _payment_method := 'free';
+  END IF;
+
+  SELECT
+    COALESCE(NULLIF(u.email, ''), p.email),
+    COALESCE(NULLIF(p.full_name, ''), u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name')
+  INTO _attendee_email, _attendee_name
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.user_id = u.id
+  WHERE u.id = _user_id;
+
+  IF COALESCE(_attendee_name, '') = '' OR COALESCE(_attendee_email, '') = '' THEN
+    RAISE EXCEPTION 'Please complete your profile with name and email in Account Settings';
+  END IF;
+
+  _status := CASE WHEN _is_free THEN 'confirmed' ELSE 'pending' END;
+
+  INSERT INTO orders (
+    event_id, user_id, buyer_name, buyer_email, price_tier_id, quantity,
+    total_amount, payment_method, proof_of_payment_url, status
+  )
+  VALUES (
+    _event_id, _user_id, _attendee_name, _attendee_email, _price_tier_id, _quantity,
+    _price * _quantity, _payment_method, _proof_path, _status
+  )
+  RETURNING id INTO _order_id;
+
+  -- Tickets start out in the buyer's name; they can rename each one afterwards
+  INSERT INTO bookings (
+    order_id, event_id, user_id, attendee_name, attendee_email,
+    amount, price_tier_id, payment_method, status
+  )
+  SELECT
+    _order_id, _event_id, _user_id, _attendee_name, _attendee_email,
+    _price, _price_tier_id, _payment_method, _status
+  FROM generate_series(1, _quantity);
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_event_tickets(uuid, uuid, integer, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.book_event_tickets(uuid, uuid, integer, text, text, text) TO service_role;
+
+-- Lets buyers give back tickets held for a checkout they abandoned
+CREATE OR REPLACE FUNCTION public.release_pending_order(_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE id = _order_id
+    AND user_id = auth.uid()
+    AND status = 'pending'
+    AND payment_method IN ('stripe', 'paypal');
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_pending_order(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.release_pending_order(uuid) TO authenticated;
+
+-- Payment confirmations run as the service role with no signed-in user, and
+-- audit_logs.user_id is required, so only log changes made by a user.
+CREATE OR REPLACE FUNCTION public.log_booking_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  redacted_old JSONB;
+  redacted_new JSONB;
+BEGIN
+  -- Don't log admin or system actions
+  IF auth.uid() IS NULL OR is_admin(auth.uid()) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Redact sensitive fields (proof_of_payment_url contains file paths)
+  IF TG_OP = 'INSERT' THEN
+    redacted_new := to_jsonb(NEW) - 'proof_of_payment_url';
+    INSERT INTO audit_logs (user_id, action, table_name, record_id, new_data)
+    VALUES (auth.uid(), 'create', 'bookings', NEW.id, redacted_new);
+  ELSIF TG_OP = 'UPDATE' THEN
+    redacted_old := to_jsonb(OLD) - 'proof_of_payment_url';
+    redacted_new := to_jsonb(NEW) - 'proof_of_payment_url';
+    INSERT INTO audit_logs (user_id, action, table_name, record_id, old_data, new_data)
+    VALUES (auth.uid(), 'update', 'bookings', NEW.id, redacted_old, redacted_new);
+  ELSIF TG_OP = 'DELETE' THEN
+    redacted_old := to_jsonb(OLD) - 'proof_of_payment_url';
+    INSERT INTO audit_logs (user_id, action, table_name, record_id, old_data)
+    VALUES (auth.uid(), 'delete', 'bookings', OLD.id, redacted_old);
+  END IF;
+  
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
@@ -0,0 +1,189 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Secret used to sign ticket codes. RLS with no policies keeps it out of
+-- reach of every client; only SECURITY DEFINER functions read it.
+CREATE TABLE public.ticket_signing_key (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  secret bytea NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ticket_signing_key ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.ticket_signing_key DEFAULT VALUES;
+
+-- E-ticket and door check-in columns
+ALTER TABLE public.bookings ADD COLUMN ticket_code text;
+ALTER TABLE public.bookings ADD COLUMN checked_in_at timestamp with time zone;
+ALTER TABLE public.bookings ADD COLUMN checked_in_by uuid;
+
+CREATE UNIQUE INDEX bookings_ticket_code_key
+ON public.bookings (ticket_code)
+WHERE ticket_code IS NOT NULL;
+
+-- Signature over the random part of a ticket code (8 hex chars)
+CREATE OR REPLACE FUNCTION public.ticket_code_signature(_payload text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT upper(left(encode(extensions.hmac(convert_to(_payload, 'UTF8'), secret, 'sha256'), 'hex'), 8))
+  FROM ticket_signing_key
+  WHERE id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ticket_code_signature(text) FROM PUBLIC, anon, authenticated;
+
+-- Ticket codes are 16 random hex chars followed by their 8 char signature
+CREATE OR REPLACE FUNCTION public.generate_ticket_code()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payload text := upper(encode(extensions.gen_random_bytes(8), 'hex'));
+BEGIN
+  RETURN _payload || ticket_code_signature(_payload);
+END;
+$$;
+
+-- Issues a ticket code once a booking is confirmed. Ticket and check-in
+-- fields can only be changed by the server, never by a direct client update.
+CREATE OR REPLACE FUNCTION public.assign_ticket_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND current_user IN ('anon', 'authenticated') THEN
+    NEW.ticket_code := OLD.ticket_code;
+    NEW.checked_in_at := OLD.checked_in_at;
+    NEW.checked_in_by := OLD.checked_in_by;
+  ELSIF TG_OP = 'INSERT' AND current_user IN ('anon', 'authenticated') THEN
+    NEW.ticket_code := NULL;
+    NEW.checked_in_at := NULL;
+    NEW.checked_in_by := NULL;
+  END IF;
+
+  IF NEW.status = 'confirmed' AND NEW.ticket_code IS NULL THEN
+    NEW.ticket_code := generate_ticket_code();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_ticket_code
+BEFORE INSERT OR UPDATE ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_ticket_code();
+
+-- Tickets for bookings confirmed before e-tickets existed
+UPDATE public.bookings
+SET ticket_code = public.generate_ticket_code()
+WHERE status = 'confirmed' AND ticket_code IS NULL;
+
+-- Door check-in for the event organizer. Accepts the code with or without
+-- dashes/spaces and rejects forged, foreign, unconfirmed and reused tickets.
+CREATE OR REPLACE FUNCTION public.check_in_ticket(_event_id uuid, _code text)
+RETURNS TABLE(
+  booking_id uuid,
+  attendee_name text,
+  price_tier_id text,
+  checked_in_at timestamp with time zone,
+  already_checked_in boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code_clean text := upper(regexp_replace(COALESCE(_code, ''), '[^0-9A-Fa-f]', '', 'g'));
+  _booking bookings%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM events e
+    WHERE e.id = _event_id
+      AND (e.user_id = auth.uid() OR is_admin(auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'Only the event organizer can check in tickets';
+  END IF;
+
+  -- Reject forged codes before touching bookings
+  IF length(_code_clean) <> 24
+     OR ticket_code_signature(left(_code_clean, 16)) <> right(_code_clean, 8) THEN
+    RAISE EXCEPTION 'Invalid ticket code';
+  END IF;
+
+  SELECT * INTO _booking
+  FROM bookings b
+  WHERE b.ticket_code = _code_clean
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF _booking.event_id <> _event_id THEN
+    RAISE EXCEPTION 'This ticket is for a different event';
+  END IF;
+
+  IF _booking.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'This ticket is %', _booking.status;
+  END IF;
+
+  IF _booking.checked_in_at IS NOT NULL THEN
+    RETURN QUERY SELECT _booking.id, _booking.attendee_name, _booking.price_tier_id, _booking.checked_in_at, true;
+    RETURN;
+  END IF;
+
+  UPDATE bookings b
+  SET checked_in_at = now(), checked_in_by = auth.uid()
+  WHERE b.id = _booking.id
+  RETURNING b.checked_in_at INTO _booking.checked_in_at;
+
+  RETURN QUERY SELECT _booking.id, _booking.attendee_name, _booking.price_tier_id, _booking.checked_in_at, false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_in_ticket(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_in_ticket(uuid, text) TO authenticated;
+
+-- Expose check-in state on the organizer view
+DROP VIEW IF EXISTS public.bookings_organizer_view;
+
+CREATE VIEW public.bookings_organizer_view
+WITH (security_invoker = true)
+AS
+SELECT
+  b.id,
+  b.event_id,
+  LEFT(b.attendee_email, 3) || '***@' || SPLIT_PART(b.attendee_email, '@', 2) as attendee_email_masked,
+  LEFT(b.attendee_name, 1) || '***' as attendee_name_masked,
+  b.amount,
+  b.status,
+  b.payment_method,
+  b.price_tier_id,
+  b.checked_in_at,
+  b.created_at,
+  b.updated_at,
+  -- Full data only visible to the booking owner or admin
+  CASE
+    WHEN b.user_id = auth.uid() OR is_admin(auth.uid()) THEN b.attendee_email
+    ELSE NULL
+  END as attendee_email,
+  CASE
+    WHEN b.user_id = auth.uid() OR is_admin(auth.uid()) THEN b.attendee_name
+    ELSE NULL
+  END as attendee_name,
+  CASE
+    WHEN b.user_id = auth.uid() OR is_admin(auth.uid()) THEN b.proof_of_payment_url
+    ELSE NULL
+  END as proof_of_payment_url
+FROM public.bookings b;
+
+GRANT SELECT ON public.bookings_organizer_view TO authenticated;
@@ -0,0 +1,369 @@
+-- Waitlist for sold-out events. When seats free up the next people in line
+-- are offered them and the seats are held for a limited time.
+CREATE TABLE public.event_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  email text NOT NULL,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity BETWEEN 1 AND 10),
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+  claim_token uuid,
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX event_waitlist_event_status_idx ON public.event_waitlist (event_id, status, created_at);
+
+-- One active spot per person per event
+CREATE UNIQUE INDEX event_waitlist_active_key
+ON public.event_waitlist (event_id, user_id)
+WHERE status IN ('waiting', 'offered');
+
+ALTER TABLE public.event_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own waitlist entries"
+ON public.event_waitlist FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all waitlist entries"
+ON public.event_waitlist FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_event_waitlist_updated_at
+BEFORE UPDATE ON public.event_waitlist
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Seats held for waitlist offers that haven't expired yet
+CREATE OR REPLACE FUNCTION public.event_held_seats(_event_id uuid, _exclude_user_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(quantity), 0)::integer
+  FROM event_waitlist
+  WHERE event_id = _event_id
+    AND status = 'offered'
+    AND offer_expires_at > now()
+    AND user_id IS DISTINCT FROM _exclude_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_held_seats(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Held seats show up as sold to everyone except the person they're held for
+CREATE OR REPLACE FUNCTION public.get_event_ticket_sales(_event_id uuid)
+RETURNS TABLE (price_tier_id text, sold integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.price_tier_id, COUNT(*)::integer AS sold
+  FROM bookings b
+  WHERE b.event_id = _event_id
+    AND b.status NOT IN ('cancelled', 'rejected')
+  GROUP BY b.price_tier_id
+  UNION ALL
+  SELECT NULL, event_held_seats(_event_id, auth.uid())
+  WHERE event_held_seats(_event_id, auth.uid()) > 0;
+$$;
+
+-- Capacity now also accounts for seats held for someone else on the waitlist
+CREATE OR REPLACE FUNCTION public.enforce_booking_inventory()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _tier jsonb;
+  _tier_quantity integer;
+  _sold integer;
+BEGIN
+  -- Released bookings never consume inventory
+  IF NEW.status IN ('cancelled', 'rejected') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Updates only need checking when a released booking is reactivated or moves tier
+  IF TG_OP = 'UPDATE'
+    AND OLD.status NOT IN ('cancelled', 'rejected')
+    AND OLD.price_tier_id IS NOT DISTINCT FROM NEW.price_tier_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = NEW.event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF _event.ticket_capacity IS NOT NULL AND _event.ticket_capacity > 0 THEN
+    SELECT COUNT(*) INTO _sold
+    FROM bookings
+    WHERE event_id = NEW.event_id
+      AND status NOT IN ('cancelled', 'rejected')
+      AND id <> NEW.id;
+
+    IF _sold + event_held_seats(NEW.event_id, NEW.user_id) >= _event.ticket_capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    END IF;
+  END IF;
+
+  IF NEW.price_tier_id IS NOT NULL THEN
+    SELECT t INTO _tier
+    FROM jsonb_array_elements(COALESCE(_event.price_tiers, '[]'::jsonb)) AS t
+    WHERE t->>'id' = NEW.price_tier_id;
+
+    IF _tier IS NULL THEN
+      RAISE EXCEPTION 'Unknown ticket type for this event';
+    END IF;
+
+    _tier_quantity := CASE WHEN _tier->>'quantity' ~ '^\d+$' THEN (_tier->>'quantity')::integer END;
+
+    IF _tier_quantity IS NOT NULL AND _tier_quantity > 0 THEN
+      SELECT COUNT(*) INTO _sold
+      FROM bookings
+      WHERE event_id = NEW.event_id
+        AND price_tier_id = NEW.price_tier_id
+        AND status NOT IN ('cancelled', 'rejected')
+        AND id <> NEW.id;
+
+      IF _sold >= _tier_quantity THEN
+        RAISE EXCEPTION '"%" tickets are sold out', _tier->>'name';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Booking tickets uses up the buyer's own waitlist spot or held offer
+CREATE OR REPLACE FUNCTION public.claim_waitlist_spot()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE event_waitlist
+  SET status = 'claimed'
+  WHERE event_id = NEW.event_id
+    AND user_id = NEW.user_id
+    AND status IN ('waiting', 'offered');
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER claim_waitlist_spot
+AFTER INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.claim_waitlist_spot();
+
+-- Join the waitlist for an event, using the name and email on the profile
+CREATE OR REPLACE FUNCTION public.join_event_waitlist(_event_id uuid, _quantity integer DEFAULT 1)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _event events%ROWTYPE;
+  _name text;
+  _email text;
+  _entry_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to join the waitlist';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 OR _quantity > 10 THEN
+    RAISE EXCEPTION 'You can wait for between 1 and 10 tickets';
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = _event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF _event.date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This event has already passed';
+  END IF;
+
+  IF _event.ticket_capacity IS NULL OR _event.ticket_capacity <= 0 THEN
+    RAISE EXCEPTION 'This event does not have a waitlist';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM event_waitlist
+    WHERE event_id = _event_id AND user_id = _user_id AND status IN ('waiting', 'offered')
+  ) THEN
+    RAISE EXCEPTION 'You are already on the waitlist for this event';
+  END IF;
+
+  SELECT
+    COALESCE(NULLIF(u.email, ''), p.email),
+    COALESCE(NULLIF(p.full_name, ''), u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name')
+  INTO _email, _name
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.user_id = u.id
+  WHERE u.id = _user_id;
+
+  IF COALESCE(_name, '') = '' OR COALESCE(_email, '') = '' THEN
+    RAISE EXCEPTION 'Please complete your profile with name and email in Account Settings';
+  END IF;
+
+  INSERT INTO event_waitlist (event_id, user_id, name, email, quantity)
+  VALUES (_event_id, _user_id, _name, _email, _quantity)
+  RETURNING id INTO _entry_id;
+
+  RETURN _entry_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.join_event_waitlist(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.join_event_waitlist(uuid, integer) TO authenticated;
+
+-- Leave the waitlist (also gives up a held offer)
+CREATE OR REPLACE FUNCTION public.leave_event_waitlist(_event_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE event_waitlist
+  SET status = 'cancelled'
+  WHERE event_id = _event_id
+    AND user_id = auth.uid()
+    AND status IN ('waiting', 'offered');
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.leave_event_waitlist(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.leave_event_waitlist(uuid) TO authenticated;
+
+-- The caller's active waitlist entry for an event, with their place in line
+CREATE OR REPLACE FUNCTION public.get_my_waitlist_entry(_event_id uuid)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  quantity integer,
+  waitlist_position integer,
+  claim_token uuid,
+  offer_expires_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    w.id,
+    w.status,
+    w.quantity,
+    (
+      SELECT COUNT(*)::integer
+      FROM event_waitlist o
+      WHERE o.event_id = w.event_id
+        AND o.status = 'waiting'
+        AND o.created_at <= w.created_at
+    ) AS waitlist_position,
+    w.claim_token,
+    w.offer_expires_at
+  FROM event_waitlist w
+  WHERE w.event_id = _event_id
+    AND w.user_id = auth.uid()
+    AND (w.status = 'waiting' OR (w.status = 'offered' AND w.offer_expires_at > now()));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_waitlist_entry(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_waitlist_entry(uuid) TO authenticated;
+
+-- Number of people waiting, for the booking modal and organizers
+CREATE OR REPLACE FUNCTION public.get_event_waitlist_count(_event_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::integer
+  FROM event_waitlist
+  WHERE event_id = _event_id
+    AND status = 'waiting';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_waitlist_count(uuid) TO anon, authenticated;
+
+-- Expires lapsed offers, then offers freed seats to the next people in line
+-- (strictly first come, first served). Returns the entries that were offered
+-- a seat so the caller can email them their claim link.
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(_event_id uuid, _hold interval DEFAULT interval '24 hours')
+RETURNS SETOF public.event_waitlist
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _sold integer;
+  _free integer;
+  _entry event_waitlist%ROWTYPE;
+BEGIN
+  -- Lock the event so promotions can't race bookings for the same seats
+  SELECT * INTO _event FROM events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE event_waitlist
+  SET status = 'expired'
+  WHERE event_id = _event_id
+    AND status = 'offered'
+    AND offer_expires_at <= now();
+
+  IF _event.date < CURRENT_DATE OR _event.ticket_capacity IS NULL OR _event.ticket_capacity <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO _sold
+  FROM bookings
+  WHERE event_id = _event_id
+    AND status NOT IN ('cancelled', 'rejected');
+
+  _free := _event.ticket_capacity - _sold - event_held_seats(_event_id);
+
+  FOR _entry IN
+    SELECT * FROM event_waitlist
+    WHERE event_id = _event_id AND status = 'waiting'
+    ORDER BY created_at
+  LOOP
+    EXIT WHEN _entry.quantity > _free;
+
+    UPDATE event_waitlist
+    SET status = 'offered',
+        claim_token = gen_random_uuid(),
+        offered_at = now(),
+        offer_expires_at = now() + _hold
+    WHERE id = _entry.id
+    RETURNING * INTO _entry;
+
+    _free := _free - _entry.quantity;
+    RETURN NEXT _entry;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_event_waitlist(uuid, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.promote_event_waitlist(uuid, interval) TO service_role;
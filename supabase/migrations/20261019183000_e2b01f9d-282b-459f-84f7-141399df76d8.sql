@@ -0,0 +1,375 @@
+-- Per-event promo codes: a percent or fixed amount off each ticket, optionally
+-- limited by number of uses, an expiry date or to certain price tiers.
+CREATE TABLE public.event_promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[A-Z0-9_-]{3,30}$'),
+  discount_type text NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value numeric NOT NULL CHECK (discount_value > 0),
+  max_redemptions integer CHECK (max_redemptions > 0),
+  valid_until date,
+  -- NULL applies the code to every tier
+  price_tier_ids text[],
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  UNIQUE (event_id, code)
+);
+
+ALTER TABLE public.event_promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes are secret, so only organizers can see them; attendees go through validate_promo_code
+CREATE POLICY "Organizers can manage promo codes for their events"
+ON public.event_promo_codes FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.events
+  WHERE events.id = event_promo_codes.event_id
+    AND events.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.events
+  WHERE events.id = event_promo_codes.event_id
+    AND events.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can manage all promo codes"
+ON public.event_promo_codes FOR ALL
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE TRIGGER update_event_promo_codes_updated_at
+BEFORE UPDATE ON public.event_promo_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Orders remember the code they used and how much it took off
+ALTER TABLE public.orders
+  ADD COLUMN promo_code_id uuid REFERENCES public.event_promo_codes(id) ON DELETE SET NULL,
+  ADD COLUMN discount_amount numeric NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+CREATE INDEX orders_promo_code_id_idx ON public.orders (promo_code_id) WHERE promo_code_id IS NOT NULL;
+
+-- Organizers see which code an order used
+CREATE OR REPLACE VIEW public.orders_organizer_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.event_id,
+  LEFT(o.buyer_email, 3) || '***@' || SPLIT_PART(o.buyer_email, '@', 2) as buyer_email_masked,
+  LEFT(o.buyer_name, 1) || '***' as buyer_name_masked,
+  o.price_tier_id,
+  o.quantity,
+  o.total_amount,
+  o.payment_method,
+  o.status,
+  o.created_at,
+  o.updated_at,
+  CASE
+    WHEN o.user_id = auth.uid() OR is_admin(auth.uid()) THEN o.buyer_email
+    ELSE NULL
+  END as buyer_email,
+  CASE
+    WHEN o.user_id = auth.uid() OR is_admin(auth.uid()) THEN o.buyer_name
+    ELSE NULL
+  END as buyer_name,
+  CASE
+    WHEN o.user_id = auth.uid() OR is_admin(auth.uid())
+      OR EXISTS (SELECT 1 FROM events e WHERE e.id = o.event_id AND e.user_id = auth.uid())
+    THEN o.proof_of_payment_url
+    ELSE NULL
+  END as proof_of_payment_url,
+  o.discount_amount,
+  pc.code as promo_code
+FROM public.orders o
+LEFT JOIN public.event_promo_codes pc ON pc.id = o.promo_code_id;
+
+-- Looks up a usable promo code or explains why it can't be used
+CREATE OR REPLACE FUNCTION public.find_promo_code(_event_id uuid, _code text, _price_tier_id text DEFAULT NULL)
+RETURNS public.event_promo_codes
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promo event_promo_codes%ROWTYPE;
+  _redeemed integer;
+BEGIN
+  SELECT * INTO _promo
+  FROM event_promo_codes
+  WHERE event_id = _event_id
+    AND code = upper(btrim(_code))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid promo code';
+  END IF;
+
+  IF _promo.valid_until IS NOT NULL AND _promo.valid_until < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This promo code has expired';
+  END IF;
+
+  IF _promo.price_tier_ids IS NOT NULL
+     AND (_price_tier_id IS NULL OR NOT _price_tier_id = ANY (_promo.price_tier_ids)) THEN
+    RAISE EXCEPTION 'This promo code doesn''t apply to the selected ticket type';
+  END IF;
+
+  IF _promo.max_redemptions IS NOT NULL THEN
+    SELECT COUNT(*) INTO _redeemed
+    FROM orders
+    WHERE promo_code_id = _promo.id
+      AND status NOT IN ('cancelled', 'rejected');
+
+    IF _redeemed >= _promo.max_redemptions THEN
+      RAISE EXCEPTION 'This promo code has been fully redeemed';
+    END IF;
+  END IF;
+
+  RETURN _promo;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_promo_code(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Discounted price of one ticket, never below zero
+CREATE OR REPLACE FUNCTION public.apply_promo_discount(_price numeric, _discount_type text, _discount_value numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    CASE _discount_type
+      WHEN 'percent' THEN round(_price * (1 - _discount_value / 100), 2)
+      ELSE _price - _discount_value
+    END,
+    0
+  );
+$$;
+
+-- Lets the booking modal preview a code's discount. book_event_tickets checks it again.
+CREATE OR REPLACE FUNCTION public.validate_promo_code(_event_id uuid, _code text, _price_tier_id text DEFAULT NULL)
+RETURNS TABLE (code text, discount_type text, discount_value numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promo event_promo_codes%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to use a promo code';
+  END IF;
+
+  _promo := find_promo_code(_event_id, _code, _price_tier_id);
+  RETURN QUERY SELECT _promo.code, _promo.discount_type, _promo.discount_value;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.validate_promo_code(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.validate_promo_code(uuid, text, text) TO authenticated;
+
+-- Booking now takes an optional promo code; the discounted price is only ever
+-- worked out here so it can't be forged by the client.
+DROP FUNCTION public.create_event_booking(uuid, integer, text, text);
+DROP FUNCTION public.book_event_tickets(uuid, uuid, integer, text, text, text);
+
+CREATE FUNCTION public.book_event_tickets(
+  _user_id uuid,
+  _event_id uuid,
+  _quantity integer,
+  _price_tier_id text DEFAULT NULL,
+  _proof_path text DEFAULT NULL,
+  _payment_method text DEFAULT 'direct',
+  _promo_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _tier jsonb;
+  _tier_quantity integer;
+  _price numeric;
+  _full_price numeric;
+  _promo event_promo_codes%ROWTYPE;
+  _is_free boolean;
+  _sold integer;
+  _attendee_name text;
+  _attendee_email text;
+  _status text;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to book this event';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 OR _quantity > 10 THEN
+    RAISE EXCEPTION 'You can book between 1 and 10 tickets at a time';
+  END IF;
+
+  IF _payment_method NOT IN ('direct', 'stripe', 'paypal') THEN
+    RAISE EXCEPTION 'Unsupported payment method';
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF _event.date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This event has already passed';
+  END IF;
+
+  IF _payment_method = 'stripe' AND NOT COALESCE(_event.use_stripe_checkout, false) THEN
+    RAISE EXCEPTION 'Card payments are not enabled for this event';
+  END IF;
+
+  IF _payment_method = 'paypal'
+     AND COALESCE(COALESCE(NULLIF(_event.payment_link, ''), '{}')::jsonb->>'paypal', '') = '' THEN
+    RAISE EXCEPTION 'PayPal is not enabled for this event';
+  END IF;
+
+  -- Work out the ticket price
+  IF jsonb_array_length(COALESCE(_event.price_tiers, '[]'::jsonb)) > 0 THEN
+    IF _price_tier_id IS NULL THEN
+      RAISE EXCEPTION 'Please select a ticket type';
+    END IF;
+
+    SELECT t INTO _tier
+    FROM jsonb_array_elements(_event.price_tiers) AS t
+    WHERE t->>'id' = _price_tier_id;
+
+    IF _tier IS NULL THEN
+      RAISE EXCEPTION 'Unknown ticket type for this event';
+    END IF;
+
+    IF COALESCE(_tier->>'endDate', '') <> '' AND (_tier->>'endDate')::date < CURRENT_DATE THEN
+      RAISE EXCEPTION '"%" tickets are no longer available', _tier->>'name';
+    END IF;
+
+    _price := CASE WHEN _tier->>'price' ~ '^\d+(\.\d+)?$' THEN (_tier->>'price')::numeric ELSE 0 END;
+  ELSE
+    _price_tier_id := NULL;
+    _price := COALESCE(_event.price, 0);
+  END IF;
+
+  IF COALESCE(btrim(_promo_code), '') <> '' THEN
+    _promo := find_promo_code(_event_id, _promo_code, _price_tier_id);
+    _full_price := _price;
+    _price := apply_promo_discount(_price, _promo.discount_type, _promo.discount_value);
+  END IF;
+
+  -- Capacity (the inventory trigger enforces this too, but this gives a clearer message)
+  IF _event.ticket_capacity IS NOT NULL AND _event.ticket_capacity > 0 THEN
+    SELECT COUNT(*) INTO _sold
+    FROM bookings
+    WHERE event_id = _event_id
+      AND status NOT IN ('cancelled', 'rejected');
+
+    IF _sold >= _event.ticket_capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    ELSIF _sold + _quantity > _event.ticket_capacity THEN
+      RAISE EXCEPTION 'Only % tickets remaining', _event.ticket_capacity - _sold;
+    END IF;
+  END IF;
+
+  IF _tier IS NOT NULL THEN
+    _tier_quantity := CASE WHEN _tier->>'quantity' ~ '^\d+$' THEN (_tier->>'quantity')::integer END;
+
+    IF _tier_quantity IS NOT NULL AND _tier_quantity > 0 THEN
+      SELECT COUNT(*) INTO _sold
+      FROM bookings
+      WHERE event_id = _event_id
+        AND price_tier_id = _price_tier_id
+        AND status NOT IN ('cancelled', 'rejected');
+
+      IF _sold >= _tier_quantity THEN
+        RAISE EXCEPTION '"%" tickets are sold out', _tier->>'name';
+      ELSIF _sold + _quantity > _tier_quantity THEN
+        RAISE EXCEPTION 'Only % "%" tickets remaining', _tier_quantity - _sold, _tier->>'name';
+      END IF;
+    END IF;
+  END IF;
+
+  -- Direct payments need a proof of payment uploaded to the booker's own folder.
+  -- Stripe and PayPal payments are confirmed by the provider instead.
+  _is_free := _price = 0;
+  IF _is_free OR _payment_method <> 'direct' THEN
+    _proof_path := NULL;
+  ELSIF COALESCE(_proof_path, '') = '' THEN
+    RAISE EXCEPTION 'Please upload proof of payment';
+  ELSIF split_part(_proof_path, '/', 1) <> _user_id::text THEN
+    RAISE EXCEPTION 'Invalid proof of payment';
+  END IF;
+
+  IF _is_free THEN
+    _payment_method := 'free';
+  END IF;
+
+  SELECT
+    COALESCE(NULLIF(u.email, ''), p.email),
+    COALESCE(NULLIF(p.full_name, ''), u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name')
+  INTO _attendee_email, _attendee_name
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.user_id = u.id
+  WHERE u.id = _user_id;
+
+  IF COALESCE(_attendee_name, '') = '' OR COALESCE(_attendee_email, '') = '' THEN
+    RAISE EXCEPTION 'Please complete your profile with name and email in Account Settings';
+  END IF;
+
+  _status := CASE WHEN _is_free THEN 'confirmed' ELSE 'pending' END;
+
+  INSERT INTO orders (
+    event_id, user_id, buyer_name, buyer_email, price_tier_id, quantity,
+    total_amount, payment_method, proof_of_payment_url, status,
+    promo_code_id, discount_amount
+  )
+  VALUES (
+    _event_id, _user_id, _attendee_name, _attendee_email, _price_tier_id, _quantity,
+    _price * _quantity, _payment_method, _proof_path, _status,
+    _promo.id, COALESCE(_full_price - _price, 0) * _quantity
+  )
+  RETURNING id INTO _order_id;
+
+  -- Tickets start out in the buyer's name; they can rename each one afterwards
+  INSERT INTO bookings (
+    order_id, event_id, user_id, attendee_name, attendee_email,
+    amount, price_tier_id, payment_method, status
+  )
+  SELECT
+    _order_id, _event_id, _user_id, _attendee_name, _attendee_email,
+    _price, _price_tier_id, _payment_method, _status
+  FROM generate_series(1, _quantity);
+
+  RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_event_tickets(uuid, uuid, integer, text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.book_event_tickets(uuid, uuid, integer, text, text, text, text) TO service_role;
+
+-- Client-facing RPC for free and direct (proof of payment) bookings
+CREATE FUNCTION public.create_event_booking(
+  _event_id uuid,
+  _quantity integer,
+  _price_tier_id text DEFAULT NULL,
+  _proof_path text DEFAULT NULL,
+  _promo_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.book_event_tickets(auth.uid(), _event_id, _quantity, _price_tier_id, _proof_path, 'direct', _promo_code);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_event_booking(uuid, integer, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_event_booking(uuid, integer, text, text, text) TO authenticated;
@@ -0,0 +1,124 @@
+-- Attendees can cancel their own orders up to a per-event deadline. Cancelled
+-- orders free their seats straight away (capacity only counts active orders);
+-- paid ones move through refund_requested -> refunded as the organizer refunds them.
+ALTER TABLE public.events
+  ADD COLUMN cancellation_deadline_hours integer CHECK (cancellation_deadline_hours >= 0);
+
+COMMENT ON COLUMN public.events.cancellation_deadline_hours IS
+  'How many hours before the start attendees can still cancel. NULL allows cancelling until the event starts.';
+
+ALTER TABLE public.orders
+  ADD COLUMN cancelled_at timestamptz,
+  ADD COLUMN cancellation_reason text CHECK (char_length(cancellation_reason) <= 500),
+  ADD COLUMN refund_status text CHECK (refund_status IN ('refund_requested', 'refunded')),
+  ADD COLUMN refund_method text CHECK (char_length(refund_method) <= 50),
+  ADD COLUMN refund_note text CHECK (char_length(refund_note) <= 500),
+  ADD COLUMN refunded_at timestamptz,
+  ADD CONSTRAINT orders_refund_requires_cancellation CHECK (refund_status IS NULL OR status = 'cancelled');
+
+CREATE INDEX orders_refund_requested_idx ON public.orders (event_id) WHERE refund_status = 'refund_requested';
+
+-- Organizers track refunds from the masked view too
+CREATE OR REPLACE VIEW public.orders_organizer_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.event_id,
+  LEFT(o.buyer_email, 3) || '***@' || SPLIT_PART(o.buyer_email, '@', 2) as buyer_email_masked,
+  LEFT(o.buyer_name, 1) || '***' as buyer_name_masked,
+  o.price_tier_id,
+  o.quantity,
+  o.total_amount,
+  o.payment_method,
+  o.status,
+  o.created_at,
+  o.updated_at,
+  CASE
+    WHEN o.user_id = auth.uid() OR is_admin(auth.uid()) THEN o.buyer_email
+    ELSE NULL
+  END as buyer_email,
+  CASE
+    WHEN o.user_id = auth.uid() OR is_admin(auth.uid()) THEN o.buyer_name
+    ELSE NULL
+  END as buyer_name,
+  CASE
+    WHEN o.user_id = auth.uid() OR is_admin(auth.uid())
+      OR EXISTS (SELECT 1 FROM events e WHERE e.id = o.event_id AND e.user_id = auth.uid())
+    THEN o.proof_of_payment_url
+    ELSE NULL
+  END as proof_of_payment_url,
+  o.discount_amount,
+  pc.code as promo_code,
+  o.cancelled_at,
+  o.cancellation_reason,
+  o.refund_status,
+  o.refund_method,
+  o.refund_note,
+  o.refunded_at
+FROM public.orders o
+LEFT JOIN public.event_promo_codes pc ON pc.id = o.promo_code_id;
+
+-- Cancels one of the caller's orders and returns its new state:
+-- 'cancelled', or 'refund_requested' when money was paid
+CREATE OR REPLACE FUNCTION public.cancel_event_order(_order_id uuid, _reason text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _event events%ROWTYPE;
+  _refund_status text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to cancel a booking';
+  END IF;
+
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _order_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking can no longer be cancelled';
+  END IF;
+
+  -- Card and PayPal checkouts in progress are released with release_pending_order
+  IF _order.status = 'pending' AND _order.payment_method IN ('stripe', 'paypal') THEN
+    RAISE EXCEPTION 'This booking is still waiting for payment';
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = _order.event_id;
+
+  -- Event times are stored without a time zone, so compare against local time
+  IF LOCALTIMESTAMP >= (_event.date + _event.time)
+       - make_interval(hours => COALESCE(_event.cancellation_deadline_hours, 0)) THEN
+    RAISE EXCEPTION 'The cancellation deadline for this event has passed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM bookings WHERE order_id = _order_id AND checked_in_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Tickets that have been checked in can''t be cancelled';
+  END IF;
+
+  _refund_status := CASE WHEN _order.total_amount > 0 THEN 'refund_requested' END;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = NULLIF(btrim(left(_reason, 500)), ''),
+      refund_status = _refund_status
+  WHERE id = _order_id;
+
+  RETURN COALESCE(_refund_status, 'cancelled');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_event_order(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_event_order(uuid, text) TO authenticated;
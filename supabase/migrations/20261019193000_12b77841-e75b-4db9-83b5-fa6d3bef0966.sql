@@ -0,0 +1,118 @@
+-- Sales analytics for organizers. Page views are counted once per visitor per
+-- day so conversion can be measured; the aggregate views below do the heavy
+-- lifting in the database and run with the caller's permissions, so organizers
+-- only ever see numbers for their own events.
+CREATE TABLE public.event_page_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  visitor_id text NOT NULL CHECK (char_length(visitor_id) BETWEEN 8 AND 64),
+  viewed_on date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (event_id, visitor_id, viewed_on)
+);
+
+ALTER TABLE public.event_page_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organizers can view page views for their events"
+ON public.event_page_views FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.events
+  WHERE events.id = event_page_views.event_id
+  AND events.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all page views"
+ON public.event_page_views FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE INDEX bookings_event_status_idx ON public.bookings (event_id, status);
+
+-- Records a view of an event page. Views by the organizer themselves are ignored.
+CREATE OR REPLACE FUNCTION public.record_event_view(_event_id uuid, _visitor_id text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _visitor_id IS NULL OR char_length(_visitor_id) NOT BETWEEN 8 AND 64 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO event_page_views (event_id, visitor_id)
+  SELECT e.id, _visitor_id
+  FROM events e
+  WHERE e.id = _event_id
+    AND e.user_id IS DISTINCT FROM auth.uid()
+  ON CONFLICT (event_id, visitor_id, viewed_on) DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_event_view(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_event_view(uuid, text) TO anon, authenticated;
+
+-- Confirmed tickets and revenue per event per day
+CREATE OR REPLACE VIEW public.event_sales_daily
+WITH (security_invoker = true)
+AS
+SELECT
+  b.event_id,
+  (b.created_at AT TIME ZONE 'UTC')::date as day,
+  COUNT(*)::integer as tickets_sold,
+  COALESCE(SUM(b.amount), 0) as revenue
+FROM public.bookings b
+WHERE b.status = 'confirmed'
+GROUP BY b.event_id, (b.created_at AT TIME ZONE 'UTC')::date;
+
+-- Confirmed tickets and revenue per price tier (NULL tier = the event's base price)
+CREATE OR REPLACE VIEW public.event_tier_sales
+WITH (security_invoker = true)
+AS
+SELECT
+  b.event_id,
+  b.price_tier_id,
+  COUNT(*)::integer as tickets_sold,
+  COALESCE(SUM(b.amount), 0) as revenue
+FROM public.bookings b
+WHERE b.status = 'confirmed'
+GROUP BY b.event_id, b.price_tier_id;
+
+-- One row per event the caller organizes, for comparing events side by side
+CREATE OR REPLACE VIEW public.event_sales_summary
+WITH (security_invoker = true)
+AS
+SELECT
+  e.id as event_id,
+  e.user_id,
+  e.title,
+  e.date,
+  e.ticket_capacity,
+  COALESCE(t.tickets_sold, 0) as tickets_sold,
+  COALESCE(t.pending_tickets, 0) as pending_tickets,
+  COALESCE(t.revenue, 0) as revenue,
+  COALESCE(o.orders_count, 0) as orders_count,
+  COALESCE(v.page_views, 0) as page_views,
+  COALESCE(v.unique_visitors, 0) as unique_visitors
+FROM public.events e
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE b.status = 'confirmed')::integer as tickets_sold,
+    COUNT(*) FILTER (WHERE b.status = 'pending')::integer as pending_tickets,
+    SUM(b.amount) FILTER (WHERE b.status = 'confirmed') as revenue
+  FROM public.bookings b
+  WHERE b.event_id = e.id
+) t ON true
+LEFT JOIN LATERAL (
+  SELECT COUNT(*)::integer as orders_count
+  FROM public.orders ord
+  WHERE ord.event_id = e.id
+    AND ord.status = 'confirmed'
+) o ON true
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*)::integer as page_views,
+    COUNT(DISTINCT pv.visitor_id)::integer as unique_visitors
+  FROM public.event_page_views pv
+  WHERE pv.event_id = e.id
+) v ON true
+WHERE e.user_id = auth.uid() OR is_admin(auth.uid());
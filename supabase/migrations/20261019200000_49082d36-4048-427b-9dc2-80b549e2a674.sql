@@ -0,0 +1,84 @@
+-- Recurring event series. Each occurrence is still a normal row in events (so
+-- tickets, capacity and check-in keep working per date); the series row holds
+-- the recurrence rule used to generate them and the dates that were skipped.
+CREATE TABLE public.event_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly_day', 'monthly_weekday')),
+  repeat_interval integer NOT NULL DEFAULT 1 CHECK (repeat_interval BETWEEN 1 AND 12),
+  -- Weekly: days of the week (0 = Sunday)
+  weekdays smallint[] CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  -- Monthly by weekday: which week of the month (-1 = last)
+  month_week smallint CHECK (month_week IN (-1, 1, 2, 3, 4)),
+  starts_on date NOT NULL,
+  ends_on date,
+  occurrence_count integer CHECK (occurrence_count BETWEEN 1 AND 52),
+  exception_dates date[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT event_series_has_end CHECK (ends_on IS NOT NULL OR occurrence_count IS NOT NULL),
+  CONSTRAINT event_series_ends_after_start CHECK (ends_on IS NULL OR ends_on >= starts_on),
+  CONSTRAINT event_series_weekly_has_days CHECK (frequency <> 'weekly' OR cardinality(weekdays) > 0),
+  CONSTRAINT event_series_monthly_weekday_has_week CHECK (frequency <> 'monthly_weekday' OR month_week IS NOT NULL)
+);
+
+ALTER TABLE public.event_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event series are viewable by everyone"
+ON public.event_series FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can create their own event series"
+ON public.event_series FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own event series"
+ON public.event_series FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own event series"
+ON public.event_series FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage all event series"
+ON public.event_series FOR ALL
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE TRIGGER update_event_series_updated_at
+BEFORE UPDATE ON public.event_series
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- series_date is the slot an occurrence fills in the series. It stays put when a
+-- single occurrence is moved, so regenerating the series doesn't duplicate it.
+ALTER TABLE public.events
+  ADD COLUMN series_id uuid REFERENCES public.event_series(id) ON DELETE SET NULL,
+  ADD COLUMN series_date date,
+  ADD CONSTRAINT events_series_date_required CHECK (series_id IS NULL OR series_date IS NOT NULL);
+
+CREATE UNIQUE INDEX events_series_slot_idx ON public.events (series_id, series_date) WHERE series_id IS NOT NULL;
+
+-- Deleting a single occurrence skips that date instead of letting a later
+-- series edit bring it back
+CREATE OR REPLACE FUNCTION public.skip_deleted_series_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.series_id IS NOT NULL THEN
+    UPDATE event_series
+    SET exception_dates = array_append(exception_dates, OLD.series_date)
+    WHERE id = OLD.series_id
+      AND NOT (OLD.series_date = ANY (exception_dates));
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER skip_deleted_series_occurrence
+AFTER DELETE ON public.events
+FOR EACH ROW
+EXECUTE FUNCTION public.skip_deleted_series_occurrence();
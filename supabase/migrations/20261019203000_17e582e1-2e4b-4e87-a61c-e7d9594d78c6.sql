@@ -0,0 +1,316 @@
+-- Multi-day events (festivals). An event runs from date to end_date, its
+-- schedule items belong to a day and a stage, and a price tier with a "day"
+-- is a day pass for that day while the rest are full passes. For multi-day
+-- events ticket_capacity is the number of people allowed in on each day.
+ALTER TABLE public.events
+  ADD COLUMN end_date date,
+  ADD CONSTRAINT events_end_date_check CHECK (end_date IS NULL OR end_date BETWEEN date AND date + 30);
+
+ALTER TABLE public.event_schedule
+  ADD COLUMN day date,
+  ADD COLUMN stage text;
+
+CREATE INDEX event_schedule_event_day_idx ON public.event_schedule (event_id, day, time);
+
+-- Tickets taken on each day of an event. Full passes (and bookings without a
+-- tier) count towards every day, day passes only towards their own day.
+CREATE OR REPLACE FUNCTION public.event_day_sales(_event_id uuid, _exclude_booking_id uuid DEFAULT NULL)
+RETURNS TABLE (day date, sold integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH passes AS (
+    SELECT
+      CASE
+        WHEN tier.day BETWEEN e.date AND COALESCE(e.end_date, e.date) THEN tier.day
+      END AS day
+    FROM bookings b
+    JOIN events e ON e.id = b.event_id
+    LEFT JOIN LATERAL (
+      SELECT CASE WHEN t->>'day' ~ '^\d{4}-\d{2}-\d{2}$' THEN (t->>'day')::date END AS day
+      FROM jsonb_array_elements(COALESCE(e.price_tiers, '[]'::jsonb)) AS t
+      WHERE t->>'id' = b.price_tier_id
+    ) tier ON true
+    WHERE b.event_id = _event_id
+      AND b.status NOT IN ('cancelled', 'rejected')
+      AND b.id IS DISTINCT FROM _exclude_booking_id
+  )
+  SELECT
+    festival_day::date,
+    (SELECT COUNT(*) FROM passes WHERE passes.day IS NULL OR passes.day = festival_day::date)::integer
+  FROM events e
+  CROSS JOIN LATERAL generate_series(e.date, COALESCE(e.end_date, e.date), interval '1 day') AS festival_day
+  WHERE e.id = _event_id
+  ORDER BY 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_day_sales(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Capacity is checked on the busiest day the new ticket covers
+CREATE OR REPLACE FUNCTION public.enforce_booking_inventory()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _tier jsonb;
+  _tier_quantity integer;
+  _pass_day date;
+  _sold integer;
+BEGIN
+  -- Released bookings never consume inventory
+  IF NEW.status IN ('cancelled', 'rejected') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Updates only need checking when a released booking is reactivated or moves tier
+  IF TG_OP = 'UPDATE'
+    AND OLD.status NOT IN ('cancelled', 'rejected')
+    AND OLD.price_tier_id IS NOT DISTINCT FROM NEW.price_tier_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = NEW.event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF NEW.price_tier_id IS NOT NULL THEN
+    SELECT t INTO _tier
+    FROM jsonb_array_elements(COALESCE(_event.price_tiers, '[]'::jsonb)) AS t
+    WHERE t->>'id' = NEW.price_tier_id;
+
+    IF _tier IS NULL THEN
+      RAISE EXCEPTION 'Unknown ticket type for this event';
+    END IF;
+
+    IF _tier->>'day' ~ '^\d{4}-\d{2}-\d{2}$' THEN
+      _pass_day := (_tier->>'day')::date;
+    END IF;
+
+    -- Days outside the event (e.g. after its dates changed) count as full passes
+    IF _pass_day NOT BETWEEN _event.date AND COALESCE(_event.end_date, _event.date) THEN
+      _pass_day := NULL;
+    END IF;
+  END IF;
+
+  IF _event.ticket_capacity IS NOT NULL AND _event.ticket_capacity > 0 THEN
+    SELECT COALESCE(MAX(s.sold), 0) INTO _sold
+    FROM event_day_sales(NEW.event_id, NEW.id) s
+    WHERE _pass_day IS NULL OR s.day = _pass_day;
+
+    IF _sold + event_held_seats(NEW.event_id, NEW.user_id) >= _event.ticket_capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    END IF;
+  END IF;
+
+  IF _tier IS NOT NULL THEN
+    _tier_quantity := CASE WHEN _tier->>'quantity' ~ '^\d+$' THEN (_tier->>'quantity')::integer END;
+
+    IF _tier_quantity IS NOT NULL AND _tier_quantity > 0 THEN
+      SELECT COUNT(*) INTO _sold
+      FROM bookings
+      WHERE event_id = NEW.event_id
+        AND price_tier_id = NEW.price_tier_id
+        AND status NOT IN ('cancelled', 'rejected')
+        AND id <> NEW.id;
+
+      IF _sold >= _tier_quantity THEN
+        RAISE EXCEPTION '"%" tickets are sold out', _tier->>'name';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Festivals stay on sale until their last day, day passes until their own day
+CREATE OR REPLACE FUNCTION public.book_event_tickets(
+  _user_id uuid,
+  _event_id uuid,
+  _quantity integer,
+  _price_tier_id text DEFAULT NULL,
+  _proof_path text DEFAULT NULL,
+  _payment_method text DEFAULT 'direct',
+  _promo_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _tier jsonb;
+  _tier_quantity integer;
+  _pass_day date;
+  _price numeric;
+  _full_price numeric;
+  _promo event_promo_codes%ROWTYPE;
+  _is_free boolean;
+  _sold integer;
+  _attendee_name text;
+  _attendee_email text;
+  _status text;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to book this event';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 OR _quantity > 10 THEN
+    RAISE EXCEPTION 'You can book between 1 and 10 tickets at a time';
+  END IF;
+
+  IF _payment_method NOT IN ('direct', 'stripe', 'paypal') THEN
+    RAISE EXCEPTION 'Unsupported payment method';
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF COALESCE(_event.end_date, _event.date) < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This event has already passed';
+  END IF;
+
+  IF _payment_method = 'stripe' AND NOT COALESCE(_event.use_stripe_checkout, false) THEN
+    RAISE EXCEPTION 'Card payments are not enabled for this event';
+  END IF;
+
+  IF _payment_method = 'paypal'
+     AND COALESCE(COALESCE(NULLIF(_event.payment_link, ''), '{}')::jsonb->>'paypal', '') = '' THEN
+    RAISE EXCEPTION 'PayPal is not enabled for this event';
+  END IF;
+
+  -- Work out the ticket price
+  IF jsonb_array_length(COALESCE(_event.price_tiers, '[]'::jsonb)) > 0 THEN
+    IF _price_tier_id IS NULL THEN
+      RAISE EXCEPTION 'Please select a ticket type';
+    END IF;
+
+    SELECT t INTO _tier
+    FROM jsonb_array_elements(_event.price_tiers) AS t
+    WHERE t->>'id' = _price_tier_id;
+
+    IF _tier IS NULL THEN
+      RAISE EXCEPTION 'Unknown ticket type for this event';
+    END IF;
+
+    IF COALESCE(_tier->>'endDate', '') <> '' AND (_tier->>'endDate')::date < CURRENT_DATE THEN
+      RAISE EXCEPTION '"%" tickets are no longer available', _tier->>'name';
+    END IF;
+
+    IF _tier->>'day' ~ '^\d{4}-\d{2}-\d{2}$' THEN
+      _pass_day := (_tier->>'day')::date;
+    END IF;
+
+    IF _pass_day NOT BETWEEN _event.date AND COALESCE(_event.end_date, _event.date) THEN
+      _pass_day := NULL;
+    ELSIF _pass_day < CURRENT_DATE THEN
+      RAISE EXCEPTION '"%" is for a day that has already passed', _tier->>'name';
+    END IF;
+
+    _price := CASE WHEN _tier->>'price' ~ '^\d+(\.\d+)?$' THEN (_tier->>'price')::numeric ELSE 0 END;
+  ELSE
+    _price_tier_id := NULL;
+    _price := COALESCE(_event.price, 0);
+  END IF;
+
+  IF COALESCE(btrim(_promo_code), '') <> '' THEN
+    _promo := find_promo_code(_event_id, _promo_code, _price_tier_id);
+    _full_price := _price;
+    _price := apply_promo_discount(_price, _promo.discount_type, _promo.discount_value);
+  END IF;
+
+  -- Capacity (the inventory trigger enforces this too, but this gives a clearer message)
+  IF _event.ticket_capacity IS NOT NULL AND _event.ticket_capacity > 0 THEN
+    SELECT COALESCE(MAX(s.sold), 0) INTO _sold
+    FROM event_day_sales(_event_id) s
+    WHERE _pass_day IS NULL OR s.day = _pass_day;
+
+    IF _sold >= _event.ticket_capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    ELSIF _sold + _quantity > _event.ticket_capacity THEN
+      RAISE EXCEPTION 'Only % tickets remaining', _event.ticket_capacity - _sold;
+    END IF;
+  END IF;
+
+  IF _tier IS NOT NULL THEN
+    _tier_quantity := CASE WHEN _tier->>'quantity' ~ '^\d+$' THEN (_tier->>'quantity')::integer END;
+
+    IF _tier_quantity IS NOT NULL AND _tier_quantity > 0 THEN
+      SELECT COUNT(*) INTO _sold
+      FROM bookings
+      WHERE event_id = _event_id
+        AND price_tier_id = _price_tier_id
+        AND status NOT IN ('cancelled', 'rejected');
+
+      IF _sold >= _tier_quantity THEN
+        RAISE EXCEPTION '"%" tickets are sold out', _tier->>'name';
+      ELSIF _sold + _quantity > _tier_quantity THEN
+        RAISE EXCEPTION 'Only % "%" tickets remaining', _tier_quantity - _sold, _tier->>'name';
+      END IF;
+    END IF;
+  END IF;
+
+  -- Direct payments need a proof of payment uploaded to the booker's own folder.
+  -- Stripe and PayPal payments are confirmed by the provider instead.
+  _is_free := _price = 0;
+  IF _is_free OR _payment_method <> 'direct' THEN
+    _proof_path := NULL;
+  ELSIF COALESCE(_proof_path, '') = '' THEN
+    RAISE EXCEPTION 'Please upload proof of payment';
+  ELSIF split_part(_proof_path, '/', 1) <> _user_id::text THEN
+    RAISE EXCEPTION 'Invalid proof of payment';
+  END IF;
+
+  IF _is_free THEN
+    _payment_method := 'free';
+  END IF;
+
+  SELECT
+    COALESCE(NULLIF(u.email, ''), p.email),
+    COALESCE(NULLIF(p.full_name, ''), u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name')
+  INTO _attendee_email, _attendee_name
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.user_id = u.id
+  WHERE u.id = _user_id;
+
+  IF COALESCE(_attendee_name, '') = '' OR COALESCE(_attendee_email, '') = '' THEN
+    RAISE EXCEPTION 'Please complete your profile with name and email in Account Settings';
+  END IF;
+
+  _status := CASE WHEN _is_free THEN 'confirmed' ELSE 'pending' END;
+
+  INSERT INTO orders (
+    event_id, user_id, buyer_name, buyer_email, price_tier_id, quantity,
+    total_amount, payment_method, proof_of_payment_url, status,
+    promo_code_id, discount_amount
+  )
+  VALUES (
+    _event_id, _user_id, _attendee_name, _attendee_email, _price_tier_id, _quantity,
+    _price * _quantity, _payment_method, _proof_path, _status,
+    _promo.id, COALESCE(_full_price - _price, 0) * _quantity
+  )
+  RETURNING id INTO _order_id;
+
+  -- Tickets start out in the buyer's name; they can rename each one afterwards
+  INSERT INTO bookings (
+    order_id, event_id, user_id, attendee_name, attendee_email,
+    amount, price_tier_id, payment_method, status
+  )
+  SELECT
+    _order_id, _event_id, _user_id, _attendee_name, _attendee_email,
+    _price, _price_tier_id, _payment_method, _status
+  FROM generate_series(1, _quantity);
+
+  RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,41 @@
+-- Concert programs: each schedule slot can name its raag and taal, list
+-- accompanists, and link the performing artists from the event's line-up.
+ALTER TABLE public.event_schedule
+  ADD COLUMN raag text CHECK (raag IS NULL OR length(raag) <= 100),
+  ADD COLUMN taal text CHECK (taal IS NULL OR length(taal) <= 100),
+  ADD COLUMN accompanists text CHECK (accompanists IS NULL OR length(accompanists) <= 300);
+
+CREATE TABLE public.event_schedule_artists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_item_id uuid NOT NULL REFERENCES public.event_schedule(id) ON DELETE CASCADE,
+  artist_id uuid NOT NULL REFERENCES public.artists(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (schedule_item_id, artist_id)
+);
+
+CREATE INDEX event_schedule_artists_artist_id_idx ON public.event_schedule_artists (artist_id);
+
+ALTER TABLE public.event_schedule_artists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view schedule artists"
+ON public.event_schedule_artists FOR SELECT
+USING (true);
+
+-- Only artists already on the event's line-up can be added to a slot
+CREATE POLICY "Event owners can manage schedule artists"
+ON public.event_schedule_artists FOR ALL
+USING (EXISTS (
+  SELECT 1
+  FROM public.event_schedule s
+  JOIN public.events e ON e.id = s.event_id
+  WHERE s.id = event_schedule_artists.schedule_item_id
+    AND (e.user_id = auth.uid() OR is_admin(auth.uid()))
+))
+WITH CHECK (EXISTS (
+  SELECT 1
+  FROM public.event_schedule s
+  JOIN public.events e ON e.id = s.event_id
+  JOIN public.event_artists ea ON ea.event_id = e.id AND ea.artist_id = event_schedule_artists.artist_id
+  WHERE s.id = event_schedule_artists.schedule_item_id
+    AND (e.user_id = auth.uid() OR is_admin(auth.uid()))
+));
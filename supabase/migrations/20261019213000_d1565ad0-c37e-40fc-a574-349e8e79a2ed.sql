@@ -0,0 +1,5 @@
+-- When events finish. end_date (added for multi-day events) is the last day,
+-- and an end_time that isn't after the start time on the same day means the
+-- event runs past midnight.
+ALTER TABLE public.events
+  ADD COLUMN end_time time;
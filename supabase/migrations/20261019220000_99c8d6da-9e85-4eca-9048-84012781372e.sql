@@ -0,0 +1,80 @@
+-- Events, classes and weekly availability record the IANA time zone their
+-- dates and times are written in, so they can be shown on each viewer's own
+-- clock. Rows without one keep reading times in the viewer's zone.
+CREATE OR REPLACE FUNCTION public.is_valid_time_zone(_time_zone text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_catalog.pg_timezone_names WHERE name = _time_zone)
+$$;
+
+ALTER TABLE public.events
+  ADD COLUMN time_zone text CHECK (time_zone IS NULL OR public.is_valid_time_zone(time_zone));
+
+ALTER TABLE public.classes
+  ADD COLUMN time_zone text CHECK (time_zone IS NULL OR public.is_valid_time_zone(time_zone));
+
+ALTER TABLE public.class_availability
+  ADD COLUMN time_zone text CHECK (time_zone IS NULL OR public.is_valid_time_zone(time_zone));
+
+-- The cancellation deadline counts down to the event's start in its own zone
+CREATE OR REPLACE FUNCTION public.cancel_event_order(_order_id uuid, _reason text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order orders%ROWTYPE;
+  _event events%ROWTYPE;
+  _refund_status text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to cancel a booking';
+  END IF;
+
+  SELECT * INTO _order
+  FROM orders
+  WHERE id = _order_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking can no longer be cancelled';
+  END IF;
+
+  -- Card and PayPal checkouts in progress are released with release_pending_order
+  IF _order.status = 'pending' AND _order.payment_method IN ('stripe', 'paypal') THEN
+    RAISE EXCEPTION 'This booking is still waiting for payment';
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = _order.event_id;
+
+  -- Events without a time zone are still compared against local time
+  IF (CASE WHEN _event.time_zone IS NULL THEN LOCALTIMESTAMP ELSE now() AT TIME ZONE _event.time_zone END)
+       >= (_event.date + _event.time) - make_interval(hours => COALESCE(_event.cancellation_deadline_hours, 0)) THEN
+    RAISE EXCEPTION 'The cancellation deadline for this event has passed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM bookings WHERE order_id = _order_id AND checked_in_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Tickets that have been checked in can''t be cancelled';
+  END IF;
+
+  _refund_status := CASE WHEN _order.total_amount > 0 THEN 'refund_requested' END;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = NULLIF(btrim(left(_reason, 500)), ''),
+      refund_status = _refund_status
+  WHERE id = _order_id;
+
+  RETURN COALESCE(_refund_status, 'cancelled');
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Private calendar feeds: each user gets a secret token for subscribing to
+-- their bookings from Google, Apple or Outlook calendars. Only the owner
+-- (through get_calendar_feed_token) and the calendar-feed function read it.
+CREATE TABLE public.calendar_feed_tokens (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed token"
+ON public.calendar_feed_tokens FOR SELECT
+USING (user_id = auth.uid());
+
+-- Returns the caller's feed token, creating it on first use. Resetting gives
+-- a new token, so calendars subscribed with the old link stop updating.
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_token(_reset boolean DEFAULT false)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to subscribe to your bookings';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+    SET token = CASE WHEN _reset THEN gen_random_uuid() ELSE calendar_feed_tokens.token END,
+        created_at = CASE WHEN _reset THEN now() ELSE calendar_feed_tokens.created_at END
+  RETURNING token INTO _token;
+
+  RETURN _token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_calendar_feed_token(boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed_token(boolean) TO authenticated;
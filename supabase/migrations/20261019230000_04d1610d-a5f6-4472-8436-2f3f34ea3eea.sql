@@ -0,0 +1,29 @@
+-- Teachers can connect a CalDAV calendar: confirmed lessons are written to it
+-- and removed again when cancelled, and its events block bookable slots.
+-- Credentials are only read by edge functions; teachers see the rest.
+CREATE TABLE public.teacher_calendars (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  calendar_url text NOT NULL CHECK (calendar_url ~ '^https?://' AND length(calendar_url) <= 500),
+  username text NOT NULL CHECK (length(username) <= 200),
+  password text NOT NULL CHECK (length(password) <= 500),
+  display_name text,
+  last_synced_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.teacher_calendars ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can view their own calendar connection"
+ON public.teacher_calendars FOR SELECT
+USING (user_id = auth.uid());
+
+-- The password column stays out of reach of the API roles
+REVOKE ALL ON public.teacher_calendars FROM anon, authenticated;
+GRANT SELECT (user_id, calendar_url, username, display_name, last_synced_at, last_error, created_at, updated_at)
+ON public.teacher_calendars TO authenticated;
+
+CREATE TRIGGER update_teacher_calendars_updated_at
+BEFORE UPDATE ON public.teacher_calendars
+FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
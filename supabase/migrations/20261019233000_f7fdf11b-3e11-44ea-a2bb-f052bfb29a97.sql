@@ -0,0 +1,219 @@
+-- Lessons now wait for the teacher: new bookings start as pending and the
+-- teacher confirms, declines, proposes a new time or cancels them. Students
+-- accept or turn down a proposed time. Status changes only go through the
+-- functions below, so neither side can confirm a lesson on their own.
+ALTER TABLE public.class_bookings
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ADD CONSTRAINT class_bookings_status_check CHECK (status IN ('pending', 'confirmed', 'declined', 'cancelled')),
+  ADD COLUMN proposed_date date,
+  ADD COLUMN proposed_start_time time,
+  ADD COLUMN proposed_end_time time,
+  ADD COLUMN proposal_note text CHECK (char_length(proposal_note) <= 500),
+  ADD COLUMN cancelled_at timestamptz,
+  ADD COLUMN cancelled_by text CHECK (cancelled_by IN ('teacher', 'student')),
+  ADD COLUMN cancellation_reason text CHECK (char_length(cancellation_reason) <= 500),
+  ADD CONSTRAINT class_bookings_proposal_complete CHECK (
+    (proposed_date IS NULL) = (proposed_start_time IS NULL)
+    AND (proposed_date IS NULL) = (proposed_end_time IS NULL)
+    AND (proposal_note IS NULL OR proposed_date IS NOT NULL)
+  );
+
+COMMENT ON COLUMN public.class_bookings.cancellation_reason IS
+  'Why the teacher declined or either side cancelled the lesson.';
+
+CREATE INDEX class_bookings_class_date_idx ON public.class_bookings (class_id, booking_date);
+
+DROP POLICY IF EXISTS "Users can update their own bookings" ON public.class_bookings;
+DROP POLICY IF EXISTS "Class owners can update bookings" ON public.class_bookings;
+
+DROP POLICY IF EXISTS "Authenticated users can create bookings" ON public.class_bookings;
+CREATE POLICY "Authenticated users can create bookings"
+ON public.class_bookings FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'pending'
+  AND proposed_date IS NULL
+  AND cancelled_at IS NULL
+);
+
+-- Teacher (or admin) actions on a lesson: confirm, decline, reschedule or
+-- cancel. Reschedule proposes the new date and times to the student rather
+-- than moving the lesson. Returns the lesson's status afterwards.
+CREATE OR REPLACE FUNCTION public.manage_class_booking(
+  _booking_id uuid,
+  _action text,
+  _reason text DEFAULT NULL,
+  _new_date date DEFAULT NULL,
+  _new_start_time time DEFAULT NULL,
+  _new_end_time time DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking class_bookings%ROWTYPE;
+  _class classes%ROWTYPE;
+  _now timestamp;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to manage lessons';
+  END IF;
+
+  SELECT * INTO _booking FROM class_bookings WHERE id = _booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  SELECT * INTO _class FROM classes WHERE id = _booking.class_id;
+  IF _class.user_id <> auth.uid() AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the teacher can manage this lesson';
+  END IF;
+
+  IF _booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This lesson has already been %', _booking.status;
+  END IF;
+
+  _reason := NULLIF(btrim(left(_reason, 500)), '');
+
+  IF _action = 'confirm' THEN
+    IF _booking.status <> 'pending' THEN
+      RAISE EXCEPTION 'This lesson is already confirmed';
+    END IF;
+    UPDATE class_bookings
+    SET status = 'confirmed',
+        proposed_date = NULL,
+        proposed_start_time = NULL,
+        proposed_end_time = NULL,
+        proposal_note = NULL
+    WHERE id = _booking_id;
+    RETURN 'confirmed';
+
+  ELSIF _action = 'decline' THEN
+    IF _booking.status <> 'pending' THEN
+      RAISE EXCEPTION 'Confirmed lessons are cancelled, not declined';
+    END IF;
+    UPDATE class_bookings
+    SET status = 'declined',
+        cancellation_reason = _reason,
+        proposed_date = NULL,
+        proposed_start_time = NULL,
+        proposed_end_time = NULL,
+        proposal_note = NULL
+    WHERE id = _booking_id;
+    RETURN 'declined';
+
+  ELSIF _action = 'cancel' THEN
+    UPDATE class_bookings
+    SET status = 'cancelled',
+        cancelled_at = now(),
+        cancelled_by = 'teacher',
+        cancellation_reason = _reason,
+        proposed_date = NULL,
+        proposed_start_time = NULL,
+        proposed_end_time = NULL,
+        proposal_note = NULL
+    WHERE id = _booking_id;
+    RETURN 'cancelled';
+
+  ELSIF _action = 'reschedule' THEN
+    IF _new_date IS NULL OR _new_start_time IS NULL OR _new_end_time IS NULL THEN
+      RAISE EXCEPTION 'Choose the new date and times';
+    END IF;
+    IF _new_end_time = _new_start_time THEN
+      RAISE EXCEPTION 'The lesson needs to end after it starts';
+    END IF;
+
+    -- Times are wall-clock times in the class's zone
+    _now := CASE WHEN _class.time_zone IS NOT NULL THEN now() AT TIME ZONE _class.time_zone ELSE LOCALTIMESTAMP END;
+    IF _new_date + _new_start_time <= _now THEN
+      RAISE EXCEPTION 'The new time has to be in the future';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM class_bookings
+      WHERE class_id = _booking.class_id
+        AND id <> _booking_id
+        AND status IN ('pending', 'confirmed')
+        AND booking_date = _new_date
+        AND start_time = _new_start_time
+    ) THEN
+      RAISE EXCEPTION 'Another lesson is already booked at that time';
+    END IF;
+
+    UPDATE class_bookings
+    SET proposed_date = _new_date,
+        proposed_start_time = _new_start_time,
+        proposed_end_time = _new_end_time,
+        proposal_note = _reason
+    WHERE id = _booking_id;
+    RETURN _booking.status;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown action %', _action;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.manage_class_booking(uuid, text, text, date, time, time) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.manage_class_booking(uuid, text, text, date, time, time) TO authenticated;
+
+-- The student's answer to a proposed time. Accepting moves and confirms the
+-- lesson; turning it down cancels it, since the old time no longer works.
+CREATE OR REPLACE FUNCTION public.respond_to_class_reschedule(_booking_id uuid, _accept boolean)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking class_bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to answer the new time';
+  END IF;
+
+  SELECT * INTO _booking
+  FROM class_bookings
+  WHERE id = _booking_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  IF _booking.proposed_date IS NULL OR _booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'There''s no new time waiting for an answer';
+  END IF;
+
+  IF _accept THEN
+    UPDATE class_bookings
+    SET status = 'confirmed',
+        booking_date = proposed_date,
+        start_time = proposed_start_time,
+        end_time = proposed_end_time,
+        proposed_date = NULL,
+        proposed_start_time = NULL,
+        proposed_end_time = NULL,
+        proposal_note = NULL
+    WHERE id = _booking_id;
+    RETURN 'confirmed';
+  END IF;
+
+  UPDATE class_bookings
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancelled_by = 'student',
+      proposed_date = NULL,
+      proposed_start_time = NULL,
+      proposed_end_time = NULL,
+      proposal_note = NULL
+  WHERE id = _booking_id;
+  RETURN 'cancelled';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.respond_to_class_reschedule(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.respond_to_class_reschedule(uuid, boolean) TO authenticated;
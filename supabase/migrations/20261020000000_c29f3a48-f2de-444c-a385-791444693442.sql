@@ -0,0 +1,105 @@
+-- Recurring lesson plans: a student books the same slot weekly or every two
+-- weeks, for a number of sessions or until a date. The book-class-lessons
+-- function checks every occurrence before creating the series and its lessons.
+CREATE TABLE public.class_booking_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  interval_weeks integer NOT NULL CHECK (interval_weeks IN (1, 2)),
+  session_count integer CHECK (session_count BETWEEN 2 AND 26),
+  end_date date,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT class_booking_series_one_end CHECK ((session_count IS NULL) <> (end_date IS NULL))
+);
+
+ALTER TABLE public.class_booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own lesson series"
+ON public.class_booking_series FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Class owners can view lesson series for their classes"
+ON public.class_booking_series FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.classes
+  WHERE classes.id = class_booking_series.class_id
+  AND classes.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all lesson series"
+ON public.class_booking_series FOR SELECT
+USING (is_admin(auth.uid()));
+
+ALTER TABLE public.class_bookings
+  ADD COLUMN series_id uuid REFERENCES public.class_booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX class_bookings_series_idx ON public.class_bookings (series_id) WHERE series_id IS NOT NULL;
+
+-- Cancels one upcoming lesson, or every upcoming lesson in its series. Works
+-- for the student who booked and for the teacher (or an admin). Returns the
+-- ids of the lessons it cancelled.
+CREATE OR REPLACE FUNCTION public.cancel_class_lessons(
+  _booking_id uuid,
+  _whole_series boolean DEFAULT false,
+  _reason text DEFAULT NULL
+)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking class_bookings%ROWTYPE;
+  _class classes%ROWTYPE;
+  _cancelled_by text;
+  _now timestamp;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to cancel a lesson';
+  END IF;
+
+  SELECT * INTO _booking FROM class_bookings WHERE id = _booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  SELECT * INTO _class FROM classes WHERE id = _booking.class_id;
+
+  IF _booking.user_id = auth.uid() THEN
+    _cancelled_by := 'student';
+  ELSIF _class.user_id = auth.uid() OR is_admin(auth.uid()) THEN
+    _cancelled_by := 'teacher';
+  ELSE
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  IF _whole_series AND _booking.series_id IS NULL THEN
+    RAISE EXCEPTION 'This lesson isn''t part of a series';
+  END IF;
+
+  -- Times are wall-clock times in the class's zone
+  _now := CASE WHEN _class.time_zone IS NOT NULL THEN now() AT TIME ZONE _class.time_zone ELSE LOCALTIMESTAMP END;
+
+  RETURN QUERY
+  UPDATE class_bookings
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancelled_by = _cancelled_by,
+      cancellation_reason = NULLIF(btrim(left(_reason, 500)), ''),
+      proposed_date = NULL,
+      proposed_start_time = NULL,
+      proposed_end_time = NULL,
+      proposal_note = NULL
+  WHERE status IN ('pending', 'confirmed')
+    AND booking_date + start_time > _now
+    AND CASE WHEN _whole_series THEN series_id = _booking.series_id ELSE id = _booking_id END
+  RETURNING id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There are no upcoming lessons to cancel';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_class_lessons(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_class_lessons(uuid, boolean, text) TO authenticated;
@@ -0,0 +1,256 @@
+-- Lesson packages: a teacher sells bundles of lessons ("10 lessons for $X")
+-- on their classes. Buying one adds credits to the student's balance with that
+-- teacher; each lesson booked with a credit uses one, and a declined or
+-- cancelled lesson gives it back. Credits can expire.
+CREATE TABLE public.lesson_packages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  lesson_count integer NOT NULL CHECK (lesson_count BETWEEN 1 AND 100),
+  price numeric(10,2) NOT NULL CHECK (price > 0),
+  -- Days the credits stay valid after purchase; NULL means they never expire
+  valid_days integer CHECK (valid_days BETWEEN 1 AND 730),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX lesson_packages_class_idx ON public.lesson_packages (class_id);
+
+ALTER TABLE public.lesson_packages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active lesson packages"
+ON public.lesson_packages FOR SELECT
+USING (is_active);
+
+CREATE POLICY "Class owners can view their lesson packages"
+ON public.lesson_packages FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.classes
+  WHERE classes.id = lesson_packages.class_id
+  AND classes.user_id = auth.uid()
+));
+
+CREATE POLICY "Class owners can create lesson packages"
+ON public.lesson_packages FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.classes
+  WHERE classes.id = lesson_packages.class_id
+  AND (classes.user_id = auth.uid() OR is_admin(auth.uid()))
+));
+
+CREATE POLICY "Class owners can update their lesson packages"
+ON public.lesson_packages FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.classes
+  WHERE classes.id = lesson_packages.class_id
+  AND (classes.user_id = auth.uid() OR is_admin(auth.uid()))
+));
+
+CREATE POLICY "Admins can view all lesson packages"
+ON public.lesson_packages FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_lesson_packages_updated_at
+BEFORE UPDATE ON public.lesson_packages
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- One row per package bought. The package's terms are copied so later edits
+-- don't change what the student paid for. Only the payment functions write here.
+CREATE TABLE public.lesson_credit_purchases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id uuid REFERENCES public.lesson_packages(id) ON DELETE SET NULL,
+  teacher_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  package_name text NOT NULL,
+  credits integer NOT NULL CHECK (credits > 0),
+  credits_remaining integer NOT NULL DEFAULT 0,
+  amount numeric(10,2) NOT NULL,
+  valid_days integer,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'cancelled')),
+  paid_at timestamptz,
+  expires_at timestamptz,
+  stripe_checkout_session_id text,
+  stripe_payment_intent_id text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT lesson_credit_purchases_remaining CHECK (credits_remaining BETWEEN 0 AND credits)
+);
+
+CREATE INDEX lesson_credit_purchases_balance_idx
+ON public.lesson_credit_purchases (user_id, teacher_id)
+WHERE status = 'paid';
+
+ALTER TABLE public.lesson_credit_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own lesson credits"
+ON public.lesson_credit_purchases FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Teachers can view credits bought from them"
+ON public.lesson_credit_purchases FOR SELECT
+USING (auth.uid() = teacher_id);
+
+CREATE POLICY "Admins can view all lesson credits"
+ON public.lesson_credit_purchases FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_lesson_credit_purchases_updated_at
+BEFORE UPDATE ON public.lesson_credit_purchases
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Every change to a balance: credits bought, used by a lesson, or given back
+CREATE TABLE public.lesson_credit_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_id uuid NOT NULL REFERENCES public.lesson_credit_purchases(id) ON DELETE CASCADE,
+  teacher_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  booking_id uuid REFERENCES public.class_bookings(id) ON DELETE SET NULL,
+  change integer NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('purchase', 'booking', 'refund')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX lesson_credit_ledger_teacher_idx ON public.lesson_credit_ledger (teacher_id, created_at DESC);
+CREATE INDEX lesson_credit_ledger_user_idx ON public.lesson_credit_ledger (user_id, created_at DESC);
+
+ALTER TABLE public.lesson_credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit history"
+ON public.lesson_credit_ledger FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Teachers can view their credit ledger"
+ON public.lesson_credit_ledger FOR SELECT
+USING (auth.uid() = teacher_id);
+
+CREATE POLICY "Admins can view all credit history"
+ON public.lesson_credit_ledger FOR SELECT
+USING (is_admin(auth.uid()));
+
+ALTER TABLE public.class_bookings
+  ADD COLUMN credit_purchase_id uuid REFERENCES public.lesson_credit_purchases(id) ON DELETE SET NULL;
+
+-- Marks a package purchase paid and adds its credits. Returns false when the
+-- purchase was already settled, so webhook retries are harmless.
+CREATE OR REPLACE FUNCTION public.grant_package_credits(
+  _purchase_id uuid,
+  _checkout_session_id text DEFAULT NULL,
+  _payment_intent_id text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _purchase lesson_credit_purchases%ROWTYPE;
+BEGIN
+  UPDATE lesson_credit_purchases
+  SET status = 'paid',
+      credits_remaining = credits,
+      paid_at = now(),
+      expires_at = CASE WHEN valid_days IS NOT NULL THEN now() + make_interval(days => valid_days) END,
+      stripe_checkout_session_id = COALESCE(_checkout_session_id, stripe_checkout_session_id),
+      stripe_payment_intent_id = COALESCE(_payment_intent_id, stripe_payment_intent_id)
+  WHERE id = _purchase_id
+    AND status = 'pending'
+  RETURNING * INTO _purchase;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO lesson_credit_ledger (purchase_id, teacher_id, user_id, change, reason)
+  VALUES (_purchase.id, _purchase.teacher_id, _purchase.user_id, _purchase.credits, 'purchase');
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_package_credits(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.grant_package_credits(uuid, text, text) TO service_role;
+
+-- Pays for lessons with the student's credits, one each, taking credits that
+-- expire soonest first. A credit has to still be valid when the lesson starts.
+-- Raises without using any credit if the balance doesn't cover every lesson.
+CREATE OR REPLACE FUNCTION public.use_lesson_credits(_booking_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking record;
+  _purchase_id uuid;
+BEGIN
+  FOR _booking IN
+    SELECT b.id, b.user_id, c.user_id AS teacher_id,
+      (b.booking_date + b.start_time) AT TIME ZONE COALESCE(c.time_zone, 'UTC') AS starts_at
+    FROM class_bookings b
+    JOIN classes c ON c.id = b.class_id
+    WHERE b.id = ANY(_booking_ids)
+      AND b.credit_purchase_id IS NULL
+    ORDER BY b.booking_date, b.start_time
+  LOOP
+    SELECT id INTO _purchase_id
+    FROM lesson_credit_purchases
+    WHERE user_id = _booking.user_id
+      AND teacher_id = _booking.teacher_id
+      AND status = 'paid'
+      AND credits_remaining > 0
+      AND (expires_at IS NULL OR expires_at > _booking.starts_at)
+    ORDER BY expires_at NULLS LAST, created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'You don''t have enough lesson credits with this teacher';
+    END IF;
+
+    UPDATE lesson_credit_purchases SET credits_remaining = credits_remaining - 1 WHERE id = _purchase_id;
+    UPDATE class_bookings SET credit_purchase_id = _purchase_id WHERE id = _booking.id;
+
+    INSERT INTO lesson_credit_ledger (purchase_id, teacher_id, user_id, booking_id, change, reason)
+    VALUES (_purchase_id, _booking.teacher_id, _booking.user_id, _booking.id, -1, 'booking');
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.use_lesson_credits(uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.use_lesson_credits(uuid[]) TO service_role;
+
+-- A declined, cancelled or deleted lesson gives its credit back
+CREATE OR REPLACE FUNCTION public.refund_lesson_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.credit_purchase_id IS NULL OR OLD.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.status NOT IN ('declined', 'cancelled') THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE lesson_credit_purchases
+  SET credits_remaining = credits_remaining + 1
+  WHERE id = OLD.credit_purchase_id;
+
+  INSERT INTO lesson_credit_ledger (purchase_id, teacher_id, user_id, booking_id, change, reason)
+  SELECT p.id, p.teacher_id, p.user_id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.id END, 1, 'refund'
+  FROM lesson_credit_purchases p
+  WHERE p.id = OLD.credit_purchase_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refund_lesson_credit
+AFTER UPDATE OF status OR DELETE ON public.class_bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.refund_lesson_credit();
@@ -0,0 +1,333 @@
+-- Group class terms: a teacher runs a group class in terms (e.g. "Spring
+-- 2027", Jan 10 – Mar 28). Students enroll for a whole term; once it's full
+-- they join a waitlist and move up as seats open. The teacher marks who
+-- attended each weekly session.
+CREATE TABLE public.class_terms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  -- Seats for this term; NULL falls back to the class's max_capacity
+  capacity integer CHECK (capacity > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT class_terms_dates CHECK (end_date >= start_date AND end_date - start_date <= 365)
+);
+
+CREATE INDEX class_terms_class_idx ON public.class_terms (class_id, start_date);
+
+ALTER TABLE public.class_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view class terms"
+ON public.class_terms FOR SELECT
+USING (true);
+
+CREATE POLICY "Class owners can manage their terms"
+ON public.class_terms FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.classes
+  WHERE classes.id = class_terms.class_id
+  AND (classes.user_id = auth.uid() OR is_admin(auth.uid()))
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.classes
+  WHERE classes.id = class_terms.class_id
+  AND (classes.user_id = auth.uid() OR is_admin(auth.uid()))
+));
+
+CREATE TRIGGER update_class_terms_updated_at
+BEFORE UPDATE ON public.class_terms
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Enrollments are written by the RPCs below, which enforce capacity
+CREATE TABLE public.class_enrollments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  term_id uuid NOT NULL REFERENCES public.class_terms(id) ON DELETE CASCADE,
+  class_id uuid NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  student_name text NOT NULL,
+  student_email text NOT NULL,
+  status text NOT NULL CHECK (status IN ('enrolled', 'waitlisted', 'cancelled')),
+  promoted_at timestamptz,
+  cancelled_at timestamptz,
+  cancelled_by text CHECK (cancelled_by IN ('teacher', 'student')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX class_enrollments_active_idx
+ON public.class_enrollments (term_id, user_id)
+WHERE status <> 'cancelled';
+
+CREATE INDEX class_enrollments_term_idx ON public.class_enrollments (term_id, status, created_at);
+CREATE INDEX class_enrollments_user_idx ON public.class_enrollments (user_id);
+
+ALTER TABLE public.class_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own enrollments"
+ON public.class_enrollments FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Class owners can view enrollments for their classes"
+ON public.class_enrollments FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.classes
+  WHERE classes.id = class_enrollments.class_id
+  AND classes.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all enrollments"
+ON public.class_enrollments FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE TRIGGER update_class_enrollments_updated_at
+BEFORE UPDATE ON public.class_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TABLE public.class_attendance (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  enrollment_id uuid NOT NULL REFERENCES public.class_enrollments(id) ON DELETE CASCADE,
+  session_date date NOT NULL,
+  status text NOT NULL CHECK (status IN ('present', 'absent', 'excused')),
+  marked_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT class_attendance_once UNIQUE (enrollment_id, session_date)
+);
+
+ALTER TABLE public.class_attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own attendance"
+ON public.class_attendance FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.class_enrollments
+  WHERE class_enrollments.id = class_attendance.enrollment_id
+  AND class_enrollments.user_id = auth.uid()
+));
+
+-- Teachers mark attendance for enrolled students on days within the term
+CREATE POLICY "Class owners can manage attendance"
+ON public.class_attendance FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.class_enrollments e
+  JOIN public.classes c ON c.id = e.class_id
+  WHERE e.id = class_attendance.enrollment_id
+  AND (c.user_id = auth.uid() OR is_admin(auth.uid()))
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.class_enrollments e
+  JOIN public.classes c ON c.id = e.class_id
+  JOIN public.class_terms t ON t.id = e.term_id
+  WHERE e.id = class_attendance.enrollment_id
+  AND e.status = 'enrolled'
+  AND class_attendance.session_date BETWEEN t.start_date AND t.end_date
+  AND (c.user_id = auth.uid() OR is_admin(auth.uid()))
+));
+
+CREATE TRIGGER update_class_attendance_updated_at
+BEFORE UPDATE ON public.class_attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Seat counts per term, for anyone browsing the class. Rosters stay private.
+CREATE OR REPLACE FUNCTION public.class_term_seats(_class_id uuid)
+RETURNS TABLE (term_id uuid, enrolled integer, waitlisted integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id,
+    (count(*) FILTER (WHERE e.status = 'enrolled'))::integer,
+    (count(*) FILTER (WHERE e.status = 'waitlisted'))::integer
+  FROM class_terms t
+  LEFT JOIN class_enrollments e ON e.term_id = t.id
+  WHERE t.class_id = _class_id
+  GROUP BY t.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.class_term_seats(uuid) TO anon, authenticated;
+
+-- Moves the longest-waiting students into open seats. Returns the ids of the
+-- enrollments it promoted. Callers must hold the term's row lock.
+CREATE OR REPLACE FUNCTION public.fill_class_term(_term_id uuid)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _capacity integer;
+  _enrolled integer;
+BEGIN
+  SELECT COALESCE(t.capacity, c.max_capacity) INTO _capacity
+  FROM class_terms t
+  JOIN classes c ON c.id = t.class_id
+  WHERE t.id = _term_id;
+
+  SELECT count(*) INTO _enrolled
+  FROM class_enrollments
+  WHERE term_id = _term_id AND status = 'enrolled';
+
+  RETURN QUERY
+  UPDATE class_enrollments
+  SET status = 'enrolled', promoted_at = now()
+  WHERE id IN (
+    SELECT id FROM class_enrollments
+    WHERE term_id = _term_id AND status = 'waitlisted'
+    ORDER BY created_at
+    LIMIT CASE WHEN _capacity IS NULL THEN NULL ELSE GREATEST(_capacity - _enrolled, 0) END
+  )
+  RETURNING id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fill_class_term(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Enrolls the signed-in student in a term, or puts them on its waitlist when
+-- every seat is taken.
+CREATE OR REPLACE FUNCTION public.enroll_in_class_term(
+  _term_id uuid,
+  _student_name text,
+  _student_email text
+)
+RETURNS TABLE (enrollment_id uuid, enrollment_status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _term class_terms%ROWTYPE;
+  _class classes%ROWTYPE;
+  _capacity integer;
+  _enrolled integer;
+  _waiting integer;
+  _status text;
+  _id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to enroll';
+  END IF;
+  IF char_length(btrim(COALESCE(_student_name, ''))) NOT BETWEEN 1 AND 100 THEN
+    RAISE EXCEPTION 'Enter your name';
+  END IF;
+  IF _student_email IS NULL OR btrim(_student_email) !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email';
+  END IF;
+
+  -- Locking the term serialises enrollments so seats can't be oversold
+  SELECT * INTO _term FROM class_terms WHERE id = _term_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Term not found';
+  END IF;
+
+  SELECT * INTO _class FROM classes WHERE id = _term.class_id;
+  IF _class.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t enroll in your own class';
+  END IF;
+  IF _term.end_date < (CASE WHEN _class.time_zone IS NOT NULL THEN now() AT TIME ZONE _class.time_zone ELSE LOCALTIMESTAMP END)::date THEN
+    RAISE EXCEPTION 'This term has ended';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM class_enrollments
+    WHERE term_id = _term_id AND user_id = auth.uid() AND status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'You''re already signed up for this term';
+  END IF;
+
+  _capacity := COALESCE(_term.capacity, _class.max_capacity);
+  SELECT count(*) FILTER (WHERE status = 'enrolled'), count(*) FILTER (WHERE status = 'waitlisted')
+  INTO _enrolled, _waiting
+  FROM class_enrollments
+  WHERE term_id = _term_id;
+
+  -- Nobody jumps the waitlist, even if a seat has just opened
+  _status := CASE WHEN _capacity IS NULL OR (_enrolled < _capacity AND _waiting = 0) THEN 'enrolled' ELSE 'waitlisted' END;
+
+  INSERT INTO class_enrollments (term_id, class_id, user_id, student_name, student_email, status)
+  VALUES (_term_id, _term.class_id, auth.uid(), btrim(_student_name), btrim(_student_email), _status)
+  RETURNING id INTO _id;
+
+  RETURN QUERY SELECT _id, _status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enroll_in_class_term(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.enroll_in_class_term(uuid, text, text) TO authenticated;
+
+-- Takes a student out of a term: the student leaving, or the teacher (or an
+-- admin) removing them. A freed seat goes to the waitlist; returns the ids of
+-- the enrollments promoted into it.
+CREATE OR REPLACE FUNCTION public.leave_class_term(_enrollment_id uuid)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _enrollment class_enrollments%ROWTYPE;
+  _class classes%ROWTYPE;
+  _cancelled_by text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in';
+  END IF;
+
+  SELECT * INTO _enrollment FROM class_enrollments WHERE id = _enrollment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Enrollment not found';
+  END IF;
+
+  SELECT * INTO _class FROM classes WHERE id = _enrollment.class_id;
+  IF _enrollment.user_id = auth.uid() THEN
+    _cancelled_by := 'student';
+  ELSIF _class.user_id = auth.uid() OR is_admin(auth.uid()) THEN
+    _cancelled_by := 'teacher';
+  ELSE
+    RAISE EXCEPTION 'Enrollment not found';
+  END IF;
+
+  PERFORM 1 FROM class_terms WHERE id = _enrollment.term_id FOR UPDATE;
+
+  UPDATE class_enrollments
+  SET status = 'cancelled', cancelled_at = now(), cancelled_by = _cancelled_by
+  WHERE id = _enrollment_id AND status <> 'cancelled';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This enrollment is already cancelled';
+  END IF;
+
+  RETURN QUERY SELECT * FROM fill_class_term(_enrollment.term_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.leave_class_term(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.leave_class_term(uuid) TO authenticated;
+
+-- Lets the teacher fill seats after raising a term's capacity
+CREATE OR REPLACE FUNCTION public.promote_class_waitlist(_term_id uuid)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM class_terms t
+    JOIN classes c ON c.id = t.class_id
+    WHERE t.id = _term_id
+    AND (c.user_id = auth.uid() OR is_admin(auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'Term not found';
+  END IF;
+
+  PERFORM 1 FROM class_terms WHERE id = _term_id FOR UPDATE;
+
+  RETURN QUERY SELECT * FROM fill_class_term(_term_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_class_waitlist(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.promote_class_waitlist(uuid) TO authenticated;
@@ -0,0 +1,66 @@
+-- Booking rules for 1-on-1 lessons. On top of the weekly availability a
+-- teacher can ask for notice before a lesson, limit how far ahead students
+-- book, keep a gap between lessons and cap the lessons in a day. Buffers and
+-- the daily cap count the teacher's lessons in all of their classes.
+ALTER TABLE public.classes
+  ADD COLUMN min_notice_hours integer NOT NULL DEFAULT 0 CHECK (min_notice_hours BETWEEN 0 AND 720),
+  ADD COLUMN booking_horizon_days integer NOT NULL DEFAULT 30 CHECK (booking_horizon_days BETWEEN 1 AND 365),
+  ADD COLUMN buffer_minutes integer NOT NULL DEFAULT 0 CHECK (buffer_minutes BETWEEN 0 AND 240),
+  ADD COLUMN daily_lesson_cap integer CHECK (daily_lesson_cap BETWEEN 1 AND 48);
+
+-- Dates that differ from the weekly availability, in the class's zone.
+-- 'unavailable' blocks whole days (a vacation) or the hours given on each
+-- of them; 'available' adds a window of slots on one date (an extra
+-- Saturday) alongside that day's usual availability.
+CREATE TABLE public.class_availability_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  class_id uuid NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('unavailable', 'available')),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  start_time time,
+  end_time time,
+  slot_duration_minutes integer CHECK (slot_duration_minutes BETWEEN 15 AND 240),
+  note text CHECK (char_length(note) <= 200),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT class_availability_overrides_dates CHECK (end_date >= start_date AND end_date - start_date <= 365),
+  CONSTRAINT class_availability_overrides_times CHECK (
+    (start_time IS NULL) = (end_time IS NULL)
+    AND (start_time IS NULL OR end_time > start_time)
+  ),
+  CONSTRAINT class_availability_overrides_available CHECK (
+    kind = 'unavailable'
+    OR (start_date = end_date AND start_time IS NOT NULL AND slot_duration_minutes IS NOT NULL)
+  )
+);
+
+CREATE INDEX class_availability_overrides_class_idx ON public.class_availability_overrides (class_id, end_date);
+
+ALTER TABLE public.class_availability_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view availability overrides"
+ON public.class_availability_overrides FOR SELECT
+USING (true);
+
+CREATE POLICY "Class owners can manage their availability overrides"
+ON public.class_availability_overrides FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.classes
+  WHERE classes.id = class_availability_overrides.class_id
+  AND (classes.user_id = auth.uid() OR is_admin(auth.uid()))
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.classes
+  WHERE classes.id = class_availability_overrides.class_id
+  AND (classes.user_id = auth.uid() OR is_admin(auth.uid()))
+));
+
+CREATE TRIGGER update_class_availability_overrides_updated_at
+BEFORE UPDATE ON public.class_availability_overrides
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Lessons are booked through the book-class-lessons function, which checks
+-- the rules above, so students no longer insert them directly
+DROP POLICY IF EXISTS "Authenticated users can create bookings" ON public.class_bookings;
@@ -0,0 +1,152 @@
+-- Online lesson rooms: each confirmed lesson of an online class gets its own
+-- meeting room, named with a random token so it can't be guessed. Rooms are
+-- kept out of class_bookings so students and teachers only get the link
+-- through get_lesson_room, shortly before the lesson.
+CREATE TABLE public.class_lesson_rooms (
+  booking_id uuid PRIMARY KEY REFERENCES public.class_bookings(id) ON DELETE CASCADE,
+  room text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- No policies: rooms are only read through the functions below
+ALTER TABLE public.class_lesson_rooms ENABLE ROW LEVEL SECURITY;
+
+-- When the reminder email for a lesson went out, so it's sent once
+ALTER TABLE public.class_bookings
+  ADD COLUMN reminder_sent_at timestamptz;
+
+CREATE INDEX class_bookings_reminder_idx
+ON public.class_bookings (booking_date)
+WHERE status = 'confirmed' AND reminder_sent_at IS NULL;
+
+-- A lesson moved to a new time is reminded again
+CREATE OR REPLACE FUNCTION public.reset_lesson_reminder()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.booking_date <> OLD.booking_date OR NEW.start_time <> OLD.start_time THEN
+    NEW.reminder_sent_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_lesson_reminder
+BEFORE UPDATE OF booking_date, start_time ON public.class_bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_lesson_reminder();
+
+-- The lesson's room, created the first time it's asked for. Returns NULL
+-- unless the lesson is confirmed and its class is online.
+CREATE OR REPLACE FUNCTION public.ensure_lesson_room(_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _room text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM class_bookings b
+    JOIN classes c ON c.id = b.class_id
+    WHERE b.id = _booking_id
+      AND b.status = 'confirmed'
+      AND c.class_type = 'online'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO class_lesson_rooms (booking_id, room)
+  VALUES (_booking_id, 'raagconnect-' || replace(gen_random_uuid()::text, '-', ''))
+  ON CONFLICT (booking_id) DO NOTHING;
+
+  SELECT room INTO _room FROM class_lesson_rooms WHERE booking_id = _booking_id;
+  RETURN _room;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_lesson_room(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ensure_lesson_room(uuid) TO service_role;
+
+-- The room for the student or teacher of a confirmed online lesson. It opens
+-- 15 minutes before the lesson starts and closes when it ends.
+CREATE OR REPLACE FUNCTION public.get_lesson_room(_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking class_bookings%ROWTYPE;
+  _class classes%ROWTYPE;
+  _now timestamp;
+  _starts_at timestamp;
+  _ends_at timestamp;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to join the lesson';
+  END IF;
+
+  SELECT * INTO _booking FROM class_bookings WHERE id = _booking_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  SELECT * INTO _class FROM classes WHERE id = _booking.class_id;
+
+  IF _booking.user_id <> auth.uid() AND _class.user_id <> auth.uid() AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  IF _class.class_type <> 'online' THEN
+    RAISE EXCEPTION 'This lesson isn''t online';
+  END IF;
+
+  IF _booking.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed lessons have a room';
+  END IF;
+
+  -- Times are wall-clock times in the class's zone
+  _now := CASE WHEN _class.time_zone IS NOT NULL THEN now() AT TIME ZONE _class.time_zone ELSE LOCALTIMESTAMP END;
+  _starts_at := _booking.booking_date + _booking.start_time;
+  _ends_at := _booking.booking_date + _booking.end_time
+    + CASE WHEN _booking.end_time <= _booking.start_time THEN interval '1 day' ELSE interval '0' END;
+
+  IF _now < _starts_at - interval '15 minutes' THEN
+    RAISE EXCEPTION 'The lesson room opens 15 minutes before the lesson';
+  END IF;
+
+  IF _now > _ends_at THEN
+    RAISE EXCEPTION 'This lesson has ended';
+  END IF;
+
+  RETURN ensure_lesson_room(_booking_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_lesson_room(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_lesson_room(uuid) TO authenticated;
+
+-- Rooms are made as lessons are confirmed; ensure_lesson_room also covers
+-- classes switched to online afterwards
+CREATE OR REPLACE FUNCTION public.create_lesson_room()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM ensure_lesson_room(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER create_lesson_room
+AFTER INSERT OR UPDATE OF status ON public.class_bookings
+FOR EACH ROW
+WHEN (NEW.status = 'confirmed')
+EXECUTE FUNCTION public.create_lesson_room();
@@ -0,0 +1,41 @@
+-- Buyers rename the tickets in their orders through this function rather
+-- than updating bookings directly, so no other ticket field is client-writable
+CREATE OR REPLACE FUNCTION public.rename_ticket(_booking_id uuid, _attendee_name text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _name text := btrim(COALESCE(_attendee_name, ''));
+  _booking bookings%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to rename this ticket';
+  END IF;
+
+  IF _name = '' THEN
+    RAISE EXCEPTION 'Attendee name is required';
+  ELSIF length(_name) > 100 THEN
+    RAISE EXCEPTION 'Attendee name must be 100 characters or less';
+  END IF;
+
+  SELECT * INTO _booking FROM bookings WHERE id = _booking_id FOR UPDATE;
+  IF NOT FOUND OR _booking.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF _booking.status IN ('cancelled', 'rejected') THEN
+    RAISE EXCEPTION 'This ticket is %', _booking.status;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM events e WHERE e.id = _booking.event_id AND e.date < CURRENT_DATE) THEN
+    RAISE EXCEPTION 'This event has already passed';
+  END IF;
+
+  UPDATE bookings SET attendee_name = _name WHERE id = _booking_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rename_ticket(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rename_ticket(uuid, text) TO authenticated;
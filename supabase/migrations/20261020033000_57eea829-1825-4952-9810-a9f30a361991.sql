@@ -0,0 +1,99 @@
+-- Claim tokens were issued with offers but never checked. Offers are held
+-- for the waitlisted account itself, so booking while signed in as it is
+-- what claims them.
+DROP FUNCTION public.get_my_waitlist_entry(uuid);
+
+-- The caller's active waitlist entry for an event, with their place in line
+CREATE FUNCTION public.get_my_waitlist_entry(_event_id uuid)
+RETURNS TABLE (
+  id uuid,
+  status text,
+  quantity integer,
+  waitlist_position integer,
+  offer_expires_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    w.id,
+    w.status,
+    w.quantity,
+    (
+      SELECT COUNT(*)::integer
+      FROM event_waitlist o
+      WHERE o.event_id = w.event_id
+        AND o.status = 'waiting'
+        AND o.created_at <= w.created_at
+    ) AS waitlist_position,
+    w.offer_expires_at
+  FROM event_waitlist w
+  WHERE w.event_id = _event_id
+    AND w.user_id = auth.uid()
+    AND (w.status = 'waiting' OR (w.status = 'offered' AND w.offer_expires_at > now()));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_waitlist_entry(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_waitlist_entry(uuid) TO authenticated;
+
+-- Expires lapsed offers, then offers freed seats to the next people in line
+-- (strictly first come, first served). Returns the entries that were offered
+-- a seat so the caller can email them.
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(_event_id uuid, _hold interval DEFAULT interval '24 hours')
+RETURNS SETOF public.event_waitlist
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _sold integer;
+  _free integer;
+  _entry event_waitlist%ROWTYPE;
+BEGIN
+  -- Lock the event so promotions can't race bookings for the same seats
+  SELECT * INTO _event FROM events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE event_waitlist
+  SET status = 'expired'
+  WHERE event_id = _event_id
+    AND status = 'offered'
+    AND offer_expires_at <= now();
+
+  IF _event.date < CURRENT_DATE OR _event.ticket_capacity IS NULL OR _event.ticket_capacity <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO _sold
+  FROM bookings
+  WHERE event_id = _event_id
+    AND status NOT IN ('cancelled', 'rejected');
+
+  _free := _event.ticket_capacity - _sold - event_held_seats(_event_id);
+
+  FOR _entry IN
+    SELECT * FROM event_waitlist
+    WHERE event_id = _event_id AND status = 'waiting'
+    ORDER BY created_at
+  LOOP
+    EXIT WHEN _entry.quantity > _free;
+
+    UPDATE event_waitlist
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = now() + _hold
+    WHERE id = _entry.id
+    RETURNING * INTO _entry;
+
+    _free := _free - _entry.quantity;
+    RETURN NEXT _entry;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.event_waitlist DROP COLUMN claim_token;
@@ -0,0 +1,316 @@
+-- Card and PayPal checkouts hold their tickets until they're paid or this
+-- passes. Stripe sessions close after 30 minutes; the rest leaves room for a
+-- late webhook or capture.
+ALTER TABLE public.orders ADD COLUMN expires_at timestamptz;
+
+CREATE INDEX orders_pending_expiry_idx
+ON public.orders (expires_at)
+WHERE status = 'pending' AND expires_at IS NOT NULL;
+
+-- Cancels checkouts that were never paid (their tickets follow via
+-- sync_order_booking_status). Booking runs it for the event first, and a
+-- scheduled job sweeps all events.
+CREATE OR REPLACE FUNCTION public.expire_pending_orders(_event_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired integer;
+BEGIN
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE status = 'pending'
+    AND expires_at <= now()
+    AND (_event_id IS NULL OR event_id = _event_id);
+
+  GET DIAGNOSTICS _expired = ROW_COUNT;
+  RETURN _expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_pending_orders(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_pending_orders(uuid) TO service_role;
+
+-- Booking sweeps the event's lapsed checkouts first and gives new card and
+-- PayPal checkouts their expiry
+CREATE OR REPLACE FUNCTION public.book_event_tickets(
+  _user_id uuid,
+  _event_id uuid,
+  _quantity integer,
+  _price_tier_id text DEFAULT NULL,
+  _proof_path text DEFAULT NULL,
+  _payment_method text DEFAULT 'direct',
+  _promo_code text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _tier jsonb;
+  _tier_quantity integer;
+  _pass_day date;
+  _price numeric;
+  _full_price numeric;
+  _promo event_promo_codes%ROWTYPE;
+  _is_free boolean;
+  _sold integer;
+  _attendee_name text;
+  _attendee_email text;
+  _status text;
+  _order_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to book this event';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity < 1 OR _quantity > 10 THEN
+    RAISE EXCEPTION 'You can book between 1 and 10 tickets at a time';
+  END IF;
+
+  IF _payment_method NOT IN ('direct', 'stripe', 'paypal') THEN
+    RAISE EXCEPTION 'Unsupported payment method';
+  END IF;
+
+  SELECT * INTO _event FROM events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  -- Abandoned card and PayPal checkouts don't hold seats past their expiry
+  PERFORM expire_pending_orders(_event_id);
+
+  IF COALESCE(_event.end_date, _event.date) < CURRENT_DATE THEN
+    RAISE EXCEPTION 'This event has already passed';
+  END IF;
+
+  IF _payment_method = 'stripe' AND NOT COALESCE(_event.use_stripe_checkout, false) THEN
+    RAISE EXCEPTION 'Card payments are not enabled for this event';
+  END IF;
+
+  IF _payment_method = 'paypal'
+     AND COALESCE(COALESCE(NULLIF(_event.payment_link, ''), '{}')::jsonb->>'paypal', '') = '' THEN
+    RAISE EXCEPTION 'PayPal is not enabled for this event';
+  END IF;
+
+  -- Work out the ticket price
+  IF jsonb_array_length(COALESCE(_event.price_tiers, '[]'::jsonb)) > 0 THEN
+    IF _price_tier_id IS NULL THEN
+      RAISE EXCEPTION 'Please select a ticket type';
+    END IF;
+
+    SELECT t INTO _tier
+    FROM jsonb_array_elements(_event.price_tiers) AS t
+    WHERE t->>'id' = _price_tier_id;
+
+    IF _tier IS NULL THEN
+      RAISE EXCEPTION 'Unknown ticket type for this event';
+    END IF;
+
+    IF COALESCE(_tier->>'endDate', '') <> '' AND (_tier->>'endDate')::date < CURRENT_DATE THEN
+      RAISE EXCEPTION '"%" tickets are no longer available', _tier->>'name';
+    END IF;
+
+    IF _tier->>'day' ~ '^\d{4}-\d{2}-\d{2}$' THEN
+      _pass_day := (_tier->>'day')::date;
+    END IF;
+
+    IF _pass_day NOT BETWEEN _event.date AND COALESCE(_event.end_date, _event.date) THEN
+      _pass_day := NULL;
+    ELSIF _pass_day < CURRENT_DATE THEN
+      RAISE EXCEPTION '"%" is for a day that has already passed', _tier->>'name';
+    END IF;
+
+    _price := CASE WHEN _tier->>'price' ~ '^\d+(\.\d+)?$' THEN (_tier->>'price')::numeric ELSE 0 END;
+  ELSE
+    _price_tier_id := NULL;
+    _price := COALESCE(_event.price, 0);
+  END IF;
+
+  IF COALESCE(btrim(_promo_code), '') <> '' THEN
+    _promo := find_promo_code(_event_id, _promo_code, _price_tier_id);
+    _full_price := _price;
+    _price := apply_promo_discount(_price, _promo.discount_type, _promo.discount_value);
+  END IF;
+
+  -- Capacity (the inventory trigger enforces this too, but this gives a clearer message)
+  IF _event.ticket_capacity IS NOT NULL AND _event.ticket_capacity > 0 THEN
+    SELECT COALESCE(MAX(s.sold), 0) INTO _sold
+    FROM event_day_sales(_event_id) s
+    WHERE _pass_day IS NULL OR s.day = _pass_day;
+
+    IF _sold >= _event.ticket_capacity THEN
+      RAISE EXCEPTION 'This event is sold out';
+    ELSIF _sold + _quantity > _event.ticket_capacity THEN
+      RAISE EXCEPTION 'Only % tickets remaining', _event.ticket_capacity - _sold;
+    END IF;
+  END IF;
+
+  IF _tier IS NOT NULL THEN
+    _tier_quantity := CASE WHEN _tier->>'quantity' ~ '^\d+$' THEN (_tier->>'quantity')::integer END;
+
+    IF _tier_quantity IS NOT NULL AND _tier_quantity > 0 THEN
+      SELECT COUNT(*) INTO _sold
+      FROM bookings
+      WHERE event_id = _event_id
+        AND price_tier_id = _price_tier_id
+        AND status NOT IN ('cancelled', 'rejected');
+
+      IF _sold >= _tier_quantity THEN
+        RAISE EXCEPTION '"%" tickets are sold out', _tier->>'name';
+      ELSIF _sold + _quantity > _tier_quantity THEN
+        RAISE EXCEPTION 'Only % "%" tickets remaining', _tier_quantity - _sold, _tier->>'name';
+      END IF;
+    END IF;
+  END IF;
+
+  -- Direct payments need a proof of payment uploaded to the booker's own folder.
+  -- Stripe and PayPal payments are confirmed by the provider instead.
+  _is_free := _price = 0;
+  IF _is_free OR _payment_method <> 'direct' THEN
+    _proof_path := NULL;
+  ELSIF COALESCE(_proof_path, '') = '' THEN
+    RAISE EXCEPTION 'Please upload proof of payment';
+  ELSIF split_part(_proof_path, '/', 1) <> _user_id::text THEN
+    RAISE EXCEPTION 'Invalid proof of payment';
+  END IF;
+
+  IF _is_free THEN
+    _payment_method := 'free';
+  END IF;
+
+  SELECT
+    COALESCE(NULLIF(u.email, ''), p.email),
+    COALESCE(NULLIF(p.full_name, ''), u.raw_user_meta_data->>'full_name', u.raw_user_meta_data->>'name')
+  INTO _attendee_email, _attendee_name
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.user_id = u.id
+  WHERE u.id = _user_id;
+
+  IF COALESCE(_attendee_name, '') = '' OR COALESCE(_attendee_email, '') = '' THEN
+    RAISE EXCEPTION 'Please complete your profile with name and email in Account Settings';
+  END IF;
+
+  _status := CASE WHEN _is_free THEN 'confirmed' ELSE 'pending' END;
+
+  INSERT INTO orders (
+    event_id, user_id, buyer_name, buyer_email, price_tier_id, quantity,
+    total_amount, payment_method, proof_of_payment_url, status,
+    promo_code_id, discount_amount, expires_at
+  )
+  VALUES (
+    _event_id, _user_id, _attendee_name, _attendee_email, _price_tier_id, _quantity,
+    _price * _quantity, _payment_method, _proof_path, _status,
+    _promo.id, COALESCE(_full_price - _price, 0) * _quantity,
+    CASE WHEN _status = 'pending' AND _payment_method <> 'direct' THEN now() + interval '45 minutes' END
+  )
+  RETURNING id INTO _order_id;
+
+  -- Tickets start out in the buyer's name; they can rename each one afterwards
+  INSERT INTO bookings (
+    order_id, event_id, user_id, attendee_name, attendee_email,
+    amount, price_tier_id, payment_method, status
+  )
+  SELECT
+    _order_id, _event_id, _user_id, _attendee_name, _attendee_email,
+    _price, _price_tier_id, _payment_method, _status
+  FROM generate_series(1, _quantity);
+
+  RETURN _order_id;
+END;
+$$;
+
+-- Held seats show up as sold to everyone except the person they're held for.
+-- Checkouts past their expiry are left out even before the sweep cancels them.
+CREATE OR REPLACE FUNCTION public.get_event_ticket_sales(_event_id uuid)
+RETURNS TABLE (price_tier_id text, sold integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.price_tier_id, COUNT(*)::integer AS sold
+  FROM bookings b
+  JOIN orders o ON o.id = b.order_id
+  WHERE b.event_id = _event_id
+    AND b.status NOT IN ('cancelled', 'rejected')
+    AND NOT (o.status = 'pending' AND o.expires_at <= now())
+  GROUP BY b.price_tier_id
+  UNION ALL
+  SELECT NULL, event_held_seats(_event_id, auth.uid())
+  WHERE event_held_seats(_event_id, auth.uid()) > 0;
+$$;
+
+-- Expires lapsed offers, then offers freed seats to the next people in line
+-- (strictly first come, first served). Returns the entries that were offered
+-- a seat so the caller can email them. Lapsed checkouts are cancelled first
+-- so their seats can be offered.
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(_event_id uuid, _hold interval DEFAULT interval '24 hours')
+RETURNS SETOF public.event_waitlist
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event events%ROWTYPE;
+  _sold integer;
+  _free integer;
+  _entry event_waitlist%ROWTYPE;
+BEGIN
+  -- Lock the event so promotions can't race bookings for the same seats
+  SELECT * INTO _event FROM events WHERE id = _event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM expire_pending_orders(_event_id);
+
+  UPDATE event_waitlist
+  SET status = 'expired'
+  WHERE event_id = _event_id
+    AND status = 'offered'
+    AND offer_expires_at <= now();
+
+  IF _event.date < CURRENT_DATE OR _event.ticket_capacity IS NULL OR _event.ticket_capacity <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO _sold
+  FROM bookings
+  WHERE event_id = _event_id
+    AND status NOT IN ('cancelled', 'rejected');
+
+  _free := _event.ticket_capacity - _sold - event_held_seats(_event_id);
+
+  FOR _entry IN
+    SELECT * FROM event_waitlist
+    WHERE event_id = _event_id AND status = 'waiting'
+    ORDER BY created_at
+  LOOP
+    EXIT WHEN _entry.quantity > _free;
+
+    UPDATE event_waitlist
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = now() + _hold
+    WHERE id = _entry.id
+    RETURNING * INTO _entry;
+
+    _free := _free - _entry.quantity;
+    RETURN NEXT _entry;
+  END LOOP;
+END;
+$$;
+
+-- Sweep abandoned checkouts even when nobody books the event afterwards
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-pending-orders',
+  '*/5 * * * *',
+  $$SELECT public.expire_pending_orders()$$
+);
@@ -0,0 +1,37 @@
+-- Issues a ticket code once a booking is confirmed. Ticket and check-in
+-- fields can only be changed by the server, never by a direct client update,
+-- and a client can't confirm, reprice or move a ticket to another order;
+-- those changes come from the order or the payment functions.
+CREATE OR REPLACE FUNCTION public.assign_ticket_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND current_user IN ('anon', 'authenticated') THEN
+    IF NEW.status IS DISTINCT FROM OLD.status
+       OR NEW.amount IS DISTINCT FROM OLD.amount
+       OR NEW.order_id IS DISTINCT FROM OLD.order_id THEN
+      RAISE EXCEPTION 'Ticket status, amount and order can''t be changed directly';
+    END IF;
+
+    NEW.ticket_code := OLD.ticket_code;
+    NEW.checked_in_at := OLD.checked_in_at;
+    NEW.checked_in_by := OLD.checked_in_by;
+  ELSIF TG_OP = 'INSERT' AND current_user IN ('anon', 'authenticated') THEN
+    NEW.ticket_code := NULL;
+    NEW.checked_in_at := NULL;
+    NEW.checked_in_by := NULL;
+  END IF;
+
+  IF NEW.status = 'confirmed' AND NEW.ticket_code IS NULL THEN
+    NEW.ticket_code := generate_ticket_code();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Attendees rename their tickets through rename_ticket; a direct update
+-- would let them confirm a pending ticket and be issued a code for it
+DROP POLICY IF EXISTS "Users can update their own bookings" ON public.bookings;
@@ -0,0 +1,303 @@
+-- A lesson's start and end as absolute times. Lesson times are wall-clock
+-- times in the class's zone; a lesson ending at or before its start runs
+-- past midnight.
+CREATE OR REPLACE FUNCTION public.lesson_time_range(_date date, _start_time time, _end_time time, _time_zone text)
+RETURNS tstzrange
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT tstzrange(
+    (_date + _start_time) AT TIME ZONE COALESCE(_time_zone, 'UTC'),
+    (_date + _end_time + CASE WHEN _end_time <= _start_time THEN interval '1 day' ELSE interval '0' END)
+      AT TIME ZONE COALESCE(_time_zone, 'UTC')
+  );
+$$;
+
+-- Serializes changes to a teacher's lesson times, so two bookings or moves
+-- can't both pass the conflict check for the same time. Held until the
+-- transaction ends.
+CREATE OR REPLACE FUNCTION public.lock_teacher_lessons(_teacher_id uuid)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT pg_advisory_xact_lock(hashtextextended('class_lessons:' || _teacher_id::text, 0));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_teacher_lessons(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Whether the teacher has a pending or confirmed lesson, in any of their
+-- classes, overlapping the range widened by _buffer_minutes on both sides
+CREATE OR REPLACE FUNCTION public.teacher_lesson_conflict(
+  _teacher_id uuid,
+  _range tstzrange,
+  _exclude_booking_id uuid DEFAULT NULL,
+  _buffer_minutes integer DEFAULT 0
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM class_bookings b
+    JOIN classes c ON c.id = b.class_id
+    WHERE c.user_id = _teacher_id
+      AND b.status IN ('pending', 'confirmed')
+      AND b.id IS DISTINCT FROM _exclude_booking_id
+      -- Zones put a lesson's date at most a day from the range's UTC dates
+      AND b.booking_date BETWEEN (lower(_range) AT TIME ZONE 'UTC')::date - 2 AND (upper(_range) AT TIME ZONE 'UTC')::date + 1
+      AND lesson_time_range(b.booking_date, b.start_time, b.end_time, c.time_zone)
+        && tstzrange(lower(_range) - make_interval(mins => _buffer_minutes), upper(_range) + make_interval(mins => _buffer_minutes))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.teacher_lesson_conflict(uuid, tstzrange, uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- Whether a lesson time lies inside one of the class's weekly availability
+-- windows or an extra date's window, and clear of time off. Classes that
+-- take their times from an iCal feed have no windows here, so any time passes.
+CREATE OR REPLACE FUNCTION public.class_time_available(_class_id uuid, _date date, _start_time time, _end_time time)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+      SELECT 1
+      FROM class_availability_overrides o
+      WHERE o.class_id = _class_id
+        AND o.kind = 'unavailable'
+        AND _date BETWEEN o.start_date AND o.end_date
+        AND (o.start_time IS NULL OR (_start_time < o.end_time AND (_end_time <= _start_time OR _end_time > o.start_time)))
+    )
+    AND (
+      NOT EXISTS (SELECT 1 FROM class_availability WHERE class_id = _class_id)
+      OR EXISTS (
+        SELECT 1
+        FROM class_availability a
+        WHERE a.class_id = _class_id
+          AND a.day_of_week = EXTRACT(DOW FROM _date)
+          AND _start_time >= a.start_time
+          AND _end_time > _start_time
+          AND _end_time <= a.end_time
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM class_availability_overrides o
+        WHERE o.class_id = _class_id
+          AND o.kind = 'available'
+          AND o.start_date = _date
+          AND _start_time >= o.start_time
+          AND _end_time > _start_time
+          AND _end_time <= o.end_time
+      )
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.class_time_available(uuid, date, time, time) FROM PUBLIC, anon, authenticated;
+
+-- Teacher (or admin) actions on a lesson: confirm, decline, reschedule or
+-- cancel. Reschedule proposes the new date and times to the student rather
+-- than moving the lesson. Returns the lesson's status afterwards.
+CREATE OR REPLACE FUNCTION public.manage_class_booking(
+  _booking_id uuid,
+  _action text,
+  _reason text DEFAULT NULL,
+  _new_date date DEFAULT NULL,
+  _new_start_time time DEFAULT NULL,
+  _new_end_time time DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking class_bookings%ROWTYPE;
+  _class classes%ROWTYPE;
+  _now timestamp;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to manage lessons';
+  END IF;
+
+  SELECT * INTO _booking FROM class_bookings WHERE id = _booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  SELECT * INTO _class FROM classes WHERE id = _booking.class_id;
+  IF _class.user_id <> auth.uid() AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only the teacher can manage this lesson';
+  END IF;
+
+  IF _booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This lesson has already been %', _booking.status;
+  END IF;
+
+  _reason := NULLIF(btrim(left(_reason, 500)), '');
+
+  IF _action = 'confirm' THEN
+    IF _booking.status <> 'pending' THEN
+      RAISE EXCEPTION 'This lesson is already confirmed';
+    END IF;
+    UPDATE class_bookings
+    SET status = 'confirmed',
+        proposed_date = NULL,
+        proposed_start_time = NULL,
+        proposed_end_time = NULL,
+        proposal_note = NULL
+    WHERE id = _booking_id;
+    RETURN 'confirmed';
+
+  ELSIF _action = 'decline' THEN
+    IF _booking.status <> 'pending' THEN
+      RAISE EXCEPTION 'Confirmed lessons are cancelled, not declined';
+    END IF;
+    UPDATE class_bookings
+    SET status = 'declined',
+        cancellation_reason = _reason,
+        proposed_date = NULL,
+        proposed_start_time = NULL,
+        proposed_end_time = NULL,
+        proposal_note = NULL
+    WHERE id = _booking_id;
+    RETURN 'declined';
+
+  ELSIF _action = 'cancel' THEN
+    UPDATE class_bookings
+    SET status = 'cancelled',
+        cancelled_at = now(),
+        cancelled_by = 'teacher',
+        cancellation_reason = _reason,
+        proposed_date = NULL,
+        proposed_start_time = NULL,
+        proposed_end_time = NULL,
+        proposal_note = NULL
+    WHERE id = _booking_id;
+    RETURN 'cancelled';
+
+  ELSIF _action = 'reschedule' THEN
+    IF _new_date IS NULL OR _new_start_time IS NULL OR _new_end_time IS NULL THEN
+      RAISE EXCEPTION 'Choose the new date and times';
+    END IF;
+    IF _new_end_time = _new_start_time THEN
+      RAISE EXCEPTION 'The lesson needs to end after it starts';
+    END IF;
+
+    -- Times are wall-clock times in the class's zone
+    _now := CASE WHEN _class.time_zone IS NOT NULL THEN now() AT TIME ZONE _class.time_zone ELSE LOCALTIMESTAMP END;
+    IF _new_date + _new_start_time <= _now THEN
+      RAISE EXCEPTION 'The new time has to be in the future';
+    END IF;
+
+    IF NOT class_time_available(_class.id, _new_date, _new_start_time, _new_end_time) THEN
+      RAISE EXCEPTION 'The new time is outside your availability';
+    END IF;
+
+    PERFORM lock_teacher_lessons(_class.user_id);
+    IF teacher_lesson_conflict(
+      _class.user_id,
+      lesson_time_range(_new_date, _new_start_time, _new_end_time, _class.time_zone),
+      _booking_id
+    ) THEN
+      RAISE EXCEPTION 'Another lesson is already booked at that time';
+    END IF;
+
+    UPDATE class_bookings
+    SET proposed_date = _new_date,
+        proposed_start_time = _new_start_time,
+        proposed_end_time = _new_end_time,
+        proposal_note = _reason
+    WHERE id = _booking_id;
+    RETURN _booking.status;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown action %', _action;
+  END IF;
+END;
+$$;
+
+-- The student's answer to a proposed time. Accepting moves and confirms the
+-- lesson; turning it down cancels it, since the old time no longer works.
+CREATE OR REPLACE FUNCTION public.respond_to_class_reschedule(_booking_id uuid, _accept boolean)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking class_bookings%ROWTYPE;
+  _class classes%ROWTYPE;
+  _now timestamp;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to answer the new time';
+  END IF;
+
+  SELECT * INTO _booking
+  FROM class_bookings
+  WHERE id = _booking_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  IF _booking.proposed_date IS NULL OR _booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'There''s no new time waiting for an answer';
+  END IF;
+
+  IF _accept THEN
+    SELECT * INTO _class FROM classes WHERE id = _booking.class_id;
+
+    -- The teacher's calendar may have changed since they proposed the time
+    _now := CASE WHEN _class.time_zone IS NOT NULL THEN now() AT TIME ZONE _class.time_zone ELSE LOCALTIMESTAMP END;
+    IF _booking.proposed_date + _booking.proposed_start_time <= _now THEN
+      RAISE EXCEPTION 'The new time has already passed';
+    END IF;
+
+    IF NOT class_time_available(_class.id, _booking.proposed_date, _booking.proposed_start_time, _booking.proposed_end_time) THEN
+      RAISE EXCEPTION 'The teacher is no longer available at the new time';
+    END IF;
+
+    PERFORM lock_teacher_lessons(_class.user_id);
+    IF teacher_lesson_conflict(
+      _class.user_id,
+      lesson_time_range(_booking.proposed_date, _booking.proposed_start_time, _booking.proposed_end_time, _class.time_zone),
+      _booking_id
+    ) THEN
+      RAISE EXCEPTION 'Another lesson has been booked at the new time';
+    END IF;
+
+    UPDATE class_bookings
+    SET status = 'confirmed',
+        booking_date = proposed_date,
+        start_time = proposed_start_time,
+        end_time = proposed_end_time,
+        proposed_date = NULL,
+        proposed_start_time = NULL,
+        proposed_end_time = NULL,
+        proposal_note = NULL
+    WHERE id = _booking_id;
+    RETURN 'confirmed';
+  END IF;
+
+  UPDATE class_bookings
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancelled_by = 'student',
+      proposed_date = NULL,
+      proposed_start_time = NULL,
+      proposed_end_time = NULL,
+      proposal_note = NULL
+  WHERE id = _booking_id;
+  RETURN 'cancelled';
+END;
+$$;
@@ -0,0 +1,85 @@
+-- Creates a student's lessons, and their series for a recurring plan, once
+-- book-class-lessons has checked them. Rechecks every lesson against the
+-- teacher's others, with the class's buffer and daily cap, while holding the
+-- teacher's lock, so two students booking the same time at once can't both
+-- get it. Only the service role may call this since it trusts _user_id.
+CREATE OR REPLACE FUNCTION public.book_class_lessons(
+  _class_id uuid,
+  _user_id uuid,
+  _availability_id uuid,
+  _student_name text,
+  _student_email text,
+  _notes text,
+  _dates date[],
+  _start_time time,
+  _end_time time,
+  _interval_weeks integer DEFAULT 0,
+  _session_count integer DEFAULT NULL,
+  _end_date date DEFAULT NULL
+)
+RETURNS SETOF public.class_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _class classes%ROWTYPE;
+  _date date;
+  _series_id uuid;
+  _zone text;
+BEGIN
+  SELECT * INTO _class FROM classes WHERE id = _class_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  _zone := COALESCE(_class.time_zone, 'UTC');
+
+  PERFORM lock_teacher_lessons(_class.user_id);
+
+  FOREACH _date IN ARRAY _dates LOOP
+    IF teacher_lesson_conflict(
+      _class.user_id,
+      lesson_time_range(_date, _start_time, _end_time, _class.time_zone),
+      NULL,
+      _class.buffer_minutes
+    ) THEN
+      RAISE EXCEPTION 'The lesson on % has just been booked', _date;
+    END IF;
+
+    -- Lessons a day count in all of the teacher's classes, by this class's date
+    IF _class.daily_lesson_cap IS NOT NULL AND (
+      SELECT COUNT(*)
+      FROM class_bookings b
+      JOIN classes c ON c.id = b.class_id
+      WHERE c.user_id = _class.user_id
+        AND b.status IN ('pending', 'confirmed')
+        AND b.booking_date BETWEEN _date - 1 AND _date + 1
+        AND (lower(lesson_time_range(b.booking_date, b.start_time, b.end_time, c.time_zone)) AT TIME ZONE _zone)::date = _date
+    ) >= _class.daily_lesson_cap THEN
+      RAISE EXCEPTION 'The teacher is fully booked on %', _date;
+    END IF;
+  END LOOP;
+
+  IF _interval_weeks > 0 THEN
+    INSERT INTO class_booking_series (class_id, user_id, interval_weeks, session_count, end_date)
+    VALUES (_class_id, _user_id, _interval_weeks, _session_count, _end_date)
+    RETURNING id INTO _series_id;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO class_bookings (
+    class_id, availability_id, user_id, student_name, student_email,
+    booking_date, start_time, end_time, notes, is_recurring, series_id
+  )
+  SELECT
+    _class_id, _availability_id, _user_id, _student_name, _student_email,
+    d, _start_time, _end_time, _notes, _series_id IS NOT NULL, _series_id
+  FROM unnest(_dates) AS d
+  ORDER BY d
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_class_lessons(uuid, uuid, uuid, text, text, text, date[], time, time, integer, integer, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.book_class_lessons(uuid, uuid, uuid, text, text, text, date[], time, time, integer, integer, date) TO service_role;
@@ -0,0 +1,38 @@
+-- A declined, cancelled or deleted lesson gives its credit back, as long as
+-- it hasn't started; a lesson that was taught keeps its credit
+CREATE OR REPLACE FUNCTION public.refund_lesson_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.credit_purchase_id IS NULL OR OLD.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.status NOT IN ('declined', 'cancelled') THEN
+    RETURN NULL;
+  END IF;
+  IF lower(lesson_time_range(
+    OLD.booking_date, OLD.start_time, OLD.end_time,
+    (SELECT time_zone FROM classes WHERE id = OLD.class_id)
+  )) <= now() THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE lesson_credit_purchases
+  SET credits_remaining = credits_remaining + 1
+  WHERE id = OLD.credit_purchase_id;
+
+  INSERT INTO lesson_credit_ledger (purchase_id, teacher_id, user_id, booking_id, change, reason)
+  SELECT p.id, p.teacher_id, p.user_id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.id END, 1, 'refund'
+  FROM lesson_credit_purchases p
+  WHERE p.id = OLD.credit_purchase_id;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Students cancel through cancel_class_lessons, which tells the teacher and
+-- only takes upcoming lessons, rather than deleting them
+DROP POLICY IF EXISTS "Users can delete their own bookings" ON public.class_bookings;
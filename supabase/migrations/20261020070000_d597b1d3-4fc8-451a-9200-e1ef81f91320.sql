@@ -0,0 +1,21 @@
+-- Lets buyers give back tickets held for a checkout they abandoned. A PayPal
+-- payment that is still settling can't be given back; paypal-webhook confirms
+-- or releases its order when PayPal reports back.
+CREATE OR REPLACE FUNCTION public.release_pending_order(_order_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE id = _order_id
+    AND user_id = auth.uid()
+    AND status = 'pending'
+    AND payment_method IN ('stripe', 'paypal')
+    AND paypal_capture_id IS NULL;
+
+  RETURN FOUND;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- The sales analytics views run as the caller (security_invoker), so
+-- organizers only see their own events' rows; grant them read access
+-- the way bookings_organizer_view is granted.
+GRANT SELECT ON public.event_sales_daily TO authenticated;
+GRANT SELECT ON public.event_tier_sales TO authenticated;
+GRANT SELECT ON public.event_sales_summary TO authenticated;
@@ -0,0 +1,29 @@
+-- send-booking-email now only takes enrollment emails from the student, the
+-- teacher or the service role. Students move up from a waitlist when someone
+-- else leaves, so their email goes out from here as the service role rather
+-- than from that person's browser. Uses the Vault secrets the lesson reminder
+-- job reads.
+CREATE OR REPLACE FUNCTION public.notify_class_waitlist_promoted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-booking-email',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('status', 'class_waitlist_promoted', 'enrollmentId', NEW.id)
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER class_enrollment_promoted_email
+AFTER UPDATE OF status ON public.class_enrollments
+FOR EACH ROW
+WHEN (OLD.status = 'waitlisted' AND NEW.status = 'enrolled')
+EXECUTE FUNCTION public.notify_class_waitlist_promoted();
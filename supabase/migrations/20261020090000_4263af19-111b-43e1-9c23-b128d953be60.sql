@@ -0,0 +1,90 @@
+-- Calendar passwords move into Vault, encrypted at rest; the table keeps only
+-- the id of each teacher's secret. Edge functions save and read them through
+-- the service-role functions below.
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+ALTER TABLE public.teacher_calendars ADD COLUMN password_secret_id uuid;
+
+UPDATE public.teacher_calendars
+SET password_secret_id = vault.create_secret(password, 'teacher_calendar_' || user_id);
+
+ALTER TABLE public.teacher_calendars ALTER COLUMN password_secret_id SET NOT NULL;
+ALTER TABLE public.teacher_calendars DROP COLUMN password;
+
+-- Connects a teacher's calendar, or replaces its URL and credentials
+CREATE OR REPLACE FUNCTION public.save_teacher_calendar(
+  _user_id uuid,
+  _calendar_url text,
+  _username text,
+  _password text,
+  _display_name text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _secret_id uuid;
+BEGIN
+  IF length(_password) > 500 THEN
+    RAISE EXCEPTION 'Password is too long';
+  END IF;
+
+  SELECT password_secret_id INTO _secret_id
+  FROM teacher_calendars
+  WHERE user_id = _user_id
+  FOR UPDATE;
+
+  IF _secret_id IS NULL THEN
+    _secret_id := vault.create_secret(_password, 'teacher_calendar_' || _user_id);
+  ELSE
+    PERFORM vault.update_secret(_secret_id, _password);
+  END IF;
+
+  INSERT INTO teacher_calendars (user_id, calendar_url, username, password_secret_id, display_name, last_error)
+  VALUES (_user_id, _calendar_url, _username, _secret_id, _display_name, NULL)
+  ON CONFLICT (user_id) DO UPDATE
+  SET calendar_url = EXCLUDED.calendar_url,
+    username = EXCLUDED.username,
+    display_name = EXCLUDED.display_name,
+    last_error = NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_teacher_calendar(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.save_teacher_calendar(uuid, text, text, text, text) TO service_role;
+
+-- A teacher's calendar with its password, for the functions that sync to it
+CREATE OR REPLACE FUNCTION public.get_teacher_calendar(_user_id uuid)
+RETURNS TABLE (calendar_url text, username text, password text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.calendar_url, t.username, s.decrypted_secret
+  FROM teacher_calendars t
+  JOIN vault.decrypted_secrets s ON s.id = t.password_secret_id
+  WHERE t.user_id = _user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_teacher_calendar(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_teacher_calendar(uuid) TO service_role;
+
+-- Disconnecting (or deleting the account) removes the stored password too
+CREATE OR REPLACE FUNCTION public.delete_teacher_calendar_secret()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM vault.secrets WHERE id = OLD.password_secret_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_teacher_calendar_secret
+AFTER DELETE ON public.teacher_calendars
+FOR EACH ROW EXECUTE FUNCTION public.delete_teacher_calendar_secret();
@@ -0,0 +1,131 @@
+-- Lessons reach teachers' connected calendars from the database instead of the
+-- browser, so every change is synced however it was made. Changes are sent to
+-- sync-class-bookings as the service role, using the Vault secrets the lesson
+-- reminder job reads. pg_net only sends the requests once the change commits.
+CREATE OR REPLACE FUNCTION public.request_class_booking_sync(_booking_ids uuid[], _removed_for_teacher uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_url text := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url');
+  _service_role_key text := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key');
+  _first integer;
+BEGIN
+  -- Without the secrets (e.g. a local database) there's nothing to call
+  IF coalesce(cardinality(_booking_ids), 0) = 0 OR _project_url IS NULL OR _service_role_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- sync-class-bookings takes up to 100 bookings per request
+  FOR _first IN 1..cardinality(_booking_ids) BY 100 LOOP
+    PERFORM net.http_post(
+      url := _project_url || '/functions/v1/sync-class-bookings',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || _service_role_key
+      ),
+      -- Deleted bookings can't be looked up any more, so name their teacher
+      body := jsonb_build_object('bookingIds', to_jsonb(_booking_ids[_first:_first + 99]))
+        || CASE WHEN _removed_for_teacher IS NULL THEN '{}'::jsonb
+           ELSE jsonb_build_object('remove', true, 'teacherId', _removed_for_teacher) END,
+      timeout_milliseconds := 30000
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_class_booking_sync(uuid[], uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.request_class_booking_sync(uuid[], uuid) TO service_role;
+
+-- Only confirmed lessons are on a calendar, so a change is synced when a lesson
+-- is or was confirmed and its status or time changed. Proposed times don't move
+-- the lesson until the student accepts them. Past lessons stay when deleted.
+CREATE OR REPLACE FUNCTION public.sync_class_bookings_to_calendar()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _removed record;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.request_class_booking_sync(array_agg(n.id))
+    FROM new_rows n
+    JOIN public.classes c ON c.id = n.class_id
+    JOIN public.teacher_calendars tc ON tc.user_id = c.user_id
+    WHERE n.status = 'confirmed';
+
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM public.request_class_booking_sync(array_agg(n.id))
+    FROM new_rows n
+    JOIN old_rows o ON o.id = n.id
+    JOIN public.classes c ON c.id = n.class_id
+    JOIN public.teacher_calendars tc ON tc.user_id = c.user_id
+    WHERE (o.status = 'confirmed' OR n.status = 'confirmed')
+      AND (o.status, o.booking_date, o.start_time, o.end_time)
+        IS DISTINCT FROM (n.status, n.booking_date, n.start_time, n.end_time);
+
+  ELSE
+    FOR _removed IN
+      SELECT c.user_id AS teacher_id, array_agg(o.id) AS booking_ids
+      FROM old_rows o
+      JOIN public.classes c ON c.id = o.class_id
+      JOIN public.teacher_calendars tc ON tc.user_id = c.user_id
+      WHERE o.status = 'confirmed' AND o.booking_date >= CURRENT_DATE
+      GROUP BY c.user_id
+    LOOP
+      PERFORM public.request_class_booking_sync(_removed.booking_ids, _removed.teacher_id);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER class_bookings_calendar_sync_insert
+AFTER INSERT ON public.class_bookings
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.sync_class_bookings_to_calendar();
+
+CREATE TRIGGER class_bookings_calendar_sync_update
+AFTER UPDATE ON public.class_bookings
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.sync_class_bookings_to_calendar();
+
+CREATE TRIGGER class_bookings_calendar_sync_delete
+AFTER DELETE ON public.class_bookings
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.sync_class_bookings_to_calendar();
+
+-- Bookings deleted along with their class have no class left to find their
+-- teacher by, so their lessons are removed before the class goes
+CREATE OR REPLACE FUNCTION public.remove_deleted_class_lessons()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.teacher_calendars WHERE user_id = OLD.user_id) THEN
+    PERFORM public.request_class_booking_sync(
+      ARRAY(
+        SELECT id FROM public.class_bookings
+        WHERE class_id = OLD.id AND status = 'confirmed' AND booking_date >= CURRENT_DATE
+      ),
+      OLD.user_id
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER classes_remove_calendar_lessons
+BEFORE DELETE ON public.classes
+FOR EACH ROW
+EXECUTE FUNCTION public.remove_deleted_class_lessons();